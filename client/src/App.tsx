@@ -7,6 +7,13 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "./pages/home";
 import { SetupPage } from "./pages/setup";
 import { LoginPage } from "./pages/login";
+import LivePage from "./pages/live";
+import UmpirePage from "./pages/umpire";
+import ScoreboardPage from "./pages/scoreboard";
+import TournamentsPage from "./pages/tournaments";
+import TournamentPage from "./pages/tournament";
+import PlayerPage from "./pages/player";
+import AdminPage from "./pages/admin";
 import NotFound from "./pages/not-found";
 import Navbar from "@/components/navbar";
 import type { AuthUser } from "@shared/schema";
@@ -102,9 +109,26 @@ function AuthWrapper() {
         <Switch>
           <Route path="/" component={() => <Home currentUser={user} activeTab="players" />} />
           <Route path="/players" component={() => <Home currentUser={user} activeTab="players" />} />
+          <Route path="/players/:id">
+            {(params) => <PlayerPage id={parseInt(params.id)} />}
+          </Route>
           <Route path="/matches" component={() => <Home currentUser={user} activeTab="matches" />} />
           <Route path="/stats" component={() => <Home currentUser={user} activeTab="stats" />} />
           <Route path="/pairs" component={() => <Home currentUser={user} activeTab="pairs" />} />
+          <Route path="/sessions" component={() => <Home currentUser={user} activeTab="sessions" />} />
+          <Route path="/ladder" component={() => <Home currentUser={user} activeTab="ladder" />} />
+          <Route path="/live" component={() => <LivePage currentUser={user} />} />
+          <Route path="/live/:id/umpire">
+            {(params) => <UmpirePage id={parseInt(params.id)} currentUser={user} />}
+          </Route>
+          <Route path="/live/:id">
+            {(params) => <ScoreboardPage id={parseInt(params.id)} />}
+          </Route>
+          <Route path="/tournaments" component={() => <TournamentsPage currentUser={user} />} />
+          <Route path="/tournaments/:id">
+            {(params) => <TournamentPage id={parseInt(params.id)} currentUser={user} />}
+          </Route>
+          <Route path="/admin" component={() => <AdminPage currentUser={user} />} />
           <Route component={NotFound} />
         </Switch>
       </div>
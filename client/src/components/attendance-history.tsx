@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import type { Player, PlayerAttendance } from "@shared/schema";
+
+interface AttendanceHistoryProps {
+  player: Player;
+}
+
+export default function AttendanceHistory({ player }: AttendanceHistoryProps) {
+  const { data: attendance, isLoading } = useQuery<PlayerAttendance>({
+    queryKey: ["/api/players", player.id, "attendance"],
+  });
+
+  if (isLoading || !attendance) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div>
+          <div className="text-lg font-bold text-blue-600">{attendance.sessionsAttended}</div>
+          <div className="text-xs text-gray-500">Nights attended</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-gray-600">{attendance.attendanceRate}%</div>
+          <div className="text-xs text-gray-500">of {attendance.totalSessions} sessions</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-gray-600">
+            {attendance.lastAttended ? format(new Date(attendance.lastAttended), "d MMM") : "-"}
+          </div>
+          <div className="text-xs text-gray-500">Last attended</div>
+        </div>
+      </div>
+
+      {attendance.history.length === 0 ? (
+        <p className="text-sm text-gray-600 text-center py-4">{player.name} hasn't checked in to any sessions yet.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+          {attendance.history.map(record => (
+            <div key={record.sessionId} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <div className="font-medium text-gray-900">{format(new Date(record.date), "EEE, d MMM yyyy")}</div>
+                <div className="text-xs text-gray-500">
+                  {record.venue} • in {format(new Date(record.checkedInAt), "HH:mm")}
+                  {record.checkedOutAt && `, out ${format(new Date(record.checkedOutAt), "HH:mm")}`}
+                </div>
+              </div>
+              <Badge variant="outline" className="text-xs">{record.matchesPlayed} matches</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { ClubImportReport } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+
+// Problems and conflicts listed under the dry run summary; the rest are counted
+const SHOWN_ITEMS = 10;
+
+const createdLabels: Array<[keyof ClubImportReport["created"], string]> = [
+  ["players", "players"],
+  ["sessions", "sessions"],
+  ["attendees", "check-ins"],
+  ["matches", "matches"],
+  ["skillLevelChanges", "skill level changes"],
+  ["skillProposals", "skill proposals"],
+  ["tournaments", "tournaments"],
+  ["tournamentTeams", "tournament teams"],
+  ["tournamentMatches", "tournament draw matches"],
+  ["ladders", "ladders"],
+  ["ladderEntries", "ladder rungs"],
+  ["challenges", "challenges"],
+];
+
+export default function ClubImport() {
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<unknown>(null);
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (data: unknown): Promise<ClubImportReport> => {
+      const response = await apiRequest("POST", "/api/import/dry-run", data);
+      return await response.json();
+    },
+    onError: (error) => {
+      toast({ title: "This file can't be imported", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (data: unknown): Promise<ClubImportReport> => {
+      const response = await apiRequest("POST", "/api/import", data);
+      return await response.json();
+    },
+    onSuccess: (report) => {
+      // Players, matches, sessions, settings and stats may all have changed
+      queryClient.invalidateQueries();
+      setArchive(null);
+      dryRunMutation.reset();
+      toast({ title: `Imported ${report.created.players} players and ${report.created.matches} matches` });
+    },
+    onError: (error) => {
+      toast({ title: "Import failed", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    dryRunMutation.reset();
+    setArchive(null);
+    if (!file) return;
+
+    try {
+      const data = JSON.parse(await file.text());
+      setArchive(data);
+      dryRunMutation.mutate(data);
+    } catch {
+      toast({ title: "Not a club archive", description: "Choose a .json file downloaded from this page.", variant: "destructive" });
+    }
+  };
+
+  const report = dryRunMutation.data;
+  const additions = report ? createdLabels.filter(([key]) => report.created[key] > 0) : [];
+  const changesSomething = additions.length > 0 || !!report?.conflicts.some(conflict => conflict.kind === "settings");
+
+  return (
+    <div className="space-y-4">
+      <Input
+        type="file"
+        accept="application/json,.json"
+        disabled={dryRunMutation.isPending || importMutation.isPending}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {dryRunMutation.isPending && <p className="text-sm text-gray-600">Checking archive...</p>}
+
+      {report && (
+        <div className="space-y-3 text-sm">
+          {report.errors.length > 0 ? (
+            <div>
+              <p className="font-medium text-red-600 mb-1">The archive has {report.errors.length} problem{report.errors.length === 1 ? "" : "s"} and can't be imported</p>
+              <ul className="list-disc pl-5 text-gray-600">
+                {report.errors.slice(0, SHOWN_ITEMS).map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+              {report.errors.length > SHOWN_ITEMS && (
+                <p className="text-gray-500 mt-1">and {report.errors.length - SHOWN_ITEMS} more</p>
+              )}
+            </div>
+          ) : (
+            <p className="font-medium text-gray-900">
+              {additions.length === 0
+                ? "Everything in this archive is already here"
+                : `Will add ${additions.map(([key, label]) => `${report.created[key]} ${label}`).join(", ")}`}
+            </p>
+          )}
+
+          {report.conflicts.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900 mb-1">Overlaps with this club ({report.conflicts.length})</p>
+              <ul className="list-disc pl-5 text-gray-600">
+                {report.conflicts.slice(0, SHOWN_ITEMS).map((conflict, index) => <li key={index}>{conflict.message}</li>)}
+              </ul>
+              {report.conflicts.length > SHOWN_ITEMS && (
+                <p className="text-gray-500 mt-1">and {report.conflicts.length - SHOWN_ITEMS} more</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              disabled={report.errors.length > 0 || !changesSomething || importMutation.isPending}
+              onClick={() => importMutation.mutate(archive)}
+            >
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Link } from "wouter";
+import type { PlayerConnection } from "@shared/schema";
+
+interface ConnectionsTableProps {
+  connections: PlayerConnection[];
+  emptyMessage: string;
+}
+
+export function formatRatingDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export default function ConnectionsTable({ connections, emptyMessage }: ConnectionsTableProps) {
+  if (connections.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b">
+            <th className="py-2 pr-2 font-medium">Player</th>
+            <th className="py-2 px-2 font-medium text-center">W-L</th>
+            <th className="py-2 px-2 font-medium text-center">Win %</th>
+            <th className="py-2 px-2 font-medium text-center">Pt Diff</th>
+            <th className="py-2 pl-2 font-medium text-center">Rating</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {connections.map(connection => (
+            <tr key={connection.playerId}>
+              <td className="py-2 pr-2">
+                <Link href={`/players/${connection.playerId}`} className="font-medium text-gray-900 hover:underline">
+                  {connection.name}
+                </Link>
+              </td>
+              <td className="py-2 px-2 text-center tabular-nums">{connection.wins}-{connection.losses}</td>
+              <td className="py-2 px-2 text-center tabular-nums">{connection.winRate}%</td>
+              <td className={`py-2 px-2 text-center tabular-nums ${connection.pointDifference >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {connection.pointDifference >= 0 ? "+" : ""}{connection.pointDifference}
+              </td>
+              <td className={`py-2 pl-2 text-center tabular-nums ${connection.ratingDelta >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatRatingDelta(connection.ratingDelta)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Shuffle, RefreshCw, ClipboardPen, CheckCircle } from "lucide-react";
+import MatchForm from "./match-form";
+import type { Player, SessionDetails, CourtSchedule as Schedule, ScheduledGame } from "@shared/schema";
+
+interface CourtScheduleProps {
+  session: SessionDetails;
+  players: Player[];
+}
+
+export default function CourtSchedule({ session, players }: CourtScheduleProps) {
+  const { toast } = useToast();
+  const [rounds, setRounds] = useState("6");
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [recordedGames, setRecordedGames] = useState<Set<string>>(new Set());
+  const [recording, setRecording] = useState<{ key: string; game: ScheduledGame } | null>(null);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/schedule/generate", {
+        sessionId: session.id,
+        rounds: parseInt(rounds),
+      });
+      return await response.json() as Schedule;
+    },
+    onSuccess: (data) => {
+      setSchedule(data);
+      setRecordedGames(new Set());
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to generate rotation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+
+  // Someone arrived or left since the rotation was generated
+  const attendanceChanged = !!schedule && (
+    schedule.playerIds.length !== session.presentIds.length ||
+    schedule.playerIds.some(id => !session.presentIds.includes(id))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <CardTitle>Court Rotation</CardTitle>
+          <div className="flex space-x-2">
+            <Select value={rounds} onValueChange={setRounds}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[3, 4, 6, 8, 10, 12].map(count => (
+                  <SelectItem key={count} value={count.toString()}>{count} rounds</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending || session.presentIds.length < 4}
+            >
+              {schedule ? <RefreshCw className="h-4 w-4 mr-1" /> : <Shuffle className="h-4 w-4 mr-1" />}
+              {schedule ? "Regenerate" : "Generate"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!schedule ? (
+          <p className="text-sm text-gray-500">
+            {session.presentIds.length < 4
+              ? "At least 4 players need to check in before games can be scheduled."
+              : `Schedule doubles games for the ${session.presentIds.length} players here tonight across ${session.courtCount} ${session.courtCount === 1 ? "court" : "courts"}.`}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {attendanceChanged && (
+              <div className="flex items-center justify-between rounded-md bg-yellow-50 border border-yellow-200 p-3 text-sm text-yellow-800">
+                <span>Attendance has changed since this rotation was generated.</span>
+                <Button size="sm" variant="outline" onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Regenerate
+                </Button>
+              </div>
+            )}
+            {schedule.rounds.map(round => (
+              <div key={round.round} className="border rounded-md">
+                <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b">
+                  <span className="font-medium text-gray-900">Round {round.round}</span>
+                  {round.sittingOut.length > 0 && (
+                    <span className="text-xs text-gray-500">Sitting out: {round.sittingOut.map(playerName).join(", ")}</span>
+                  )}
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {round.games.map(game => {
+                    const key = `${round.round}-${game.court}`;
+                    const recorded = recordedGames.has(key);
+                    return (
+                      <div key={key} className="flex items-center justify-between px-4 py-2 text-sm">
+                        <div className="flex items-center space-x-3">
+                          <Badge variant="outline" className="text-xs shrink-0">Court {game.court}</Badge>
+                          <div>
+                            <span className="text-gray-900">{playerName(game.teamA[0])} & {playerName(game.teamA[1])}</span>
+                            <span className="text-gray-400 mx-2">vs</span>
+                            <span className="text-gray-900">{playerName(game.teamB[0])} & {playerName(game.teamB[1])}</span>
+                            <div className="text-xs text-gray-500">Skill {game.teamASkill} vs {game.teamBSkill}</div>
+                          </div>
+                        </div>
+                        {recorded ? (
+                          <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+                        ) : (
+                          <Button variant="ghost" size="sm" className="shrink-0" onClick={() => setRecording({ key, game })}>
+                            <ClipboardPen className="h-4 w-4 mr-1" />
+                            Record
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={recording !== null} onOpenChange={(open) => !open && setRecording(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Record Match</DialogTitle>
+          </DialogHeader>
+          {recording && (
+            <MatchForm
+              key={recording.key}
+              preselectedTeamA={recording.game.teamA}
+              preselectedTeamB={recording.game.teamB}
+              sessionId={session.id}
+              onSuccess={() => {
+                setRecordedGames(prev => new Set(prev).add(recording.key));
+                setRecording(null);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { insertLadderSchema, matchFormats, matchFormatLabels, type InsertLadder, type Ladder } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface LadderFormProps {
+  onSuccess: (ladder: Ladder) => void;
+  onCancel: () => void;
+}
+
+export default function LadderForm({ onSuccess, onCancel }: LadderFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertLadder>({
+    resolver: zodResolver(insertLadderSchema),
+    defaultValues: {
+      name: "",
+      matchFormat: "doubles",
+      challengeRange: 3,
+      challengeDays: 7,
+    },
+  });
+
+  const createLadderMutation = useMutation({
+    mutationFn: async (data: InsertLadder) => {
+      const response = await apiRequest("POST", "/api/ladders", data);
+      return await response.json() as Ladder;
+    },
+    onSuccess: (ladder) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ladders"] });
+      toast({ title: "Ladder created successfully" });
+      onSuccess(ladder);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create ladder", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => createLadderMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Singles Ladder" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="matchFormat"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Event</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {matchFormats.map(matchFormat => (
+                    <SelectItem key={matchFormat} value={matchFormat}>
+                      {matchFormatLabels[matchFormat]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="challengeRange"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Challenge up to (rungs)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="10"
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="challengeDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Days to play</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="60"
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={createLadderMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={createLadderMutation.isPending}>
+            {createLadderMutation.isPending ? "Creating..." : "Create Ladder"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
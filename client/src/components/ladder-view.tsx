@@ -0,0 +1,461 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ListOrdered, Plus, Trash2, X, Swords, Check, ClipboardPen } from "lucide-react";
+import LadderForm from "./ladder-form";
+import MatchForm from "./match-form";
+import { matchFormatLabels, teamPlayerIds, teamSizeOf, type AuthUser, type Challenge, type ChallengeStatus, type LadderDetails, type LadderEntry, type LadderSummary, type Player } from "@shared/schema";
+
+interface LadderViewProps {
+  currentUser: AuthUser | null;
+  players: Player[];
+}
+
+const challengeStatusLabels: Record<ChallengeStatus, string> = {
+  pending: "Awaiting reply",
+  accepted: "Accepted",
+  declined: "Declined",
+  completed: "Played",
+  forfeited: "Forfeited",
+  expired: "Lapsed",
+};
+
+const isOpen = (challenge: Challenge) => challenge.status === "pending" || challenge.status === "accepted";
+
+export default function LadderView({ currentUser, players }: LadderViewProps) {
+  const { toast } = useToast();
+  const [selectedLadderId, setSelectedLadderId] = useState<number | null>(null);
+  const [ladderFormOpen, setLadderFormOpen] = useState(false);
+  const [entry, setEntry] = useState<string[]>(["", ""]);
+  const [managerChallenge, setManagerChallenge] = useState({ challenger: "", defender: "" });
+  const [recording, setRecording] = useState<Challenge | null>(null);
+  const isManager = currentUser?.role === "manager";
+
+  const { data: ladders = [], isLoading: laddersLoading } = useQuery<LadderSummary[]>({
+    queryKey: ["/api/ladders"],
+  });
+
+  const { data: ladder } = useQuery<LadderDetails>({
+    queryKey: ["/api/ladders", selectedLadderId],
+    enabled: selectedLadderId !== null,
+  });
+
+  useEffect(() => {
+    if (ladders.length > 0 && (selectedLadderId === null || !ladders.some(l => l.id === selectedLadderId))) {
+      setSelectedLadderId(ladders[0].id);
+    }
+  }, [ladders, selectedLadderId]);
+
+  const invalidateLadders = () => queryClient.invalidateQueries({ queryKey: ["/api/ladders"] });
+
+  const addEntryMutation = useMutation({
+    mutationFn: async (playerIds: number[]) => apiRequest("POST", `/api/ladders/${selectedLadderId}/entries`, { playerIds }),
+    onSuccess: () => {
+      invalidateLadders();
+      setEntry(["", ""]);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add to the ladder", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const removeEntryMutation = useMutation({
+    mutationFn: async (entryId: number) => apiRequest("DELETE", `/api/ladders/${selectedLadderId}/entries/${entryId}`),
+    onSuccess: invalidateLadders,
+    onError: () => {
+      toast({ title: "Failed to remove from the ladder", variant: "destructive" });
+    },
+  });
+
+  const deleteLadderMutation = useMutation({
+    mutationFn: async (ladderId: number) => apiRequest("DELETE", `/api/ladders/${ladderId}`),
+    onSuccess: () => {
+      invalidateLadders();
+      setSelectedLadderId(null);
+      toast({ title: "Ladder deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete ladder", variant: "destructive" });
+    },
+  });
+
+  const challengeMutation = useMutation({
+    mutationFn: async (data: { challengerEntryId: number; defenderEntryId: number }) =>
+      apiRequest("POST", `/api/ladders/${selectedLadderId}/challenges`, data),
+    onSuccess: () => {
+      invalidateLadders();
+      setManagerChallenge({ challenger: "", defender: "" });
+      toast({ title: "Challenge issued" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to issue challenge", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ challengeId, accept }: { challengeId: number; accept: boolean }) =>
+      apiRequest("POST", `/api/challenges/${challengeId}/${accept ? "accept" : "decline"}`),
+    onSuccess: (_, { accept }) => {
+      invalidateLadders();
+      toast({ title: accept ? "Challenge accepted" : "Challenge declined and forfeited" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to answer challenge", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+  const entryById = (entryId: number) => ladder?.entries.find(e => e.id === entryId);
+  const entryName = (entryId: number) => {
+    const ladderEntry = entryById(entryId);
+    return ladderEntry ? teamPlayerIds(ladderEntry).map(playerName).join(" & ") : "Withdrawn";
+  };
+  const isMember = (ladderEntry: LadderEntry | undefined) => !!currentUser && !!ladderEntry && teamPlayerIds(ladderEntry).includes(currentUser.id);
+
+  const openChallenges = ladder?.challenges.filter(isOpen) ?? [];
+  const settledChallenges = ladder?.challenges.filter(challenge => !isOpen(challenge)) ?? [];
+  const busyEntryIds = new Set(openChallenges.flatMap(challenge => [challenge.challengerEntryId, challenge.defenderEntryId]));
+  const myEntry = ladder?.entries.find(isMember);
+  const teamSize = ladder ? teamSizeOf(ladder.matchFormat) : 2;
+  const onLadderIds = ladder?.entries.flatMap(teamPlayerIds) ?? [];
+  const entryIds = entry.slice(0, teamSize).map(value => parseInt(value));
+
+  const canChallenge = (target: LadderEntry) =>
+    !!ladder && !!myEntry &&
+    !busyEntryIds.has(myEntry.id) && !busyEntryIds.has(target.id) &&
+    myEntry.position > target.position && myEntry.position - target.position <= ladder.challengeRange;
+
+  const recordingChallenger = recording ? entryById(recording.challengerEntryId) : undefined;
+  const recordingDefender = recording ? entryById(recording.defenderEntryId) : undefined;
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 space-y-4 sm:space-y-0">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Ladder</h2>
+          <p className="text-gray-600 mt-1">Challenge the players above you and take their rung</p>
+        </div>
+        <div className="flex w-full sm:w-auto space-x-2">
+          {ladders.length > 1 && (
+            <Select value={selectedLadderId?.toString() ?? ""} onValueChange={(value) => setSelectedLadderId(parseInt(value))}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Select ladder" />
+              </SelectTrigger>
+              <SelectContent>
+                {ladders.map(l => (
+                  <SelectItem key={l.id} value={l.id.toString()}>{l.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isManager && (
+            <Button className="bg-blue-600 hover:bg-blue-700" onClick={() => setLadderFormOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Ladder
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={ladderFormOpen} onOpenChange={setLadderFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Ladder</DialogTitle>
+          </DialogHeader>
+          <LadderForm
+            onSuccess={(created) => {
+              setLadderFormOpen(false);
+              setSelectedLadderId(created.id);
+            }}
+            onCancel={() => setLadderFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {laddersLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : ladders.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <ListOrdered className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No ladder yet</h3>
+            <p className="text-gray-600">
+              {isManager ? "Create a ladder and add players to get the challenges going." : "The ladder will appear here once a manager sets one up."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : ladder && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{ladder.name}</CardTitle>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {matchFormatLabels[ladder.matchFormat]} • challenge up to {ladder.challengeRange} {ladder.challengeRange === 1 ? "rung" : "rungs"} up • {ladder.challengeDays} days to play
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    A challenged side that declines, or doesn't answer in time, forfeits and the challengers take their rung.
+                  </p>
+                </div>
+                {isManager && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Ladder</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This removes the ladder and its challenges. Matches already recorded stay in the match history.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteLadderMutation.mutate(ladder.id)} className="bg-red-600 hover:bg-red-700">
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {ladder.entries.length === 0 ? (
+                <p className="text-sm text-gray-500">Nobody is on this ladder yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {ladder.entries.map(ladderEntry => (
+                    <div
+                      key={ladderEntry.id}
+                      className={`flex items-center justify-between p-2 border rounded-md ${ladderEntry.id === myEntry?.id ? "border-blue-300 bg-blue-50" : ""}`}
+                    >
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <span className="w-8 h-8 bg-gray-100 text-gray-700 rounded-full flex items-center justify-center text-sm font-semibold shrink-0">
+                          {ladderEntry.position}
+                        </span>
+                        <span className="text-sm font-medium text-gray-900 truncate">{entryName(ladderEntry.id)}</span>
+                        {busyEntryIds.has(ladderEntry.id) && <Swords className="h-4 w-4 text-orange-500 shrink-0" />}
+                      </div>
+                      <div className="flex items-center space-x-1 shrink-0">
+                        {canChallenge(ladderEntry) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={challengeMutation.isPending}
+                            onClick={() => challengeMutation.mutate({ challengerEntryId: myEntry!.id, defenderEntryId: ladderEntry.id })}
+                          >
+                            Challenge
+                          </Button>
+                        )}
+                        {isManager && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeEntryMutation.mutate(ladderEntry.id)}
+                            disabled={removeEntryMutation.isPending}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isManager && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {entry.slice(0, teamSize).map((value, index) => (
+                    <Select
+                      key={index}
+                      value={value}
+                      onValueChange={(playerId) => setEntry(current => current.map((v, i) => (i === index ? playerId : v)))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select player" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {players
+                          .filter(player => !onLadderIds.includes(player.id) && (player.id.toString() === value || !entry.includes(player.id.toString())))
+                          .map(player => (
+                            <SelectItem key={player.id} value={player.id.toString()}>
+                              {player.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                  <Button
+                    variant="outline"
+                    onClick={() => addEntryMutation.mutate(entryIds)}
+                    disabled={addEntryMutation.isPending || entryIds.some(Number.isNaN)}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Open Challenges</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {openChallenges.length === 0 ? (
+                  <p className="text-sm text-gray-500">No open challenges</p>
+                ) : (
+                  openChallenges.map(challenge => {
+                    const canRespond = challenge.status === "pending" && (isManager || isMember(entryById(challenge.defenderEntryId)));
+                    return (
+                      <div key={challenge.id} className="p-3 border rounded-lg space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="text-sm text-gray-900">
+                            <span className="font-medium">{entryName(challenge.challengerEntryId)}</span>
+                            <span className="text-gray-500"> challenged </span>
+                            <span className="font-medium">{entryName(challenge.defenderEntryId)}</span>
+                          </p>
+                          <Badge variant={challenge.status === "accepted" ? "default" : "secondary"} className="shrink-0">
+                            {challengeStatusLabels[challenge.status]}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {challenge.status === "pending" ? "Forfeited if declined or not answered" : "Lapses if not played"} {formatDistanceToNow(new Date(challenge.deadline), { addSuffix: true })}
+                        </p>
+                        {(canRespond || isManager) && (
+                          <div className="flex space-x-2">
+                            {canRespond && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  disabled={respondMutation.isPending}
+                                  onClick={() => respondMutation.mutate({ challengeId: challenge.id, accept: true })}
+                                >
+                                  <Check className="h-4 w-4 mr-1" />
+                                  Accept
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={respondMutation.isPending}
+                                  onClick={() => respondMutation.mutate({ challengeId: challenge.id, accept: false })}
+                                >
+                                  Decline
+                                </Button>
+                              </>
+                            )}
+                            {isManager && (
+                              <Button size="sm" variant="ghost" onClick={() => setRecording(challenge)}>
+                                <ClipboardPen className="h-4 w-4 mr-1" />
+                                Record
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+
+                {isManager && ladder.entries.length >= 2 && (
+                  <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t">
+                    <Select value={managerChallenge.challenger} onValueChange={(challenger) => setManagerChallenge(current => ({ ...current, challenger }))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Challenger" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ladder.entries.filter(e => e.position > 1).map(e => (
+                          <SelectItem key={e.id} value={e.id.toString()}>{e.position}. {entryName(e.id)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={managerChallenge.defender} onValueChange={(defender) => setManagerChallenge(current => ({ ...current, defender }))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Challenged" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ladder.entries.map(e => (
+                          <SelectItem key={e.id} value={e.id.toString()}>{e.position}. {entryName(e.id)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      disabled={challengeMutation.isPending || !managerChallenge.challenger || !managerChallenge.defender}
+                      onClick={() => challengeMutation.mutate({
+                        challengerEntryId: parseInt(managerChallenge.challenger),
+                        defenderEntryId: parseInt(managerChallenge.defender),
+                      })}
+                    >
+                      <Swords className="h-4 w-4 mr-1" />
+                      Issue
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Results</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {settledChallenges.length === 0 ? (
+                  <p className="text-sm text-gray-500">No challenges settled yet</p>
+                ) : (
+                  settledChallenges.map(challenge => (
+                    <div key={challenge.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-gray-900 truncate">
+                          {entryName(challenge.challengerEntryId)} <span className="text-gray-400">vs</span> {entryName(challenge.defenderEntryId)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {format(new Date(challenge.resolvedAt ?? challenge.issuedAt), "d MMM yyyy")}
+                          {challenge.winnerEntryId && ` • ${entryName(challenge.winnerEntryId)} won`}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="shrink-0">{challengeStatusLabels[challenge.status]}</Badge>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={recording !== null} onOpenChange={(open) => !open && setRecording(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Record Challenge Match</DialogTitle>
+          </DialogHeader>
+          {recording && recordingChallenger && recordingDefender && ladder && (
+            <MatchForm
+              key={recording.id}
+              preselectedTeamA={teamPlayerIds(recordingChallenger)}
+              preselectedTeamB={teamPlayerIds(recordingDefender)}
+              preselectedFormat={ladder.matchFormat}
+              onSuccess={() => setRecording(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
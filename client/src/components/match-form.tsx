@@ -1,27 +1,32 @@
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertMatchSchema, type Player, type InsertMatch, type DoublesTeam, type Match } from "@shared/schema";
+import { insertMatchSchema, gameScoresOf, isValidGameScore, summarizeGames, lineupError, matchFormats, matchFormatLabels, teamSizeOf, type Player, type InsertMatch, type MatchFormat, type DoublesTeam, type MatchDetails, type SessionSummary } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { useState, useEffect } from "react";
+import { format, isSameDay } from "date-fns";
 
 interface MatchFormProps {
-  preselectedTeamA?: [number, number];
+  preselectedTeamA?: number[];
+  preselectedTeamB?: number[];
+  preselectedFormat?: MatchFormat;
+  sessionId?: number;
   onSuccess: () => void;
   embedded?: boolean;
   availableTeams?: DoublesTeam[];
-  editingMatch?: Match | null;
-  onUpdate?: (data: Partial<Match>) => void;
+  editingMatch?: MatchDetails | null;
+  onUpdate?: (data: Partial<InsertMatch>) => void;
 }
 
-export default function MatchForm({ preselectedTeamA, onSuccess, embedded = false, availableTeams = [], editingMatch, onUpdate }: MatchFormProps) {
+export default function MatchForm({ preselectedTeamA, preselectedTeamB, preselectedFormat, sessionId, onSuccess, embedded = false, availableTeams: allTeams = [], editingMatch, onUpdate }: MatchFormProps) {
   const { toast } = useToast();
-  const [useTeamMode, setUseTeamMode] = useState(availableTeams.length >= 2);
+  const [useTeamMode, setUseTeamMode] = useState(allTeams.length >= 2 && !preselectedTeamB);
   const [selectedTeamA, setSelectedTeamA] = useState<DoublesTeam | null>(null);
   const [selectedTeamB, setSelectedTeamB] = useState<DoublesTeam | null>(null);
   
@@ -29,19 +34,51 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
     queryKey: ["/api/players"],
   });
 
+  const { data: sessions = [] } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/sessions"],
+  });
+
   const form = useForm<InsertMatch>({
     resolver: zodResolver(insertMatchSchema),
     defaultValues: {
-      teamAPlayer1Id: editingMatch?.teamAPlayer1Id || preselectedTeamA?.[0] || 0,
-      teamAPlayer2Id: editingMatch?.teamAPlayer2Id || preselectedTeamA?.[1] || 0,
-      teamBPlayer1Id: editingMatch?.teamBPlayer1Id || 0,
-      teamBPlayer2Id: editingMatch?.teamBPlayer2Id || 0,
-      teamAScore: editingMatch?.teamAScore || 0,
-      teamBScore: editingMatch?.teamBScore || 0,
-      winnerId: editingMatch?.winnerId || 1,
+      format: editingMatch?.format ?? preselectedFormat ?? "doubles",
+      teamA: editingMatch?.teamA ?? preselectedTeamA ?? [0, 0],
+      teamB: editingMatch?.teamB ?? preselectedTeamB ?? [0, 0],
+      games: editingMatch
+        ? gameScoresOf(editingMatch).map(({ teamAScore, teamBScore }) => ({ teamAScore, teamBScore }))
+        : [{ teamAScore: 0, teamBScore: 0 }],
+      sessionId: editingMatch ? editingMatch.sessionId : sessionId ?? null,
     },
   });
 
+  const { fields: gameFields, append: addGame, remove: removeGame } = useFieldArray({
+    control: form.control,
+    name: "games",
+  });
+
+  const teamSize = teamSizeOf(form.watch("format"));
+
+  // Once enough players have checked in to the selected session, only offer them
+  const selectedSessionId = form.watch("sessionId");
+  const { data: sessionPlayers = [] } = useQuery<Player[]>({
+    queryKey: ["/api/sessions", selectedSessionId, "available"],
+    enabled: !!selectedSessionId && !editingMatch,
+  });
+  const useSessionPool = !!selectedSessionId && !editingMatch && sessionPlayers.length >= teamSize * 2;
+  const playerPool = useSessionPool ? sessionPlayers : players;
+  const availableTeams = useSessionPool
+    ? allTeams.filter(team => playerPool.some(p => p.id === team.player1.id) && playerPool.some(p => p.id === team.player2.id))
+    : allTeams;
+
+  // New matches default to tonight's session, if one has been set up
+  useEffect(() => {
+    if (editingMatch || form.getValues("sessionId")) return;
+    const tonight = sessions.find(session => isSameDay(new Date(session.date), new Date()));
+    if (tonight) {
+      form.setValue("sessionId", tonight.id);
+    }
+  }, [sessions, editingMatch]);
+
   const createMatchMutation = useMutation({
     mutationFn: async (data: InsertMatch) => {
       const response = await apiRequest("POST", "/api/matches", data);
@@ -51,11 +88,17 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
       queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ladders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
       toast({ title: "Match recorded successfully" });
       if (!embedded) {
         onSuccess();
       }
-      form.reset();
+      // Keep the session selected so a night's matches can be entered one after another
+      form.reset({ ...form.formState.defaultValues, sessionId: form.getValues("sessionId") });
     },
     onError: (error: any) => {
       toast({ 
@@ -67,57 +110,63 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
   });
 
   const onSubmit = (data: InsertMatch) => {
-    // Validate that all players are selected and different
-    const playerIds = [data.teamAPlayer1Id, data.teamAPlayer2Id, data.teamBPlayer1Id, data.teamBPlayer2Id];
-    
     // Check if all players are selected (non-zero)
-    if (playerIds.some(id => !id || id === 0)) {
+    if ([...data.teamA, ...data.teamB].some(id => !id)) {
       toast({ 
         title: "Incomplete team selection", 
-        description: "Please select all four players",
+        description: "Please select a player for every position",
         variant: "destructive" 
       });
       return;
     }
     
-    // Check if all players are different
-    const uniquePlayerIds = new Set(playerIds);
-    if (uniquePlayerIds.size !== 4) {
+    // Check the line-up suits the format and all players are different
+    const lineupProblem = lineupError(data.format, data.teamA, data.teamB);
+    if (lineupProblem) {
       toast({ 
         title: "Invalid team selection", 
-        description: "All four players must be different",
+        description: lineupProblem,
         variant: "destructive" 
       });
       return;
     }
 
-    // Determine winner based on scores
-    const winnerId = data.teamAScore > data.teamBScore ? 1 : 2;
-    
-    // Handle edit vs create
+    // The winner is worked out from the games on the server
     if (editingMatch && onUpdate) {
-      onUpdate({ ...data, winnerId });
+      onUpdate(data);
     } else {
-      createMatchMutation.mutate({ ...data, winnerId });
+      createMatchMutation.mutate(data);
     }
   };
 
   const watchedValues = form.watch();
-  const selectedPlayerIds = new Set([
-    watchedValues.teamAPlayer1Id,
-    watchedValues.teamAPlayer2Id,
-    watchedValues.teamBPlayer1Id,
-    watchedValues.teamBPlayer2Id,
-  ].filter(id => id > 0));
+  const selectedPlayerIds = new Set([...watchedValues.teamA, ...watchedValues.teamB].filter(id => id > 0));
+  const canUseTeams = teamSize === 2 && availableTeams.length >= 2;
+
+  // Switching format keeps whoever has already been picked, trimming or padding each side to the new size
+  const handleFormatChange = (matchFormat: MatchFormat) => {
+    const size = teamSizeOf(matchFormat);
+    const resize = (team: number[]) => Array.from({ length: size }, (_, index) => team[index] ?? 0);
+    form.setValue("format", matchFormat);
+    form.setValue("teamA", resize(form.getValues("teamA")));
+    form.setValue("teamB", resize(form.getValues("teamB")));
+    setSelectedTeamA(null);
+    setSelectedTeamB(null);
+  };
+
+  // Preview the result once every game has a valid score
+  const matchResult = watchedValues.games?.length > 0 && watchedValues.games.every(game => isValidGameScore(game.teamAScore, game.teamBScore))
+    ? summarizeGames(watchedValues.games)
+    : null;
 
   const getAvailablePlayers = (excludeIds: number[] = []) => {
-    return players.filter(player => !excludeIds.includes(player.id));
+    return playerPool.filter(player => !excludeIds.includes(player.id));
   };
 
-  if (players.length < 4) {
+  if (players.length < 2) {
     return (
       <div className="text-center p-6">
-        <p className="text-gray-600">You need at least 4 players to record a match.</p>
+        <p className="text-gray-600">You need at least 2 players to record a match.</p>
         <p className="text-sm text-gray-500 mt-2">Add more players to get started.</p>
       </div>
     );
@@ -128,8 +177,7 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
     const team = availableTeams[parseInt(teamIndex)];
     if (team) {
       setSelectedTeamA(team);
-      form.setValue("teamAPlayer1Id", team.player1.id);
-      form.setValue("teamAPlayer2Id", team.player2.id);
+      form.setValue("teamA", [team.player1.id, team.player2.id]);
     }
   };
 
@@ -137,8 +185,7 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
     const team = availableTeams[parseInt(teamIndex)];
     if (team) {
       setSelectedTeamB(team);
-      form.setValue("teamBPlayer1Id", team.player1.id);
-      form.setValue("teamBPlayer2Id", team.player2.id);
+      form.setValue("teamB", [team.player1.id, team.player2.id]);
     }
   };
 
@@ -151,11 +198,102 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
     );
   };
 
+  const renderPlayerSelect = (team: "teamA" | "teamB", index: number) => {
+    const label = teamSize === 1 ? "Player" : `Player ${index + 1}`;
+    return (
+      <FormField
+        key={`${team}.${index}`}
+        control={form.control}
+        name={`${team}.${index}`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{label}</FormLabel>
+            <Select 
+              onValueChange={(value) => field.onChange(parseInt(value))} 
+              value={field.value ? field.value.toString() : ""}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select ${label}`} />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {getAvailablePlayers(Array.from(selectedPlayerIds).filter(id => id !== field.value)).map(player => (
+                  <SelectItem key={player.id} value={player.id.toString()}>
+                    {player.name} (Level {player.skillLevel})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {sessions.length > 0 && (
+          <FormField
+            control={form.control}
+            name="sessionId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Session</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                  value={field.value ? field.value.toString() : "none"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select session" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No session</SelectItem>
+                    {sessions.map(session => (
+                      <SelectItem key={session.id} value={session.id.toString()}>
+                        {format(new Date(session.date), "d MMM yyyy")} - {session.venue}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {useSessionPool && (
+                  <p className="text-xs text-gray-500">Choosing from the {sessionPlayers.length} players checked in to this session</p>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="format"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Format</FormLabel>
+              <Select onValueChange={(value) => handleFormatChange(value as MatchFormat)} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {matchFormats.map(matchFormat => (
+                    <SelectItem key={matchFormat} value={matchFormat}>{matchFormatLabels[matchFormat]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Mode Toggle */}
-        {availableTeams.length >= 2 && (
+        {canUseTeams && (
           <div className="flex items-center space-x-4 p-4 bg-gray-50 rounded-lg">
             <span className="text-sm font-medium">Selection Mode:</span>
             <Button
@@ -177,7 +315,7 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
           </div>
         )}
 
-        {useTeamMode && availableTeams.length >= 2 ? (
+        {useTeamMode && canUseTeams ? (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Team A Selection */}
             <div className="space-y-4">
@@ -264,214 +402,98 @@ export default function MatchForm({ preselectedTeamA, onSuccess, embedded = fals
                 <span className="w-8 h-8 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm mr-2">A</span>
                 Team A
               </h4>
-              
-              <FormField
-                control={form.control}
-                name="teamAPlayer1Id"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Player 1</FormLabel>
-                    <Select 
-                      onValueChange={(value) => field.onChange(parseInt(value))} 
-                      value={field.value?.toString()}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select Player 1" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {getAvailablePlayers(Array.from(selectedPlayerIds).filter(id => id !== field.value)).map(player => (
-                          <SelectItem key={player.id} value={player.id.toString()}>
-                            {player.name} (Level {player.skillLevel})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-              name="teamAPlayer2Id"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Player 2</FormLabel>
-                  <Select 
-                    onValueChange={(value) => field.onChange(parseInt(value))} 
-                    value={field.value?.toString()}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select Player 2" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {getAvailablePlayers(Array.from(selectedPlayerIds).filter(id => id !== field.value)).map(player => (
-                        <SelectItem key={player.id} value={player.id.toString()}>
-                          {player.name} (Level {player.skillLevel})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="teamAScore"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Score</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number" 
-                      placeholder="Team A Score" 
-                      min="0"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          </div>
-
-          {/* Team B */}
-          <div className="space-y-4">
-            <h4 className="font-medium text-gray-900 flex items-center">
-              <span className="w-8 h-8 bg-red-500 text-white rounded-full flex items-center justify-center text-sm mr-2">B</span>
-              Team B
-            </h4>
-            
-            <FormField
-              control={form.control}
-              name="teamBPlayer1Id"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Player 1</FormLabel>
-                  <Select 
-                    onValueChange={(value) => field.onChange(parseInt(value))} 
-                    value={field.value?.toString()}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select Player 1" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {getAvailablePlayers(Array.from(selectedPlayerIds).filter(id => id !== field.value)).map(player => (
-                        <SelectItem key={player.id} value={player.id.toString()}>
-                          {player.name} (Level {player.skillLevel})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="teamBPlayer2Id"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Player 2</FormLabel>
-                  <Select 
-                    onValueChange={(value) => field.onChange(parseInt(value))} 
-                    value={field.value?.toString()}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select Player 2" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {getAvailablePlayers(Array.from(selectedPlayerIds).filter(id => id !== field.value)).map(player => (
-                        <SelectItem key={player.id} value={player.id.toString()}>
-                          {player.name} (Level {player.skillLevel})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+              {Array.from({ length: teamSize }, (_, index) => renderPlayerSelect("teamA", index))}
+            </div>
 
-            <FormField
-              control={form.control}
-              name="teamBScore"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Score</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number" 
-                      placeholder="Team B Score" 
-                      min="0"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {/* Team B */}
+            <div className="space-y-4">
+              <h4 className="font-medium text-gray-900 flex items-center">
+                <span className="w-8 h-8 bg-red-500 text-white rounded-full flex items-center justify-center text-sm mr-2">B</span>
+                Team B
+              </h4>
+              {Array.from({ length: teamSize }, (_, index) => renderPlayerSelect("teamB", index))}
+            </div>
           </div>
-        </div>
         )}
 
-        {/* Score Entry for Team Mode */}
-        {useTeamMode && (selectedTeamA && selectedTeamB) && (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <FormField
-              control={form.control}
-              name="teamAScore"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Team A Score</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number" 
-                      placeholder="Team A Score" 
-                      min="0"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="teamBScore"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Team B Score</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number" 
-                      placeholder="Team B Score" 
-                      min="0"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+        {/* Games */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-900">Games</h4>
+            {gameFields.length < 3 && (
+              <Button type="button" variant="outline" size="sm" onClick={() => addGame({ teamAScore: 0, teamBScore: 0 })}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Game
+              </Button>
+            )}
           </div>
-        )}
+          {gameFields.map((gameField, index) => (
+            <div key={gameField.id} className="space-y-1">
+              <div className="flex items-center space-x-3">
+                <span className="text-sm text-gray-600 w-16 shrink-0">Game {index + 1}</span>
+                <FormField
+                  control={form.control}
+                  name={`games.${index}.teamAScore`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Team A"
+                          min="0"
+                          max="30"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <span className="text-gray-400">-</span>
+                <FormField
+                  control={form.control}
+                  name={`games.${index}.teamBScore`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Team B"
+                          min="0"
+                          max="30"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {gameFields.length > 1 ? (
+                  <Button type="button" variant="ghost" size="sm" className="p-2" onClick={() => removeGame(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <div className="w-8" />
+                )}
+              </div>
+              {form.formState.errors.games?.[index]?.message && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.games[index]?.message}</p>
+              )}
+            </div>
+          ))}
+          {(form.formState.errors.games?.message || form.formState.errors.games?.root?.message) && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.games?.message || form.formState.errors.games?.root?.message}
+            </p>
+          )}
+          {matchResult && (
+            <p className="text-sm text-green-600 font-medium">
+              Team {matchResult.winnerId === 1 ? "A" : "B"} wins
+              {watchedValues.games.length > 1 && ` ${Math.max(matchResult.teamAGames, matchResult.teamBGames)}-${Math.min(matchResult.teamAGames, matchResult.teamBGames)}`}
+            </p>
+          )}
+          <p className="text-xs text-gray-500">Games go to 21, must be won by 2 and are capped at 30. Record a single game or a best of three.</p>
+        </div>
 
         {!embedded && (
           <div className="flex justify-end space-x-2">
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { MatchImportPreview, MatchImportRequest, MatchImportResult, Player, UnmatchedPlayerName } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+// Rows with problems listed under the preview; the rest are counted
+const SHOWN_PROBLEMS = 10;
+
+// Select value for a name left without a player; its rows stay invalid
+const UNMATCHED = "none";
+
+export default function MatchHistoryImport() {
+  const { toast } = useToast();
+  const [csv, setCsv] = useState<string | null>(null);
+  const [dateOrder, setDateOrder] = useState<MatchImportRequest["dateOrder"]>("dmy");
+  const [playerMap, setPlayerMap] = useState<Record<string, number>>({});
+  const [reviewed, setReviewed] = useState<UnmatchedPlayerName[]>([]); // every name that needed review, with its suggestions
+  const [skipInvalid, setSkipInvalid] = useState(false);
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: Omit<MatchImportRequest, "skipInvalid">): Promise<MatchImportPreview> => {
+      const response = await apiRequest("POST", "/api/import/matches/preview", request);
+      return await response.json();
+    },
+    onSuccess: (preview, request) => {
+      const newNames = preview.unmatchedNames.filter(name => !reviewed.some(entry => entry.name === name.name));
+      setReviewed([...reviewed, ...newNames]);
+
+      // Start each name seen for the first time on its best suggestion; later choices are the manager's
+      const suggested = Object.fromEntries(newNames
+        .filter(name => name.suggestions.length > 0)
+        .map(name => [name.name, name.suggestions[0].playerId]));
+      if (Object.keys(suggested).length > 0) {
+        const nextMap = { ...request.playerMap, ...suggested };
+        setPlayerMap(nextMap);
+        previewMutation.mutate({ ...request, playerMap: nextMap });
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Failed to read the CSV", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (request: MatchImportRequest): Promise<MatchImportResult> => {
+      const response = await apiRequest("POST", "/api/import/matches", request);
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
+      setCsv(null);
+      setPlayerMap({});
+      setReviewed([]);
+      previewMutation.reset();
+      toast({ title: `Imported ${result.imported} match${result.imported === 1 ? "" : "es"} and replayed skill levels` });
+    },
+    onError: (error) => {
+      toast({ title: "Import failed", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    previewMutation.reset();
+    setCsv(null);
+    setPlayerMap({});
+    setReviewed([]);
+    if (!file) return;
+
+    const text = await file.text();
+    setCsv(text);
+    previewMutation.mutate({ csv: text, dateOrder, playerMap: {} });
+  };
+
+  const updateRequest = (changes: Partial<Pick<MatchImportRequest, "dateOrder" | "playerMap">>) => {
+    const next = { dateOrder, playerMap, ...changes };
+    setDateOrder(next.dateOrder);
+    setPlayerMap(next.playerMap);
+    if (csv) previewMutation.mutate({ csv, ...next });
+  };
+
+  const mapName = (name: string, value: string) => {
+    const { [name]: _, ...rest } = playerMap;
+    updateRequest({ playerMap: value === UNMATCHED ? rest : { ...rest, [name]: parseInt(value) } });
+  };
+
+  const preview = previewMutation.data;
+  const problems = preview?.rows.filter(row => row.status === "invalid") ?? [];
+  const toImport = preview ? preview.valid : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="file"
+          accept="text/csv,.csv"
+          disabled={importMutation.isPending}
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Select value={dateOrder} onValueChange={(value) => updateRequest({ dateOrder: value as MatchImportRequest["dateOrder"] })}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="dmy">Day first (15/03/2024)</SelectItem>
+            <SelectItem value="mdy">Month first (03/15/2024)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {previewMutation.isPending && <p className="text-sm text-gray-600">Reading matches...</p>}
+
+      {preview && !previewMutation.isPending && (
+        <div className="space-y-4 text-sm">
+          {preview.errors.length > 0 ? (
+            <ul className="list-disc pl-5 text-red-600">
+              {preview.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          ) : (
+            <p className="font-medium text-gray-900">
+              {preview.valid} to import, {preview.duplicates} already recorded, {preview.invalid} with problems
+            </p>
+          )}
+
+          {reviewed.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900 mb-2">Review player names</p>
+              <div className="divide-y divide-gray-100">
+                {reviewed.map(({ name, suggestions }) => {
+                  const suggested = new Set(suggestions.map(suggestion => suggestion.playerId));
+                  return (
+                    <div key={name} className="flex items-center justify-between gap-2 py-2">
+                      <span className="text-gray-900 truncate">"{name}"</span>
+                      <Select value={playerMap[name]?.toString() ?? UNMATCHED} onValueChange={(value) => mapName(name, value)}>
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMATCHED}>No match - leave out</SelectItem>
+                          {suggestions.map(suggestion => (
+                            <SelectItem key={suggestion.playerId} value={suggestion.playerId.toString()}>
+                              {suggestion.name} ({Math.round(suggestion.score * 100)}%)
+                            </SelectItem>
+                          ))}
+                          {players.filter(player => !suggested.has(player.id)).map(player => (
+                            <SelectItem key={player.id} value={player.id.toString()}>{player.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {problems.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900 mb-1">Rows with problems</p>
+              <ul className="list-disc pl-5 text-gray-600">
+                {problems.slice(0, SHOWN_PROBLEMS).map(row => (
+                  <li key={row.line}>Line {row.line}: {row.errors.join("; ")}</li>
+                ))}
+              </ul>
+              {problems.length > SHOWN_PROBLEMS && (
+                <p className="text-gray-500 mt-1">and {problems.length - SHOWN_PROBLEMS} more</p>
+              )}
+              <label className="flex items-center space-x-2 mt-2 cursor-pointer">
+                <Checkbox checked={skipInvalid} onCheckedChange={(checked) => setSkipInvalid(checked === true)} />
+                <span>Skip rows with problems</span>
+              </label>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              disabled={!csv || toImport === 0 || (problems.length > 0 && !skipInvalid) || importMutation.isPending}
+              onClick={() => csv && importMutation.mutate({ csv, dateOrder, playerMap, skipInvalid })}
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${toImport} match${toImport === 1 ? "" : "es"}`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import {
   DropdownMenuSeparator 
 } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { User, LogOut, Settings, Crown, AlertTriangle, Users, Shuffle, Trophy, BarChart3, Menu, X } from "lucide-react";
+import { User, LogOut, Settings, Crown, AlertTriangle, Users, Shuffle, Trophy, BarChart3, CalendarDays, Medal, ListOrdered, Menu, X } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -92,6 +92,9 @@ export default function Navbar({ currentUser, onLogin, onLogout }: NavbarProps)
     { path: "/players", label: "Players", icon: Users, public: true },
     { path: "/pairs", label: "Pairs", icon: Shuffle, public: true },
     { path: "/matches", label: "Matches", icon: Trophy, public: true },
+    { path: "/sessions", label: "Sessions", icon: CalendarDays, public: true },
+    { path: "/tournaments", label: "Tournaments", icon: Medal, public: true },
+    { path: "/ladder", label: "Ladder", icon: ListOrdered, public: true },
     { path: "/stats", label: "Statistics", icon: BarChart3, public: true },
   ];
 
@@ -164,6 +167,12 @@ export default function Navbar({ currentUser, onLogin, onLogout }: NavbarProps)
                     <DropdownMenuSeparator />
                     {currentUser?.role === "manager" && (
                       <>
+                        <Link href="/admin">
+                          <DropdownMenuItem>
+                            <Settings className="mr-2 h-4 w-4" />
+                            <span>Admin</span>
+                          </DropdownMenuItem>
+                        </Link>
                         <Dialog>
                           <DialogTrigger asChild>
                             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
@@ -182,6 +191,9 @@ export default function Navbar({ currentUser, onLogin, onLogout }: NavbarProps)
                                 <p className="text-gray-600 mb-4">
                                   This will permanently delete all players, matches, and statistics. This action cannot be undone.
                                 </p>
+                                <a href="/api/export" download className="text-sm text-blue-600 hover:underline">
+                                  Download a backup first
+                                </a>
                               </div>
                               <div className="flex space-x-3">
                                 <DialogTrigger asChild>
@@ -269,6 +281,12 @@ export default function Navbar({ currentUser, onLogin, onLogout }: NavbarProps)
                     <DropdownMenuSeparator />
                     {currentUser?.role === "manager" && (
                       <>
+                        <Link href="/admin">
+                          <DropdownMenuItem>
+                            <Settings className="mr-2 h-4 w-4" />
+                            <span>Admin</span>
+                          </DropdownMenuItem>
+                        </Link>
                         <Dialog>
                           <DialogTrigger asChild>
                             <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
@@ -287,6 +305,9 @@ export default function Navbar({ currentUser, onLogin, onLogout }: NavbarProps)
                                 <p className="text-gray-600 mb-4">
                                   This will permanently delete all players, matches, and statistics. This action cannot be undone.
                                 </p>
+                                <a href="/api/export" download className="text-sm text-blue-600 hover:underline">
+                                  Download a backup first
+                                </a>
                               </div>
                               <div className="flex space-x-3">
                                 <DialogTrigger asChild>
@@ -328,7 +349,7 @@ export default function Navbar({ currentUser, onLogin, onLogout }: NavbarProps)
 
       {/* Mobile Bottom Navigation */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-50">
-        <div className="grid grid-cols-4 gap-1 py-2">
+        <div className="grid grid-cols-7 gap-1 py-2">
           {navItems.map((item) => {
             const IconComponent = item.icon;
             const isActive = location === item.path;
@@ -7,7 +7,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Smartphone, Timer, ArrowLeft } from "lucide-react";
 import type { AuthUser, Player } from "@shared/schema";
@@ -20,14 +20,16 @@ type OTPForm = z.infer<typeof otpSchema>;
 
 interface OTPVerificationProps {
   player: Player;
+  expiresInSeconds?: number;
+  resendInSeconds: number;
   onVerificationSuccess: (user: AuthUser) => void;
   onGoBack: () => void;
 }
 
-export default function OTPVerification({ player, onVerificationSuccess, onGoBack }: OTPVerificationProps) {
+export default function OTPVerification({ player, expiresInSeconds, resendInSeconds, onVerificationSuccess, onGoBack }: OTPVerificationProps) {
   const { toast } = useToast();
-  const [timeLeft, setTimeLeft] = useState(300); // 5 minutes in seconds
-  const [canResend, setCanResend] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number | null>(expiresInSeconds ?? null); // null when the expiry is unknown
+  const [resendIn, setResendIn] = useState(resendInSeconds); // server-enforced resend cooldown
 
   const form = useForm<OTPForm>({
     resolver: zodResolver(otpSchema),
@@ -38,13 +40,16 @@ export default function OTPVerification({ player, onVerificationSuccess, onGoBac
 
   // Timer countdown
   useEffect(() => {
-    if (timeLeft > 0) {
-      const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
+    if ((timeLeft !== null && timeLeft > 0) || resendIn > 0) {
+      const timer = setTimeout(() => {
+        setTimeLeft(t => t === null ? null : Math.max(0, t - 1));
+        setResendIn(t => Math.max(0, t - 1));
+      }, 1000);
       return () => clearTimeout(timer);
-    } else {
-      setCanResend(true);
     }
-  }, [timeLeft]);
+  }, [timeLeft, resendIn]);
+
+  const canResend = resendIn === 0;
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -67,10 +72,20 @@ export default function OTPVerification({ player, onVerificationSuccess, onGoBac
       });
       onVerificationSuccess(user);
     },
-    onError: () => {
+    onError: (error) => {
+      const { status, body } = parseApiError(error);
+      let description = "Please check your code and try again.";
+      if (status === 429 || body.expired) {
+        description = body.error;
+      } else if (typeof body.attemptsRemaining === "number") {
+        description = `Please check your code and try again. ${body.attemptsRemaining} attempt${body.attemptsRemaining === 1 ? "" : "s"} left.`;
+      }
+      if (body.expired) {
+        setTimeLeft(0);
+      }
       toast({
         title: "Invalid OTP",
-        description: "Please check your code and try again.",
+        description,
         variant: "destructive",
       });
       form.reset();
@@ -84,19 +99,23 @@ export default function OTPVerification({ player, onVerificationSuccess, onGoBac
       });
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { expiresInSeconds: number; resendInSeconds: number }) => {
       toast({
         title: "OTP sent",
         description: "A new verification code has been sent to your mobile.",
       });
-      setTimeLeft(300);
-      setCanResend(false);
+      setTimeLeft(data.expiresInSeconds);
+      setResendIn(data.resendInSeconds);
       form.reset();
     },
-    onError: () => {
+    onError: (error) => {
+      const { status, body } = parseApiError(error);
+      if (status === 429 && typeof body.retryAfterSeconds === "number") {
+        setResendIn(body.retryAfterSeconds);
+      }
       toast({
         title: "Failed to send OTP",
-        description: "Please try again later.",
+        description: body.error || "Please try again later.",
         variant: "destructive",
       });
     },
@@ -149,10 +168,12 @@ export default function OTPVerification({ player, onVerificationSuccess, onGoBac
                 )}
               />
 
-              <div className="flex items-center justify-center space-x-2 text-sm text-gray-600">
-                <Timer className="h-4 w-4" />
-                <span>Code expires in {formatTime(timeLeft)}</span>
-              </div>
+              {timeLeft !== null && (
+                <div className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                  <Timer className="h-4 w-4" />
+                  <span>{timeLeft > 0 ? `Code expires in ${formatTime(timeLeft)}` : "Code expired - request a new one"}</span>
+                </div>
+              )}
 
               <div className="space-y-3">
                 <Button 
@@ -170,7 +191,7 @@ export default function OTPVerification({ player, onVerificationSuccess, onGoBac
                   disabled={!canResend || isLoading}
                   onClick={() => resendOTPMutation.mutate()}
                 >
-                  {resendOTPMutation.isPending ? "Sending..." : "Resend Code"}
+                  {resendOTPMutation.isPending ? "Sending..." : canResend ? "Resend Code" : `Resend Code in ${formatTime(resendIn)}`}
                 </Button>
 
                 <Button
@@ -0,0 +1,80 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { PlayerMatchResult } from "@shared/schema";
+
+interface PlayerTrendChartsProps {
+  history: PlayerMatchResult[]; // most recent first
+}
+
+// Win rate over the last few matches at each point, so form shows without waiting for the all-time rate to move
+const ROLLING_WINDOW = 5;
+
+const winRateConfig = {
+  winRate: {
+    label: "Win Rate",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const pointsConfig = {
+  pointsFor: {
+    label: "Points For",
+    color: "hsl(142 71% 45%)",
+  },
+  pointsAgainst: {
+    label: "Points Against",
+    color: "hsl(0 72% 51%)",
+  },
+} satisfies ChartConfig;
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+export default function PlayerTrendCharts({ history }: PlayerTrendChartsProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-600 text-center py-8">No matches played yet.</p>;
+  }
+
+  const chronological = [...history].reverse();
+  const points = chronological.map((result, index) => {
+    const recent = chronological.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1);
+    return {
+      date: formatDate(result.match.playedAt),
+      winRate: Math.round((recent.filter(r => r.won).length / recent.length) * 100),
+      pointsFor: result.pointsFor,
+      pointsAgainst: result.pointsAgainst,
+    };
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Win rate, last {ROLLING_WINDOW} matches</p>
+        <ChartContainer config={winRateConfig} className="h-56 w-full aspect-auto">
+          <LineChart data={points} margin={{ top: 8, right: 8, left: -20, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis domain={[0, 100]} ticks={[0, 25, 50, 75, 100]} tickLine={false} axisLine={false} unit="%" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line dataKey="winRate" type="monotone" stroke="var(--color-winRate)" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Points per match</p>
+        <ChartContainer config={pointsConfig} className="h-56 w-full aspect-auto">
+          <BarChart data={points} margin={{ top: 8, right: 8, left: -20, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="pointsFor" fill="var(--color-pointsFor)" radius={2} />
+            <Bar dataKey="pointsAgainst" fill="var(--color-pointsAgainst)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
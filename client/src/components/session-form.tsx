@@ -0,0 +1,175 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { insertSessionSchema, type Player, type InsertSession, type SessionSummary } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+interface SessionFormProps {
+  session?: SessionSummary | null;
+  onSuccess: () => void;
+}
+
+export default function SessionForm({ session, onSuccess }: SessionFormProps) {
+  const { toast } = useToast();
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const form = useForm<InsertSession>({
+    resolver: zodResolver(insertSessionSchema),
+    defaultValues: {
+      date: session ? new Date(session.date) : new Date(),
+      venue: session?.venue || "",
+      courtCount: session?.courtCount || 1,
+      organizerId: session?.organizerId ?? null,
+      notes: session?.notes || "",
+      attendeeIds: session?.attendeeIds || [],
+    },
+  });
+
+  const saveSessionMutation = useMutation({
+    mutationFn: async (data: InsertSession) => {
+      const response = session
+        ? await apiRequest("PUT", `/api/sessions/${session.id}`, data)
+        : await apiRequest("POST", "/api/sessions", data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+      toast({ title: session ? "Session updated successfully" : "Session created successfully" });
+      onSuccess();
+      form.reset();
+    },
+    onError: () => {
+      toast({ title: session ? "Failed to update session" : "Failed to create session", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: InsertSession) => {
+    saveSessionMutation.mutate(data);
+  };
+
+  const isLoading = saveSessionMutation.isPending;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    value={field.value ? format(new Date(field.value), "yyyy-MM-dd") : ""}
+                    onChange={(e) => field.onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`) : undefined)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="courtCount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Courts</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="20"
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="venue"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Venue</FormLabel>
+              <FormControl>
+                <Input placeholder="Where is the club playing?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Optional notes for the night" {...field} value={field.value || ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="attendeeIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Attendees ({field.value?.length || 0})</FormLabel>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto p-2 border rounded-md">
+                {players.map(player => (
+                  <label key={player.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={field.value?.includes(player.id)}
+                      onCheckedChange={(checked) => {
+                        const current = field.value || [];
+                        field.onChange(checked ? [...current, player.id] : current.filter(id => id !== player.id));
+                      }}
+                    />
+                    <span className="truncate">{player.name}</span>
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onSuccess}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : session ? "Update Session" : "Create Session"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
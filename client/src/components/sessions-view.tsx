@@ -0,0 +1,364 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarDays, MapPin, Plus, Edit, Trash2, Users, Trophy, LogIn, LogOut, X } from "lucide-react";
+import SessionForm from "./session-form";
+import CourtSchedule from "./court-schedule";
+import { gameScoresOf, type Player, type SessionSummary, type SessionDetails, type AuthUser } from "@shared/schema";
+
+interface SessionsViewProps {
+  currentUser: AuthUser | null;
+  players: Player[];
+}
+
+export default function SessionsView({ currentUser, players }: SessionsViewProps) {
+  const { toast } = useToast();
+  const [selectedSessionId, setSelectedSessionId] = useState<number | null>(null);
+  const [sessionFormOpen, setSessionFormOpen] = useState(false);
+  const [editingSession, setEditingSession] = useState<SessionSummary | null>(null);
+  const [checkInPlayerId, setCheckInPlayerId] = useState("");
+  const isManager = currentUser?.role === "manager";
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const { data: details, isLoading: detailsLoading } = useQuery<SessionDetails>({
+    queryKey: ["/api/sessions", selectedSessionId],
+    enabled: selectedSessionId !== null,
+  });
+
+  // Default to the most recent night
+  useEffect(() => {
+    if (sessions.length > 0 && (selectedSessionId === null || !sessions.some(s => s.id === selectedSessionId))) {
+      setSelectedSessionId(sessions[0].id);
+    }
+  }, [sessions, selectedSessionId]);
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (sessionId: number) => apiRequest("DELETE", `/api/sessions/${sessionId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      setSelectedSessionId(null);
+      toast({ title: "Session deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete session", variant: "destructive" });
+    },
+  });
+
+  const attendanceMutation = useMutation({
+    mutationFn: async ({ action, playerId }: { action: "check-in" | "check-out"; playerId?: number }) =>
+      apiRequest("POST", `/api/sessions/${selectedSessionId}/${action}`, playerId ? { playerId } : {}),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pairs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+      setCheckInPlayerId("");
+      toast({ title: action === "check-in" ? "Checked in" : "Checked out" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Attendance update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const playerName = (playerId: number | null) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 space-y-4 sm:space-y-0">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Club Sessions</h2>
+          <p className="text-gray-600 mt-1">Game nights with their matches, attendance and results</p>
+        </div>
+        {isManager && (
+          <Button
+            className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700"
+            onClick={() => {
+              setEditingSession(null);
+              setSessionFormOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Session
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={sessionFormOpen} onOpenChange={setSessionFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSession ? "Edit Session" : "New Session"}</DialogTitle>
+          </DialogHeader>
+          <SessionForm
+            session={editingSession}
+            onSuccess={() => {
+              setSessionFormOpen(false);
+              setEditingSession(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {sessionsLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <CalendarDays className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No sessions yet</h3>
+            <p className="text-gray-500">Create a session for each club night to group its matches.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Session list */}
+          <div className="space-y-3">
+            {sessions.map(session => (
+              <Card
+                key={session.id}
+                className={`cursor-pointer transition-shadow hover:shadow-md ${session.id === selectedSessionId ? "ring-2 ring-blue-500" : ""}`}
+                onClick={() => setSelectedSessionId(session.id)}
+              >
+                <CardContent className="p-4">
+                  <div className="font-semibold text-gray-900">{format(new Date(session.date), "EEE, d MMM yyyy")}</div>
+                  <div className="text-sm text-gray-600 flex items-center mt-1">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {session.venue}
+                  </div>
+                  <div className="flex space-x-2 mt-2">
+                    <Badge variant="outline" className="text-xs">{session.matchCount} matches</Badge>
+                    <Badge variant="outline" className="text-xs">{session.attendeeIds.length} players</Badge>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Selected session */}
+          <div className="lg:col-span-2 space-y-6">
+            {detailsLoading || !details ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              </div>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle>{format(new Date(details.date), "EEEE, d MMMM yyyy")}</CardTitle>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {details.venue} • {details.courtCount} {details.courtCount === 1 ? "court" : "courts"}
+                          {details.organizerId && ` • Organized by ${playerName(details.organizerId)}`}
+                        </p>
+                      </div>
+                      {isManager && (
+                        <div className="flex space-x-1 shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-2"
+                            onClick={() => {
+                              setEditingSession(details);
+                              setSessionFormOpen(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="p-2 text-red-600 hover:text-red-700">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Session</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete this session? Its matches are kept but will no longer be grouped under this night.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteSessionMutation.mutate(details.id)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Delete Session
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {details.notes && <p className="text-sm text-gray-700 mb-4 whitespace-pre-line">{details.notes}</p>}
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center text-sm font-medium text-gray-700">
+                        <Users className="h-4 w-4 mr-1" />
+                        Here tonight ({details.presentIds.length})
+                      </div>
+                      {currentUser && (
+                        details.presentIds.includes(currentUser.id) ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => attendanceMutation.mutate({ action: "check-out" })}
+                            disabled={attendanceMutation.isPending}
+                          >
+                            <LogOut className="h-4 w-4 mr-1" />
+                            Check out
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700"
+                            onClick={() => attendanceMutation.mutate({ action: "check-in" })}
+                            disabled={attendanceMutation.isPending}
+                          >
+                            <LogIn className="h-4 w-4 mr-1" />
+                            Check me in
+                          </Button>
+                        )
+                      )}
+                    </div>
+                    {details.attendees.length === 0 ? (
+                      <p className="text-sm text-gray-500">No one has checked in yet.</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {details.attendees.map(attendee => (
+                          <Badge
+                            key={attendee.playerId}
+                            variant={attendee.checkedOutAt ? "outline" : "secondary"}
+                            className={attendee.checkedOutAt ? "text-gray-400 line-through" : ""}
+                            title={attendee.checkedOutAt ? `Left at ${format(new Date(attendee.checkedOutAt), "HH:mm")}` : `Checked in at ${format(new Date(attendee.checkedInAt), "HH:mm")}`}
+                          >
+                            {playerName(attendee.playerId)}
+                            {isManager && !attendee.checkedOutAt && (
+                              <button
+                                type="button"
+                                className="ml-1 text-gray-500 hover:text-red-600"
+                                onClick={() => attendanceMutation.mutate({ action: "check-out", playerId: attendee.playerId })}
+                                aria-label={`Check out ${playerName(attendee.playerId)}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {isManager && (
+                      <div className="flex space-x-2 mt-4">
+                        <Select value={checkInPlayerId} onValueChange={setCheckInPlayerId}>
+                          <SelectTrigger className="w-full sm:w-64">
+                            <SelectValue placeholder="Check in a player" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {players
+                              .filter(player => !details.presentIds.includes(player.id))
+                              .map(player => (
+                                <SelectItem key={player.id} value={player.id.toString()}>{player.name}</SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          onClick={() => attendanceMutation.mutate({ action: "check-in", playerId: parseInt(checkInPlayerId) })}
+                          disabled={!checkInPlayerId || attendanceMutation.isPending}
+                        >
+                          <LogIn className="h-4 w-4 mr-1" />
+                          Check in
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {isManager && <CourtSchedule key={details.id} session={details} players={players} />}
+
+                {/* Per-night leaderboard */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Night Leaderboard</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    {details.leaderboard.length === 0 ? (
+                      <p className="p-6 text-sm text-gray-500 text-center">No matches recorded for this session yet.</p>
+                    ) : (
+                      <div className="divide-y divide-gray-100">
+                        {details.leaderboard.map((standing, index) => (
+                          <div key={standing.playerId} className="flex items-center justify-between px-6 py-3">
+                            <div className="flex items-center space-x-3">
+                              <span className={`w-6 text-center font-bold ${index === 0 ? "text-yellow-500" : "text-gray-400"}`}>{index + 1}</span>
+                              <span className="font-medium text-gray-900">{standing.name}</span>
+                            </div>
+                            <div className="flex items-center space-x-4 text-sm">
+                              <span className="text-gray-600">{standing.wins}-{standing.losses}</span>
+                              <span className="font-semibold text-gray-900 w-12 text-right">{standing.winRate}%</span>
+                              <span className={`w-10 text-right ${standing.pointDifference >= 0 ? "text-green-600" : "text-red-500"}`}>
+                                {standing.pointDifference > 0 ? "+" : ""}{standing.pointDifference}
+                              </span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Matches played that night */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Matches</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    {details.matches.length === 0 ? (
+                      <div className="p-6 text-center">
+                        <Trophy className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                        <p className="text-sm text-gray-500">Record matches against this session from the Matches tab.</p>
+                      </div>
+                    ) : (
+                      <div className="divide-y divide-gray-100">
+                        {details.matches.map(match => (
+                          <div key={match.id} className="flex items-center justify-between px-6 py-3 text-sm">
+                            <div>
+                              <span className={match.winnerId === 1 ? "font-semibold text-gray-900" : "text-gray-600"}>
+                                {match.teamA.map(playerName).join(" & ")}
+                              </span>
+                              <span className="text-gray-400 mx-2">vs</span>
+                              <span className={match.winnerId === 2 ? "font-semibold text-gray-900" : "text-gray-600"}>
+                                {match.teamB.map(playerName).join(" & ")}
+                              </span>
+                            </div>
+                            <span className="font-bold text-gray-900 shrink-0 ml-4">
+                              {gameScoresOf(match).map(game => `${game.teamAScore}-${game.teamBScore}`).join(", ")}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
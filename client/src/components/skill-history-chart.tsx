@@ -0,0 +1,94 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Badge } from "@/components/ui/badge";
+import type { Player, SkillLevelChange, SkillChangeCause } from "@shared/schema";
+
+interface SkillHistoryChartProps {
+  player: Player;
+}
+
+const chartConfig = {
+  level: {
+    label: "Skill Level",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const causeLabels: Record<SkillChangeCause, string> = {
+  auto: "Auto-adjusted",
+  approved: "Approved by manager",
+  manual: "Set by manager",
+  reset: "Reset",
+  recalculation: "Recalculated",
+};
+
+const causeColors: Record<SkillChangeCause, string> = {
+  auto: "bg-blue-50 text-blue-700 border-blue-200",
+  approved: "bg-green-50 text-green-700 border-green-200",
+  manual: "bg-purple-50 text-purple-700 border-purple-200",
+  reset: "bg-gray-50 text-gray-700 border-gray-200",
+  recalculation: "bg-orange-50 text-orange-700 border-orange-200",
+};
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+export default function SkillHistoryChart({ player }: SkillHistoryChartProps) {
+  const { data: history = [], isLoading } = useQuery<SkillLevelChange[]>({
+    queryKey: ["/api/players", player.id, "skill-history"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-gray-600 text-center py-8">
+        No skill level changes yet. {player.name} is at level {player.skillLevel}.
+      </p>
+    );
+  }
+
+  // Start from the level before the first change, then one step per change, ending at today
+  const points = [
+    { date: formatDate(history[0].createdAt), level: history[0].oldLevel },
+    ...history.map(change => ({ date: formatDate(change.createdAt), level: change.newLevel })),
+    { date: "Now", level: player.skillLevel },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+        <LineChart data={points} margin={{ top: 8, right: 8, left: -20, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+          <YAxis domain={[1, 10]} ticks={[1, 2, 3, 4, 5, 6, 7, 8, 9, 10]} tickLine={false} axisLine={false} allowDecimals={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line dataKey="level" type="stepAfter" stroke="var(--color-level)" strokeWidth={2} dot={{ r: 3 }} />
+        </LineChart>
+      </ChartContainer>
+
+      <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+        {[...history].reverse().map(change => (
+          <div key={change.id} className="flex items-center justify-between py-2 text-sm">
+            <div className="flex items-center space-x-2">
+              <span className="font-medium text-gray-900">
+                {change.oldLevel} → {change.newLevel}
+              </span>
+              <Badge variant="outline" className={`text-xs ${causeColors[change.cause]}`}>
+                {causeLabels[change.cause]}
+              </Badge>
+            </div>
+            <span className="text-xs text-gray-500">{new Date(change.createdAt).toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
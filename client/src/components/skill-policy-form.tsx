@@ -0,0 +1,121 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { skillPolicySchema, type SkillPolicy, type SkillPolicyPreview } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+
+interface SkillPolicyFormProps {
+  policy: SkillPolicy;
+}
+
+const policyFields: Array<{ name: keyof SkillPolicy; label: string; step: string }> = [
+  { name: "suggestionMatches", label: "Rated matches before suggesting", step: "1" },
+  { name: "autoUpdateMatches", label: "Rated matches before adjusting", step: "1" },
+  { name: "bandMargin", label: "Rating points past a band before moving", step: "5" },
+];
+
+export default function SkillPolicyForm({ policy }: SkillPolicyFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<SkillPolicy>({
+    resolver: zodResolver(skillPolicySchema),
+    defaultValues: policy,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: SkillPolicy): Promise<SkillPolicyPreview[]> => {
+      const response = await apiRequest("POST", "/api/settings/skill-policy/dry-run", data);
+      return await response.json();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to preview policy", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SkillPolicy) => apiRequest("PUT", "/api/settings/skill-policy", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/skill-policy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
+      previewMutation.reset();
+      toast({ title: "Skill policy saved and levels recalculated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save policy", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const preview = previewMutation.data;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {policyFields.map(({ name, label, step }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step={step}
+                      min="0"
+                      {...field}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={previewMutation.isPending}
+            onClick={form.handleSubmit(data => previewMutation.mutate(data))}
+          >
+            {previewMutation.isPending ? "Previewing..." : "Preview"}
+          </Button>
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="border-t pt-4">
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              {preview.length === 0 ? "No player would change level under this policy" : `${preview.length} player${preview.length === 1 ? "" : "s"} would change level`}
+            </p>
+            <div className="divide-y divide-gray-100">
+              {preview.map(row => (
+                <div key={row.playerId} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <Link href={`/players/${row.playerId}`} className="font-medium text-gray-900 hover:underline truncate">{row.name}</Link>
+                  <span className="text-gray-600 shrink-0">
+                    {row.currentLevel} → {row.projectedLevel}
+                    {row.proposedLevel !== null && <span className="text-gray-500"> (review: {row.proposedLevel})</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </form>
+    </Form>
+  );
+}
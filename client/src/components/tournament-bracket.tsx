@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import { ClipboardPen } from "lucide-react";
+import type { TournamentBracket as Bracket, TournamentMatchDetails, TournamentTeam } from "@shared/schema";
+
+interface TournamentBracketProps {
+  bracket: Bracket;
+  matches: TournamentMatchDetails[];
+  teams: TournamentTeam[];
+  teamName: (team: TournamentTeam) => string;
+  onRecord?: (match: TournamentMatchDetails) => void; // managers only
+}
+
+const bracketTitles: Record<Bracket, string> = {
+  group: "Group",
+  winners: "Winners Bracket",
+  losers: "Losers Bracket",
+  final: "Grand Final",
+};
+
+// Name the last rounds of the winners bracket the way players talk about them
+function roundTitle(bracket: Bracket, round: number, lastRound: number): string {
+  if (bracket === "final") return round === 1 ? "Final" : "Final (decider)";
+  if (bracket === "winners") {
+    if (round === lastRound) return "Final";
+    if (round === lastRound - 1) return "Semi-finals";
+    if (round === lastRound - 2) return "Quarter-finals";
+  }
+  return `Round ${round}`;
+}
+
+export default function TournamentBracket({ bracket, matches, teams, teamName, onRecord }: TournamentBracketProps) {
+  const bracketMatches = matches.filter(match => match.bracket === bracket);
+  if (bracketMatches.length === 0) return null;
+
+  const rounds = Array.from(new Set(bracketMatches.map(match => match.round))).sort((a, b) => a - b);
+  const lastRound = rounds[rounds.length - 1];
+
+  const renderSide = (match: TournamentMatchDetails, teamId: number | null, score: number | null) => {
+    const team = teams.find(t => t.id === teamId);
+    const won = match.winnerTeamId !== null && match.winnerTeamId === teamId;
+    return (
+      <div className={`flex items-center justify-between px-3 py-2 gap-2 ${won ? "font-semibold text-gray-900" : "text-gray-600"}`}>
+        <span className="truncate text-sm">
+          {team ? (
+            <>
+              {team.seed && <span className="text-xs text-gray-400 mr-1">{team.seed}</span>}
+              {teamName(team)}
+            </>
+          ) : (
+            <span className="italic text-gray-400">To be decided</span>
+          )}
+        </span>
+        {score !== null && <span className="text-sm tabular-nums shrink-0">{score}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {bracket !== "group" && <h4 className="font-medium text-gray-900 mb-3">{bracketTitles[bracket]}</h4>}
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {rounds.map(round => (
+          <div key={round} className="flex flex-col justify-around gap-3 min-w-[220px]">
+            <p className="text-xs font-medium uppercase tracking-wide text-gray-500">{roundTitle(bracket, round, lastRound)}</p>
+            {bracketMatches
+              .filter(match => match.round === round)
+              .map(match => {
+                const ready = match.winnerTeamId === null && match.teamAId !== null && match.teamBId !== null;
+                return (
+                  <div key={match.id} className="border rounded-lg bg-white divide-y">
+                    {renderSide(match, match.teamAId, match.teamAScore)}
+                    {renderSide(match, match.teamBId, match.teamBScore)}
+                    {match.games.length > 1 && (
+                      <p className="px-3 py-1 text-xs text-gray-500">
+                        {match.games.map(game => `${game.teamAScore}-${game.teamBScore}`).join(", ")}
+                      </p>
+                    )}
+                    {ready && onRecord && (
+                      <div className="px-2 py-1">
+                        <Button variant="ghost" size="sm" className="w-full" onClick={() => onRecord(match)}>
+                          <ClipboardPen className="h-4 w-4 mr-1" />
+                          Record
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { insertTournamentSchema, matchFormats, matchFormatLabels, tournamentFormats, tournamentFormatLabels, type InsertTournament, type Tournament } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface TournamentFormProps {
+  onSuccess: (tournament: Tournament) => void;
+  onCancel: () => void;
+}
+
+export default function TournamentForm({ onSuccess, onCancel }: TournamentFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InsertTournament>({
+    resolver: zodResolver(insertTournamentSchema),
+    defaultValues: {
+      name: "",
+      format: "single_elimination",
+      matchFormat: "doubles",
+      seeding: "rating",
+      groupCount: 1,
+    },
+  });
+
+  const createTournamentMutation = useMutation({
+    mutationFn: async (data: InsertTournament) => {
+      const response = await apiRequest("POST", "/api/tournaments", data);
+      return await response.json() as Tournament;
+    },
+    onSuccess: (tournament) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      toast({ title: "Tournament created successfully" });
+      onSuccess(tournament);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create tournament", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const isRoundRobin = form.watch("format") === "round_robin";
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => createTournamentMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. October Club Championship" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="format"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Format</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {tournamentFormats.map(tournamentFormat => (
+                      <SelectItem key={tournamentFormat} value={tournamentFormat}>
+                        {tournamentFormatLabels[tournamentFormat]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="matchFormat"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Event</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {matchFormats.map(matchFormat => (
+                      <SelectItem key={matchFormat} value={matchFormat}>
+                        {matchFormatLabels[matchFormat]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="seeding"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Seed by</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="rating">Rating</SelectItem>
+                    <SelectItem value="skill">Skill level</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          {isRoundRobin && (
+            <FormField
+              control={form.control}
+              name="groupCount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Groups</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="8"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={createTournamentMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={createTournamentMutation.isPending}>
+            {createTournamentMutation.isPending ? "Creating..." : "Create Tournament"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
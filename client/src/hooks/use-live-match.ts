@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import type { LiveMatchState } from "@shared/schema";
+
+// Follow a live match over server-sent events. The browser reconnects by itself after a
+// dropped connection; a closed source means the match no longer exists on the server.
+export function useLiveMatch(id: number) {
+  const [state, setState] = useState<LiveMatchState | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [closed, setClosed] = useState(false);
+
+  useEffect(() => {
+    setState(null);
+    setClosed(false);
+    const source = new EventSource(`/api/live-matches/${id}/events`, { withCredentials: true });
+    source.onopen = () => setConnected(true);
+    source.onmessage = (event) => setState(JSON.parse(event.data));
+    source.onerror = () => {
+      setConnected(false);
+      if (source.readyState === EventSource.CLOSED) {
+        setClosed(true);
+      }
+    };
+    return () => source.close();
+  }, [id]);
+
+  return { state, setState, connected, closed };
+}
@@ -7,6 +7,21 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Recover the status code and JSON body from an error thrown by throwIfResNotOk
+export function parseApiError(error: unknown): { status: number; body: Record<string, any> } {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) {
+    return { status: 0, body: {} };
+  }
+
+  try {
+    return { status: parseInt(match[1], 10), body: JSON.parse(match[2]) };
+  } catch {
+    return { status: parseInt(match[1], 10), body: { error: match[2] } };
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
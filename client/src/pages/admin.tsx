@@ -0,0 +1,259 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { AuthUser, ClubSettings, Player, SkillAdjustmentMode, SkillPolicy, SkillProposal } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import SkillPolicyForm from "@/components/skill-policy-form";
+import ClubImport from "@/components/club-import";
+import MatchHistoryImport from "@/components/match-history-import";
+import { Check, Download, ShieldCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface AdminPageProps {
+  currentUser: AuthUser | null;
+}
+
+// Decided proposals shown below the queue
+const RECENT_DECISIONS = 20;
+
+export default function AdminPage({ currentUser }: AdminPageProps) {
+  const { toast } = useToast();
+  const isManager = currentUser?.role === "manager";
+
+  const { data: settings } = useQuery<ClubSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const { data: proposals = [], isLoading: proposalsLoading } = useQuery<SkillProposal[]>({
+    queryKey: ["/api/skill-proposals"],
+    enabled: isManager,
+  });
+
+  const { data: skillPolicy } = useQuery<SkillPolicy>({
+    queryKey: ["/api/settings/skill-policy"],
+    enabled: isManager,
+  });
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const updateModeMutation = useMutation({
+    mutationFn: async (skillAdjustmentMode: SkillAdjustmentMode) => apiRequest("PUT", "/api/settings", { skillAdjustmentMode }),
+    onSuccess: (_, skillAdjustmentMode) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
+      toast({ title: skillAdjustmentMode === "review" ? "Skill changes now wait for review" : "Skill levels now adjust automatically" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update settings", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ proposalId, approve }: { proposalId: number; approve: boolean }) =>
+      apiRequest("POST", `/api/skill-proposals/${proposalId}/${approve ? "approve" : "reject"}`),
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      }
+      toast({ title: approve ? "Skill level change approved" : "Skill level change rejected" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to decide proposal", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  if (!isManager) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12 text-center">
+        <p className="text-gray-600 mb-4">Only managers can open the admin panel.</p>
+        <Link href="/players">
+          <Button variant="outline">Back to players</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const playerName = (playerId: number | null) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+  const pending = proposals.filter(proposal => proposal.status === "pending");
+  const decided = proposals.filter(proposal => proposal.status !== "pending").slice(0, RECENT_DECISIONS);
+  const review = settings?.skillAdjustmentMode === "review";
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Admin</h2>
+        <p className="text-gray-600 mt-1">Club settings, skill level reviews and backups</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Skill Level Adjustment</CardTitle>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Review changes before they apply</p>
+            <p className="text-sm text-gray-600">
+              {review
+                ? "Changes the results call for wait here until a manager approves them."
+                : "Skill levels follow the doubles rating automatically once a player has enough rated matches."}
+            </p>
+          </div>
+          <Switch
+            checked={review}
+            disabled={!settings || updateModeMutation.isPending}
+            onCheckedChange={(checked) => updateModeMutation.mutate(checked ? "review" : "automatic")}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Skill Policy</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Each level covers a band of 100 doubles rating points, level 5 centred on 1500. A level follows the player's rating into another band once it is past the edge by the margin below.
+          </p>
+          {skillPolicy ? (
+            <SkillPolicyForm key={JSON.stringify(skillPolicy)} policy={skillPolicy} />
+          ) : (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Changes ({pending.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {proposalsLoading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          ) : pending.length === 0 ? (
+            <div className="text-center py-6">
+              <ShieldCheck className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">{review ? "Nothing waiting for review" : "Turn on review to queue skill level changes here"}</p>
+            </div>
+          ) : (
+            pending.map(proposal => (
+              <div key={proposal.id} className="p-3 border rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    <Link href={`/players/${proposal.playerId}`} className="font-medium hover:underline">{playerName(proposal.playerId)}</Link>
+                    <span className="text-gray-500"> level </span>
+                    <span className="font-medium">{proposal.oldLevel} → {proposal.newLevel}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{proposal.reason}</p>
+                  <p className="text-xs text-gray-400 mt-1">Proposed {format(new Date(proposal.createdAt), "d MMM yyyy, HH:mm")}</p>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <Button
+                    size="sm"
+                    disabled={decideMutation.isPending}
+                    onClick={() => decideMutation.mutate({ proposalId: proposal.id, approve: true })}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={decideMutation.isPending}
+                    onClick={() => decideMutation.mutate({ proposalId: proposal.id, approve: false })}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Decisions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {decided.length === 0 ? (
+            <p className="text-sm text-gray-500">No proposals decided yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {decided.map(proposal => (
+                <div key={proposal.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-gray-900 truncate">
+                      {playerName(proposal.playerId)} <span className="text-gray-500">level</span> {proposal.oldLevel} → {proposal.newLevel}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {playerName(proposal.decidedBy)}
+                      {proposal.decidedAt && ` • ${format(new Date(proposal.decidedAt), "d MMM yyyy, HH:mm")}`}
+                    </p>
+                  </div>
+                  <Badge variant={proposal.status === "approved" ? "default" : "secondary"} className="shrink-0">
+                    {proposal.status === "approved" ? "Approved" : "Rejected"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Backup and Restore</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <p className="text-sm text-gray-600 mb-3">
+              Download the club before resetting it or moving it to another server. The JSON archive holds players, sessions, matches, skill history, tournaments and ladders, and can be imported again; the CSV files are for spreadsheets.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {[["/api/export", "Club archive (JSON)"], ["/api/export/players.csv", "Players (CSV)"], ["/api/export/matches.csv", "Matches (CSV)"]].map(([href, label]) => (
+                <Button key={href} variant="outline" size="sm" asChild>
+                  <a href={href} download>
+                    <Download className="mr-2 h-4 w-4" />
+                    {label}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-1">Import an archive</p>
+            <p className="text-sm text-gray-600 mb-3">
+              The archive is checked first. Players with a mobile number already in the club, and sessions and matches already recorded, are merged instead of added twice.
+            </p>
+            <ClubImport />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Match History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600 mb-3">
+            Upload past results as CSV, e.g. a spreadsheet downloaded from Google Sheets, with a header row and columns for the date, each side's players (or A1, A2, B1, B2) and the games, like "21-15 18-21 21-19". Skill levels are replayed once over the whole history afterwards.
+          </p>
+          <MatchHistoryImport />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,23 +10,48 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Users, UserPlus, Trophy, BarChart3, PlayCircle, Plus, Edit, Trash2, RefreshCw, LogOut, Crown, User, AlertTriangle } from "lucide-react";
+import { startOfMonth, startOfWeek } from "date-fns";
+import { Users, UserPlus, Trophy, BarChart3, PlayCircle, Plus, Edit, Trash2, RefreshCw, Shuffle, LogOut, Crown, User, AlertTriangle, History, CalendarCheck, Radio } from "lucide-react";
 import PlayerForm from "../components/player-form";
 import MatchForm from "../components/match-form";
-import type { Player, Match, PlayerStats, DoublesTeam, TeamStats, StatsResponse, AuthUser } from "@shared/schema";
+import SkillHistoryChart from "../components/skill-history-chart";
+import SessionsView from "../components/sessions-view";
+import LadderView from "../components/ladder-view";
+import AttendanceHistory from "../components/attendance-history";
+import { gameScoresOf, summarizeGames, matchFormats, matchFormatLabels, type MatchFormat, type Player, type MatchDetails, type InsertMatch, type PlayerStats, type DoublesTeam, type MatchupsResponse, type TeamStats, type StatsResponse, type AuthUser, type SessionSummary, type AttendanceSummary } from "@shared/schema";
 
 interface HomeProps {
   currentUser: AuthUser | null;
   activeTab?: string;
 }
 
+// Fewer matches than this in the chosen period keeps a player or team off the leaderboard
+const minMatchesByPeriod: Record<string, number> = { "all-time": 3, month: 2, week: 1 };
+
+// The leaderboard's period is "all-time", "month", "week" or "session-<id>" for one club night
+function statsQuery(format: MatchFormat | "all", period: string): string {
+  const params = new URLSearchParams();
+  if (format !== "all") params.set("format", format);
+  if (period === "month") params.set("from", startOfMonth(new Date()).toISOString());
+  if (period === "week") params.set("from", startOfWeek(new Date(), { weekStartsOn: 1 }).toISOString());
+  if (period.startsWith("session-")) params.set("sessionId", period.slice("session-".length));
+  params.set("minMatches", String(minMatchesByPeriod[period] ?? 1));
+  return params.toString();
+}
+
 export default function Home({ currentUser, activeTab: initialTab = "players" }: HomeProps) {
   const [activeTab, setActiveTab] = useState(initialTab);
   const [playerFormOpen, setPlayerFormOpen] = useState(false);
   const [matchFormOpen, setMatchFormOpen] = useState(false);
   const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
-  const [editingMatch, setEditingMatch] = useState<Match | null>(null);
+  const [editingMatch, setEditingMatch] = useState<MatchDetails | null>(null);
+  const [historyPlayer, setHistoryPlayer] = useState<Player | null>(null);
+  const [attendancePlayer, setAttendancePlayer] = useState<Player | null>(null);
   const [skillFilter, setSkillFilter] = useState("All Skill Levels");
+  const [pairsSession, setPairsSession] = useState("all"); // "all" or the id of a session whose checked-in players are paired
+  const [pairsSeed, setPairsSeed] = useState(1); // bumped to ask for a different set of matchups
+  const [statsFormat, setStatsFormat] = useState<MatchFormat | "all">("all");
+  const [statsPeriod, setStatsPeriod] = useState("all-time");
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
 
@@ -37,7 +62,9 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
       '/players': 'players',
       '/matches': 'matches',
       '/stats': 'stats',
-      '/pairs': 'pairs'
+      '/pairs': 'pairs',
+      '/sessions': 'sessions',
+      '/ladder': 'ladder'
     };
     
     const newTab = pathToTab[location] || 'players';
@@ -53,7 +80,9 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
       'players': '/players',
       'matches': '/matches', 
       'stats': '/stats',
-      'pairs': '/pairs'
+      'pairs': '/pairs',
+      'sessions': '/sessions',
+      'ladder': '/ladder'
     };
     const newPath = tabToPath[value] || '/players';
     if (location !== newPath) {
@@ -66,14 +95,23 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
     queryKey: ["/api/players"],
   });
 
-  const { data: matches = [], isLoading: matchesLoading } = useQuery<Match[]>({
+  const { data: matches = [], isLoading: matchesLoading } = useQuery<MatchDetails[]>({
     queryKey: ["/api/matches"],
   });
 
-  const { data: pairs = [], isLoading: pairsLoading, refetch: refetchPairs } = useQuery<DoublesTeam[]>({
-    queryKey: ["/api/pairs", skillFilter],
+  const { data: sessions = [] } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const { data: attendance = [] } = useQuery<AttendanceSummary[]>({
+    queryKey: ["/api/attendance"],
+  });
+
+  const { data: pairs, isLoading: pairsLoading } = useQuery<MatchupsResponse>({
+    queryKey: ["/api/pairs", skillFilter, pairsSession, pairsSeed],
     queryFn: async () => {
-      const url = `/api/pairs?skillLevel=${encodeURIComponent(skillFilter)}`;
+      const sessionParam = pairsSession !== "all" ? `&sessionId=${pairsSession}` : "";
+      const url = `/api/pairs?skillLevel=${encodeURIComponent(skillFilter)}${sessionParam}&seed=${pairsSeed}`;
       const res = await fetch(url, { credentials: "include" });
       if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
       return await res.json();
@@ -83,7 +121,7 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
     staleTime: 30000, // Cache for 30 seconds
   });
 
-  const { data: allPairs = [] } = useQuery<DoublesTeam[]>({
+  const { data: allMatchups } = useQuery<MatchupsResponse>({
     queryKey: ["/api/pairs", "All Skill Levels"],
     queryFn: async () => {
       const url = `/api/pairs?skillLevel=${encodeURIComponent("All Skill Levels")}`;
@@ -95,13 +133,28 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
     refetchOnWindowFocus: false,
     staleTime: 30000, // Cache for 30 seconds
   });
+  const matchups = pairs?.matchups ?? [];
+  // Team mode in the match form picks from the suggested teams
+  const allPairs: DoublesTeam[] = (allMatchups?.matchups ?? []).flatMap(matchup => [matchup.teamA, matchup.teamB]);
 
-  const { data: statsData, isLoading: statsLoading } = useQuery<StatsResponse>({
+  const { data: statsData } = useQuery<StatsResponse>({
     queryKey: ["/api/stats"],
     refetchOnWindowFocus: false,
     staleTime: 0, // Always refetch to get latest skill levels
   });
 
+  // The Stats tab can narrow everything to one match format and to a period or club night
+  const { data: leaderboardStats, isLoading: leaderboardLoading } = useQuery<StatsResponse>({
+    queryKey: ["/api/stats", statsFormat, statsPeriod],
+    queryFn: async () => {
+      const res = await fetch(`/api/stats?${statsQuery(statsFormat, statsPeriod)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return await res.json();
+    },
+    refetchOnWindowFocus: false,
+    staleTime: 0,
+  });
+
   // Mutations
   const deletePlayerMutation = useMutation({
     mutationFn: async (playerId: number) => {
@@ -119,12 +172,17 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
 
   // Match editing mutations
   const updateMatchMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: Partial<Match> }) => 
+    mutationFn: async ({ id, data }: { id: number; data: Partial<InsertMatch> }) => 
       apiRequest("PUT", `/api/matches/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ladders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
       toast({ title: "Match updated successfully" });
       setEditingMatch(null);
       setMatchFormOpen(false);
@@ -140,6 +198,11 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
       queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ladders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
       toast({ title: "Match deleted successfully" });
     },
     onError: () => {
@@ -192,19 +255,29 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
     return `${level} (Beginner)`;
   };
 
+  const renderTeam = (team: DoublesTeam, winProbability: number) => (
+    <div className="flex items-center space-x-2 min-w-0">
+      {[team.player1, team.player2].map(player => (
+        <div key={player.id} className="flex items-center space-x-1 min-w-0">
+          <div className={`w-6 h-6 md:w-8 md:h-8 ${getPlayerAvatarColor(players.findIndex(p => p.id === player.id))} text-white rounded-full flex items-center justify-center font-semibold text-xs`}>
+            {getPlayerInitials(player.name)}
+          </div>
+          <span className="font-medium text-gray-900 text-sm truncate">{player.name}</span>
+          <span className="text-xs text-gray-500 shrink-0">(L{player.skillLevel})</span>
+        </div>
+      ))}
+      <span className="text-xs font-semibold text-blue-600 shrink-0" title="Predicted chance of winning">{Math.round(winProbability * 100)}%</span>
+    </div>
+  );
+
   const getPlayerAvatarColor = (index: number) => {
     const colors = ["bg-blue-500", "bg-orange-500", "bg-purple-500", "bg-indigo-500", "bg-pink-500"];
     return colors[index % colors.length];
   };
 
-  const getMatchTeamPlayers = (match: Match, teamType: "A" | "B") => {
-    const player1Id = teamType === "A" ? match.teamAPlayer1Id : match.teamBPlayer1Id;
-    const player2Id = teamType === "A" ? match.teamAPlayer2Id : match.teamBPlayer2Id;
-    
-    const player1 = players.find(p => p.id === player1Id);
-    const player2 = players.find(p => p.id === player2Id);
-    
-    return { player1, player2 };
+  const getMatchTeamNames = (match: MatchDetails, teamType: "A" | "B") => {
+    const playerIds = teamType === "A" ? match.teamA : match.teamB;
+    return playerIds.map(id => players.find(p => p.id === id)?.name).join(" & ");
   };
 
   return (
@@ -287,6 +360,7 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                   })
                   .map((player, index) => {
                   const stats = statsData?.playerStats.find(s => s.playerId === player.id);
+                  const playerAttendance = attendance.find(a => a.playerId === player.id);
                   return (
                     <Card key={player.id} className="hover:shadow-md transition-shadow">
                       <CardContent className="p-4 md:p-6">
@@ -296,7 +370,9 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                               {getPlayerInitials(player.name)}
                             </div>
                             <div className="flex-1 min-w-0">
-                              <h3 className="font-semibold text-gray-900 truncate text-sm md:text-base">{player.name}</h3>
+                              <h3 className="font-semibold text-gray-900 truncate text-sm md:text-base">
+                                <Link href={`/players/${player.id}`} className="hover:underline">{player.name}</Link>
+                              </h3>
                               <div className="flex flex-col space-y-1 md:flex-row md:items-center md:space-y-0 md:space-x-2">
                                 <span className="text-xs md:text-sm text-gray-600 shrink-0">Level:</span>
                                 <div className="flex items-center space-x-1 flex-wrap">
@@ -325,10 +401,39 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                                   )}
                                 </div>
                               </div>
+                              {stats && (
+                                <p className="text-xs text-gray-500 mt-1" title="Glicko-2 rating ± rating deviation">
+                                  Rating {stats.rating} ±{stats.ratingDeviation}
+                                </p>
+                              )}
+                              {playerAttendance && playerAttendance.totalSessions > 0 && (
+                                <p className="text-xs text-gray-500">
+                                  Attended {playerAttendance.sessionsAttended} of {playerAttendance.totalSessions} nights
+                                </p>
+                              )}
                             </div>
                           </div>
+                          <div className="flex space-x-1 ml-2 shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryPlayer(player)}
+                              className="p-2"
+                              title="Skill level history"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setAttendancePlayer(player)}
+                              className="p-2"
+                              title="Attendance history"
+                            >
+                              <CalendarCheck className="h-4 w-4" />
+                            </Button>
                           {currentUser?.role === "manager" && (
-                            <div className="flex space-x-1 ml-2 shrink-0">
+                            <>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -346,8 +451,9 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                               >
                                 <Trash2 className="h-4 w-4" />
                               </Button>
-                            </div>
+                            </>
                           )}
+                          </div>
                         </div>
                         
                         <div className="pt-4 border-t border-gray-100">
@@ -397,6 +503,24 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                 })}
               </div>
             )}
+
+            <Dialog open={!!historyPlayer} onOpenChange={(open) => !open && setHistoryPlayer(null)}>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>{historyPlayer?.name} - Skill Level History</DialogTitle>
+                </DialogHeader>
+                {historyPlayer && <SkillHistoryChart player={historyPlayer} />}
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={!!attendancePlayer} onOpenChange={(open) => !open && setAttendancePlayer(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{attendancePlayer?.name} - Attendance</DialogTitle>
+                </DialogHeader>
+                {attendancePlayer && <AttendanceHistory player={attendancePlayer} />}
+              </DialogContent>
+            </Dialog>
           </TabsContent>
 
           {/* Pairs Tab */}
@@ -404,9 +528,24 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 space-y-4 sm:space-y-0">
               <div>
                 <h2 className="text-2xl font-bold text-gray-900">Doubles Pairs</h2>
-                <p className="text-gray-600 mt-1">All possible team combinations</p>
+                <p className="text-gray-600 mt-1">Balanced matchups with predicted win chances</p>
               </div>
               <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 w-full sm:w-auto">
+                {sessions.length > 0 && (
+                  <Select value={pairsSession} onValueChange={setPairsSession}>
+                    <SelectTrigger className="w-full sm:w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Players</SelectItem>
+                      {sessions.map(session => (
+                        <SelectItem key={session.id} value={session.id.toString()}>
+                          Here on {new Date(session.date).toLocaleDateString()} ({session.presentIds.length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Select value={skillFilter} onValueChange={setSkillFilter}>
                   <SelectTrigger className="w-full sm:w-48">
                     <SelectValue />
@@ -419,6 +558,10 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                     <SelectItem value="Mixed Levels">Mixed Levels</SelectItem>
                   </SelectContent>
                 </Select>
+                <Button variant="outline" onClick={() => setPairsSeed(seed => seed + 1)} disabled={pairsLoading}>
+                  <Shuffle className="h-4 w-4 mr-2" />
+                  Reshuffle
+                </Button>
 
               </div>
             </div>
@@ -435,59 +578,50 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                   </Card>
                 ))}
               </div>
-            ) : pairs.length === 0 ? (
+            ) : matchups.length === 0 ? (
               <Card>
                 <CardContent className="p-12 text-center">
                   <UserPlus className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">No pairs available</h3>
-                  <p className="text-gray-500">Add more players to generate doubles pairs.</p>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No matchups available</h3>
+                  <p className="text-gray-500">
+                    {pairsSession !== "all" ? "Check in at least four players to generate matchups for this session." : "Add at least four players to generate doubles matchups."}
+                  </p>
                 </CardContent>
               </Card>
             ) : (
               <div className="space-y-3">
-                {pairs
-                  .sort((a, b) => b.skillScore - a.skillScore)
-                  .map((pair, index) => (
+                {matchups.map((matchup, index) => (
                   <Card key={index}>
                     <CardContent className="p-3 md:p-4">
                       <div className="flex flex-col md:flex-row md:items-center space-y-3 md:space-y-0 md:justify-between">
-                        <div className="flex items-center space-x-2 md:space-x-4 flex-1 min-w-0">
-                          <span className="text-xs md:text-sm font-medium text-gray-500 shrink-0">Team {index + 1}</span>
-                          
-                          <div className="flex items-center space-x-2 min-w-0">
-                            <div className={`w-6 h-6 md:w-8 md:h-8 ${getPlayerAvatarColor(players.findIndex(p => p.id === pair.player1.id))} text-white rounded-full flex items-center justify-center font-semibold text-xs`}>
-                              {getPlayerInitials(pair.player1.name)}
-                            </div>
-                            <span className="font-medium text-gray-900 text-sm truncate">{pair.player1.name}</span>
-                            <span className="text-xs text-gray-500 shrink-0">(L{pair.player1.skillLevel})</span>
-                          </div>
-                          
-                          <span className="text-gray-400 text-sm shrink-0">+</span>
-                          
-                          <div className="flex items-center space-x-2 min-w-0">
-                            <div className={`w-6 h-6 md:w-8 md:h-8 ${getPlayerAvatarColor(players.findIndex(p => p.id === pair.player2.id))} text-white rounded-full flex items-center justify-center font-semibold text-xs`}>
-                              {getPlayerInitials(pair.player2.name)}
-                            </div>
-                            <span className="font-medium text-gray-900 text-sm truncate">{pair.player2.name}</span>
-                            <span className="text-xs text-gray-500 shrink-0">(L{pair.player2.skillLevel})</span>
-                          </div>
+                        <div className="flex flex-col md:flex-row md:items-center space-y-2 md:space-y-0 md:space-x-4 flex-1 min-w-0">
+                          <span className="text-xs md:text-sm font-medium text-gray-500 shrink-0">Game {index + 1}</span>
+                          {renderTeam(matchup.teamA, matchup.teamAWinProbability)}
+                          <span className="text-gray-400 text-sm shrink-0">vs</span>
+                          {renderTeam(matchup.teamB, 1 - matchup.teamAWinProbability)}
                         </div>
                         
                         <div className="flex items-center space-x-1 md:space-x-2 justify-start md:justify-end">
                           <Badge
-                            variant={pair.balanceLevel === "Balanced" ? "default" : "secondary"}
-                            className={`text-xs ${pair.balanceLevel === "Balanced" ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}`}
+                            variant={matchup.ratingDifference <= 100 ? "default" : "secondary"}
+                            className={`text-xs ${matchup.ratingDifference <= 100 ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}`}
+                            title="Difference between the teams' combined ratings"
                           >
-                            {pair.balanceLevel}
+                            {matchup.ratingDifference === 0 ? "Even" : `±${matchup.ratingDifference}`}
                           </Badge>
-                          <Badge variant="outline" className="bg-blue-50 text-blue-700 text-xs">
-                            {pair.skillScore}
+                          <Badge variant="outline" className="bg-blue-50 text-blue-700 text-xs" title="Combined skill levels">
+                            {matchup.teamA.skillScore} v {matchup.teamB.skillScore}
                           </Badge>
                         </div>
                       </div>
                     </CardContent>
                   </Card>
                 ))}
+                {pairs && pairs.unmatched.length > 0 && (
+                  <p className="text-sm text-gray-500 px-1">
+                    Sitting out: {pairs.unmatched.map(player => player.name).join(", ")}
+                  </p>
+                )}
               </div>
             )}
           </TabsContent>
@@ -501,30 +635,38 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                   {currentUser?.role === "manager" ? "Record games and track results" : "View match history and results"}
                 </p>
               </div>
-              {currentUser?.role === "manager" && (
-                <Dialog open={matchFormOpen} onOpenChange={setMatchFormOpen}>
-                  <DialogTrigger asChild>
-                    <Button className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700">
-                      <Plus className="h-4 w-4 mr-2" />
-                      Record Match
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-2xl">
-                    <DialogHeader>
-                      <DialogTitle>{editingMatch ? "Edit Match" : "Record New Match"}</DialogTitle>
-                    </DialogHeader>
-                    <MatchForm 
-                      onSuccess={() => {
-                        setMatchFormOpen(false);
-                        setEditingMatch(null);
-                      }}
-                      availableTeams={allPairs}
-                      editingMatch={editingMatch}
-                      onUpdate={(data) => editingMatch && updateMatchMutation.mutate({ id: editingMatch.id, data })}
-                    />
-                  </DialogContent>
-                </Dialog>
-              )}
+              <div className="flex flex-col sm:flex-row w-full sm:w-auto gap-2">
+                <Link href="/live">
+                  <Button variant="outline" className="w-full sm:w-auto">
+                    <Radio className="h-4 w-4 mr-2" />
+                    Live Scoring
+                  </Button>
+                </Link>
+                {currentUser?.role === "manager" && (
+                  <Dialog open={matchFormOpen} onOpenChange={setMatchFormOpen}>
+                    <DialogTrigger asChild>
+                      <Button className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Record Match
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-2xl">
+                      <DialogHeader>
+                        <DialogTitle>{editingMatch ? "Edit Match" : "Record New Match"}</DialogTitle>
+                      </DialogHeader>
+                      <MatchForm 
+                        onSuccess={() => {
+                          setMatchFormOpen(false);
+                          setEditingMatch(null);
+                        }}
+                        availableTeams={allPairs}
+                        editingMatch={editingMatch}
+                        onUpdate={(data) => editingMatch && updateMatchMutation.mutate({ id: editingMatch.id, data })}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                )}
+              </div>
             </div>
 
             {/* Quick Match Form - Only for Managers */}
@@ -578,9 +720,11 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                 ) : (
                   <div className="divide-y divide-gray-200">
                     {matches.map((match) => {
-                      const teamA = getMatchTeamPlayers(match, "A");
-                      const teamB = getMatchTeamPlayers(match, "B");
+                      const teamA = getMatchTeamNames(match, "A");
+                      const teamB = getMatchTeamNames(match, "B");
                       const teamAWon = match.winnerId === 1;
+                      const games = gameScoresOf(match);
+                      const { teamAGames, teamBGames } = summarizeGames(games);
                       
                       return (
                         <div key={match.id} className="p-6 hover:bg-gray-50 transition-colors">
@@ -589,27 +733,28 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                               <div className="flex items-center space-x-4 mb-2">
                                 <div className="flex items-center space-x-2">
                                   <span className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs">A</span>
-                                  <span className="font-medium">
-                                    {teamA.player1?.name} & {teamA.player2?.name}
-                                  </span>
+                                  <span className="font-medium">{teamA}</span>
                                 </div>
                                 <span className="text-gray-400">vs</span>
                                 <div className="flex items-center space-x-2">
                                   <span className="w-6 h-6 bg-red-500 text-white rounded-full flex items-center justify-center text-xs">B</span>
-                                  <span className="font-medium">
-                                    {teamB.player1?.name} & {teamB.player2?.name}
-                                  </span>
+                                  <span className="font-medium">{teamB}</span>
                                 </div>
                               </div>
                               <div className="text-sm text-gray-500">
-                                {new Date(match.playedAt).toLocaleDateString()} • {new Date(match.playedAt).toLocaleTimeString()}
+                                {matchFormatLabels[match.format]} • {new Date(match.playedAt).toLocaleDateString()} • {new Date(match.playedAt).toLocaleTimeString()}
                               </div>
                             </div>
                             <div className="flex items-center space-x-4">
                               <div className="text-right">
                                 <div className="text-2xl font-bold text-gray-900">
-                                  {match.teamAScore} - {match.teamBScore}
+                                  {games.length > 1 ? `${teamAGames} - ${teamBGames}` : `${match.teamAScore} - ${match.teamBScore}`}
                                 </div>
+                                {games.length > 1 && (
+                                  <div className="text-xs text-gray-500">
+                                    {games.map(game => `${game.teamAScore}-${game.teamBScore}`).join(", ")}
+                                  </div>
+                                )}
                                 <div className="text-sm text-green-600 font-medium">
                                   Team {teamAWon ? "A" : "B"} Wins
                                 </div>
@@ -667,11 +812,51 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
             </Card>
           </TabsContent>
 
+          {/* Sessions Tab */}
+          <TabsContent value="sessions">
+            <SessionsView currentUser={currentUser} players={players} />
+          </TabsContent>
+
+          {/* Ladder Tab */}
+          <TabsContent value="ladder">
+            <LadderView currentUser={currentUser} players={players} />
+          </TabsContent>
+
           {/* Stats Tab */}
           <TabsContent value="stats">
-            <div className="mb-6">
-              <h2 className="text-2xl font-bold text-gray-900">Statistics & Leaderboard</h2>
-              <p className="text-gray-600 mt-1">Track performance and rankings</p>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 space-y-4 sm:space-y-0">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">Statistics & Leaderboard</h2>
+                <p className="text-gray-600 mt-1">Track performance and rankings</p>
+              </div>
+              <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 w-full sm:w-auto">
+                <Select value={statsPeriod} onValueChange={setStatsPeriod}>
+                  <SelectTrigger className="w-full sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all-time">All Time</SelectItem>
+                    <SelectItem value="month">This Month</SelectItem>
+                    <SelectItem value="week">This Week</SelectItem>
+                    {sessions.map(session => (
+                      <SelectItem key={session.id} value={`session-${session.id}`}>
+                        Club night {new Date(session.date).toLocaleDateString()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={statsFormat} onValueChange={(value) => setStatsFormat(value as MatchFormat | "all")}>
+                  <SelectTrigger className="w-full sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Formats</SelectItem>
+                    {matchFormats.map(format => (
+                      <SelectItem key={format} value={format}>{matchFormatLabels[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             {/* Quick Stats Cards */}
@@ -682,7 +867,7 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                     <div>
                       <p className="text-sm font-medium text-gray-600">Total Matches</p>
                       <p className="text-3xl font-bold text-gray-900">
-                        {statsLoading ? "..." : statsData?.totalMatches || 0}
+                        {leaderboardLoading ? "..." : leaderboardStats?.totalMatches || 0}
                       </p>
                     </div>
                     <div className="w-12 h-12 bg-blue-600 bg-opacity-10 rounded-lg flex items-center justify-center">
@@ -698,7 +883,7 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                     <div>
                       <p className="text-sm font-medium text-gray-600">Active Players</p>
                       <p className="text-3xl font-bold text-gray-900">
-                        {statsLoading ? "..." : statsData?.activePlayers || 0}
+                        {leaderboardLoading ? "..." : leaderboardStats?.activePlayers || 0}
                       </p>
                     </div>
                     <div className="w-12 h-12 bg-green-600 bg-opacity-10 rounded-lg flex items-center justify-center">
@@ -714,7 +899,7 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                     <div>
                       <p className="text-sm font-medium text-gray-600">This Week</p>
                       <p className="text-3xl font-bold text-gray-900">
-                        {statsLoading ? "..." : statsData?.weeklyMatches || 0}
+                        {leaderboardLoading ? "..." : leaderboardStats?.weeklyMatches || 0}
                       </p>
                     </div>
                     <div className="w-12 h-12 bg-orange-600 bg-opacity-10 rounded-lg flex items-center justify-center">
@@ -737,20 +922,13 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                   <CardHeader>
                     <div className="flex justify-between items-center">
                       <CardTitle>Player Leaderboard</CardTitle>
-                      <Select defaultValue="all-time">
-                        <SelectTrigger className="w-32">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="all-time">All Time</SelectItem>
-                          <SelectItem value="month">This Month</SelectItem>
-                          <SelectItem value="week">This Week</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      {leaderboardStats && leaderboardStats.minMatches > 1 && (
+                        <span className="text-sm text-gray-500">Min. {leaderboardStats.minMatches} matches</span>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent className="p-0">
-                    {statsLoading ? (
+                    {leaderboardLoading ? (
                       <div className="divide-y divide-gray-200">
                         {[...Array(5)].map((_, i) => (
                           <div key={i} className="p-6 animate-pulse">
@@ -759,15 +937,17 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                           </div>
                         ))}
                       </div>
-                    ) : !statsData?.playerStats.length ? (
+                    ) : !leaderboardStats?.playerStats.length ? (
                       <div className="p-12 text-center">
                         <BarChart3 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                         <h3 className="text-lg font-medium text-gray-900 mb-2">No statistics yet</h3>
-                        <p className="text-gray-500">Record some matches to see player statistics.</p>
+                        <p className="text-gray-500">
+                          {leaderboardStats?.unrankedPlayers ? "Nobody has played enough matches in this period to be ranked." : "Record some matches to see player statistics."}
+                        </p>
                       </div>
                     ) : (
                       <div className="divide-y divide-gray-200">
-                        {statsData.playerStats
+                        {leaderboardStats.playerStats
                           .map((playerStat, index) => (
                           <div key={playerStat.playerId} className="p-4 md:p-6">
                             {/* Mobile Layout */}
@@ -780,9 +960,11 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                                   {getPlayerInitials(playerStat.name)}
                                 </div>
                                 <div className="flex-1 min-w-0">
-                                  <h4 className="font-semibold text-gray-900 text-sm truncate">{playerStat.name}</h4>
+                                  <h4 className="font-semibold text-gray-900 text-sm truncate">
+                                    <Link href={`/players/${playerStat.playerId}`} className="hover:underline">{playerStat.name}</Link>
+                                  </h4>
                                   <div className="flex items-center space-x-2">
-                                    <p className="text-xs text-gray-500">Level {playerStat.skillLevel}</p>
+                                    <p className="text-xs text-gray-500">Level {playerStat.skillLevel} · {playerStat.rating}</p>
                                     {playerStat.skillLevelChange === "increased" && (
                                       <Badge variant="outline" className="bg-green-50 text-green-600 border-green-200 text-xs px-1">
                                         ↗️
@@ -839,9 +1021,11 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                                   {getPlayerInitials(playerStat.name)}
                                 </div>
                                 <div>
-                                  <h4 className="font-semibold text-gray-900">{playerStat.name}</h4>
+                                  <h4 className="font-semibold text-gray-900">
+                                    <Link href={`/players/${playerStat.playerId}`} className="hover:underline">{playerStat.name}</Link>
+                                  </h4>
                                   <div className="flex items-center space-x-2">
-                                    <p className="text-sm text-gray-500">Level {playerStat.skillLevel}</p>
+                                    <p className="text-sm text-gray-500">Level {playerStat.skillLevel} · Rating {playerStat.rating} ±{playerStat.ratingDeviation}</p>
                                     {playerStat.skillLevelChange === "increased" && (
                                       <Badge variant="outline" className="bg-green-50 text-green-600 border-green-200 text-xs px-1">
                                         ↗️ +{playerStat.skillLevel - (playerStat.previousSkillLevel || 0)}
@@ -878,6 +1062,14 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                                   <p className="text-lg font-bold text-gray-900">{playerStat.winRate}%</p>
                                   <p className="text-xs text-gray-500">Win Rate</p>
                                 </div>
+                                <div className="text-center">
+                                  <p className="text-lg font-bold text-gray-900">{playerStat.gamesWon}-{playerStat.gamesLost}</p>
+                                  <p className="text-xs text-gray-500">Games</p>
+                                </div>
+                                <div className="text-center">
+                                  <p className="text-lg font-bold text-gray-900">{playerStat.pointsPerGame}</p>
+                                  <p className="text-xs text-gray-500">Pts/Game</p>
+                                </div>
                                 {playerStat.totalMatches > 0 && (
                                   <div className="text-center">
                                     <p className={`text-lg font-bold ${playerStat.pointDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
@@ -898,6 +1090,11 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                         ))}
                       </div>
                     )}
+                    {!!leaderboardStats?.playerStats.length && !!leaderboardStats.unrankedPlayers && (
+                      <p className="px-6 py-3 text-sm text-gray-500 border-t border-gray-200">
+                        {leaderboardStats.unrankedPlayers} more {leaderboardStats.unrankedPlayers === 1 ? "player has" : "players have"} played fewer than {leaderboardStats.minMatches} matches and {leaderboardStats.unrankedPlayers === 1 ? "is" : "are"} not ranked yet.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -908,7 +1105,7 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                     <CardTitle>Doubles Team Performance</CardTitle>
                   </CardHeader>
                   <CardContent className="p-0">
-                    {statsLoading ? (
+                    {leaderboardLoading ? (
                       <div className="divide-y divide-gray-200">
                         {[...Array(3)].map((_, i) => (
                           <div key={i} className="p-6 animate-pulse">
@@ -917,15 +1114,17 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                           </div>
                         ))}
                       </div>
-                    ) : !statsData?.teamStats?.length ? (
+                    ) : !leaderboardStats?.teamStats?.length ? (
                       <div className="p-12 text-center">
                         <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                         <h3 className="text-lg font-medium text-gray-900 mb-2">No team statistics yet</h3>
-                        <p className="text-gray-500">Record some doubles matches to see team performance.</p>
+                        <p className="text-gray-500">
+                          {leaderboardStats?.unrankedTeams ? "No team has played enough matches in this period to be ranked." : "Record some doubles matches to see team performance."}
+                        </p>
                       </div>
                     ) : (
                       <div className="divide-y divide-gray-200">
-                        {statsData.teamStats
+                        {leaderboardStats.teamStats
                           .map((teamStat, index) => (
                           <div key={`${teamStat.player1.id}-${teamStat.player2.id}`} className="p-4 md:p-6">
                             {/* Mobile Layout */}
@@ -1019,6 +1218,14 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                                     <p className="text-lg font-bold text-gray-900">{teamStat.winRate}%</p>
                                     <p className="text-xs text-gray-500">Win Rate</p>
                                   </div>
+                                  <div className="text-center">
+                                    <p className="text-lg font-bold text-gray-900">{teamStat.gamesWon}-{teamStat.gamesLost}</p>
+                                    <p className="text-xs text-gray-500">Games</p>
+                                  </div>
+                                  <div className="text-center">
+                                    <p className="text-lg font-bold text-gray-900">{teamStat.pointsPerGame}</p>
+                                    <p className="text-xs text-gray-500">Pts/Game</p>
+                                  </div>
                                   {teamStat.totalMatches > 0 && (
                                     <div className="text-center">
                                       <p className={`text-lg font-bold ${teamStat.pointDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
@@ -1040,6 +1247,11 @@ export default function Home({ currentUser, activeTab: initialTab = "players" }:
                         ))}
                       </div>
                     )}
+                    {!!leaderboardStats?.teamStats.length && !!leaderboardStats.unrankedTeams && (
+                      <p className="px-6 py-3 text-sm text-gray-500 border-t border-gray-200">
+                        {leaderboardStats.unrankedTeams} more {leaderboardStats.unrankedTeams === 1 ? "team has" : "teams have"} played fewer than {leaderboardStats.minMatches} matches and {leaderboardStats.unrankedTeams === 1 ? "is" : "are"} not ranked yet.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
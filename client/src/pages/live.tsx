@@ -0,0 +1,298 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { format } from "date-fns";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { startLiveMatchSchema, type AuthUser, type LiveMatchState, type Player, type SessionSummary, type StartLiveMatch } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Monitor, Play, Radio } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface LivePageProps {
+  currentUser: AuthUser | null;
+}
+
+const playerFields = [
+  { name: "teamAPlayer1Id", label: "Right court" },
+  { name: "teamAPlayer2Id", label: "Left court" },
+  { name: "teamBPlayer1Id", label: "Right court" },
+  { name: "teamBPlayer2Id", label: "Left court" },
+] as const;
+
+export default function LivePage({ currentUser }: LivePageProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const isManager = currentUser?.role === "manager";
+
+  const { data: liveMatches = [], isLoading } = useQuery<LiveMatchState[]>({
+    queryKey: ["/api/live-matches"],
+    refetchInterval: 10000,
+  });
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const { data: sessions = [] } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/sessions"],
+    enabled: isManager,
+  });
+
+  const form = useForm<StartLiveMatch>({
+    resolver: zodResolver(startLiveMatchSchema),
+    defaultValues: {
+      teamAPlayer1Id: 0,
+      teamAPlayer2Id: 0,
+      teamBPlayer1Id: 0,
+      teamBPlayer2Id: 0,
+      sessionId: null,
+      bestOf: 3,
+      servingTeam: 1,
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (data: StartLiveMatch) => {
+      const response = await apiRequest("POST", "/api/live-matches", data);
+      return await response.json() as LiveMatchState;
+    },
+    onSuccess: (state) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/live-matches"] });
+      setLocation(`/live/${state.id}/umpire`);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to start live match", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+  const selectedIds = form.watch(playerFields.map(field => field.name));
+
+  const renderPlayerSelect = (index: number) => {
+    const { name, label } = playerFields[index];
+    return (
+      <FormField
+        key={name}
+        control={form.control}
+        name={name}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{label}</FormLabel>
+            <Select
+              onValueChange={(value) => field.onChange(parseInt(value))}
+              value={field.value ? field.value.toString() : ""}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select player" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {players
+                  .filter(player => player.id === field.value || !selectedIds.includes(player.id))
+                  .map(player => (
+                    <SelectItem key={player.id} value={player.id.toString()}>
+                      {player.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Live Scoring</h2>
+          <p className="text-gray-600 mt-1">Follow matches point by point as they are played</p>
+        </div>
+        <Link href="/matches">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Matches
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Radio className="h-5 w-5 mr-2 text-red-500" />
+            Now Playing
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          ) : liveMatches.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No matches are being scored live right now</p>
+          ) : (
+            <div className="space-y-3">
+              {liveMatches.map(match => (
+                <div key={match.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-3 border rounded-lg gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {playerName(match.teamA[0])} & {playerName(match.teamA[1])}
+                      <span className="text-gray-400 mx-2">vs</span>
+                      {playerName(match.teamB[0])} & {playerName(match.teamB[1])}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {match.games.map(game => `${game.teamAScore}-${game.teamBScore}`).join(", ")}
+                      {match.status === "in_progress" && (
+                        <span>{match.games.length > 0 ? ", " : ""}{match.currentGame.teamAScore}-{match.currentGame.teamBScore}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    {match.status === "finished" ? (
+                      <Badge variant="secondary">Finished</Badge>
+                    ) : (
+                      <Badge className="bg-red-500">Live</Badge>
+                    )}
+                    <Link href={`/live/${match.id}`}>
+                      <Button variant="outline" size="sm">
+                        <Monitor className="h-4 w-4 mr-1" />
+                        Scoreboard
+                      </Button>
+                    </Link>
+                    {isManager && (
+                      <Link href={`/live/${match.id}/umpire`}>
+                        <Button size="sm">Umpire</Button>
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isManager && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Start a Live Match</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(data => startMutation.mutate(data))} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-3">
+                    <h4 className="font-medium text-gray-900 flex items-center">
+                      <span className="w-8 h-8 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm mr-2">A</span>
+                      Team A
+                    </h4>
+                    {renderPlayerSelect(0)}
+                    {renderPlayerSelect(1)}
+                  </div>
+                  <div className="space-y-3">
+                    <h4 className="font-medium text-gray-900 flex items-center">
+                      <span className="w-8 h-8 bg-red-500 text-white rounded-full flex items-center justify-center text-sm mr-2">B</span>
+                      Team B
+                    </h4>
+                    {renderPlayerSelect(2)}
+                    {renderPlayerSelect(3)}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">Place each pair as they stand for the first serve of the match.</p>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="bestOf"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Format</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value.toString()}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="3">Best of 3 games</SelectItem>
+                            <SelectItem value="1">Single game</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="servingTeam"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First serve</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value.toString()}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="1">Team A</SelectItem>
+                            <SelectItem value="2">Team B</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  {sessions.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="sessionId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Session</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                            value={field.value ? field.value.toString() : "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select session" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">No session</SelectItem>
+                              {sessions.map(session => (
+                                <SelectItem key={session.id} value={session.id.toString()}>
+                                  {format(new Date(session.date), "d MMM yyyy")} - {session.venue}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700"
+                  disabled={startMutation.isPending || selectedIds.some(id => !id)}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  {startMutation.isPending ? "Starting..." : "Start Match"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { User, Crown, Users, Smartphone } from "lucide-react";
 import OTPVerification from "@/components/otp-verification";
@@ -21,6 +21,7 @@ export function LoginPage({ onLogin }: LoginPageProps) {
   const [playerName, setPlayerName] = useState("");
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [showOTPVerification, setShowOTPVerification] = useState(false);
+  const [otpTimers, setOtpTimers] = useState<{ expiresInSeconds?: number; resendInSeconds: number }>({ resendInSeconds: 0 });
   
   const { data: players, isLoading } = useQuery({
     queryKey: ["/api/players"],
@@ -31,9 +32,10 @@ export function LoginPage({ onLogin }: LoginPageProps) {
       const response = await apiRequest("POST", "/api/auth/send-otp", { playerId });
       return await response.json();
     },
-    onSuccess: (_, playerId) => {
+    onSuccess: (data: { expiresInSeconds: number; resendInSeconds: number }, playerId) => {
       const player = (players as Player[])?.find((p: Player) => p.id === playerId);
       if (player) {
+        setOtpTimers(data);
         setSelectedPlayer(player);
         setShowOTPVerification(true);
         toast({
@@ -42,11 +44,26 @@ export function LoginPage({ onLogin }: LoginPageProps) {
         });
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, playerId) => {
       console.error("Send OTP error:", error);
+      const { status, body } = parseApiError(error);
+      const player = (players as Player[])?.find((p: Player) => p.id === playerId);
+
+      // A code was sent moments ago - let the player enter it instead of requesting another
+      if (status === 429 && player && typeof body.retryAfterSeconds === "number") {
+        setOtpTimers({ resendInSeconds: body.retryAfterSeconds });
+        setSelectedPlayer(player);
+        setShowOTPVerification(true);
+        toast({
+          title: "Code already sent",
+          description: "Enter the code you received, or request a new one when the timer runs out.",
+        });
+        return;
+      }
+
       toast({
         title: "Failed to send OTP",
-        description: error.message || "Failed to send verification code",
+        description: body.error || error.message || "Failed to send verification code",
         variant: "destructive",
       });
     },
@@ -119,6 +136,8 @@ export function LoginPage({ onLogin }: LoginPageProps) {
     return (
       <OTPVerification
         player={selectedPlayer}
+        expiresInSeconds={otpTimers.expiresInSeconds}
+        resendInSeconds={otpTimers.resendInSeconds}
         onVerificationSuccess={handleOTPVerificationSuccess}
         onGoBack={handleGoBackToLogin}
       />
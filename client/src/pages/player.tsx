@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { gameScoresOf, matchFormatLabels, type AutoAdjustStatus, type HeadToHead, type Player, type PlayerConnection, type PlayerProfile } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, TrendingDown, TrendingUp } from "lucide-react";
+import ConnectionsTable, { formatRatingDelta } from "@/components/connections-table";
+import PlayerTrendCharts from "@/components/player-trend-charts";
+import SkillHistoryChart from "@/components/skill-history-chart";
+
+interface PlayerPageProps {
+  id: number;
+}
+
+function autoAdjustMessage(status: AutoAdjustStatus, skillLevel: number): string {
+  const needed = `${status.matchesNeeded} more doubles ${status.matchesNeeded === 1 ? "match" : "matches"}`;
+  if (status.mode === "collecting") {
+    return `Needs ${needed} before the skill level can ${status.review ? "be adjusted" : "adjust automatically"}.`;
+  }
+  const direction = status.suggestedLevel === null || status.suggestedLevel === skillLevel
+    ? `The doubles rating supports level ${skillLevel}`
+    : `The doubles rating points to level ${status.suggestedLevel}`;
+  return status.mode === "suggesting"
+    ? `${direction}. Only a suggestion until ${needed} ${status.matchesNeeded === 1 ? "is" : "are"} played.`
+    : status.review
+      ? `${direction}. Changes go to a manager for approval.`
+      : `${direction}. The level adjusts automatically after each doubles match.`;
+}
+
+export default function PlayerPage({ id }: PlayerPageProps) {
+  // Head-to-head line-up: this player with an optional partner against one or two opponents
+  const [partnerId, setPartnerId] = useState("none");
+  const [opponentId, setOpponentId] = useState("");
+  const [opponentPartnerId, setOpponentPartnerId] = useState("none");
+
+  const { data: players = [], isLoading } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const { data: profile } = useQuery<PlayerProfile>({
+    queryKey: ["/api/players", id, "profile"],
+  });
+
+  const { data: partners = [] } = useQuery<PlayerConnection[]>({
+    queryKey: ["/api/players", id, "partners"],
+  });
+
+  const { data: opponents = [] } = useQuery<PlayerConnection[]>({
+    queryKey: ["/api/players", id, "opponents"],
+  });
+
+  const teamA = partnerId === "none" ? [id] : [id, parseInt(partnerId)];
+  const teamB = opponentId === "" ? [] : opponentPartnerId === "none" ? [parseInt(opponentId)] : [parseInt(opponentId), parseInt(opponentPartnerId)];
+
+  const { data: headToHead } = useQuery<HeadToHead>({
+    queryKey: ["/api/head-to-head", teamA.join(","), teamB.join(",")],
+    queryFn: async () => {
+      const res = await fetch(`/api/head-to-head?a=${teamA.join(",")}&b=${teamB.join(",")}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return await res.json();
+    },
+    enabled: teamB.length > 0,
+    staleTime: 0,
+  });
+
+  const player = players.find(p => p.id === id);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (!player) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12 text-center">
+        <p className="text-gray-600 mb-4">This player doesn't exist.</p>
+        <Link href="/players">
+          <Button variant="outline">Back to players</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+  const otherPlayers = players.filter(p => p.id !== id);
+  const isFree = (playerId: number, ...taken: string[]) => !taken.includes(playerId.toString());
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+      <div>
+        <Link href="/players">
+          <Button variant="ghost" size="sm" className="-ml-3 mb-1">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Players
+          </Button>
+        </Link>
+        <h2 className="text-2xl font-bold text-gray-900">{player.name}</h2>
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <Badge variant="outline">Level {player.skillLevel}</Badge>
+          {profile && <Badge variant="outline">Rating {profile.stats.rating}</Badge>}
+          {player.role === "manager" && <Badge variant="secondary">Manager</Badge>}
+          {profile?.stats.recentPerformance === "improving" && (
+            <Badge variant="outline" className="bg-blue-50 text-blue-600 border-blue-200">
+              <TrendingUp className="h-3 w-3 mr-1" />
+              In form
+            </Badge>
+          )}
+          {profile?.stats.recentPerformance === "declining" && (
+            <Badge variant="outline" className="bg-orange-50 text-orange-600 border-orange-200">
+              <TrendingDown className="h-3 w-3 mr-1" />
+              Struggling
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {profile && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">Record</p>
+                <p className="text-2xl font-bold text-gray-900 tabular-nums">{profile.stats.wins}-{profile.stats.losses}</p>
+                <p className="text-xs text-gray-500">{profile.stats.winRate}% won</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">Current Streak</p>
+                <p className={`text-2xl font-bold tabular-nums ${profile.currentStreak?.result === "loss" ? "text-red-600" : "text-green-600"}`}>
+                  {profile.currentStreak ? `${profile.currentStreak.result === "win" ? "W" : "L"}${profile.currentStreak.length}` : "-"}
+                </p>
+                <p className="text-xs text-gray-500">Best W{profile.longestWinStreak} • Worst L{profile.longestLossStreak}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">Points per Match</p>
+                <p className="text-2xl font-bold text-gray-900 tabular-nums">
+                  {profile.stats.totalMatches > 0 ? (profile.stats.pointsFor / profile.stats.totalMatches).toFixed(1) : "-"}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {profile.stats.totalMatches > 0 ? `${(profile.stats.pointsAgainst / profile.stats.totalMatches).toFixed(1)} conceded` : "No matches yet"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">Point Diff</p>
+                <p className={`text-2xl font-bold tabular-nums ${profile.stats.pointDifference >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {profile.stats.pointDifference >= 0 ? "+" : ""}{profile.stats.pointDifference}
+                </p>
+                <p className="text-xs text-gray-500">{profile.stats.pointsPerGame} points per game</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium text-gray-900">Skill level auto-adjust</p>
+                <p className="text-sm text-gray-600">{autoAdjustMessage(profile.autoAdjust, player.skillLevel)}</p>
+              </div>
+              <Badge variant={profile.autoAdjust.mode === "automatic" ? "default" : "secondary"} className="shrink-0 self-start sm:self-auto">
+                {profile.autoAdjust.mode === "automatic" ? (profile.autoAdjust.review ? "Manager review" : "Active") : profile.autoAdjust.mode === "suggesting" ? "Suggesting" : `${profile.autoAdjust.doublesMatches} of ${profile.autoAdjust.doublesMatches + profile.autoAdjust.matchesNeeded} matches`}
+              </Badge>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Trends</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PlayerTrendCharts history={profile.history} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Skill Level History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SkillHistoryChart player={player} />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Partners</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ConnectionsTable connections={partners} emptyMessage="No doubles matches played yet" />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Opponents</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ConnectionsTable connections={opponents} emptyMessage="No matches played yet" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Head to Head</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Select value={partnerId} onValueChange={setPartnerId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">On their own</SelectItem>
+                {otherPlayers.filter(p => isFree(p.id, opponentId, opponentPartnerId)).map(p => (
+                  <SelectItem key={p.id} value={p.id.toString()}>With {p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={opponentId} onValueChange={setOpponentId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Against..." />
+              </SelectTrigger>
+              <SelectContent>
+                {otherPlayers.filter(p => isFree(p.id, partnerId, opponentPartnerId)).map(p => (
+                  <SelectItem key={p.id} value={p.id.toString()}>Against {p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={opponentPartnerId} onValueChange={setOpponentPartnerId} disabled={opponentId === ""}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Any partner</SelectItem>
+                {otherPlayers.filter(p => isFree(p.id, partnerId, opponentId)).map(p => (
+                  <SelectItem key={p.id} value={p.id.toString()}>And {p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {teamB.length === 0 ? (
+            <p className="text-sm text-gray-500">Pick an opponent to compare records</p>
+          ) : headToHead && headToHead.matches === 0 ? (
+            <p className="text-sm text-gray-500">These sides haven't met yet</p>
+          ) : headToHead && (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-gray-900 tabular-nums">{headToHead.teamAWins}-{headToHead.teamBWins}</p>
+                  <p className="text-xs text-gray-500">Record</p>
+                </div>
+                <div>
+                  <p className={`text-2xl font-bold tabular-nums ${headToHead.pointDifference >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    {headToHead.pointDifference >= 0 ? "+" : ""}{headToHead.pointDifference}
+                  </p>
+                  <p className="text-xs text-gray-500">Point Diff</p>
+                </div>
+                <div>
+                  <p className={`text-2xl font-bold tabular-nums ${headToHead.ratingDelta >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    {formatRatingDelta(headToHead.ratingDelta)}
+                  </p>
+                  <p className="text-xs text-gray-500">Rating</p>
+                </div>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {headToHead.history.map(match => {
+                  const onTeamA = headToHead.teamA.every(playerId => match.teamA.includes(playerId));
+                  const won = match.winnerId === (onTeamA ? 1 : 2);
+                  return (
+                    <div key={match.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-gray-900 truncate">
+                          {match.teamA.map(playerName).join(" & ")} <span className="text-gray-400">vs</span> {match.teamB.map(playerName).join(" & ")}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {format(new Date(match.playedAt), "d MMM yyyy")} • {matchFormatLabels[match.format]} • {gameScoresOf(match).map(game => `${game.teamAScore}-${game.teamBScore}`).join(", ")}
+                        </p>
+                      </div>
+                      <Badge variant={won ? "default" : "secondary"} className="shrink-0">{won ? "Won" : "Lost"}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {profile && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Match History ({profile.history.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {profile.history.length === 0 ? (
+              <p className="text-sm text-gray-500">No matches played yet</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {profile.history.map(({ match, won, pointsFor, pointsAgainst, ratingDelta }) => {
+                  const onTeamA = match.teamA.includes(id);
+                  const partnerIds = (onTeamA ? match.teamA : match.teamB).filter(playerId => playerId !== id);
+                  const opponentIds = onTeamA ? match.teamB : match.teamA;
+                  return (
+                    <div key={match.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-gray-900 truncate">
+                          {partnerIds.length > 0 && <span className="text-gray-500">with {partnerIds.map(playerName).join(" & ")} </span>}
+                          <span className="text-gray-500">vs </span>
+                          {opponentIds.map(playerName).join(" & ")}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {format(new Date(match.playedAt), "d MMM yyyy")} • {matchFormatLabels[match.format]} • {pointsFor}-{pointsAgainst}
+                          {ratingDelta !== null && ` • rating ${formatRatingDelta(ratingDelta)}`}
+                        </p>
+                      </div>
+                      <Badge variant={won ? "default" : "secondary"} className="shrink-0">{won ? "Won" : "Lost"}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Wifi, WifiOff } from "lucide-react";
+import { useLiveMatch } from "@/hooks/use-live-match";
+import type { Player } from "@shared/schema";
+
+interface ScoreboardPageProps {
+  id: number;
+}
+
+export default function ScoreboardPage({ id }: ScoreboardPageProps) {
+  const { state, connected, closed } = useLiveMatch(id);
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+
+  if (closed && !state) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-12 text-center">
+        <p className="text-gray-600 mb-4">This live match is no longer running.</p>
+        <Link href="/live">
+          <Button variant="outline">Back to live matches</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  const teams = [
+    { side: 1 as const, label: "A", players: state.teamA, score: state.currentGame.teamAScore, color: "bg-blue-500" },
+    { side: 2 as const, label: "B", players: state.teamB, score: state.currentGame.teamBScore, color: "bg-red-500" },
+  ];
+  const gamesWon = (side: 1 | 2) => state.games.filter(game => (game.teamAScore > game.teamBScore ? 1 : 2) === side).length;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <Link href="/live">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Live matches
+          </Button>
+        </Link>
+        <Badge variant="outline" className={connected ? "text-green-700" : "text-gray-500"}>
+          {connected ? <Wifi className="h-3 w-3 mr-1" /> : <WifiOff className="h-3 w-3 mr-1" />}
+          {connected ? "Live" : "Reconnecting"}
+        </Badge>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 divide-y divide-gray-200">
+          {teams.map(team => (
+            <div key={team.side} className="flex items-center justify-between p-4 md:p-6">
+              <div className="flex items-center space-x-3 min-w-0">
+                <span className={`w-8 h-8 ${team.color} text-white rounded-full flex items-center justify-center text-sm shrink-0`}>{team.label}</span>
+                <div className="min-w-0">
+                  {team.players.map(playerId => (
+                    <div key={playerId} className="font-semibold text-gray-900 truncate">
+                      {playerName(playerId)}
+                      {state.status === "in_progress" && state.serverId === playerId && (
+                        <span className="ml-2 inline-block w-2 h-2 rounded-full bg-yellow-400" title="Serving" />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center space-x-4 shrink-0">
+                {state.bestOf === 3 && (
+                  <div className="flex space-x-2 text-sm text-gray-500">
+                    {state.games.map((game, index) => (
+                      <span key={index} className={(game.teamAScore > game.teamBScore ? 1 : 2) === team.side ? "font-bold text-gray-900" : ""}>
+                        {team.side === 1 ? game.teamAScore : game.teamBScore}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <span className="text-5xl md:text-6xl font-bold tabular-nums text-gray-900 w-20 text-right">
+                  {state.status === "finished" ? gamesWon(team.side) : team.score}
+                </span>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="text-center text-sm text-gray-600">
+        {state.status === "finished" ? (
+          <span className="text-green-600 font-medium">
+            Team {state.winnerId === 1 ? "A" : "B"} wins{state.matchId ? " · result saved" : ""}
+          </span>
+        ) : (
+          <span>
+            Game {state.games.length + 1} · {playerName(state.serverId)} serving from the {state.serviceCourt} court to {playerName(state.receiverId)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
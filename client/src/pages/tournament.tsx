@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { matchFormatLabels, teamPlayerIds, teamSizeOf, tournamentFormatLabels, tournamentStatusLabels, type AuthUser, type Player, type TournamentDetails, type TournamentMatchDetails, type TournamentTeam } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Medal, Play, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import MatchForm from "@/components/match-form";
+import TournamentBracket from "@/components/tournament-bracket";
+
+interface TournamentPageProps {
+  id: number;
+  currentUser: AuthUser | null;
+}
+
+export default function TournamentPage({ id, currentUser }: TournamentPageProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [entry, setEntry] = useState<string[]>(["", ""]);
+  const [recording, setRecording] = useState<TournamentMatchDetails | null>(null);
+  const isManager = currentUser?.role === "manager";
+
+  const { data: tournament, isLoading } = useQuery<TournamentDetails>({
+    queryKey: ["/api/tournaments", id],
+  });
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const invalidateTournaments = () => queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+
+  const addTeamMutation = useMutation({
+    mutationFn: async (playerIds: number[]) => apiRequest("POST", `/api/tournaments/${id}/teams`, { playerIds }),
+    onSuccess: () => {
+      invalidateTournaments();
+      setEntry(["", ""]);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to register team", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const removeTeamMutation = useMutation({
+    mutationFn: async (teamId: number) => apiRequest("DELETE", `/api/tournaments/${id}/teams/${teamId}`),
+    onSuccess: invalidateTournaments,
+    onError: (error) => {
+      toast({ title: "Failed to withdraw team", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/tournaments/${id}/start`),
+    onSuccess: () => {
+      invalidateTournaments();
+      toast({ title: "The draw has been made" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to start tournament", description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/tournaments/${id}`),
+    onSuccess: () => {
+      invalidateTournaments();
+      toast({ title: "Tournament deleted successfully" });
+      setLocation("/tournaments");
+    },
+    onError: () => {
+      toast({ title: "Failed to delete tournament", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12 text-center">
+        <p className="text-gray-600 mb-4">This tournament doesn't exist.</p>
+        <Link href="/tournaments">
+          <Button variant="outline">Back to tournaments</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+  const teamName = (team: TournamentTeam) => teamPlayerIds(team).map(playerName).join(" & ");
+  const teamById = (teamId: number | null) => tournament.teams.find(team => team.id === teamId);
+
+  const teamSize = teamSizeOf(tournament.matchFormat);
+  const registeredIds = tournament.teams.flatMap(teamPlayerIds);
+  const entryIds = entry.slice(0, teamSize).map(value => parseInt(value));
+  const registration = tournament.status === "registration";
+
+  // The last knockout match decided crowns the champion
+  const finalMatch = tournament.format !== "round_robin" && tournament.status === "completed"
+    ? [...tournament.matches].reverse().find(match => match.bracket === (tournament.format === "double_elimination" ? "final" : "winners"))
+    : undefined;
+  const champion = teamById(finalMatch?.winnerTeamId ?? null);
+
+  const recordingTeamA = teamById(recording?.teamAId ?? null);
+  const recordingTeamB = teamById(recording?.teamBId ?? null);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <Link href="/tournaments">
+            <Button variant="ghost" size="sm" className="-ml-3 mb-1">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Tournaments
+            </Button>
+          </Link>
+          <h2 className="text-2xl font-bold text-gray-900">{tournament.name}</h2>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <Badge variant={tournament.status === "in_progress" ? "default" : "secondary"}>{tournamentStatusLabels[tournament.status]}</Badge>
+            <Badge variant="outline">{tournamentFormatLabels[tournament.format]}</Badge>
+            <Badge variant="outline">{matchFormatLabels[tournament.matchFormat]}</Badge>
+            <Badge variant="outline">Seeded by {tournament.seeding === "skill" ? "skill level" : "rating"}</Badge>
+          </div>
+        </div>
+        {isManager && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete Tournament</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This removes the draw and the registered teams. Matches already recorded stay in the match history.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => deleteMutation.mutate()} className="bg-red-600 hover:bg-red-700">
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {champion && (
+        <Card className="border-yellow-300 bg-yellow-50">
+          <CardContent className="p-4 flex items-center space-x-3">
+            <Medal className="h-8 w-8 text-yellow-500" />
+            <div>
+              <p className="text-sm text-gray-600">Champions</p>
+              <p className="text-lg font-semibold text-gray-900">{teamName(champion)}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {registration ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Teams ({tournament.teams.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {tournament.teams.length === 0 ? (
+              <p className="text-sm text-gray-500">No teams registered yet</p>
+            ) : (
+              <div className="space-y-2">
+                {tournament.teams.map(team => (
+                  <div key={team.id} className="flex items-center justify-between p-2 border rounded-md">
+                    <span className="text-sm font-medium text-gray-900 truncate">{teamName(team)}</span>
+                    {isManager && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeTeamMutation.mutate(team.id)}
+                        disabled={removeTeamMutation.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isManager && (
+              <>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {entry.slice(0, teamSize).map((value, index) => (
+                    <Select
+                      key={index}
+                      value={value}
+                      onValueChange={(playerId) => setEntry(current => current.map((v, i) => (i === index ? playerId : v)))}
+                    >
+                      <SelectTrigger className="sm:w-56">
+                        <SelectValue placeholder="Select player" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {players
+                          .filter(player => !registeredIds.includes(player.id) && (player.id.toString() === value || !entry.includes(player.id.toString())))
+                          .map(player => (
+                            <SelectItem key={player.id} value={player.id.toString()}>
+                              {player.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                  <Button
+                    variant="outline"
+                    onClick={() => addTeamMutation.mutate(entryIds)}
+                    disabled={addTeamMutation.isPending || entryIds.some(Number.isNaN)}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    {teamSize === 1 ? "Add Player" : "Add Team"}
+                  </Button>
+                </div>
+                <Button
+                  className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700"
+                  onClick={() => startMutation.mutate()}
+                  disabled={startMutation.isPending || tournament.teams.length < 2}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  {startMutation.isPending ? "Making the draw..." : "Start Tournament"}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {tournament.standings.map(table => (
+            <Card key={table.groupNumber ?? 0}>
+              <CardHeader>
+                <CardTitle>{table.groupNumber !== null ? `Group ${table.groupNumber}` : "Standings"}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-2">#</th>
+                        <th className="py-2 pr-2">Team</th>
+                        <th className="py-2 px-2 text-right">P</th>
+                        <th className="py-2 px-2 text-right">W</th>
+                        <th className="py-2 px-2 text-right">L</th>
+                        <th className="py-2 px-2 text-right">Win %</th>
+                        <th className="py-2 pl-2 text-right">+/-</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.map((row, index) => {
+                        const team = teamById(row.teamId);
+                        return (
+                          <tr key={row.teamId} className="border-b last:border-0">
+                            <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                            <td className="py-2 pr-2 font-medium text-gray-900">
+                              {team ? teamName(team) : "Unknown"}
+                              {row.seed && <span className="ml-2 text-xs text-gray-400">seed {row.seed}</span>}
+                            </td>
+                            <td className="py-2 px-2 text-right tabular-nums">{row.matches}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{row.wins}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{row.losses}</td>
+                            <td className="py-2 px-2 text-right tabular-nums">{row.winRate}%</td>
+                            <td className="py-2 pl-2 text-right tabular-nums">{row.pointDifference > 0 ? "+" : ""}{row.pointDifference}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {table.groupNumber !== null && (
+                  <TournamentBracket
+                    bracket="group"
+                    matches={tournament.matches.filter(match => match.groupNumber === table.groupNumber)}
+                    teams={tournament.teams}
+                    teamName={teamName}
+                    onRecord={isManager ? setRecording : undefined}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+          {tournament.format !== "round_robin" && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Draw</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {(["winners", "losers", "final"] as const).map(bracket => (
+                  <TournamentBracket
+                    key={bracket}
+                    bracket={bracket}
+                    matches={tournament.matches}
+                    teams={tournament.teams}
+                    teamName={teamName}
+                    onRecord={isManager ? setRecording : undefined}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <Dialog open={recording !== null} onOpenChange={(open) => !open && setRecording(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Record Tournament Match</DialogTitle>
+          </DialogHeader>
+          {recording && recordingTeamA && recordingTeamB && (
+            <MatchForm
+              key={recording.id}
+              preselectedTeamA={teamPlayerIds(recordingTeamA)}
+              preselectedTeamB={teamPlayerIds(recordingTeamB)}
+              preselectedFormat={tournament.matchFormat}
+              onSuccess={() => setRecording(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
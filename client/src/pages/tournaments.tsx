@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { format } from "date-fns";
+import { matchFormatLabels, tournamentFormatLabels, tournamentStatusLabels, type AuthUser, type TournamentSummary } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Medal, Plus } from "lucide-react";
+import TournamentForm from "@/components/tournament-form";
+
+interface TournamentsPageProps {
+  currentUser: AuthUser | null;
+}
+
+export default function TournamentsPage({ currentUser }: TournamentsPageProps) {
+  const [, setLocation] = useLocation();
+  const [formOpen, setFormOpen] = useState(false);
+  const isManager = currentUser?.role === "manager";
+
+  const { data: tournaments = [], isLoading } = useQuery<TournamentSummary[]>({
+    queryKey: ["/api/tournaments"],
+  });
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Tournaments</h2>
+          <p className="text-gray-600 mt-1">Club tournaments with their draws, results and standings</p>
+        </div>
+        {isManager && (
+          <Button className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700" onClick={() => setFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Tournament
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Tournament</DialogTitle>
+          </DialogHeader>
+          <TournamentForm
+            onSuccess={(tournament) => {
+              setFormOpen(false);
+              setLocation(`/tournaments/${tournament.id}`);
+            }}
+            onCancel={() => setFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : tournaments.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Medal className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No tournaments yet</h3>
+            <p className="text-gray-600">
+              {isManager ? "Create a tournament and register teams to make the draw." : "Tournaments will appear here once a manager sets one up."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {tournaments.map(tournament => (
+            <Link key={tournament.id} href={`/tournaments/${tournament.id}`}>
+              <Card className="cursor-pointer hover:border-blue-300 transition-colors">
+                <CardContent className="p-4 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{tournament.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {tournamentFormatLabels[tournament.format]} • {matchFormatLabels[tournament.matchFormat]} • {tournament.teamCount} {tournament.teamCount === 1 ? "team" : "teams"} • {format(new Date(tournament.createdAt), "d MMM yyyy")}
+                    </p>
+                  </div>
+                  <Badge variant={tournament.status === "in_progress" ? "default" : "secondary"} className="shrink-0">
+                    {tournamentStatusLabels[tournament.status]}
+                  </Badge>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import type { AuthUser, LiveMatchState, Player } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CheckCircle, Monitor, Undo2 } from "lucide-react";
+import { useLiveMatch } from "@/hooks/use-live-match";
+import { useToast } from "@/hooks/use-toast";
+
+interface UmpirePageProps {
+  id: number;
+  currentUser: AuthUser | null;
+}
+
+// Take the state straight from the response so the umpire never waits on the event stream
+function useLiveAction(id: number, action: string, failure: string, onUpdate: (state: LiveMatchState) => void) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data?: unknown) => {
+      const response = await apiRequest("POST", `/api/live-matches/${id}/${action}`, data);
+      return await response.json() as LiveMatchState;
+    },
+    onSuccess: onUpdate,
+    onError: (error) => {
+      toast({ title: failure, description: parseApiError(error).body.error, variant: "destructive" });
+    },
+  });
+}
+
+export default function UmpirePage({ id, currentUser }: UmpirePageProps) {
+  const { state, setState, closed } = useLiveMatch(id);
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+  });
+
+  const playerName = (playerId: number) => players.find(p => p.id === playerId)?.name ?? "Unknown";
+
+  const rallyMutation = useLiveAction(id, "rally", "Failed to record rally", setState);
+  const undoMutation = useLiveAction(id, "undo", "Failed to undo rally", setState);
+  const commitMutation = useLiveAction(id, "commit", "Failed to save match result", setState);
+
+  // Once the result is stored, everything derived from matches is out of date
+  const savedMatchId = state?.matchId;
+  useEffect(() => {
+    if (!savedMatchId) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/attendance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ladders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/skill-proposals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/live-matches"] });
+  }, [savedMatchId]);
+
+  if (currentUser?.role !== "manager") {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12 text-center">
+        <p className="text-gray-600 mb-4">Only managers can umpire live matches.</p>
+        <Link href={`/live/${id}`}>
+          <Button variant="outline">Watch the scoreboard</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (closed && !state) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12 text-center">
+        <p className="text-gray-600 mb-4">This live match is no longer running.</p>
+        <Link href="/live">
+          <Button variant="outline">Back to live matches</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    );
+  }
+
+  const isPending = rallyMutation.isPending || undoMutation.isPending || commitMutation.isPending;
+  const finished = state.status === "finished";
+  const teams = [
+    { side: 1 as const, label: "A", players: state.teamA, score: state.currentGame.teamAScore, color: "bg-blue-600 hover:bg-blue-700" },
+    { side: 2 as const, label: "B", players: state.teamB, score: state.currentGame.teamBScore, color: "bg-red-600 hover:bg-red-700" },
+  ];
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <Link href="/live">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Live matches
+          </Button>
+        </Link>
+        <Link href={`/live/${id}`}>
+          <Button variant="ghost" size="sm">
+            <Monitor className="h-4 w-4 mr-1" />
+            Scoreboard
+          </Button>
+        </Link>
+      </div>
+
+      {state.games.length > 0 && (
+        <p className="text-center text-sm text-gray-500">
+          Games: {state.games.map(game => `${game.teamAScore}-${game.teamBScore}`).join(", ")}
+        </p>
+      )}
+
+      {finished ? (
+        <Card>
+          <CardContent className="p-6 text-center space-y-3">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+            <p className="text-lg font-semibold text-gray-900">
+              Team {state.winnerId === 1 ? "A" : "B"} wins
+            </p>
+            {state.matchId ? (
+              <p className="text-sm text-gray-600">The result has been saved to the match history.</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">The result couldn't be saved yet.</p>
+                <Button onClick={() => commitMutation.mutate(undefined)} disabled={isPending}>
+                  {commitMutation.isPending ? "Saving..." : "Save Result"}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-sm text-gray-500">Game {state.games.length + 1} · serving from the {state.serviceCourt} court</p>
+              <p className="font-medium text-gray-900 mt-1">
+                {playerName(state.serverId)}
+                <span className="text-gray-400 mx-2">to</span>
+                {playerName(state.receiverId)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-2 gap-3">
+            {teams.map(team => (
+              <Button
+                key={team.side}
+                className={`h-48 flex flex-col text-white ${team.color}`}
+                disabled={isPending}
+                onClick={() => rallyMutation.mutate({ winner: team.side })}
+              >
+                <span className="text-6xl font-bold tabular-nums">{team.score}</span>
+                <span className="mt-2 text-sm font-medium">Point Team {team.label}</span>
+                <span className="text-xs opacity-80 truncate max-w-full">
+                  {team.players.map(playerName).join(" & ")}
+                </span>
+              </Button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {!state.matchId && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isPending || state.rallyCount === 0}
+          onClick={() => undoMutation.mutate(undefined)}
+        >
+          <Undo2 className="h-4 w-4 mr-2" />
+          Undo Last Rally
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
+// DB_DRIVER=pglite works on the embedded database directory; every other driver needs a server URL
+const embedded = process.env.DB_DRIVER === "pglite";
+
+if (!embedded && !process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
@@ -8,7 +11,7 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
+  ...(embedded
+    ? { driver: "pglite", dbCredentials: { url: process.env.PGLITE_DATA_DIR || "data/pglite" } }
+    : { dbCredentials: { url: process.env.DATABASE_URL! } }),
 });
@@ -0,0 +1,32 @@
+CREATE TABLE "matches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_a_player_1_id" integer NOT NULL,
+	"team_a_player_2_id" integer NOT NULL,
+	"team_b_player_1_id" integer NOT NULL,
+	"team_b_player_2_id" integer NOT NULL,
+	"team_a_score" integer NOT NULL,
+	"team_b_score" integer NOT NULL,
+	"winner_id" integer NOT NULL,
+	"played_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "otp_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_id" integer NOT NULL,
+	"code" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"is_used" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "players" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"skill_level" integer NOT NULL,
+	"original_skill_level" integer,
+	"previous_skill_level" integer,
+	"role" text DEFAULT 'player' NOT NULL,
+	"mobile_number" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_skill_update" timestamp DEFAULT now()
+);
@@ -0,0 +1,177 @@
+CREATE TABLE "challenges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ladder_id" integer NOT NULL,
+	"challenger_entry_id" integer NOT NULL,
+	"defender_entry_id" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"issued_by" integer,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	"deadline" timestamp NOT NULL,
+	"responded_at" timestamp,
+	"resolved_at" timestamp,
+	"winner_entry_id" integer,
+	"match_id" integer,
+	"challenger_position" integer,
+	"defender_position" integer
+);
+--> statement-breakpoint
+CREATE TABLE "club_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"skill_adjustment_mode" text DEFAULT 'automatic' NOT NULL,
+	"skill_policy" jsonb DEFAULT '{"suggestionMatches":3,"autoUpdateMatches":5,"bandMargin":20}'::jsonb NOT NULL,
+	"updated_by" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ladder_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ladder_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"player_1_id" integer NOT NULL,
+	"player_2_id" integer,
+	"joined_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ladders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"match_format" text DEFAULT 'doubles' NOT NULL,
+	"challenge_range" integer DEFAULT 3 NOT NULL,
+	"challenge_days" integer DEFAULT 7 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "match_games" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"match_id" integer NOT NULL,
+	"game_number" integer NOT NULL,
+	"team_a_score" integer NOT NULL,
+	"team_b_score" integer NOT NULL,
+	CONSTRAINT "match_games_match_id_game_number_unique" UNIQUE("match_id","game_number")
+);
+--> statement-breakpoint
+CREATE TABLE "match_participants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"match_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"team" integer NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "match_participants_match_id_player_id_unique" UNIQUE("match_id","player_id")
+);
+--> statement-breakpoint
+CREATE TABLE "match_skill_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"match_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"skill_level" integer NOT NULL,
+	"rating" double precision NOT NULL,
+	"rating_deviation" double precision NOT NULL,
+	"volatility" double precision NOT NULL,
+	"matches_played" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "player_ratings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_id" integer NOT NULL,
+	"discipline" text DEFAULT 'doubles' NOT NULL,
+	"rating" double precision NOT NULL,
+	"rating_deviation" double precision NOT NULL,
+	"volatility" double precision NOT NULL,
+	"matches_played" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "player_ratings_player_id_discipline_unique" UNIQUE("player_id","discipline")
+);
+--> statement-breakpoint
+CREATE TABLE "session_attendees" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"checked_in_at" timestamp DEFAULT now() NOT NULL,
+	"checked_in_by" integer,
+	"checked_out_at" timestamp,
+	CONSTRAINT "session_attendees_session_id_player_id_unique" UNIQUE("session_id","player_id")
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" timestamp NOT NULL,
+	"venue" text NOT NULL,
+	"court_count" integer DEFAULT 1 NOT NULL,
+	"organizer_id" integer,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "skill_level_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_id" integer NOT NULL,
+	"old_level" integer NOT NULL,
+	"new_level" integer NOT NULL,
+	"cause" text NOT NULL,
+	"match_id" integer,
+	"changed_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "skill_proposals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_id" integer NOT NULL,
+	"match_id" integer NOT NULL,
+	"old_level" integer NOT NULL,
+	"new_level" integer NOT NULL,
+	"reason" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"decided_by" integer,
+	"decided_at" timestamp,
+	CONSTRAINT "skill_proposals_match_id_player_id_unique" UNIQUE("match_id","player_id")
+);
+--> statement-breakpoint
+CREATE TABLE "tournament_matches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tournament_id" integer NOT NULL,
+	"bracket" text NOT NULL,
+	"round" integer NOT NULL,
+	"position" integer NOT NULL,
+	"group_number" integer,
+	"team_a_id" integer,
+	"team_b_id" integer,
+	"winner_team_id" integer,
+	"match_id" integer,
+	"winner_next_match_id" integer,
+	"winner_next_slot" integer,
+	"loser_next_match_id" integer,
+	"loser_next_slot" integer,
+	CONSTRAINT "tournament_matches_tournament_id_bracket_round_position_unique" UNIQUE("tournament_id","bracket","round","position")
+);
+--> statement-breakpoint
+CREATE TABLE "tournament_teams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tournament_id" integer NOT NULL,
+	"player_1_id" integer NOT NULL,
+	"player_2_id" integer,
+	"seed" integer,
+	"group_number" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tournaments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"format" text NOT NULL,
+	"match_format" text DEFAULT 'doubles' NOT NULL,
+	"seeding" text DEFAULT 'rating' NOT NULL,
+	"group_count" integer DEFAULT 1 NOT NULL,
+	"status" text DEFAULT 'registration' NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "matches" ALTER COLUMN "team_a_player_1_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "matches" ALTER COLUMN "team_a_player_2_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "matches" ALTER COLUMN "team_b_player_1_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "matches" ALTER COLUMN "team_b_player_2_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "format" text DEFAULT 'doubles' NOT NULL;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "session_id" integer;--> statement-breakpoint
+ALTER TABLE "otp_codes" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,67 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { AuthUser } from "@shared/schema";
+
+// Extend Express Request to include session
+declare module 'express-session' {
+  interface SessionData {
+    userId?: number;
+  }
+}
+
+// The authenticated user for this request, resolved from req.session by requireAuth
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: AuthUser;
+    }
+  }
+}
+
+export function toAuthUser(player: { id: number; name: string; role: string; skillLevel: number }): AuthUser {
+  return {
+    id: player.id,
+    name: player.name,
+    role: player.role as "manager" | "player",
+    skillLevel: player.skillLevel,
+  };
+}
+
+// Look up the logged-in player for this session. Deactivated players lose access immediately.
+export async function getSessionUser(req: Request): Promise<AuthUser | null> {
+  if (!req.session.userId) {
+    return null;
+  }
+
+  const player = await storage.getPlayer(req.session.userId);
+  if (!player || !player.isActive) {
+    return null;
+  }
+
+  return toAuthUser(player);
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to verify session" });
+  }
+}
+
+export function requireRole(role: AuthUser["role"]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireAuth(req, res, () => {
+      if (req.currentUser!.role !== role) {
+        return res.status(403).json({ error: `Only ${role}s can perform this action` });
+      }
+      next();
+    });
+  };
+}
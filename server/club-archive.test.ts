@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { clubArchiveSchema, defaultSkillPolicy, type ClubArchive } from "@shared/schema";
+import { archiveClub, matchesCsv, planClubImport, playersCsv, type ClubContents } from "./club-archive";
+
+const at = (day: number) => new Date(Date.UTC(2024, 2, day, 18));
+
+// A small club: two players, a club night with one singles match, and the tournament and ladder that match decided
+function sampleClub(): ClubContents {
+  return {
+    settings: { id: 1, skillAdjustmentMode: "automatic", skillPolicy: defaultSkillPolicy, updatedBy: null, updatedAt: at(1) },
+    players: [
+      { id: 11, name: "Asha", skillLevel: 6, originalSkillLevel: 5, previousSkillLevel: 5, role: "manager", mobileNumber: "+919800000001", isActive: true, lastSkillUpdate: at(2) },
+      { id: 12, name: "=Bala", skillLevel: 5, originalSkillLevel: 5, previousSkillLevel: null, role: "player", mobileNumber: "+919800000002", isActive: false, lastSkillUpdate: null },
+    ],
+    sessions: [{ id: 21, date: at(2), venue: "Main hall", courtCount: 2, organizerId: 11, notes: null, createdAt: at(1) }],
+    sessionAttendees: [{ id: 1, sessionId: 21, playerId: 12, checkedInAt: at(2), checkedInBy: 11, checkedOutAt: null }],
+    matches: [{
+      id: 31, format: "singles", sessionId: 21, playedAt: at(2), teamA: [11], teamB: [12], teamAScore: 42, teamBScore: 30, winnerId: 1,
+      games: [{ id: 2, matchId: 31, gameNumber: 2, teamAScore: 21, teamBScore: 18 }, { id: 1, matchId: 31, gameNumber: 1, teamAScore: 21, teamBScore: 12 }],
+    }],
+    skillLevelChanges: [{ id: 1, playerId: 11, oldLevel: 5, newLevel: 6, cause: "auto", matchId: 31, changedBy: null, createdAt: at(2) }],
+    skillProposals: [],
+    tournaments: [{ id: 41, name: "Spring Cup", format: "single_elimination", matchFormat: "singles", seeding: "rating", groupCount: 1, status: "completed", createdBy: 11, createdAt: at(1), startedAt: at(2) }],
+    tournamentTeams: [
+      { id: 51, tournamentId: 41, player1Id: 11, player2Id: null, seed: 1, groupNumber: null, createdAt: at(1) },
+      { id: 52, tournamentId: 41, player1Id: 12, player2Id: null, seed: 2, groupNumber: null, createdAt: at(1) },
+    ],
+    tournamentMatches: [{ id: 61, tournamentId: 41, bracket: "winners", round: 1, position: 1, groupNumber: null, teamAId: 51, teamBId: 52, winnerTeamId: 51, matchId: 31, winnerNextMatchId: null, winnerNextSlot: null, loserNextMatchId: null, loserNextSlot: null }],
+    ladders: [{ id: 71, name: "Singles Ladder", matchFormat: "singles", challengeRange: 3, challengeDays: 7, createdAt: at(1) }],
+    ladderEntries: [
+      { id: 81, ladderId: 71, position: 1, player1Id: 11, player2Id: null, joinedAt: at(1) },
+      { id: 82, ladderId: 71, position: 2, player1Id: 12, player2Id: null, joinedAt: at(1) },
+    ],
+    challenges: [{
+      id: 1, ladderId: 71, challengerEntryId: 81, defenderEntryId: 82, status: "completed", issuedBy: 11, issuedAt: at(1), deadline: at(8),
+      respondedAt: at(1), resolvedAt: at(2), winnerEntryId: 81, matchId: 31, challengerPosition: 2, defenderPosition: 1,
+    }],
+  };
+}
+
+const emptyClub = (): ClubContents => ({
+  ...sampleClub(),
+  players: [], sessions: [], sessionAttendees: [], matches: [], skillLevelChanges: [], skillProposals: [],
+  tournaments: [], tournamentTeams: [], tournamentMatches: [], ladders: [], ladderEntries: [], challenges: [],
+});
+
+// An archive as an import receives it: written out as JSON and read back through the schema
+const throughJson = (archive: ClubArchive) => clubArchiveSchema.parse(JSON.parse(JSON.stringify(archive)));
+
+describe("archiveClub", () => {
+  it("keeps games in order and leaves out storage-only fields", () => {
+    const archive = archiveClub(sampleClub(), at(9));
+    expect(archive).toMatchObject({ version: 2, exportedAt: at(9) });
+    expect(archive.matches[0].games).toEqual([{ teamAScore: 21, teamBScore: 12 }, { teamAScore: 21, teamBScore: 18 }]);
+    expect(archive.sessionAttendees[0]).not.toHaveProperty("id");
+    expect(archive.challenges[0]).toMatchObject({ challengerPosition: 2, defenderPosition: 1 });
+    expect(throughJson(archive)).toEqual(archive);
+  });
+});
+
+describe("planClubImport", () => {
+  it("creates everything in an empty club, tournaments and ladders included", () => {
+    const plan = planClubImport(throughJson(archiveClub(sampleClub())), emptyClub(), true);
+    expect(plan.report).toMatchObject({ dryRun: true, imported: false, errors: [], conflicts: [] });
+    expect(plan.report.created).toEqual({
+      players: 2, sessions: 1, attendees: 1, matches: 1, skillLevelChanges: 1, skillProposals: 0,
+      tournaments: 1, tournamentTeams: 2, tournamentMatches: 1, ladders: 1, ladderEntries: 2, challenges: 1,
+    });
+    expect(plan.report.idMap).toEqual({ players: { 11: null, 12: null }, sessions: { 21: null }, matches: { 31: null }, tournaments: { 41: null }, ladders: { 71: null } });
+    expect(plan.updateSettings).toBe(false);
+  });
+
+  it("merges everything into the club it came from and creates nothing", () => {
+    const club = sampleClub();
+    const plan = planClubImport(throughJson(archiveClub(club)), club, false);
+    expect(plan.report.errors).toEqual([]);
+    expect(Object.values(plan.report.created).every(count => count === 0)).toBe(true);
+    expect(plan.report.idMap).toEqual({ players: { 11: 11, 12: 12 }, sessions: { 21: 21 }, matches: { 31: 31 }, tournaments: { 41: 41 }, ladders: { 71: 71 } });
+    expect(plan.report.conflicts.map(conflict => conflict.kind)).toEqual(["player", "player", "session", "match", "tournament", "ladder"]);
+  });
+
+  it("merges a player by mobile number under another name, and keeps their own skill history", () => {
+    const club = emptyClub();
+    club.players = [{ ...sampleClub().players[0], id: 5, name: "Asha K" }];
+    const plan = planClubImport(throughJson(archiveClub(sampleClub())), club, true);
+    expect(plan.report.idMap.players).toEqual({ 11: 5, 12: null });
+    expect(plan.report.conflicts[0]).toMatchObject({ kind: "player", message: "Asha has the mobile number of Asha K and will be merged into them" });
+    expect(plan.skillLevelChanges).toEqual([]);
+  });
+
+  it("reports repeated ids, invalid games and references to records the archive doesn't contain", () => {
+    const archive = throughJson(archiveClub(sampleClub()));
+    archive.players.push(archive.players[0]);
+    archive.matches[0].games = [{ teamAScore: 21, teamBScore: 20 }];
+    archive.tournamentMatches[0].winnerNextMatchId = 99;
+    archive.challenges[0].defenderEntryId = 99;
+
+    expect(planClubImport(archive, emptyClub(), true).report.errors).toEqual([
+      "Player 11 appears more than once",
+      "Match 31: Games are played to 21, won by 2 and capped at 30",
+      "Tournament match 61 refers to a missing tournament, team or match",
+      "A challenge on ladder 71 refers to a missing ladder, entry, player or match",
+    ]);
+  });
+
+  it("reads a version 1 archive, which had no tournaments or ladders", () => {
+    const { tournaments, tournamentTeams, tournamentMatches, ladders, ladderEntries, challenges, ...older } = archiveClub(sampleClub());
+    const plan = planClubImport(clubArchiveSchema.parse(JSON.parse(JSON.stringify({ ...older, version: 1 }))), emptyClub(), true);
+    expect(plan.report.errors).toEqual([]);
+    expect(plan.report.created).toMatchObject({ players: 2, matches: 1, tournaments: 0, ladders: 0 });
+  });
+});
+
+describe("CSV exports", () => {
+  it("writes names as text and results from the games", () => {
+    const archive = archiveClub(sampleClub());
+    expect(playersCsv(archive).split("\r\n")[2]).toBe("12,'=Bala,player,5,5,+919800000002,false");
+    expect(matchesCsv(archive).split("\r\n")[1]).toBe(`31,${at(2).toISOString()},singles,21,Asha,'=Bala,21-12 21-18,42,30,A`);
+  });
+});
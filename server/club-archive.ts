@@ -0,0 +1,430 @@
+import { CLUB_ARCHIVE_VERSION, lineupError, matchGamesSchema, summarizeGames, type ClubArchive, type Challenge, type ClubImportConflict, type ClubImportReport, type ClubSettings, type Ladder, type LadderEntry, type MatchDetails, type Player, type Session, type SessionAttendee, type SkillLevelChange, type SkillPolicy, type SkillProposal, type Tournament, type TournamentMatch, type TournamentTeam } from "@shared/schema";
+
+// Everything a club archive is made from, as stored
+export interface ClubContents {
+  settings: ClubSettings;
+  players: Player[]; // including deactivated players, whose matches still count
+  sessions: Session[];
+  sessionAttendees: SessionAttendee[];
+  matches: MatchDetails[];
+  skillLevelChanges: SkillLevelChange[];
+  skillProposals: SkillProposal[];
+  tournaments: Tournament[];
+  tournamentTeams: TournamentTeam[];
+  tournamentMatches: TournamentMatch[];
+  ladders: Ladder[];
+  ladderEntries: LadderEntry[];
+  challenges: Challenge[];
+}
+
+export type ArchivedPlayer = ClubArchive["players"][number];
+export type ArchivedSession = ClubArchive["sessions"][number];
+export type ArchivedAttendee = ClubArchive["sessionAttendees"][number];
+export type ArchivedMatch = ClubArchive["matches"][number];
+export type ArchivedSkillLevelChange = ClubArchive["skillLevelChanges"][number];
+export type ArchivedSkillProposal = ClubArchive["skillProposals"][number];
+export type ArchivedTournament = ClubArchive["tournaments"][number];
+export type ArchivedTournamentTeam = ClubArchive["tournamentTeams"][number];
+export type ArchivedTournamentMatch = ClubArchive["tournamentMatches"][number];
+export type ArchivedLadder = ClubArchive["ladders"][number];
+export type ArchivedLadderEntry = ClubArchive["ladderEntries"][number];
+export type ArchivedChallenge = ClubArchive["challenges"][number];
+
+export function archiveClub(club: ClubContents, exportedAt = new Date()): ClubArchive {
+  const byId = <T extends { id: number }>(rows: T[]) => [...rows].sort((a, b) => a.id - b.id);
+
+  return {
+    version: CLUB_ARCHIVE_VERSION,
+    exportedAt,
+    settings: {
+      skillAdjustmentMode: club.settings.skillAdjustmentMode,
+      skillPolicy: club.settings.skillPolicy,
+    },
+    players: byId(club.players).map(({ id, name, skillLevel, originalSkillLevel, previousSkillLevel, role, mobileNumber, isActive, lastSkillUpdate }) =>
+      ({ id, name, skillLevel, originalSkillLevel, previousSkillLevel, role, mobileNumber, isActive, lastSkillUpdate })),
+    sessions: byId(club.sessions).map(({ id, date, venue, courtCount, organizerId, notes, createdAt }) =>
+      ({ id, date, venue, courtCount, organizerId, notes, createdAt })),
+    sessionAttendees: byId(club.sessionAttendees).map(({ sessionId, playerId, checkedInAt, checkedInBy, checkedOutAt }) =>
+      ({ sessionId, playerId, checkedInAt, checkedInBy, checkedOutAt })),
+    matches: byId(club.matches).map(({ id, format, sessionId, playedAt, teamA, teamB, teamAScore, teamBScore, games }) => ({
+      id, format, sessionId, playedAt, teamA, teamB, teamAScore, teamBScore,
+      games: [...games].sort((a, b) => a.gameNumber - b.gameNumber).map(({ teamAScore, teamBScore }) => ({ teamAScore, teamBScore })),
+    })),
+    skillLevelChanges: byId(club.skillLevelChanges).map(({ playerId, oldLevel, newLevel, cause, matchId, changedBy, createdAt }) =>
+      ({ playerId, oldLevel, newLevel, cause, matchId, changedBy, createdAt })),
+    skillProposals: byId(club.skillProposals).map(({ playerId, matchId, oldLevel, newLevel, reason, status, createdAt, decidedBy, decidedAt }) =>
+      ({ playerId, matchId, oldLevel, newLevel, reason, status, createdAt, decidedBy, decidedAt })),
+    tournaments: byId(club.tournaments).map(({ id, name, format, matchFormat, seeding, groupCount, status, createdBy, createdAt, startedAt }) =>
+      ({ id, name, format, matchFormat, seeding, groupCount, status, createdBy, createdAt, startedAt })),
+    tournamentTeams: byId(club.tournamentTeams).map(({ id, tournamentId, player1Id, player2Id, seed, groupNumber, createdAt }) =>
+      ({ id, tournamentId, player1Id, player2Id, seed, groupNumber, createdAt })),
+    tournamentMatches: byId(club.tournamentMatches).map(({ id, tournamentId, bracket, round, position, groupNumber, teamAId, teamBId, winnerTeamId, matchId, winnerNextMatchId, winnerNextSlot, loserNextMatchId, loserNextSlot }) =>
+      ({ id, tournamentId, bracket, round, position, groupNumber, teamAId, teamBId, winnerTeamId, matchId, winnerNextMatchId, winnerNextSlot, loserNextMatchId, loserNextSlot })),
+    ladders: byId(club.ladders).map(({ id, name, matchFormat, challengeRange, challengeDays, createdAt }) =>
+      ({ id, name, matchFormat, challengeRange, challengeDays, createdAt })),
+    ladderEntries: byId(club.ladderEntries).map(({ id, ladderId, position, player1Id, player2Id, joinedAt }) =>
+      ({ id, ladderId, position, player1Id, player2Id, joinedAt })),
+    challenges: byId(club.challenges).map(({ ladderId, challengerEntryId, defenderEntryId, status, issuedBy, issuedAt, deadline, respondedAt, resolvedAt, winnerEntryId, matchId, challengerPosition, defenderPosition }) =>
+      ({ ladderId, challengerEntryId, defenderEntryId, status, issuedBy, issuedAt, deadline, respondedAt, resolvedAt, winnerEntryId, matchId, challengerPosition, defenderPosition })),
+  };
+}
+
+// The stored result of an archived match; old matches without games keep their totals
+export function archivedMatchResult(match: ArchivedMatch) {
+  if (match.games.length === 0) {
+    return { teamAScore: match.teamAScore, teamBScore: match.teamBScore, winnerId: match.teamAScore > match.teamBScore ? 1 : 2 };
+  }
+  const summary = summarizeGames(match.games);
+  return { teamAScore: summary.teamAPoints, teamBScore: summary.teamBPoints, winnerId: summary.winnerId };
+}
+
+// An archive ID translated through the import's ID map
+export function remapId(map: Record<number, number | null>, id: number | null): number | null {
+  return id === null ? null : map[id] ?? null;
+}
+
+// What an import would create, in dependency order. Records that merge with existing ones are
+// only in the report's ID map; tournament teams, tournament matches and ladder entries point at
+// each other by archive ID and are remapped as they are created.
+export interface ClubImportPlan {
+  report: ClubImportReport;
+  updateSettings: boolean;
+  players: ArchivedPlayer[];
+  sessions: ArchivedSession[];
+  sessionAttendees: ArchivedAttendee[];
+  matches: ArchivedMatch[];
+  skillLevelChanges: ArchivedSkillLevelChange[];
+  skillProposals: ArchivedSkillProposal[];
+  tournaments: ArchivedTournament[];
+  tournamentTeams: ArchivedTournamentTeam[];
+  tournamentMatches: ArchivedTournamentMatch[];
+  ladders: ArchivedLadder[];
+  ladderEntries: ArchivedLadderEntry[];
+  challenges: ArchivedChallenge[];
+}
+
+const sameMoment = (a: Date, b: Date) => new Date(a).getTime() === new Date(b).getTime();
+const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every(id => b.includes(id));
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Check an archive against itself and the club, and decide what merges and what is created.
+// Skill history and proposals only come along for players the import creates; merged players
+// keep their own. Likewise a merged tournament or ladder keeps its own teams, draw, rungs and
+// challenges.
+export function planClubImport(archive: ClubArchive, club: ClubContents, dryRun: boolean): ClubImportPlan {
+  const errors: string[] = [];
+  const conflicts: ClubImportConflict[] = [];
+  const idMap: ClubImportReport["idMap"] = { players: {}, sessions: {}, matches: {}, tournaments: {}, ladders: {} };
+
+  const checkUniqueIds = (kind: string, rows: Array<{ id: number }>) => {
+    const seen = new Set<number>();
+    for (const { id } of rows) {
+      if (seen.has(id)) errors.push(`${kind} ${id} appears more than once`);
+      seen.add(id);
+    }
+  };
+  checkUniqueIds("Player", archive.players);
+  checkUniqueIds("Session", archive.sessions);
+  checkUniqueIds("Match", archive.matches);
+  checkUniqueIds("Tournament", archive.tournaments);
+  checkUniqueIds("Tournament team", archive.tournamentTeams);
+  checkUniqueIds("Tournament match", archive.tournamentMatches);
+  checkUniqueIds("Ladder", archive.ladders);
+  checkUniqueIds("Ladder entry", archive.ladderEntries);
+
+  const archivedPlayerIds = new Set(archive.players.map(player => player.id));
+  const archivedSessionIds = new Set(archive.sessions.map(session => session.id));
+  const archivedMatchIds = new Set(archive.matches.map(match => match.id));
+  const archivedTournamentIds = new Set(archive.tournaments.map(tournament => tournament.id));
+  const archivedLadderIds = new Set(archive.ladders.map(ladder => ladder.id));
+
+  // Players are the same person when they share a mobile number, preferring an active player
+  const newPlayers: ArchivedPlayer[] = [];
+  for (const player of archive.players) {
+    const existing = club.players
+      .filter(candidate => candidate.mobileNumber === player.mobileNumber)
+      .sort((a, b) => Number(b.isActive) - Number(a.isActive))[0];
+    if (existing) {
+      idMap.players[player.id] = existing.id;
+      conflicts.push({
+        kind: "player",
+        archiveId: player.id,
+        existingId: existing.id,
+        message: existing.name === player.name
+          ? `${player.name} already exists and will be merged`
+          : `${player.name} has the mobile number of ${existing.name} and will be merged into them`,
+      });
+    } else {
+      idMap.players[player.id] = null;
+      newPlayers.push(player);
+    }
+  }
+
+  // Sessions are the same club night when they share a date and venue
+  const newSessions: ArchivedSession[] = [];
+  for (const session of archive.sessions) {
+    if (session.organizerId !== null && !archivedPlayerIds.has(session.organizerId)) {
+      errors.push(`Session ${session.id} is organised by unknown player ${session.organizerId}`);
+    }
+    const existing = club.sessions.find(candidate =>
+      sameMoment(candidate.date, session.date) && candidate.venue.trim().toLowerCase() === session.venue.trim().toLowerCase());
+    if (existing) {
+      idMap.sessions[session.id] = existing.id;
+      conflicts.push({ kind: "session", archiveId: session.id, existingId: existing.id, message: `The session at ${session.venue} on ${new Date(session.date).toDateString()} already exists and will be merged` });
+    } else {
+      idMap.sessions[session.id] = null;
+      newSessions.push(session);
+    }
+  }
+
+  const newAttendees: ArchivedAttendee[] = [];
+  for (const attendee of archive.sessionAttendees) {
+    if (!archivedSessionIds.has(attendee.sessionId) || !archivedPlayerIds.has(attendee.playerId)) {
+      errors.push(`Attendance of player ${attendee.playerId} at session ${attendee.sessionId} refers to a missing session or player`);
+      continue;
+    }
+    const sessionId = remapId(idMap.sessions, attendee.sessionId);
+    const playerId = remapId(idMap.players, attendee.playerId);
+    const alreadyThere = club.sessionAttendees.some(row => row.sessionId === sessionId && row.playerId === playerId);
+    if (!alreadyThere) newAttendees.push(attendee);
+  }
+
+  // Matches must pass the same checks as a recorded match; one already played at the same moment
+  // by the same sides is merged
+  const newMatches: ArchivedMatch[] = [];
+  for (const match of archive.matches) {
+    const unknownPlayers = [...match.teamA, ...match.teamB].filter(id => !archivedPlayerIds.has(id));
+    if (unknownPlayers.length > 0) {
+      errors.push(`Match ${match.id} includes unknown player ${unknownPlayers[0]}`);
+      continue;
+    }
+    if (match.sessionId !== null && !archivedSessionIds.has(match.sessionId)) {
+      errors.push(`Match ${match.id} belongs to unknown session ${match.sessionId}`);
+      continue;
+    }
+    const lineupProblem = lineupError(match.format, match.teamA, match.teamB);
+    if (lineupProblem) {
+      errors.push(`Match ${match.id}: ${lineupProblem}`);
+      continue;
+    }
+    if (match.games.length > 0) {
+      const games = matchGamesSchema.safeParse(match.games);
+      if (!games.success) {
+        errors.push(`Match ${match.id}: ${games.error.errors[0].message}`);
+        continue;
+      }
+    }
+
+    const teamA = match.teamA.map(id => remapId(idMap.players, id));
+    const teamB = match.teamB.map(id => remapId(idMap.players, id));
+    const existing = teamA.every(id => id !== null) && teamB.every(id => id !== null)
+      ? club.matches.find(candidate => sameMoment(candidate.playedAt, match.playedAt) && (
+          (sameSet(candidate.teamA, teamA as number[]) && sameSet(candidate.teamB, teamB as number[])) ||
+          (sameSet(candidate.teamA, teamB as number[]) && sameSet(candidate.teamB, teamA as number[]))))
+      : undefined;
+    if (existing) {
+      idMap.matches[match.id] = existing.id;
+      conflicts.push({ kind: "match", archiveId: match.id, existingId: existing.id, message: `Match ${match.id} from ${new Date(match.playedAt).toDateString()} already exists and will be skipped` });
+    } else {
+      idMap.matches[match.id] = null;
+      newMatches.push(match);
+    }
+  }
+
+  const isNewPlayer = (playerId: number) => archivedPlayerIds.has(playerId) && idMap.players[playerId] === null;
+
+  const newChanges: ArchivedSkillLevelChange[] = [];
+  for (const change of archive.skillLevelChanges) {
+    if (!archivedPlayerIds.has(change.playerId) || (change.matchId !== null && !archivedMatchIds.has(change.matchId))) {
+      errors.push(`A skill level change of player ${change.playerId} refers to a missing player or match`);
+    } else if (isNewPlayer(change.playerId)) {
+      newChanges.push(change);
+    }
+  }
+
+  const newProposals: ArchivedSkillProposal[] = [];
+  for (const proposal of archive.skillProposals) {
+    if (!archivedPlayerIds.has(proposal.playerId) || !archivedMatchIds.has(proposal.matchId)) {
+      errors.push(`A skill proposal for player ${proposal.playerId} refers to a missing player or match`);
+    } else if (isNewPlayer(proposal.playerId)) {
+      newProposals.push(proposal);
+    }
+  }
+
+  // Tournaments are the same when they share a name and creation time
+  const newTournaments: ArchivedTournament[] = [];
+  for (const tournament of archive.tournaments) {
+    if (tournament.createdBy !== null && !archivedPlayerIds.has(tournament.createdBy)) {
+      errors.push(`Tournament ${tournament.id} was created by unknown player ${tournament.createdBy}`);
+    }
+    const existing = club.tournaments.find(candidate =>
+      sameMoment(candidate.createdAt, tournament.createdAt) && sameName(candidate.name, tournament.name));
+    if (existing) {
+      idMap.tournaments[tournament.id] = existing.id;
+      conflicts.push({ kind: "tournament", archiveId: tournament.id, existingId: existing.id, message: `The tournament ${tournament.name} already exists and will be kept as it is` });
+    } else {
+      idMap.tournaments[tournament.id] = null;
+      newTournaments.push(tournament);
+    }
+  }
+  const isNewTournament = (tournamentId: number) => idMap.tournaments[tournamentId] === null;
+
+  const teamTournaments = new Map(archive.tournamentTeams.map(team => [team.id, team.tournamentId]));
+  const newTeams: ArchivedTournamentTeam[] = [];
+  for (const team of archive.tournamentTeams) {
+    const teamPlayers = [team.player1Id, ...(team.player2Id === null ? [] : [team.player2Id])];
+    if (!archivedTournamentIds.has(team.tournamentId) || teamPlayers.some(id => !archivedPlayerIds.has(id))) {
+      errors.push(`Tournament team ${team.id} refers to a missing tournament or player`);
+    } else if (isNewTournament(team.tournamentId)) {
+      newTeams.push(team);
+    }
+  }
+
+  // A draw only points at teams and matches of its own tournament, and at recorded matches
+  const drawTournaments = new Map(archive.tournamentMatches.map(match => [match.id, match.tournamentId]));
+  const newDraw: ArchivedTournamentMatch[] = [];
+  for (const match of archive.tournamentMatches) {
+    const inTournament = (map: Map<number, number>, id: number | null) => id === null || map.get(id) === match.tournamentId;
+    if (!archivedTournamentIds.has(match.tournamentId) ||
+        ![match.teamAId, match.teamBId, match.winnerTeamId].every(id => inTournament(teamTournaments, id)) ||
+        ![match.winnerNextMatchId, match.loserNextMatchId].every(id => inTournament(drawTournaments, id)) ||
+        (match.matchId !== null && !archivedMatchIds.has(match.matchId))) {
+      errors.push(`Tournament match ${match.id} refers to a missing tournament, team or match`);
+    } else if (isNewTournament(match.tournamentId)) {
+      newDraw.push(match);
+    }
+  }
+
+  // Ladders are the same when they share a name and creation time
+  const newLadders: ArchivedLadder[] = [];
+  for (const ladder of archive.ladders) {
+    const existing = club.ladders.find(candidate =>
+      sameMoment(candidate.createdAt, ladder.createdAt) && sameName(candidate.name, ladder.name));
+    if (existing) {
+      idMap.ladders[ladder.id] = existing.id;
+      conflicts.push({ kind: "ladder", archiveId: ladder.id, existingId: existing.id, message: `The ladder ${ladder.name} already exists and will be kept as it is` });
+    } else {
+      idMap.ladders[ladder.id] = null;
+      newLadders.push(ladder);
+    }
+  }
+  const isNewLadder = (ladderId: number) => idMap.ladders[ladderId] === null;
+
+  const entryLadders = new Map(archive.ladderEntries.map(entry => [entry.id, entry.ladderId]));
+  const newEntries: ArchivedLadderEntry[] = [];
+  for (const entry of archive.ladderEntries) {
+    const entryPlayers = [entry.player1Id, ...(entry.player2Id === null ? [] : [entry.player2Id])];
+    if (!archivedLadderIds.has(entry.ladderId) || entryPlayers.some(id => !archivedPlayerIds.has(id))) {
+      errors.push(`Ladder entry ${entry.id} refers to a missing ladder or player`);
+    } else if (isNewLadder(entry.ladderId)) {
+      newEntries.push(entry);
+    }
+  }
+
+  const newChallenges: ArchivedChallenge[] = [];
+  for (const challenge of archive.challenges) {
+    const onLadder = (id: number | null) => id === null || entryLadders.get(id) === challenge.ladderId;
+    if (!archivedLadderIds.has(challenge.ladderId) ||
+        ![challenge.challengerEntryId, challenge.defenderEntryId, challenge.winnerEntryId].every(onLadder) ||
+        (challenge.issuedBy !== null && !archivedPlayerIds.has(challenge.issuedBy)) ||
+        (challenge.matchId !== null && !archivedMatchIds.has(challenge.matchId))) {
+      errors.push(`A challenge on ladder ${challenge.ladderId} refers to a missing ladder, entry, player or match`);
+    } else if (isNewLadder(challenge.ladderId)) {
+      newChallenges.push(challenge);
+    }
+  }
+
+  // Compared key by key, as a stored policy may come back with its keys reordered
+  const policyKeys = Object.keys(archive.settings.skillPolicy) as Array<keyof SkillPolicy>;
+  const updateSettings = club.settings.skillAdjustmentMode !== archive.settings.skillAdjustmentMode ||
+    policyKeys.some(key => club.settings.skillPolicy[key] !== archive.settings.skillPolicy[key]);
+  if (updateSettings) {
+    conflicts.push({ kind: "settings", archiveId: null, existingId: null, message: "The archive's skill adjustment settings will replace this club's" });
+  }
+
+  return {
+    report: {
+      dryRun,
+      imported: false,
+      errors,
+      conflicts,
+      created: {
+        players: newPlayers.length,
+        sessions: newSessions.length,
+        attendees: newAttendees.length,
+        matches: newMatches.length,
+        skillLevelChanges: newChanges.length,
+        skillProposals: newProposals.length,
+        tournaments: newTournaments.length,
+        tournamentTeams: newTeams.length,
+        tournamentMatches: newDraw.length,
+        ladders: newLadders.length,
+        ladderEntries: newEntries.length,
+        challenges: newChallenges.length,
+      },
+      idMap,
+    },
+    updateSettings,
+    players: newPlayers,
+    sessions: newSessions,
+    sessionAttendees: newAttendees,
+    matches: newMatches,
+    skillLevelChanges: newChanges,
+    skillProposals: newProposals,
+    tournaments: newTournaments,
+    tournamentTeams: newTeams,
+    tournamentMatches: newDraw,
+    ladders: newLadders,
+    ladderEntries: newEntries,
+    challenges: newChallenges,
+  };
+}
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+// RFC 4180 quoting. Text a spreadsheet would run as a formula gets a leading apostrophe;
+// phone numbers and negative numbers are left alone.
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@]/.test(text) && !/^[+-]?\d[\d.\s]*$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// CSV exports are written from an archive, so they include deactivated players too
+export function playersCsv(archive: ClubArchive): string {
+  return toCsv(
+    ["id", "name", "role", "skill_level", "original_skill_level", "mobile_number", "active"],
+    archive.players.map(player => [player.id, player.name, player.role, player.skillLevel, player.originalSkillLevel, player.mobileNumber, player.isActive]),
+  );
+}
+
+export function matchesCsv(archive: ClubArchive): string {
+  const nameOf = (playerId: number) => archive.players.find(player => player.id === playerId)?.name ?? `#${playerId}`;
+  return toCsv(
+    ["id", "played_at", "format", "session_id", "team_a", "team_b", "games", "team_a_points", "team_b_points", "winner"],
+    [...archive.matches]
+      .sort((a, b) => new Date(a.playedAt).getTime() - new Date(b.playedAt).getTime() || a.id - b.id)
+      .map(match => {
+        const result = archivedMatchResult(match);
+        return [
+          match.id,
+          new Date(match.playedAt),
+          match.format,
+          match.sessionId,
+          match.teamA.map(nameOf).join(" / "),
+          match.teamB.map(nameOf).join(" / "),
+          match.games.map(game => `${game.teamAScore}-${game.teamBScore}`).join(" "),
+          result.teamAScore,
+          result.teamBScore,
+          result.winnerId === 1 ? "A" : "B",
+        ];
+      }),
+  );
+}
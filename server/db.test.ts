@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { readFileSync } from "fs";
+import * as schema from "@shared/schema";
+import { migrateDatabase, type Database } from "./db";
+import { DatabaseStorage } from "./storage";
+import { ConsoleSmsProvider } from "./sms-service";
+
+// What db:push created before migrations existed: the first migration, without a journal
+const baselineSchema = readFileSync(new URL("../migrations/0000_initial.sql", import.meta.url), "utf8").replaceAll("--> statement-breakpoint", "");
+
+describe("migrateDatabase", () => {
+  let client: PGlite;
+  let db: Database;
+
+  beforeEach(async () => {
+    client = new PGlite();
+    db = drizzle({ client, schema });
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const appliedMigrations = async () =>
+    (await client.query<{ count: number }>("select count(*)::int as count from drizzle.__drizzle_migrations")).rows[0].count;
+
+  it("upgrades a database created with db:push and keeps its data", async () => {
+    await client.exec(baselineSchema);
+    await client.exec(`
+      insert into players (name, skill_level, role, mobile_number) values
+        ('Asha', 5, 'manager', '+919800000001'), ('Bala', 5, 'player', '+919800000002'),
+        ('Chitra', 6, 'player', '+919800000003'), ('Dev', 4, 'player', '+919800000004');
+      insert into matches (team_a_player_1_id, team_a_player_2_id, team_b_player_1_id, team_b_player_2_id, team_a_score, team_b_score, winner_id)
+        values (1, 2, 3, 4, 21, 17, 1);
+    `);
+
+    await migrateDatabase(db);
+    expect(await appliedMigrations()).toBe(2);
+
+    // The later migration ran: new tables and columns exist, and old matches read as doubles from their line-up columns
+    const storage = new DatabaseStorage(db, new ConsoleSmsProvider());
+    const [match] = await storage.getAllMatches();
+    expect(match).toMatchObject({ format: "doubles", sessionId: null, teamA: [1, 2], teamB: [3, 4], winnerId: 1 });
+    expect(await storage.getAllSessions()).toEqual([]);
+    const { rows } = await client.query<{ column_name: string }>("select column_name from information_schema.columns where table_name = 'otp_codes'");
+    expect(rows.map(row => row.column_name)).toContain("attempts");
+
+    // A later start has nothing left to do
+    await migrateDatabase(db);
+    expect(await appliedMigrations()).toBe(2);
+  });
+
+  it("creates the whole schema in an empty database", async () => {
+    await migrateDatabase(db);
+    expect(await appliedMigrations()).toBe(2);
+    expect(await new DatabaseStorage(db, new ConsoleSmsProvider()).getAllLadders()).toEqual([]);
+  });
+});
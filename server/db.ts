@@ -1,15 +1,84 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { sql } from 'drizzle-orm';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from 'pg';
 import ws from "ws";
+import path from "path";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// What every driver gives storage: the same Postgres dialect over the schema in shared/schema.ts
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export const databaseDrivers = ["neon", "pg", "pglite"] as const;
+export type DatabaseDriver = typeof databaseDrivers[number];
+
+export function databaseDriverOf(env: NodeJS.ProcessEnv = process.env): DatabaseDriver {
+  const driver = env.DB_DRIVER || 'neon';
+  if (!(databaseDrivers as readonly string[]).includes(driver)) {
+    throw new Error(`Unknown DB_DRIVER "${driver}". Use neon, pg or pglite.`);
+  }
+  return driver as DatabaseDriver;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+// Connect with the driver from DB_DRIVER:
+// - neon (default): Neon's serverless driver over WebSockets, DATABASE_URL
+// - pg: node-postgres for an ordinary Postgres server, DATABASE_URL
+// - pglite: embedded Postgres in a local directory (PGLITE_DATA_DIR, default ./data/pglite), no server needed
+export function createDatabase(env: NodeJS.ProcessEnv = process.env): Database {
+  const driver = databaseDriverOf(env);
+
+  if (driver === 'pglite') {
+    const client = new PGlite(path.resolve(env.PGLITE_DATA_DIR || 'data/pglite'));
+    return drizzlePglite({ client, schema });
+  }
+
+  if (!env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database? Set DB_DRIVER=pglite or STORAGE=memory to run without one.",
+    );
+  }
+  if (driver === 'pg') {
+    return drizzleNodePostgres({ client: new pg.Pool({ connectionString: env.DATABASE_URL }), schema });
+  }
+  return drizzleNeon({ client: new NeonPool({ connectionString: env.DATABASE_URL }), schema });
+}
+
+// Bring the database up to the checked-in migrations (npm run db:generate writes them to ./migrations).
+// The first migration is the schema databases were created with by db:push before migrations existed
+// (players, matches and otp_codes only). Such a database has those tables but no journal, so the first
+// migration alone is recorded as applied and every later one runs against it as usual.
+export async function migrateDatabase(db: Database, migrationsFolder = path.resolve('migrations')): Promise<void> {
+  const [initial] = readMigrationFiles({ migrationsFolder });
+  const result = await db.execute(sql`
+    select to_regclass('public.players') is not null as "hasTables",
+           to_regclass('drizzle.__drizzle_migrations') is not null as "hasJournal"
+  `);
+  const [{ hasTables, hasJournal }] = (result as { rows: Array<{ hasTables: boolean; hasJournal: boolean }> }).rows;
+
+  if (initial && hasTables && !hasJournal) {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`create schema if not exists drizzle`);
+      await tx.execute(sql`
+        create table if not exists drizzle.__drizzle_migrations (
+          id serial primary key,
+          hash text not null,
+          created_at bigint
+        )
+      `);
+      await tx.execute(sql`
+        insert into drizzle.__drizzle_migrations (hash, created_at) values (${initial.hash}, ${initial.folderMillis})
+      `);
+    });
+  }
+
+  // Every drizzle Postgres driver migrates through the same dialect and session, so one migrator serves all three
+  await migrate(db as unknown as NodePgDatabase<typeof schema>, { migrationsFolder });
+}
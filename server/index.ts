@@ -1,10 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 
+// Behind a reverse proxy (e.g. Replit), set TRUST_PROXY to the hop count so req.ip is the real client
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", parseInt(process.env.TRUST_PROXY, 10));
+}
+
 // Configure session middleware
 app.use(session({
   secret: process.env.SESSION_SECRET || 'kanteerava-badminton-club-secret-key',
@@ -17,7 +23,8 @@ app.use(session({
   }
 }));
 
-app.use(express.json());
+// Club archives posted to /api/import run to a few megabytes
+app.use(express.json({ limit: "20mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -51,6 +58,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Apply any checked-in migrations the database hasn't seen yet before serving requests
+  await storage.migrate();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -75,6 +85,24 @@ app.use((req, res, next) => {
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
   const port = parseInt(process.env.PORT || '5000', 10);
+  // Clean up expired OTP codes hourly
+  const purgeOTPs = () => {
+    storage.purgeStaleOTPs()
+      .then(count => count > 0 && log(`purged ${count} expired OTP codes`))
+      .catch(error => console.error("Failed to purge OTP codes:", error));
+  };
+  purgeOTPs();
+  setInterval(purgeOTPs, 60 * 60 * 1000).unref();
+
+  // Forfeit ladder challenges that weren't answered in time
+  const resolveChallenges = () => {
+    storage.resolveOverdueChallenges()
+      .then(count => count > 0 && log(`settled ${count} overdue ladder challenges`))
+      .catch(error => console.error("Failed to settle overdue challenges:", error));
+  };
+  resolveChallenges();
+  setInterval(resolveChallenges, 60 * 60 * 1000).unref();
+
   server.listen({
     port,
     host: "0.0.0.0",
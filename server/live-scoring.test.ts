@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { LiveMatchState, StartLiveMatch } from "@shared/schema";
+import { LiveScoring, replayRallies } from "./live-scoring";
+
+// Team A is players 1 and 2, team B players 3 and 4, each listed right court first
+const setup: StartLiveMatch = { format: "doubles", teamAPlayer1Id: 1, teamAPlayer2Id: 2, teamBPlayer1Id: 3, teamBPlayer2Id: 4, bestOf: 3, servingTeam: 1 };
+const rallies = (...winners: (1 | 2)[]) => winners;
+const repeat = (winner: 1 | 2, count: number) => Array<1 | 2>(count).fill(winner);
+
+describe("replayRallies", () => {
+  it("serves the first rally from the right court to the player diagonally opposite", () => {
+    expect(replayRallies(setup, [])).toMatchObject({ servingTeam: 1, serverId: 1, receiverId: 3, serviceCourt: "right", status: "in_progress" });
+    expect(replayRallies({ ...setup, servingTeam: 2 }, [])).toMatchObject({ servingTeam: 2, serverId: 3, receiverId: 1 });
+  });
+
+  it("moves the server across when their side scores and passes service without moving anyone", () => {
+    // The same server serves again, now from the left court with an odd score
+    expect(replayRallies(setup, rallies(1))).toMatchObject({ currentGame: { teamAScore: 1, teamBScore: 0 }, serverId: 1, receiverId: 4, serviceCourt: "left" });
+    expect(replayRallies(setup, rallies(1, 1))).toMatchObject({ serverId: 1, receiverId: 3, serviceCourt: "right" });
+
+    // Team B wins service at 1-1 and serves from the left, where player 4 stands
+    expect(replayRallies(setup, rallies(1, 2))).toMatchObject({ servingTeam: 2, serverId: 4, receiverId: 1, serviceCourt: "left" });
+    // Back to team A at 2-2: player 2 moved to the right court when A scored, so serves the even score
+    expect(replayRallies(setup, rallies(1, 2, 1))).toMatchObject({ servingTeam: 1, serverId: 2, receiverId: 3, serviceCourt: "right" });
+  });
+
+  it("plays past 20-all to a two-point lead and caps the game at 30", () => {
+    const deuce = [...repeat(1, 20), ...repeat(2, 20)];
+    expect(replayRallies(setup, [...deuce, 1]).games).toEqual([]);
+    expect(replayRallies(setup, [...deuce, 1, 1]).games).toEqual([{ teamAScore: 22, teamBScore: 20 }]);
+
+    const capped = [...deuce, ...Array.from({ length: 18 }, (_, i) => (i % 2 === 0 ? 1 : 2) as 1 | 2), 2];
+    expect(replayRallies(setup, capped).games).toEqual([{ teamAScore: 29, teamBScore: 30 }]);
+  });
+
+  it("lets the game winners serve the next game from their starting courts and stops at the match winner", () => {
+    const firstGame = repeat(2, 21);
+    expect(replayRallies(setup, firstGame)).toMatchObject({
+      games: [{ teamAScore: 0, teamBScore: 21 }],
+      currentGame: { teamAScore: 0, teamBScore: 0 },
+      servingTeam: 2,
+      serverId: 3,
+      receiverId: 1,
+    });
+
+    // Rallies after the deciding one change nothing
+    const state = replayRallies(setup, [...firstGame, ...repeat(1, 21), ...repeat(1, 21), 2, 2]);
+    expect(state).toMatchObject({ status: "finished", winnerId: 1, rallyCount: 65 });
+    expect(state.games).toHaveLength(3);
+    expect(state.currentGame).toEqual({ teamAScore: 0, teamBScore: 0 });
+    expect(replayRallies({ ...setup, bestOf: 1 }, repeat(1, 21))).toMatchObject({ status: "finished", winnerId: 1 });
+  });
+});
+
+describe("LiveScoring", () => {
+  it("takes back the last rally until the result is saved", () => {
+    const scoring = new LiveScoring();
+    const { id } = scoring.start(setup);
+    expect(scoring.undo(id)).toBeUndefined();
+
+    scoring.rally(id, 1);
+    const before = scoring.get(id)!;
+    scoring.rally(id, 2);
+    expect(scoring.undo(id)).toEqual(before);
+  });
+
+  it("refuses rallies once the match is over and drops it once saved", () => {
+    const scoring = new LiveScoring();
+    const { id } = scoring.start({ ...setup, bestOf: 1 });
+    const seen: (LiveMatchState | null)[] = [];
+    scoring.subscribe(id, state => seen.push(state));
+
+    repeat(1, 21).forEach(() => scoring.rally(id, 1));
+    expect(scoring.rally(id, 2)).toBeUndefined();
+
+    expect(scoring.markCommitted(id, 99)).toMatchObject({ matchId: 99, status: "finished" });
+    expect(scoring.get(id)).toBeUndefined();
+    expect(scoring.list()).toEqual([]);
+    expect(seen.slice(-2)).toEqual([expect.objectContaining({ matchId: 99 }), null]);
+  });
+
+  it("tells subscribers when a match is cancelled", () => {
+    const scoring = new LiveScoring();
+    const { id } = scoring.start(setup);
+    const seen: (LiveMatchState | null)[] = [];
+    scoring.subscribe(id, state => seen.push(state));
+
+    expect(scoring.remove(id)).toBe(true);
+    expect(seen).toEqual([null]);
+    expect(scoring.remove(id)).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { isValidGameScore, type GameScore, type LiveMatchState, type StartLiveMatch } from "@shared/schema";
+
+// Live point-by-point scoring for doubles.
+//
+// A live match is its starting line-up plus the list of rally winners; everything else - score,
+// games, server, service court - is worked out by replaying the rallies under BWF doubles rules.
+// That makes undo a matter of dropping the last rally. Live matches are held in memory only.
+
+type Side = 1 | 2;
+
+interface LiveMatch {
+  id: number;
+  setup: StartLiveMatch;
+  rallies: Side[];
+  matchId: number | null; // the stored match once the result has been committed
+  createdAt: Date;
+}
+
+// A game is over once its score would be a valid final score: 21-19, 22-20, ... 30-29
+const isGameOver = (game: GameScore) => isValidGameScore(game.teamAScore, game.teamBScore);
+
+export function replayRallies(setup: StartLiveMatch, rallies: Side[]): Omit<LiveMatchState, "id" | "matchId" | "createdAt"> {
+  const gamesToWin = setup.bestOf === 3 ? 2 : 1;
+  const games: GameScore[] = [];
+  let current: GameScore = { teamAScore: 0, teamBScore: 0 };
+  let servingTeam: Side = setup.servingTeam;
+
+  // Players in [right court, left court] order for each team; this is the order they were entered in
+  let courts: Record<Side, [number, number]> = {
+    1: [setup.teamAPlayer1Id, setup.teamAPlayer2Id],
+    2: [setup.teamBPlayer1Id, setup.teamBPlayer2Id],
+  };
+
+  const scoreOf = (side: Side) => (side === 1 ? current.teamAScore : current.teamBScore);
+  const gamesWon = (side: Side) => games.filter(game => (game.teamAScore > game.teamBScore ? 1 : 2) === side).length;
+  const matchOver = () => gamesWon(1) === gamesToWin || gamesWon(2) === gamesToWin;
+
+  for (const winner of rallies) {
+    if (matchOver()) break;
+
+    current = winner === 1
+      ? { ...current, teamAScore: current.teamAScore + 1 }
+      : { ...current, teamBScore: current.teamBScore + 1 };
+
+    if (winner === servingTeam) {
+      // The serving pair scores and their server switches service court
+      const [right, left] = courts[winner];
+      courts = { ...courts, [winner]: [left, right] };
+    } else {
+      // Service passes to the other pair; nobody changes court
+      servingTeam = winner;
+    }
+
+    if (isGameOver(current)) {
+      games.push(current);
+      current = { teamAScore: 0, teamBScore: 0 };
+      // The winners of a game serve first in the next one, from their starting positions
+      servingTeam = winner;
+      courts = {
+        1: [setup.teamAPlayer1Id, setup.teamAPlayer2Id],
+        2: [setup.teamBPlayer1Id, setup.teamBPlayer2Id],
+      };
+    }
+  }
+
+  // Serve from the right court on an even score and the left court on an odd one
+  const receivingTeam: Side = servingTeam === 1 ? 2 : 1;
+  const serviceCourt = scoreOf(servingTeam) % 2 === 0 ? "right" : "left";
+  const courtIndex = serviceCourt === "right" ? 0 : 1;
+  const finished = matchOver();
+
+  return {
+    format: setup.format,
+    teamA: [setup.teamAPlayer1Id, setup.teamAPlayer2Id],
+    teamB: [setup.teamBPlayer1Id, setup.teamBPlayer2Id],
+    sessionId: setup.sessionId ?? null,
+    bestOf: setup.bestOf,
+    games,
+    currentGame: current,
+    servingTeam,
+    serverId: courts[servingTeam][courtIndex],
+    receiverId: courts[receivingTeam][courtIndex],
+    serviceCourt,
+    rallyCount: rallies.length,
+    status: finished ? "finished" : "in_progress",
+    winnerId: finished ? (gamesWon(1) === gamesToWin ? 1 : 2) : null,
+  };
+}
+
+// Listeners get every new state, then null once the match is removed
+type Listener = (state: LiveMatchState | null) => void;
+
+export class LiveScoring {
+  private matches = new Map<number, LiveMatch>();
+  private listeners = new Map<number, Set<Listener>>();
+  private nextId = 1;
+
+  start(setup: StartLiveMatch): LiveMatchState {
+    const match: LiveMatch = { id: this.nextId++, setup, rallies: [], matchId: null, createdAt: new Date() };
+    this.matches.set(match.id, match);
+    return this.stateOf(match);
+  }
+
+  get(id: number): LiveMatchState | undefined {
+    const match = this.matches.get(id);
+    return match ? this.stateOf(match) : undefined;
+  }
+
+  list(): LiveMatchState[] {
+    return Array.from(this.matches.values()).map(match => this.stateOf(match));
+  }
+
+  // Record the winner of a rally. Returns undefined if the match doesn't exist or is already over.
+  rally(id: number, winner: Side): LiveMatchState | undefined {
+    const match = this.matches.get(id);
+    if (!match || this.stateOf(match).status !== "in_progress") return undefined;
+    match.rallies.push(winner);
+    return this.publish(match);
+  }
+
+  // Take back the last rally, as long as the result hasn't been committed
+  undo(id: number): LiveMatchState | undefined {
+    const match = this.matches.get(id);
+    if (!match || match.matchId !== null || match.rallies.length === 0) return undefined;
+    match.rallies.pop();
+    return this.publish(match);
+  }
+
+  // The stored match takes over once the result is saved, so the live one is dropped
+  markCommitted(id: number, matchId: number): LiveMatchState | undefined {
+    const match = this.matches.get(id);
+    if (!match) return undefined;
+    match.matchId = matchId;
+    const state = this.publish(match);
+    this.remove(id);
+    return state;
+  }
+
+  remove(id: number): boolean {
+    const removed = this.matches.delete(id);
+    this.listeners.get(id)?.forEach(listener => listener(null));
+    this.listeners.delete(id);
+    return removed;
+  }
+
+  // Subscribe to state changes of one match; returns the unsubscribe function
+  subscribe(id: number, listener: Listener): () => void {
+    if (!this.listeners.has(id)) {
+      this.listeners.set(id, new Set());
+    }
+    this.listeners.get(id)!.add(listener);
+    return () => {
+      this.listeners.get(id)?.delete(listener);
+    };
+  }
+
+  private stateOf(match: LiveMatch): LiveMatchState {
+    return { id: match.id, matchId: match.matchId, createdAt: match.createdAt, ...replayRallies(match.setup, match.rallies) };
+  }
+
+  private publish(match: LiveMatch): LiveMatchState {
+    const state = this.stateOf(match);
+    this.listeners.get(match.id)?.forEach(listener => listener(state));
+    return state;
+  }
+}
+
+export const liveScoring = new LiveScoring();
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { MatchDetails, MatchImportRequest, Player } from "@shared/schema";
+import { nameSimilarity, parseCsv, parseGames, parseMatchDate, planMatchImport, suggestPlayers } from "./match-import";
+
+const players = ["Rahul Verma", "Priya Nair", "Arjun Rao", "Meera Iyer", "Rahul Menon"].map((name, index) => ({ id: index + 1, name }) as Player);
+
+const plan = (csv: string, options: Partial<MatchImportRequest> = {}, existing: MatchDetails[] = []) =>
+  planMatchImport({ csv, dateOrder: "dmy", playerMap: {}, skipInvalid: false, ...options }, players, existing);
+
+describe("parseCsv", () => {
+  it("reads quoted commas, doubled quotes and line breaks, numbering rows by the line they start on", () => {
+    const rows = parseCsv('﻿Date,Notes\r\n2024-03-15,"Rao, A"\r\n\r\n2024-03-16,"said ""well played""\nafterwards"\n2024-03-17,');
+    expect(rows).toEqual([
+      { line: 1, cells: ["Date", "Notes"] },
+      { line: 2, cells: ["2024-03-15", "Rao, A"] },
+      { line: 4, cells: ["2024-03-16", 'said "well played"\nafterwards'] },
+      { line: 6, cells: ["2024-03-17", ""] },
+    ]);
+  });
+});
+
+describe("parseMatchDate", () => {
+  it("reads the ways spreadsheets write dates, in local time", () => {
+    const march15 = new Date(2024, 2, 15);
+    expect(parseMatchDate("2024-03-15", "dmy")).toEqual(march15);
+    expect(parseMatchDate("15/03/2024", "dmy")).toEqual(march15);
+    expect(parseMatchDate("03/15/2024", "mdy")).toEqual(march15);
+    expect(parseMatchDate("15 Mar 24", "dmy")).toEqual(march15);
+    expect(parseMatchDate("March 15, 2024", "dmy")).toEqual(march15);
+    expect(parseMatchDate("2024-03-15T18:30:00Z", "dmy")).toEqual(new Date("2024-03-15T18:30:00Z"));
+  });
+
+  it("takes the time from the date or the time column", () => {
+    expect(parseMatchDate("15/03/2024 19:45", "dmy")).toEqual(new Date(2024, 2, 15, 19, 45));
+    expect(parseMatchDate("2024-03-15", "dmy", "7.30 pm")).toEqual(new Date(2024, 2, 15, 19, 30));
+    expect(parseMatchDate("2024-03-15", "dmy", "12 am")).toEqual(new Date(2024, 2, 15, 0, 0));
+  });
+
+  it("rejects days the month doesn't have, bad times and anything else", () => {
+    expect(parseMatchDate("31/02/2024", "dmy")).toBeNull();
+    expect(parseMatchDate("02/31/2024", "mdy")).toBeNull();
+    expect(parseMatchDate("2024-03-15", "dmy", "25:00")).toBeNull();
+    expect(parseMatchDate("15 Foo 2024", "dmy")).toBeNull();
+    expect(parseMatchDate("last Tuesday", "dmy")).toBeNull();
+  });
+});
+
+describe("parseGames", () => {
+  it("splits games on spaces, commas or semicolons and points on - : or an en dash", () => {
+    expect(parseGames(["21-15, 18:21;21–19"])).toEqual([
+      { teamAScore: 21, teamBScore: 15 },
+      { teamAScore: 18, teamBScore: 21 },
+      { teamAScore: 21, teamBScore: 19 },
+    ]);
+    expect(parseGames(["21-15", "", "21-9"])).toHaveLength(2);
+    expect(parseGames(["21 to 15"])).toBeNull();
+  });
+});
+
+describe("player names", () => {
+  it("scores typos and shortened names", () => {
+    expect(nameSimilarity("rahul  VERMA", "Rahul Verma")).toBe(1);
+    expect(nameSimilarity("Rahul V", "Rahul Verma")).toBe(0.85);
+    expect(nameSimilarity("Priya Niar", "Priya Nair")).toBeCloseTo(0.8);
+    expect(nameSimilarity("Arjun", "Meera Iyer")).toBeLessThan(0.5);
+  });
+
+  it("suggests the likeliest players, best first", () => {
+    expect(suggestPlayers("Rahul", players).map(suggestion => suggestion.name)).toEqual(["Rahul Menon", "Rahul Verma"]);
+    expect(suggestPlayers("Zed", players)).toEqual([]);
+  });
+});
+
+describe("planMatchImport", () => {
+  it("names the columns a file is missing", () => {
+    expect(plan("When,Who\n2024-03-15,Rahul Verma").preview.errors).toEqual([
+      'No date column (e.g. "Date")',
+      'No column for the first side (e.g. "Team A" or "A1")',
+      'No column for the second side (e.g. "Team B" or "B1")',
+      'No score column (e.g. "Games" or "Game 1")',
+    ]);
+    expect(plan("Date,Team A,Team B,Score").preview.errors).toEqual(["The CSV needs a header row and at least one match"]);
+  });
+
+  it("reads teams and scores in either layout and spaces untimed rows of a day a minute apart", () => {
+    const { preview, matches } = plan([
+      "Played on,Team 1,Team 2,Score",
+      "15/03/2024,Rahul Verma / Priya Nair,Arjun Rao & Meera Iyer,21-15 21-18",
+      "15/03/2024,Rahul Verma,Arjun Rao,15-21 21-19 21-17",
+    ].join("\n"));
+    expect(preview).toMatchObject({ errors: [], valid: 2, invalid: 0, duplicates: 0 });
+    expect(matches).toEqual([
+      { format: "doubles", sessionId: null, teamA: [1, 2], teamB: [3, 4], games: [{ teamAScore: 21, teamBScore: 15 }, { teamAScore: 21, teamBScore: 18 }], playedAt: new Date(2024, 2, 15, 0, 0) },
+      expect.objectContaining({ format: "singles", teamA: [1], teamB: [3], playedAt: new Date(2024, 2, 15, 0, 1) }),
+    ]);
+
+    const split = plan("Date,Time,Event,A1,A2,B1,B2,G1,G2,G3\n2024-03-16,18:00,XD,Rahul Verma,Priya Nair,Arjun Rao,Meera Iyer,21-10,21-12,");
+    expect(split.matches).toEqual([expect.objectContaining({ format: "mixed_doubles", teamA: [1, 2], teamB: [3, 4], playedAt: new Date(2024, 2, 16, 18, 0) })]);
+  });
+
+  it("reports every problem with a row against its line", () => {
+    const { preview, matches } = plan([
+      "Date,Team A,Team B,Games,Format",
+      "30/02/2024,Rahul Verma,Arjun Rao,21-15,",
+      "2024-03-15,Rahul Verma,Arjun Rao,21-20,",
+      "2024-03-15,Rahul Verma,Arjun Rao,21 15,",
+      "2024-03-15,Rahul Verma,Arjun Rao,21-15,Tennis",
+      "2024-03-15,Rahul Verma / Priya Nair,Arjun Rao,21-15,Doubles",
+    ].join("\n"));
+
+    expect(matches).toEqual([]);
+    expect(preview).toMatchObject({ valid: 0, invalid: 5 });
+    expect(preview.rows.map(({ line, status, errors }) => ({ line, status, errors }))).toEqual([
+      { line: 2, status: "invalid", errors: ['Unrecognised date "30/02/2024"'] },
+      { line: 3, status: "invalid", errors: ["Games are played to 21, won by 2 and capped at 30"] },
+      { line: 4, status: "invalid", errors: ['Unrecognised score "21 15"'] },
+      { line: 5, status: "invalid", errors: ['Unknown format "Tennis"'] },
+      { line: 6, status: "invalid", errors: [expect.any(String)] },
+    ]);
+  });
+
+  it("collects names it can't place, with suggestions, and takes the reviewed mapping", () => {
+    const csv = "Date,Team A,Team B,Games\n2024-03-15,Rahul,Arjun Rao,21-15\n2024-03-16,Rahul,Arjn Rao,21-15";
+    const { preview } = plan(csv);
+    expect(preview.invalid).toBe(2);
+    expect(preview.rows[1].errors).toEqual(['Unknown player "Rahul"', 'Unknown player "Arjn Rao"']);
+    expect(preview.unmatchedNames).toEqual([
+      { name: "Rahul", rows: 2, suggestions: [expect.objectContaining({ playerId: 5 }), expect.objectContaining({ playerId: 1 })] },
+      { name: "Arjn Rao", rows: 1, suggestions: [expect.objectContaining({ playerId: 3 })] },
+    ]);
+
+    const mapped = plan(csv, { playerMap: { Rahul: 5, "Arjn Rao": 3 } });
+    expect(mapped.preview).toMatchObject({ valid: 2, unmatchedNames: [] });
+    expect(mapped.matches.map(match => match.teamA)).toEqual([[5], [5]]);
+  });
+
+  it("leaves out matches already recorded that day, whichever way round", () => {
+    const recorded = {
+      id: 9,
+      teamA: [3],
+      teamB: [1],
+      games: [{ id: 1, matchId: 9, gameNumber: 1, teamAScore: 15, teamBScore: 21 }],
+      playedAt: new Date(2024, 2, 15, 20, 0),
+    } as MatchDetails;
+    const { preview, matches } = plan("Date,Team A,Team B,Games\n2024-03-15,Rahul Verma,Arjun Rao,21-15\n2024-03-16,Rahul Verma,Arjun Rao,21-15", {}, [recorded]);
+    expect(preview).toMatchObject({ valid: 1, duplicates: 1 });
+    expect(preview.rows[0].status).toBe("duplicate");
+    expect(matches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,337 @@
+import { insertMatchSchema, lineupError, matchFormatLabels, matchFormats, type GameScore, type HistoricalMatch, type MatchDetails, type MatchFormat, type MatchImportPreview, type MatchImportRequest, type MatchImportRow, type Player, type PlayerNameSuggestion, type UnmatchedPlayerName } from "@shared/schema";
+
+// Names scoring below this aren't offered as suggestions, and at most this many are
+const MIN_SUGGESTION_SCORE = 0.5;
+const MAX_SUGGESTIONS = 3;
+
+// Header aliases, compared with everything but letters and digits removed
+const columnAliases = {
+  date: ["date", "playedat", "playedon", "matchdate", "day"],
+  time: ["time", "starttime"],
+  format: ["format", "event", "type", "matchtype"],
+  teamA: ["teama", "team1", "sidea", "side1", "paira", "pair1"],
+  teamB: ["teamb", "team2", "sideb", "side2", "pairb", "pair2"],
+  teamA1: ["teamaplayer1", "team1player1", "a1", "player1"],
+  teamA2: ["teamaplayer2", "team1player2", "a2", "player2"],
+  teamB1: ["teambplayer1", "team2player1", "b1", "player3"],
+  teamB2: ["teambplayer2", "team2player2", "b2", "player4"],
+  games: ["games", "score", "scores", "result", "gamescores"],
+  game1: ["game1", "g1", "set1"],
+  game2: ["game2", "g2", "set2"],
+  game3: ["game3", "g3", "set3"],
+};
+
+type Column = keyof typeof columnAliases;
+
+const formatAbbreviations: Record<string, MatchFormat> = {
+  d: "doubles",
+  md: "mens_doubles",
+  wd: "womens_doubles",
+  xd: "mixed_doubles",
+  s: "singles",
+  ms: "singles",
+  ws: "singles",
+};
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. Each row comes with the
+// line it starts on; blank lines are dropped.
+export function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== "")) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How alike a written name is to a player's: spelling for typos, and word prefixes for
+// shortened names like "Rahul V" or "R Verma"
+export function nameSimilarity(written: string, playerName: string): number {
+  const a = normalizeName(written);
+  const b = normalizeName(playerName);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const spelling = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+  const writtenWords = a.split(" ");
+  const playerWords = b.split(" ");
+  let next = 0;
+  const allPrefixes = writtenWords.every(word => {
+    while (next < playerWords.length && !playerWords[next].startsWith(word)) next++;
+    return next++ < playerWords.length;
+  });
+  const shortened = allPrefixes ? (writtenWords.length > 1 ? 0.85 : 0.7) : 0;
+
+  return Math.max(spelling, shortened);
+}
+
+export function suggestPlayers(name: string, candidates: Player[]): PlayerNameSuggestion[] {
+  return candidates
+    .map(player => ({ playerId: player.id, name: player.name, score: Math.round(nameSimilarity(name, player.name) * 100) / 100 }))
+    .filter(suggestion => suggestion.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+function parseTime(text: string): [number, number] | null {
+  const match = text.trim().toLowerCase().match(/^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (match[3] === "pm" && hours < 12) hours += 12;
+  if (match[3] === "am" && hours === 12) hours = 0;
+  return hours < 24 && minutes < 60 ? [hours, minutes] : null;
+}
+
+// Dates as spreadsheets write them: 2024-03-15 (optionally with a time, or a full ISO timestamp),
+// 15/03/2024 or 03/15/2024 by `order`, 15 Mar 2024 and Mar 15, 2024. Without a time the date is
+// local midnight.
+export function parseMatchDate(text: string, order: MatchImportRequest["dateOrder"], time?: string): Date | null {
+  const value = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const instant = new Date(value);
+    return isNaN(instant.getTime()) ? null : instant;
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+  let clock: string | undefined = time;
+  let match: RegExpMatchArray | null;
+
+  if ((match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ](.+))?$/))) {
+    [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+    clock = match[4] ?? clock;
+  } else if ((match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?: (.+))?$/))) {
+    const [first, second] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+    [day, month] = order === "dmy" ? [first, second] : [second, first];
+    year = parseInt(match[3], 10);
+    clock = match[4] ?? clock;
+  } else if ((match = value.match(/^(\d{1,2})[- ]([a-z]{3,})\.?[- ,]+(\d{2}|\d{4})$/i))) {
+    [day, month, year] = [parseInt(match[1], 10), monthNames.indexOf(match[2].slice(0, 3).toLowerCase()) + 1, parseInt(match[3], 10)];
+  } else if ((match = value.match(/^([a-z]{3,})\.? (\d{1,2}),? (\d{2}|\d{4})$/i))) {
+    [month, day, year] = [monthNames.indexOf(match[1].slice(0, 3).toLowerCase()) + 1, parseInt(match[2], 10), parseInt(match[3], 10)];
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const [hours, minutes] = clock ? parseTime(clock) ?? [-1, -1] : [0, 0];
+  if (hours < 0) return null;
+
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // Reject days the month doesn't have rather than rolling over
+  return month >= 1 && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// "21-15 18-21 21-19", with any of - : or – between the points and spaces, commas or semicolons between games
+export function parseGames(texts: string[]): GameScore[] | null {
+  const parts = texts.flatMap(text => text.split(/[\s,;]+/)).filter(part => part !== "");
+  const games: GameScore[] = [];
+  for (const part of parts) {
+    const match = part.match(/^(\d{1,2})[-:\u2013](\d{1,2})$/);
+    if (!match) return null;
+    games.push({ teamAScore: parseInt(match[1], 10), teamBScore: parseInt(match[2], 10) });
+  }
+  return games;
+}
+
+function parseFormat(text: string): MatchFormat | null {
+  const key = normalizeName(text);
+  const known = matchFormats.find(format => normalizeName(format) === key || normalizeName(matchFormatLabels[format]) === key);
+  return known ?? formatAbbreviations[key.replace(/ /g, "")] ?? null;
+}
+
+const splitTeam = (text: string) => text.split(/\s*(?:[/&+,]|\band\b)\s*/i).map(name => name.trim()).filter(name => name !== "");
+
+const dayOf = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every(id => b.includes(id));
+const sameGames = (a: GameScore[], b: GameScore[], flipped: boolean) => a.length === b.length && a.every((game, index) =>
+  flipped
+    ? game.teamAScore === b[index].teamBScore && game.teamBScore === b[index].teamAScore
+    : game.teamAScore === b[index].teamAScore && game.teamBScore === b[index].teamBScore);
+
+// The same day, sides and game scores as a match already recorded, either way round
+function isRecorded(match: HistoricalMatch, existing: MatchDetails[]): boolean {
+  return existing.some(candidate => {
+    if (dayOf(new Date(candidate.playedAt)) !== dayOf(match.playedAt)) return false;
+    const games = candidate.games.map(({ teamAScore, teamBScore }) => ({ teamAScore, teamBScore }));
+    return (sameSet(candidate.teamA, match.teamA) && sameSet(candidate.teamB, match.teamB) && sameGames(games, match.games, false)) ||
+      (sameSet(candidate.teamA, match.teamB) && sameSet(candidate.teamB, match.teamA) && sameGames(games, match.games, true));
+  });
+}
+
+// Read every row, resolve names and check each match as POST /api/matches would. Rows without a
+// time keep their order within the day a minute apart, so the replay sees them as written.
+export function planMatchImport(request: MatchImportRequest, players: Player[], existing: MatchDetails[]): { preview: MatchImportPreview; matches: HistoricalMatch[] } {
+  const preview: MatchImportPreview = { errors: [], rows: [], unmatchedNames: [], valid: 0, invalid: 0, duplicates: 0 };
+  const matches: HistoricalMatch[] = [];
+
+  const [header, ...records] = parseCsv(request.csv);
+  if (!header || records.length === 0) {
+    preview.errors.push("The CSV needs a header row and at least one match");
+    return { preview, matches };
+  }
+
+  const columns: Partial<Record<Column, number>> = {};
+  const keys = header.cells.map(headerKey);
+  for (const column of Object.keys(columnAliases) as Column[]) {
+    const index = keys.findIndex(key => columnAliases[column].includes(key));
+    if (index >= 0) columns[column] = index;
+  }
+  if (columns.date === undefined) preview.errors.push("No date column (e.g. \"Date\")");
+  if (columns.teamA === undefined && columns.teamA1 === undefined) preview.errors.push("No column for the first side (e.g. \"Team A\" or \"A1\")");
+  if (columns.teamB === undefined && columns.teamB1 === undefined) preview.errors.push("No column for the second side (e.g. \"Team B\" or \"B1\")");
+  if (columns.games === undefined && columns.game1 === undefined) preview.errors.push("No score column (e.g. \"Games\" or \"Game 1\")");
+  if (preview.errors.length > 0) {
+    return { preview, matches };
+  }
+
+  const cellOf = (cells: string[], column: Column) => columns[column] === undefined ? "" : (cells[columns[column]!] ?? "").trim();
+  const teamOf = (cells: string[], team: "teamA" | "teamB") => columns[team] !== undefined
+    ? splitTeam(cellOf(cells, team))
+    : [cellOf(cells, `${team}1`), cellOf(cells, `${team}2`)].filter(name => name !== "");
+
+  // Names resolve through the reviewed map first, then to the one player with that exact name
+  const playersById = new Map(players.map(player => [player.id, player]));
+  const unmatched = new Map<string, number>();
+  const resolve = (name: string): number | null => {
+    const mapped = request.playerMap[name];
+    if (mapped !== undefined && playersById.has(mapped)) return mapped;
+    const exact = players.filter(player => normalizeName(player.name) === normalizeName(name));
+    if (exact.length === 1) return exact[0].id;
+    unmatched.set(name, (unmatched.get(name) ?? 0) + 1);
+    return null;
+  };
+
+  const rowsPerDay = new Map<string, number>();
+  for (const { line, cells } of records) {
+    const errors: string[] = [];
+    const teamA = teamOf(cells, "teamA");
+    const teamB = teamOf(cells, "teamB");
+
+    const dateText = cellOf(cells, "date");
+    let playedAt = parseMatchDate(dateText, request.dateOrder, cellOf(cells, "time") || undefined);
+    if (!playedAt) {
+      errors.push(`Unrecognised date "${dateText}"`);
+    } else if (!cellOf(cells, "time") && playedAt.getHours() === 0 && playedAt.getMinutes() === 0) {
+      const earlier = rowsPerDay.get(dayOf(playedAt)) ?? 0;
+      rowsPerDay.set(dayOf(playedAt), earlier + 1);
+      playedAt = new Date(playedAt.getTime() + earlier * 60 * 1000);
+    }
+
+    const gamesText = columns.games !== undefined
+      ? [cellOf(cells, "games")]
+      : [cellOf(cells, "game1"), cellOf(cells, "game2"), cellOf(cells, "game3")];
+    const games = parseGames(gamesText);
+    if (!games) {
+      errors.push(`Unrecognised score "${gamesText.filter(text => text !== "").join(" ")}"`);
+    }
+
+    const formatText = cellOf(cells, "format");
+    const format = formatText ? parseFormat(formatText) : (teamA.length === 1 && teamB.length === 1 ? "singles" : "doubles");
+    if (!format) {
+      errors.push(`Unknown format "${formatText}"`);
+    }
+
+    const teamAIds = teamA.map(resolve);
+    const teamBIds = teamB.map(resolve);
+    [...teamA, ...teamB].forEach((name, index) => {
+      if ([...teamAIds, ...teamBIds][index] === null) errors.push(`Unknown player "${name}"`);
+    });
+
+    let match: HistoricalMatch | null = null;
+    if (errors.length === 0) {
+      const parsed = insertMatchSchema.safeParse({ format, teamA: teamAIds, teamB: teamBIds, games });
+      if (!parsed.success) {
+        errors.push(...parsed.error.errors.map(issue => issue.message));
+      } else {
+        const lineupProblem = lineupError(parsed.data.format, parsed.data.teamA, parsed.data.teamB);
+        if (lineupProblem) {
+          errors.push(lineupProblem);
+        } else {
+          match = { ...parsed.data, sessionId: null, playedAt: playedAt! };
+        }
+      }
+    }
+
+    const status: MatchImportRow["status"] = !match ? "invalid" : isRecorded(match, existing) ? "duplicate" : "valid";
+    preview.rows.push({ line, playedAt, format, teamA, teamB, games: games ?? [], status, errors });
+    if (status === "valid") {
+      matches.push(match!);
+      preview.valid++;
+    } else if (status === "duplicate") {
+      preview.duplicates++;
+    } else {
+      preview.invalid++;
+    }
+  }
+
+  preview.unmatchedNames = Array.from(unmatched, ([name, rows]): UnmatchedPlayerName => ({ name, rows, suggestions: suggestPlayers(name, players) }))
+    .sort((a, b) => b.rows - a.rows || a.name.localeCompare(b.name));
+
+  return { preview, matches };
+}
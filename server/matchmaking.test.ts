@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { arrangeGames, createRandom, generateMatchups, type MatchupPlayer, type Team } from "./matchmaking";
+import { initialRating } from "./rating";
+
+const playersAt = (...levels: number[]): MatchupPlayer[] =>
+  levels.map((skillLevel, index) => ({ id: index + 1, skillLevel, rating: initialRating(skillLevel) }));
+
+const sortedIds = (games: { teamA: Team; teamB: Team }[]) => games.flatMap(game => [...game.teamA, ...game.teamB]).sort((a, b) => a - b);
+
+describe("arrangeGames", () => {
+  it("uses every player once and finds the cheapest arrangement", () => {
+    // Only partnerships of an odd and an even id are free
+    const cost = (teamA: Team, teamB: Team) => [teamA, teamB].filter(([a, b]) => a % 2 === b % 2).length;
+    const games = arrangeGames([1, 2, 3, 4, 5, 6, 7, 8], 2, cost, createRandom(3));
+
+    expect(sortedIds(games)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(games.map(game => game.cost)).toEqual([0, 0]);
+    for (const { teamA, teamB } of games) {
+      expect(teamA[0] % 2).not.toBe(teamA[1] % 2);
+      expect(teamB[0] % 2).not.toBe(teamB[1] % 2);
+    }
+  });
+});
+
+describe("generateMatchups", () => {
+  it("pairs the strongest with the weakest so the teams' ratings balance", () => {
+    const { matchups, unmatched } = generateMatchups(playersAt(2, 4, 6, 8));
+    expect(unmatched).toEqual([]);
+    expect(matchups).toHaveLength(1);
+
+    const [{ teamA, teamB, ratingDifference, skillDifference, teamAWinProbability }] = matchups;
+    expect([teamA, teamB].map(team => [...team].sort()).sort()).toEqual([[1, 4], [2, 3]]);
+    expect(ratingDifference).toBe(0);
+    expect(skillDifference).toBe(0);
+    expect(teamAWinProbability).toBeCloseTo(0.5);
+  });
+
+  it("leaves out the players that don't make a four, and nobody for fewer than four", () => {
+    const { matchups, unmatched } = generateMatchups(playersAt(5, 5, 5, 5, 5, 5, 5, 5, 5, 5));
+    expect(matchups).toHaveLength(2);
+    expect(unmatched).toHaveLength(2);
+    expect([...sortedIds(matchups), ...unmatched].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+    expect(generateMatchups(playersAt(5, 6, 7))).toEqual({ matchups: [], unmatched: [1, 2, 3] });
+  });
+
+  it("sits out the player who would unbalance the games when the remainder allows it", () => {
+    expect(generateMatchups(playersAt(5, 5, 5, 5, 10)).unmatched).toEqual([5]);
+  });
+
+  it("breaks up recent partnerships when repeats carry a penalty", () => {
+    const players = playersAt(5, 5, 5, 5);
+    const recentPartners: Team[] = [[1, 2], [3, 4], [1, 3], [2, 4]];
+    const [{ teamA, teamB }] = generateMatchups(players, { recentPartners, repeatPenalty: 1 }).matchups;
+    expect([teamA, teamB].map(team => [...team].sort()).sort()).toEqual([[1, 4], [2, 3]]);
+  });
+
+  it("lists the most even games first and repeats itself for the same seed", () => {
+    const players = playersAt(1, 3, 5, 7, 9, 2, 4, 6, 8, 10, 5, 5);
+    const { matchups } = generateMatchups(players, { seed: 11 });
+    expect(matchups.map(matchup => matchup.ratingDifference)).toEqual([...matchups.map(matchup => matchup.ratingDifference)].sort((a, b) => a - b));
+    expect(generateMatchups(players, { seed: 11 })).toEqual(generateMatchups(players, { seed: 11 }));
+  });
+});
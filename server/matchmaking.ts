@@ -0,0 +1,192 @@
+import { RATING_PER_LEVEL, winProbability, type Rating } from "./rating";
+
+// Shared search for splitting a group of players into doubles games.
+//
+// Players are grouped four to a game at random, each group is split into the cheapest of its
+// three possible team pairings, and players are then swapped between games while that lowers
+// the total cost. The best of several random starts wins. What "cheap" means is up to the caller.
+
+export type Team = [number, number];
+
+export interface ArrangedGame {
+  teamA: Team;
+  teamB: Team;
+  cost: number;
+}
+
+export type GameCost = (teamA: Team, teamB: Team) => number;
+
+type Quad = [number, number, number, number];
+
+// Random groupings tried before local improvement
+const RESTARTS = 40;
+
+// Small seeded PRNG (mulberry32) so the same inputs always give the same games
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+// How often two players have been partners (or opponents)
+export class PairCounts {
+  private counts = new Map<string, number>();
+
+  get(a: number, b: number): number {
+    return this.counts.get(pairKey(a, b)) ?? 0;
+  }
+
+  add(a: number, b: number) {
+    this.counts.set(pairKey(a, b), this.get(a, b) + 1);
+  }
+}
+
+// Arrange exactly gameCount * 4 players into games with the lowest total cost
+export function arrangeGames(playerIds: number[], gameCount: number, gameCost: GameCost, random: () => number): ArrangedGame[] {
+  // The cheapest of the three ways to split four players into two teams
+  const bestSplit = ([p1, p2, p3, p4]: Quad): ArrangedGame => {
+    const splits: Array<[Team, Team]> = [
+      [[p1, p2], [p3, p4]],
+      [[p1, p3], [p2, p4]],
+      [[p1, p4], [p2, p3]],
+    ];
+    let best: ArrangedGame = { teamA: splits[0][0], teamB: splits[0][1], cost: Infinity };
+    for (const [teamA, teamB] of splits) {
+      const cost = gameCost(teamA, teamB);
+      if (cost < best.cost) best = { teamA, teamB, cost };
+    }
+    return best;
+  };
+
+  // Swap players between games while that lowers the total cost
+  const improve = (quads: Quad[]) => {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let g1 = 0; g1 < quads.length; g1++) {
+        for (let g2 = g1 + 1; g2 < quads.length; g2++) {
+          for (let i = 0; i < 4; i++) {
+            for (let j = 0; j < 4; j++) {
+              const before = bestSplit(quads[g1]).cost + bestSplit(quads[g2]).cost;
+              [quads[g1][i], quads[g2][j]] = [quads[g2][j], quads[g1][i]];
+              const after = bestSplit(quads[g1]).cost + bestSplit(quads[g2]).cost;
+              if (after < before) {
+                improved = true;
+              } else {
+                [quads[g1][i], quads[g2][j]] = [quads[g2][j], quads[g1][i]];
+              }
+            }
+          }
+        }
+      }
+    }
+    return quads;
+  };
+
+  let best: ArrangedGame[] = [];
+  let bestCost = Infinity;
+  for (let attempt = 0; attempt < RESTARTS; attempt++) {
+    const shuffled = shuffle(playerIds, random);
+    const quads = Array.from({ length: gameCount }, (_, g) => shuffled.slice(g * 4, g * 4 + 4) as Quad);
+    const games = improve(quads).map(bestSplit);
+    const cost = games.reduce((sum, game) => sum + game.cost, 0);
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = games;
+    }
+  }
+  return best;
+}
+
+export interface MatchupPlayer {
+  id: number;
+  skillLevel: number;
+  rating: Rating;
+}
+
+export interface MatchupOptions {
+  recentPartners?: Team[]; // partnerships from recent matches
+  repeatPenalty?: number; // cost of each recent repeat, in skill levels (bands of rating); 0 ignores history
+  seed?: number;
+}
+
+export interface Matchup {
+  teamA: Team;
+  teamB: Team;
+  skillDifference: number;
+  ratingDifference: number;
+  teamAWinProbability: number;
+}
+
+export interface MatchupResult {
+  matchups: Matchup[];
+  unmatched: number[]; // players left over when the group doesn't divide into fours
+}
+
+// Split a group into as many doubles games as possible, balancing the teams' rating sums
+export function generateMatchups(players: MatchupPlayer[], { recentPartners = [], repeatPenalty = 0, seed = 1 }: MatchupOptions = {}): MatchupResult {
+  const random = createRandom(seed);
+  const byId = new Map(players.map(player => [player.id, player]));
+  const partners = new PairCounts();
+  recentPartners.forEach(([a, b]) => partners.add(a, b));
+
+  const skillSum = (team: Team) => byId.get(team[0])!.skillLevel + byId.get(team[1])!.skillLevel;
+  const ratingSum = (team: Team) => byId.get(team[0])!.rating.rating + byId.get(team[1])!.rating.rating;
+  const gameCost: GameCost = (teamA, teamB) =>
+    Math.abs(ratingSum(teamA) - ratingSum(teamB)) / RATING_PER_LEVEL +
+    repeatPenalty * (partners.get(teamA[0], teamA[1]) + partners.get(teamB[0], teamB[1]));
+
+  const gameCount = Math.floor(players.length / 4);
+  if (gameCount === 0) {
+    return { matchups: [], unmatched: players.map(player => player.id) };
+  }
+
+  // With a remainder, the players left out are a window of the shuffled order. Up to 8 rotations
+  // of it are tried, so with more than 8 players not every choice of who sits out is considered.
+  const ids = shuffle(players.map(player => player.id), random);
+  let best: ArrangedGame[] = [];
+  let bestCost = Infinity;
+  const leftOverCount = players.length - gameCount * 4;
+  const starts = leftOverCount === 0 ? 1 : Math.min(players.length, 8);
+  for (let start = 0; start < starts; start++) {
+    const rotated = [...ids.slice(start), ...ids.slice(0, start)];
+    const games = arrangeGames(rotated.slice(0, gameCount * 4), gameCount, gameCost, random);
+    const cost = games.reduce((sum, game) => sum + game.cost, 0);
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = games;
+    }
+  }
+
+  const playing = new Set(best.flatMap(game => [...game.teamA, ...game.teamB]));
+  const matchups = best
+    .map(({ teamA, teamB }) => ({
+      teamA,
+      teamB,
+      skillDifference: Math.abs(skillSum(teamA) - skillSum(teamB)),
+      ratingDifference: Math.round(Math.abs(ratingSum(teamA) - ratingSum(teamB))),
+      teamAWinProbability: winProbability(
+        teamA.map(id => byId.get(id)!.rating),
+        teamB.map(id => byId.get(id)!.rating),
+      ),
+    }))
+    .sort((a, b) => a.ratingDifference - b.ratingDifference);
+
+  return { matchups, unmatched: players.map(player => player.id).filter(id => !playing.has(id)) };
+}
@@ -0,0 +1,11 @@
+import { storage } from "./storage";
+
+// npm run db:migrate - apply the checked-in migrations without starting the server
+(async () => {
+  await storage.migrate();
+  console.log("Database is up to date");
+  process.exit(0);
+})().catch(error => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
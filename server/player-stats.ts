@@ -0,0 +1,255 @@
+import { disciplineOf, gameScoresOf, inStatsWindow, summarizeGames, type ClubSettings, type MatchDetails, type MatchFormat, type MatchSkillSnapshot, type Player, type PlayerProfile, type PlayerRating, type PlayerStats, type SkillPolicy, type StatsFilter } from "@shared/schema";
+import { ratingOrInitial, ratingToSkillLevel } from "./rating";
+import { computeStreaks } from "./rankings";
+import { compareMatchOrder, describeEvaluation, evaluateRating, participantIds, type RatingState } from "./skill-replay";
+
+// Player statistics, suggestions and profiles, computed from rows storage has already loaded.
+// Every IStorage implementation builds its answers here so they agree.
+
+export interface SkillLevelSuggestion {
+  playerId: number;
+  name: string;
+  currentLevel: number;
+  suggestedLevel: number;
+  reason: string;
+  matchesPlayed: number; // rated doubles matches
+  matchesNeeded?: number;
+}
+
+// A player's stored doubles rating, or the prior from their original level before their first doubles match
+function doublesRatingOf(player: Player, doublesRatings: PlayerRating[]): RatingState {
+  const stored = doublesRatings.find(r => r.playerId === player.id);
+  return stored ?? { ...ratingOrInitial(player), matchesPlayed: 0 };
+}
+
+// Stats over the matches in the filter's window; `ratings` are the ones for the format's discipline.
+// Recent form always looks at the latest matches, whatever the window, and skill suggestions at the doubles rating.
+export function computePlayerStats(
+  allPlayers: Player[],
+  matches: MatchDetails[],
+  ratings: PlayerRating[],
+  doublesRatings: PlayerRating[],
+  skillPolicy: SkillPolicy,
+  filter: StatsFilter = {},
+  playerId?: number,
+): PlayerStats[] {
+  const { format } = filter;
+  const allMatches = matches.filter(match => !format || match.format === format);
+  const windowMatches = allMatches.filter(match => inStatsWindow(match, filter));
+
+  const stats: PlayerStats[] = [];
+  
+  for (const player of allPlayers) {
+    if (playerId && player.id !== playerId) continue;
+    
+    const playerMatches = windowMatches.filter(match => participantIds(match).includes(player.id));
+    const history = allMatches
+      .filter(match => participantIds(match).includes(player.id))
+      .sort((a, b) => compareMatchOrder(b, a));
+    
+    // Get last 3 matches for recent performance analysis
+    const recentMatches = history.slice(0, 3);
+    
+    let wins = 0;
+    let recentWins = 0;
+    let pointsFor = 0;
+    let pointsAgainst = 0;
+    let gamesWon = 0;
+    let gamesLost = 0;
+    
+    for (const match of playerMatches) {
+      const isTeamA = match.teamA.includes(player.id);
+      const teamWon = match.winnerId === 1 ? "A" : "B";
+      
+      // Track wins
+      if ((isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B")) {
+        wins++;
+      }
+      
+      // Track points
+      if (isTeamA) {
+        pointsFor += match.teamAScore;
+        pointsAgainst += match.teamBScore;
+      } else {
+        pointsFor += match.teamBScore;
+        pointsAgainst += match.teamAScore;
+      }
+      
+      // Track games
+      const { teamAGames, teamBGames } = summarizeGames(gameScoresOf(match));
+      gamesWon += isTeamA ? teamAGames : teamBGames;
+      gamesLost += isTeamA ? teamBGames : teamAGames;
+    }
+    
+    for (const match of recentMatches) {
+      const isTeamA = match.teamA.includes(player.id);
+      const teamWon = match.winnerId === 1 ? "A" : "B";
+      if ((isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B")) {
+        recentWins++;
+      }
+    }
+    
+    const losses = playerMatches.length - wins;
+    const winRate = playerMatches.length > 0 ? Math.round((wins / playerMatches.length) * 100) : 0;
+    const pointDifference = pointsFor - pointsAgainst;
+    const recentWinRate = recentMatches.length > 0 ? Math.round((recentWins / recentMatches.length) * 100) : 0;
+    
+    // Calculate skill level change indicator
+    let skillLevelChange: "increased" | "decreased" | "unchanged" | undefined;
+    if (player.previousSkillLevel !== null && player.previousSkillLevel !== undefined) {
+      if (player.skillLevel > player.previousSkillLevel) {
+        skillLevelChange = "increased";
+      } else if (player.skillLevel < player.previousSkillLevel) {
+        skillLevelChange = "decreased";
+      } else {
+        skillLevelChange = "unchanged";
+      }
+    }
+    
+    // Determine recent performance trend
+    let recentPerformance: "improving" | "declining" | "stable" | undefined;
+    if (recentMatches.length >= 3) {
+      if (recentWinRate >= 67) { // 2/3 wins
+        recentPerformance = "improving";
+      } else if (recentWinRate <= 33) { // 1/3 wins or less
+        recentPerformance = "declining";
+      } else {
+        recentPerformance = "stable";
+      }
+    }
+    
+    const rating = ratingOrInitial(player, ratings.find(r => r.playerId === player.id));
+    
+    // Same evaluation as the replay and the suggestion list; skill levels only follow the doubles rating
+    const evaluation = evaluateRating(player.skillLevel, doublesRatingOf(player, doublesRatings), skillPolicy);
+    const suggestedSkillLevel = evaluation?.suggestedLevel;
+    const suggestion: PlayerStats["suggestion"] = !evaluation ? undefined
+      : evaluation.suggestedLevel > player.skillLevel ? "increase"
+      : evaluation.suggestedLevel < player.skillLevel ? "decrease"
+      : "maintain";
+    const suggestionReason = evaluation ? describeEvaluation(evaluation, player.skillLevel) : undefined;
+    
+    stats.push({
+      playerId: player.id,
+      name: player.name,
+      skillLevel: player.skillLevel,
+      previousSkillLevel: player.previousSkillLevel || undefined,
+      skillLevelChange,
+      role: player.role as "manager" | "player",
+      totalMatches: playerMatches.length,
+      wins,
+      losses,
+      winRate,
+      pointsFor,
+      pointsAgainst,
+      gamesWon,
+      gamesLost,
+      pointsPerGame: gamesWon + gamesLost > 0 ? Math.round((pointsFor / (gamesWon + gamesLost)) * 10) / 10 : 0,
+      pointDifference,
+      suggestedSkillLevel,
+      suggestion,
+      suggestionReason,
+      recentPerformance,
+      rating: Math.round(rating.rating),
+      ratingDeviation: Math.round(rating.ratingDeviation),
+      ratingLevel: ratingToSkillLevel(rating.rating),
+    });
+  }
+  
+  return stats;
+}
+
+export function computeSkillSuggestions(allPlayers: Player[], doublesRatings: PlayerRating[], skillPolicy: SkillPolicy): SkillLevelSuggestion[] {
+  const suggestions: SkillLevelSuggestion[] = [];
+  
+  for (const player of allPlayers) {
+    // Only provide suggestions for players with enough rated doubles matches
+    const evaluation = evaluateRating(player.skillLevel, doublesRatingOf(player, doublesRatings), skillPolicy);
+    if (!evaluation || evaluation.suggestedLevel === player.skillLevel) continue;
+    
+    const { suggestedLevel, shouldAutoUpdate, matchesPlayed } = evaluation;
+    const reason = describeEvaluation(evaluation, player.skillLevel);
+    
+    suggestions.push({
+      playerId: player.id,
+      name: player.name,
+      currentLevel: player.skillLevel,
+      suggestedLevel,
+      reason,
+      matchesPlayed,
+      ...(shouldAutoUpdate ? {} : { matchesNeeded: skillPolicy.autoUpdateMatches - matchesPlayed })
+    });
+  }
+  
+  return suggestions;
+}
+
+export function computePlayerProfile(
+  player: Player,
+  stats: PlayerStats,
+  allMatches: MatchDetails[],
+  doublesRatings: PlayerRating[],
+  ratingDeltas: Map<number, number>,
+  settings: ClubSettings,
+): PlayerProfile {
+  const playerMatches = allMatches
+    .filter(match => participantIds(match).includes(player.id))
+    .sort((a, b) => compareMatchOrder(b, a));
+
+  const history = playerMatches.map(match => {
+    const onTeamA = match.teamA.includes(player.id);
+    return {
+      match,
+      won: match.winnerId === (onTeamA ? 1 : 2),
+      pointsFor: onTeamA ? match.teamAScore : match.teamBScore,
+      pointsAgainst: onTeamA ? match.teamBScore : match.teamAScore,
+      ratingDelta: ratingDeltas.has(match.id) ? Math.round(ratingDeltas.get(match.id)!) : null,
+    };
+  });
+
+  // Same evaluation the replay uses, so the status matches what the next doubles result will do
+  const doubles = doublesRatingOf(player, doublesRatings);
+  const { skillAdjustmentMode, skillPolicy } = settings;
+  const evaluation = evaluateRating(player.skillLevel, doubles, skillPolicy);
+
+  return {
+    stats,
+    history,
+    ...computeStreaks(history.map(result => result.won).reverse()),
+    autoAdjust: {
+      doublesMatches: doubles.matchesPlayed,
+      matchesNeeded: Math.max(0, skillPolicy.autoUpdateMatches - doubles.matchesPlayed),
+      mode: !evaluation ? "collecting" : evaluation.shouldAutoUpdate ? "automatic" : "suggesting",
+      suggestedLevel: evaluation?.suggestedLevel ?? null,
+      review: skillAdjustmentMode === "review",
+    },
+  };
+}
+
+// The rating change each match brought the players whose snapshots are given, averaged over those of them
+// who played it. A snapshot holds the rating after the match, so the change is measured from the player's
+// previous snapshot in the same discipline, or from their starting rating.
+export function computeRatingDeltas(
+  rows: { snapshot: MatchSkillSnapshot; format: MatchFormat; playedAt: Date }[],
+  allPlayers: Player[],
+): Map<number, number> {
+  const ordered = [...rows].sort((a, b) => compareMatchOrder({ playedAt: a.playedAt, id: a.snapshot.matchId }, { playedAt: b.playedAt, id: b.snapshot.matchId }));
+
+  const previous = new Map<string, number>();
+  const totals = new Map<number, { sum: number; count: number }>();
+  for (const { snapshot, format } of ordered) {
+    const key = `${snapshot.playerId}:${disciplineOf(format)}`;
+    const player = allPlayers.find(p => p.id === snapshot.playerId);
+    const before = previous.get(key) ?? (player ? ratingOrInitial(player).rating : snapshot.rating);
+    previous.set(key, snapshot.rating);
+
+    const total = totals.get(snapshot.matchId) ?? { sum: 0, count: 0 };
+    total.sum += snapshot.rating - before;
+    total.count++;
+    totals.set(snapshot.matchId, total);
+  }
+
+  const deltas = new Map<number, number>();
+  totals.forEach((total, matchId) => deltas.set(matchId, total.sum / total.count));
+  return deltas;
+}
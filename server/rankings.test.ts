@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { MatchDetails, Player } from "@shared/schema";
+import { computeConnections, computeHeadToHead, computeStandings, computeStreaks } from "./rankings";
+
+const players = ["Asha", "Bala", "Chitra", "Dev", "Esha"].map((name, index) => ({ id: index + 1, name }) as Player);
+
+let nextId = 1;
+const match = (teamA: number[], teamB: number[], teamAScore: number, teamBScore: number, playedAt: string): MatchDetails => ({
+  id: nextId++,
+  format: teamA.length === 1 ? "singles" : "doubles",
+  teamA,
+  teamB,
+  teamAScore,
+  teamBScore,
+  winnerId: teamAScore > teamBScore ? 1 : 2,
+  playedAt: new Date(playedAt),
+  sessionId: null,
+  games: [],
+});
+
+const matches = [
+  match([1, 2], [3, 4], 21, 15, "2024-03-01"),
+  match([3, 4], [1, 2], 21, 19, "2024-03-02"),
+  match([2, 1], [4, 3], 21, 10, "2024-03-03"),
+  match([1, 3], [2, 4], 21, 18, "2024-03-04"),
+  match([1], [3], 12, 21, "2024-03-05"),
+];
+
+describe("computeStandings", () => {
+  it("ranks by win rate, then wins, then point difference, skipping unknown players", () => {
+    const standings = computeStandings([...matches, match([1, 99], [5, 4], 21, 5, "2024-03-06")], players);
+    expect(standings.map(({ name, wins, losses, winRate, pointDifference }) => ({ name, wins, losses, winRate, pointDifference }))).toEqual([
+      { name: "Asha", wins: 4, losses: 2, winRate: 67, pointDifference: 25 },
+      { name: "Chitra", wins: 3, losses: 2, winRate: 60, pointDifference: -3 },
+      { name: "Bala", wins: 2, losses: 2, winRate: 50, pointDifference: 12 },
+      { name: "Dev", wins: 1, losses: 4, winRate: 20, pointDifference: -34 },
+      { name: "Esha", wins: 0, losses: 1, winRate: 0, pointDifference: -16 },
+    ]);
+  });
+});
+
+describe("computeConnections", () => {
+  const deltas = new Map([[matches[0].id, 12.4], [matches[1].id, -10.2], [matches[2].id, 8.1], [matches[3].id, 5]]);
+
+  it("sums each partner's record and the player's rating change with them, best record first", () => {
+    expect(computeConnections(1, "partners", matches, players, deltas)).toEqual([
+      { playerId: 3, name: "Chitra", matches: 1, wins: 1, losses: 0, winRate: 100, pointDifference: 3, ratingDelta: 5 },
+      { playerId: 2, name: "Bala", matches: 3, wins: 2, losses: 1, winRate: 67, pointDifference: 15, ratingDelta: 10 },
+    ]);
+  });
+
+  it("counts every player on the other side as an opponent, singles included", () => {
+    const opponents = computeConnections(1, "opponents", matches, players, deltas);
+    expect(opponents.map(({ name, matches, wins }) => ({ name, matches, wins }))).toEqual([
+      { name: "Bala", matches: 1, wins: 1 },
+      { name: "Dev", matches: 4, wins: 3 },
+      { name: "Chitra", matches: 4, wins: 2 },
+    ]);
+    expect(computeConnections(5, "opponents", matches, players, deltas)).toEqual([]);
+  });
+});
+
+describe("computeHeadToHead", () => {
+  it("finds a pairing's meetings whichever side and order they were entered in, newest first", () => {
+    const result = computeHeadToHead([2, 1], [3, 4], matches, new Map([[matches[1].id, -6], [matches[2].id, 4.6]]));
+    expect(result).toMatchObject({ matches: 3, teamAWins: 2, teamBWins: 1, pointDifference: 15, ratingDelta: -1 });
+    expect(result.history.map(entry => entry.id)).toEqual([matches[2].id, matches[1].id, matches[0].id]);
+  });
+
+  it("ignores matches where a team was split up, and counts doubles meetings between two single players", () => {
+    expect(computeHeadToHead([1, 4], [2, 3], matches, new Map())).toMatchObject({ matches: 0, history: [] });
+    expect(computeHeadToHead([3], [1], matches, new Map())).toMatchObject({ matches: 4, teamAWins: 2, teamBWins: 2, pointDifference: -6 });
+  });
+});
+
+describe("computeStreaks", () => {
+  it("reports the run the results end on and the longest runs of each", () => {
+    expect(computeStreaks([true, true, false, true, true, true, false, false])).toEqual({
+      currentStreak: { result: "loss", length: 2 },
+      longestWinStreak: 3,
+      longestLossStreak: 2,
+    });
+    expect(computeStreaks([])).toEqual({ currentStreak: null, longestWinStreak: 0, longestLossStreak: 0 });
+  });
+});
@@ -0,0 +1,181 @@
+import type { HeadToHead, MatchDetails, Player, PlayerConnection, Standing, Streak, TeamStanding, TournamentMatchDetails, TournamentTeam } from "@shared/schema";
+
+interface Rankable {
+  winRate: number;
+  wins: number;
+  pointDifference: number;
+}
+
+// Leaderboard order used across the club
+export function compareStandings(a: Rankable, b: Rankable): number {
+  // 1. Sort by win rate (higher first)
+  if (a.winRate !== b.winRate) {
+    return b.winRate - a.winRate;
+  }
+  // 2. If win rate is same, sort by number of wins (higher first)
+  if (a.wins !== b.wins) {
+    return b.wins - a.wins;
+  }
+  // 3. If wins are same, sort by point difference (higher first)
+  return b.pointDifference - a.pointDifference;
+}
+
+// Ranked per-player standings over a set of matches, e.g. a single club night
+export function computeStandings(matches: Pick<MatchDetails, "teamA" | "teamB" | "teamAScore" | "teamBScore" | "winnerId">[], players: Player[]): Standing[] {
+  const standings = new Map<number, Standing>();
+
+  const record = (playerId: number, won: boolean, pointsFor: number, pointsAgainst: number) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return;
+
+    let standing = standings.get(playerId);
+    if (!standing) {
+      standing = { playerId, name: player.name, matches: 0, wins: 0, losses: 0, winRate: 0, pointDifference: 0 };
+      standings.set(playerId, standing);
+    }
+    standing.matches++;
+    if (won) standing.wins++;
+    else standing.losses++;
+    standing.pointDifference += pointsFor - pointsAgainst;
+  };
+
+  for (const match of matches) {
+    for (const playerId of match.teamA) {
+      record(playerId, match.winnerId === 1, match.teamAScore, match.teamBScore);
+    }
+    for (const playerId of match.teamB) {
+      record(playerId, match.winnerId === 2, match.teamBScore, match.teamAScore);
+    }
+  }
+
+  return Array.from(standings.values())
+    .map(standing => ({ ...standing, winRate: Math.round((standing.wins / standing.matches) * 100) }))
+    .sort(compareStandings);
+}
+
+// Tournament table for a set of teams, in the leaderboard order. Teams still level after that are
+// split by their seed.
+export function computeTeamStandings(teams: TournamentTeam[], matches: Pick<TournamentMatchDetails, "teamAId" | "teamBId" | "winnerTeamId" | "teamAScore" | "teamBScore">[]): TeamStanding[] {
+  const standings = new Map<number, TeamStanding>(teams.map(team => [team.id, {
+    teamId: team.id,
+    seed: team.seed,
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    winRate: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifference: 0,
+  }]));
+
+  const record = (teamId: number | null, won: boolean, pointsFor: number, pointsAgainst: number) => {
+    const standing = teamId !== null ? standings.get(teamId) : undefined;
+    if (!standing) return;
+    standing.matches++;
+    if (won) standing.wins++;
+    else standing.losses++;
+    standing.pointsFor += pointsFor;
+    standing.pointsAgainst += pointsAgainst;
+    standing.pointDifference += pointsFor - pointsAgainst;
+  };
+
+  for (const match of matches) {
+    if (match.winnerTeamId === null) continue;
+    const teamAScore = match.teamAScore ?? 0;
+    const teamBScore = match.teamBScore ?? 0;
+    record(match.teamAId, match.winnerTeamId === match.teamAId, teamAScore, teamBScore);
+    record(match.teamBId, match.winnerTeamId === match.teamBId, teamBScore, teamAScore);
+  }
+
+  return Array.from(standings.values())
+    .map(standing => ({ ...standing, winRate: standing.matches > 0 ? Math.round((standing.wins / standing.matches) * 100) : 0 }))
+    .sort((a, b) => compareStandings(a, b) || (a.seed ?? 0) - (b.seed ?? 0));
+}
+
+// How a player fares with each partner or against each opponent, best record first.
+// ratingDeltas holds the player's rating change per match id.
+export function computeConnections(
+  playerId: number,
+  relation: "partners" | "opponents",
+  matches: Pick<MatchDetails, "id" | "teamA" | "teamB" | "teamAScore" | "teamBScore" | "winnerId">[],
+  players: Player[],
+  ratingDeltas: Map<number, number>,
+): PlayerConnection[] {
+  const connections = new Map<number, PlayerConnection>();
+
+  for (const match of matches) {
+    const onTeamA = match.teamA.includes(playerId);
+    if (!onTeamA && !match.teamB.includes(playerId)) continue;
+
+    const ownTeam = onTeamA ? match.teamA : match.teamB;
+    const otherTeam = onTeamA ? match.teamB : match.teamA;
+    const others = relation === "partners" ? ownTeam.filter(id => id !== playerId) : otherTeam;
+    const won = match.winnerId === (onTeamA ? 1 : 2);
+    const pointDifference = onTeamA ? match.teamAScore - match.teamBScore : match.teamBScore - match.teamAScore;
+
+    for (const otherId of others) {
+      const other = players.find(p => p.id === otherId);
+      if (!other) continue;
+
+      let connection = connections.get(otherId);
+      if (!connection) {
+        connection = { playerId: otherId, name: other.name, matches: 0, wins: 0, losses: 0, winRate: 0, pointDifference: 0, ratingDelta: 0 };
+        connections.set(otherId, connection);
+      }
+      connection.matches++;
+      if (won) connection.wins++;
+      else connection.losses++;
+      connection.pointDifference += pointDifference;
+      connection.ratingDelta += ratingDeltas.get(match.id) ?? 0;
+    }
+  }
+
+  return Array.from(connections.values())
+    .map(connection => ({
+      ...connection,
+      winRate: Math.round((connection.wins / connection.matches) * 100),
+      ratingDelta: Math.round(connection.ratingDelta),
+    }))
+    .sort((a, b) => compareStandings(a, b) || b.matches - a.matches);
+}
+
+// Every meeting where all of team A played on one side and all of team B on the other.
+// ratingDeltas holds team A's average rating change per match id.
+export function computeHeadToHead(teamA: number[], teamB: number[], matches: MatchDetails[], ratingDeltas: Map<number, number>): HeadToHead {
+  const result: HeadToHead = { teamA, teamB, matches: 0, teamAWins: 0, teamBWins: 0, pointDifference: 0, ratingDelta: 0, history: [] };
+
+  for (const match of matches) {
+    const side = teamA.every(id => match.teamA.includes(id)) && teamB.every(id => match.teamB.includes(id)) ? 1
+      : teamA.every(id => match.teamB.includes(id)) && teamB.every(id => match.teamA.includes(id)) ? 2
+      : null;
+    if (side === null) continue;
+
+    result.matches++;
+    if (match.winnerId === side) result.teamAWins++;
+    else result.teamBWins++;
+    result.pointDifference += side === 1 ? match.teamAScore - match.teamBScore : match.teamBScore - match.teamAScore;
+    result.ratingDelta += ratingDeltas.get(match.id) ?? 0;
+    result.history.push(match);
+  }
+
+  result.ratingDelta = Math.round(result.ratingDelta);
+  result.history.sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime() || b.id - a.id);
+  return result;
+}
+
+// Current and longest streaks over a player's results, oldest first
+export function computeStreaks(results: boolean[]): { currentStreak: Streak | null; longestWinStreak: number; longestLossStreak: number } {
+  let currentStreak: Streak | null = null;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+
+  for (const won of results) {
+    const result: Streak["result"] = won ? "win" : "loss";
+    const length: number = currentStreak !== null && currentStreak.result === result ? currentStreak.length + 1 : 1;
+    currentStreak = { result, length };
+    if (won) longestWinStreak = Math.max(longestWinStreak, length);
+    else longestLossStreak = Math.max(longestLossStreak, length);
+  }
+
+  return { currentStreak, longestWinStreak, longestLossStreak };
+}
@@ -0,0 +1,58 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  // Every key returned is counted separately; the request is rejected if any key is over its limit
+  keys: (req: Request) => Array<string | undefined>;
+  message: string;
+}
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window, in-memory counters. Good enough for a single server process.
+const buckets = new Map<string, Bucket>();
+
+function pruneExpiredBuckets(now: number) {
+  buckets.forEach((bucket, key) => {
+    if (bucket.resetAt <= now) {
+      buckets.delete(key);
+    }
+  });
+}
+
+setInterval(() => pruneExpiredBuckets(Date.now()), 60 * 1000).unref();
+
+export function rateLimit({ name, windowMs, max, keys, message }: RateLimitOptions) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const bucketKeys = keys(req)
+      .filter((key): key is string => !!key)
+      .map(key => `${name}:${key}`);
+
+    let retryAfterMs = 0;
+    for (const bucketKey of bucketKeys) {
+      let bucket = buckets.get(bucketKey);
+      if (!bucket || bucket.resetAt <= now) {
+        bucket = { count: 0, resetAt: now + windowMs };
+        buckets.set(bucketKey, bucket);
+      }
+      bucket.count++;
+      if (bucket.count > max) {
+        retryAfterMs = Math.max(retryAfterMs, bucket.resetAt - now);
+      }
+    }
+
+    if (retryAfterMs > 0) {
+      const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+      res.set("Retry-After", retryAfterSeconds.toString());
+      return res.status(429).json({ error: message, retryAfterSeconds });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,175 @@
+// Glicko-2 ratings adapted for doubles.
+//
+// Each match is treated as its own rating period. A player is rated on their team's result:
+// the expected score compares the mean rating of their team with a composite of the opposing
+// team (mean rating, root-mean-square deviation), while the size of the update depends on
+// the player's own rating deviation and volatility.
+
+export interface Rating {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+}
+
+const GLICKO_SCALE = 173.7178;
+const BASE_RATING = 1500;
+const TAU = 0.5; // constrains how quickly volatility can change
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export const DEFAULT_VOLATILITY = 0.06;
+export const MAX_RATING_DEVIATION = 350;
+// A manager-assigned skill level is a better prior than "unknown", so new players start below the maximum deviation
+export const INITIAL_RATING_DEVIATION = 200;
+
+// Skill level bands: level 5 is centred on 1500 and every level spans 100 rating points
+export const RATING_PER_LEVEL = 100;
+
+export function skillLevelToRating(skillLevel: number): number {
+  return BASE_RATING + (skillLevel - 5) * RATING_PER_LEVEL;
+}
+
+export function ratingToSkillLevel(rating: number): number {
+  const level = Math.round(5 + (rating - BASE_RATING) / RATING_PER_LEVEL);
+  return Math.max(1, Math.min(10, level));
+}
+
+// The ratings a skill level's band covers, from `min` up to but not including `max`; levels 1 and 10 are open-ended
+export function skillLevelBand(skillLevel: number): { min: number; max: number } {
+  const centre = skillLevelToRating(skillLevel);
+  return {
+    min: skillLevel <= 1 ? -Infinity : centre - RATING_PER_LEVEL / 2,
+    max: skillLevel >= 10 ? Infinity : centre + RATING_PER_LEVEL / 2,
+  };
+}
+
+// The skill level a rating calls for. The level only leaves its band once the rating is more than
+// `margin` points past the band's edge, so a rating hovering on an edge doesn't flip it after every match.
+export function bandedSkillLevel(rating: number, currentLevel: number, margin: number): number {
+  const { min, max } = skillLevelBand(currentLevel);
+  return rating < min - margin || rating >= max + margin ? ratingToSkillLevel(rating) : currentLevel;
+}
+
+// A rating moved into the band of a level a manager set by hand, unless it is already there.
+// It goes to the centre of the band with at least the starting deviation, so results can correct it quickly.
+export function ratingForSkillLevel(current: Rating, skillLevel: number): Rating {
+  if (ratingToSkillLevel(current.rating) === skillLevel) return current;
+  return {
+    rating: skillLevelToRating(skillLevel),
+    ratingDeviation: Math.max(current.ratingDeviation, INITIAL_RATING_DEVIATION),
+    volatility: current.volatility,
+  };
+}
+
+export function initialRating(skillLevel: number): Rating {
+  return {
+    rating: skillLevelToRating(skillLevel),
+    ratingDeviation: INITIAL_RATING_DEVIATION,
+    volatility: DEFAULT_VOLATILITY,
+  };
+}
+
+// The stored rating for a player, or the prior from their original skill level if they have not played yet
+export function ratingOrInitial(player: { skillLevel: number; originalSkillLevel: number | null }, stored?: Rating): Rating {
+  return stored ?? initialRating(player.originalSkillLevel ?? player.skillLevel);
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectation(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+function toMu(rating: number): number {
+  return (rating - BASE_RATING) / GLICKO_SCALE;
+}
+
+function toPhi(ratingDeviation: number): number {
+  return ratingDeviation / GLICKO_SCALE;
+}
+
+// Combine a team into a single opponent: mean skill, root-mean-square uncertainty
+function composite(team: Rating[]): { mu: number; phi: number } {
+  const mu = team.reduce((sum, r) => sum + toMu(r.rating), 0) / team.length;
+  const phi = Math.sqrt(team.reduce((sum, r) => sum + toPhi(r.ratingDeviation) ** 2, 0) / team.length);
+  return { mu, phi };
+}
+
+// Volatility update (step 5 of the Glicko-2 paper), solved with the Illinois algorithm
+function updatedVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+function ratePlayer(player: Rating, teamMu: number, opponent: { mu: number; phi: number }, score: number): Rating {
+  const mu = toMu(player.rating);
+  const phi = toPhi(player.ratingDeviation);
+
+  const gPhi = g(opponent.phi);
+  const expected = expectation(teamMu, opponent.mu, opponent.phi);
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected));
+  const delta = v * gPhi * (score - expected);
+
+  const sigma = updatedVolatility(phi, player.volatility, v, delta);
+  const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gPhi * (score - expected);
+
+  return {
+    rating: newMu * GLICKO_SCALE + BASE_RATING,
+    ratingDeviation: Math.min(MAX_RATING_DEVIATION, newPhi * GLICKO_SCALE),
+    volatility: sigma,
+  };
+}
+
+// Rate one match. Returns the new ratings in the same order as the inputs.
+export function rateMatch(teamA: Rating[], teamB: Rating[], winnerId: number): { teamA: Rating[]; teamB: Rating[] } {
+  const a = composite(teamA);
+  const b = composite(teamB);
+  const scoreA = winnerId === 1 ? 1 : 0;
+
+  return {
+    teamA: teamA.map(player => ratePlayer(player, a.mu, b, scoreA)),
+    teamB: teamB.map(player => ratePlayer(player, b.mu, a, 1 - scoreA)),
+  };
+}
+
+// Probability that team A beats team B
+export function winProbability(teamA: Rating[], teamB: Rating[]): number {
+  const a = composite(teamA);
+  const b = composite(teamB);
+  const combinedPhi = Math.sqrt(a.phi * a.phi + b.phi * b.phi);
+  return expectation(a.mu, b.mu, combinedPhi);
+}
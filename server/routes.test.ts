@@ -0,0 +1,245 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import session from "express-session";
+import request from "supertest";
+import { readFileSync } from "fs";
+import { readFile, rm } from "fs/promises";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import type { Player } from "@shared/schema";
+
+// Routes that change club data or reset it: every one of them must reject non-managers
+const requiredManagerRoutes = [
+  "POST /api/auth/reset",
+  "POST /api/reset-data",
+  "POST /api/players",
+  "PUT /api/players/:id",
+  "DELETE /api/players/:id",
+  "POST /api/matches",
+  "PUT /api/matches/:id",
+  "DELETE /api/matches/:id",
+  "POST /api/reset-skills-to-5",
+  "POST /api/skill-levels/update",
+];
+
+// Every route registered with requireRole("manager"), read from the source so new ones are covered automatically
+const managerRoutes = Array.from(
+  readFileSync(new URL("./routes.ts", import.meta.url), "utf8").matchAll(/app\.(get|post|put|patch|delete)\("([^"]+)",\s*requireRole\("manager"\)/g),
+  ([, method, path]) => `${method.toUpperCase()} ${path}`,
+);
+
+// The same middleware stack as server/index.ts
+async function createApp() {
+  const app = express();
+  app.use(session({ secret: "test", resave: false, saveUninitialized: false }));
+  app.use(express.json({ limit: "20mb" }));
+  await registerRoutes(app);
+  return app;
+}
+
+// Log an agent in through the real OTP flow, reading the code back from the SMS outbox
+async function logIn(agent: ReturnType<typeof request.agent>, player: Player) {
+  await agent.post("/api/auth/send-otp").send({ playerId: player.id }).expect(200);
+  const outbox = (await readFile(process.env.SMS_OUTBOX_FILE!, "utf8")).trim().split("\n").map(line => JSON.parse(line));
+  const message = outbox.reverse().find(entry => entry.to === player.mobileNumber);
+  const code = message.body.match(/code is: (\d{6})/)[1];
+  await agent.post("/api/auth/verify-otp").send({ playerId: player.id, code }).expect(200);
+}
+
+// Fill in route parameters; the role check runs before anything looks them up
+const concretePath = (path: string) => path.replace(/:(\w+)/g, "1");
+
+function send(agent: ReturnType<typeof request.agent>, route: string) {
+  const [method, path] = route.split(" ");
+  return agent[method.toLowerCase() as "get" | "post" | "put" | "patch" | "delete"](concretePath(path)).send({});
+}
+
+describe("manager-only routes", () => {
+  let app: express.Express;
+  let manager: Player;
+  let player: Player;
+
+  beforeAll(async () => {
+    app = await createApp();
+    const setup = await storage.setupInitialManager({ managerName: "Manager", managerSkillLevel: 6, managerMobile: "+919800000001" });
+    manager = (await storage.getPlayer(setup.id))!;
+    player = await storage.createPlayer({ name: "Player", skillLevel: 5, role: "player", mobileNumber: "+919800000002" });
+  });
+
+  afterAll(async () => {
+    await rm(process.env.SMS_OUTBOX_FILE!, { force: true });
+  });
+
+  it("finds every manager-only route in routes.ts", () => {
+    expect(managerRoutes.length).toBeGreaterThan(requiredManagerRoutes.length);
+    expect(managerRoutes).toEqual(expect.arrayContaining(requiredManagerRoutes));
+  });
+
+  it("rejects a player session with 403 on every manager-only route", async () => {
+    const agent = request.agent(app);
+    await logIn(agent, player);
+
+    for (const route of managerRoutes) {
+      const response = await send(agent, route);
+      expect(response.status, route).toBe(403);
+      expect(response.body.error, route).toBe("Only managers can perform this action");
+    }
+
+    // Nothing was changed on the player's behalf
+    expect(await storage.getPlayer(player.id)).toMatchObject({ isActive: true, skillLevel: 5 });
+    expect(await storage.isInitialized()).toBe(true);
+  });
+
+  it("rejects requests without a session with 401", async () => {
+    for (const route of managerRoutes) {
+      const response = await send(request.agent(app), route);
+      expect(response.status, route).toBe(401);
+    }
+  });
+
+  it("authorizes each request from its own session", async () => {
+    const managerAgent = request.agent(app);
+    await logIn(managerAgent, manager);
+    await managerAgent.get("/api/settings/skill-policy").expect(200);
+
+    // A manager logged in elsewhere doesn't authorize this browser
+    const otherAgent = request.agent(app);
+    await otherAgent.get("/api/settings/skill-policy").expect(401);
+    const status = await otherAgent.get("/api/auth/status").expect(200);
+    expect(status.body.user).toBeNull();
+  });
+
+  it("drops the session of a deactivated manager", async () => {
+    const deputy = await storage.createPlayer({ name: "Deputy", skillLevel: 5, role: "manager", mobileNumber: "+919800000003" });
+    const agent = request.agent(app);
+    await logIn(agent, deputy);
+    await agent.get("/api/settings/skill-policy").expect(200);
+
+    await storage.deletePlayer(deputy.id);
+    await agent.get("/api/settings/skill-policy").expect(401);
+  });
+});
+
+describe("live matches", () => {
+  let agent: ReturnType<typeof request.agent>;
+  let lineUp: Player[];
+
+  beforeAll(async () => {
+    const app = await createApp();
+    const umpire = await storage.createPlayer({ name: "Umpire", skillLevel: 5, role: "manager", mobileNumber: "+919800000010" });
+    agent = request.agent(app);
+    await logIn(agent, umpire);
+    lineUp = [];
+    for (let i = 1; i <= 4; i++) {
+      lineUp.push(await storage.createPlayer({ name: `Live ${i}`, skillLevel: 5, role: "player", mobileNumber: `+91980000002${i}` }));
+    }
+  });
+
+  const start = (extra: object = {}) => agent.post("/api/live-matches").send({
+    teamAPlayer1Id: lineUp[0].id,
+    teamAPlayer2Id: lineUp[1].id,
+    teamBPlayer1Id: lineUp[2].id,
+    teamBPlayer2Id: lineUp[3].id,
+    bestOf: 1,
+    ...extra,
+  });
+
+  it("rejects a line-up that isn't doubles", async () => {
+    await start({ format: "singles" }).expect(400);
+    await agent.post("/api/live-matches").send({ teamAPlayer1Id: lineUp[0].id, teamBPlayer1Id: lineUp[2].id }).expect(400);
+    await start({ teamBPlayer2Id: lineUp[0].id }).expect(400);
+  });
+
+  it("saves a finished match as doubles and stops holding it", async () => {
+    const { body: started } = await start().expect(201);
+    let state = started;
+    while (state.status === "in_progress") {
+      state = (await agent.post(`/api/live-matches/${started.id}/rally`).send({ winner: 1 }).expect(200)).body;
+    }
+
+    expect(state.matchId).not.toBeNull();
+    expect(await storage.getMatch(state.matchId)).toMatchObject({ format: "doubles", games: [{ teamAScore: 21, teamBScore: 0 }] });
+    await agent.get(`/api/live-matches/${started.id}`).expect(404);
+    expect((await agent.get("/api/live-matches").expect(200)).body).toEqual([]);
+  });
+
+  it("stops holding a cancelled match", async () => {
+    const { body: started } = await start().expect(201);
+    await agent.delete(`/api/live-matches/${started.id}`).expect(200);
+    await agent.get(`/api/live-matches/${started.id}`).expect(404);
+  });
+});
+
+describe("match updates", () => {
+  it("answers 404 for a match that doesn't exist", async () => {
+    const app = await createApp();
+    const manager = await storage.createPlayer({ name: "Recorder", skillLevel: 5, role: "manager", mobileNumber: "+919800000030" });
+    const agent = request.agent(app);
+    await logIn(agent, manager);
+
+    const response = await agent.put("/api/matches/999999").send({ games: [{ teamAScore: 21, teamBScore: 15 }] }).expect(404);
+    expect(response.body.error).toBe("Match not found");
+  });
+});
+
+describe("statistics filters", () => {
+  let app: express.Express;
+  let players: Player[];
+  let sessionId: number;
+
+  beforeAll(async () => {
+    await storage.resetAllData();
+    app = await createApp();
+    players = [];
+    for (let i = 1; i <= 4; i++) {
+      players.push(await storage.createPlayer({ name: `Stats ${i}`, skillLevel: 5, role: "player", mobileNumber: `+91980000004${i}` }));
+    }
+    const [p1, p2, p3, p4] = players.map(player => player.id);
+    ({ id: sessionId } = await storage.createSession({ date: new Date("2024-05-10T18:00:00Z"), venue: "Main hall", courtCount: 2 }));
+    await storage.importMatches([
+      { format: "doubles", sessionId, teamA: [p1, p2], teamB: [p3, p4], games: [{ teamAScore: 21, teamBScore: 10 }], playedAt: new Date("2024-05-10T19:00:00Z") },
+      { format: "doubles", sessionId: null, teamA: [p1, p3], teamB: [p2, p4], games: [{ teamAScore: 18, teamBScore: 21 }], playedAt: new Date("2024-05-20T00:00:00Z") },
+      { format: "singles", sessionId: null, teamA: [p1], teamB: [p2], games: [{ teamAScore: 21, teamBScore: 19 }], playedAt: new Date("2024-06-02T09:00:00Z") },
+    ]);
+  });
+
+  const stats = async (query: string) => (await request(app).get(`/api/stats${query}`).expect(200)).body;
+  const names = (rows: { name: string }[]) => rows.map(row => row.name);
+
+  it("counts everything without a filter", async () => {
+    const body = await stats("");
+    expect(body).toMatchObject({ totalMatches: 3, activePlayers: 4 });
+    expect(body.playerStats.find((row: { name: string }) => row.name === "Stats 1")).toMatchObject({ totalMatches: 3, wins: 2 });
+  });
+
+  it("keeps only the matches of one format", async () => {
+    // A format isn't a time window, so everyone in the club still counts as active
+    const body = await stats("?format=singles");
+    expect(body).toMatchObject({ totalMatches: 1, activePlayers: 4, teamStats: [] });
+    expect(names(body.playerStats)).toEqual(["Stats 1", "Stats 2"]);
+  });
+
+  it("includes the start of a date window and excludes its end", async () => {
+    expect(await stats("?from=2024-05-20T00:00:00Z&to=2024-06-01T00:00:00Z")).toMatchObject({ totalMatches: 1, activePlayers: 4 });
+    expect(await stats("?from=2024-05-11T00:00:00Z&to=2024-05-20T00:00:00Z")).toMatchObject({ totalMatches: 0, activePlayers: 0, playerStats: [] });
+  });
+
+  it("keeps only the matches of one club night", async () => {
+    const body = await stats(`?sessionId=${sessionId}`);
+    expect(body).toMatchObject({ totalMatches: 1, activePlayers: 4 });
+    expect(names(body.playerStats).slice(0, 2).sort()).toEqual(["Stats 1", "Stats 2"]);
+    expect(body.teamStats).toHaveLength(2);
+  });
+
+  it("ranks only those with enough matches and counts the rest", async () => {
+    const body = await stats("?format=doubles&minMatches=2");
+    expect(body.playerStats).toHaveLength(4);
+    expect(body).toMatchObject({ teamStats: [], unrankedPlayers: 0, unrankedTeams: 4, minMatches: 2 });
+  });
+
+  it("rejects filters it can't read", async () => {
+    await request(app).get("/api/stats?format=tennis").expect(400);
+    await request(app).get("/api/stats?from=yesterday").expect(400);
+    await request(app).get("/api/stats?minMatches=0").expect(400);
+  });
+});
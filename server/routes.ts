@@ -1,22 +1,65 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPlayerSchema, insertMatchSchema, otpRequestSchema, otpVerifySchema, type Player, type DoublesTeam, type SetupRequest, type AuthUser } from "@shared/schema";
+import { requireAuth, requireRole, getSessionUser, toAuthUser } from "./auth";
+import { rateLimit } from "./rate-limit";
+import { ratingOrInitial } from "./rating";
+import { compareStandings } from "./rankings";
+import { generateSchedule, type PlayedGame } from "./scheduler";
+import { generateMatchups } from "./matchmaking";
+import { liveScoring } from "./live-scoring";
+import { matchesCsv, playersCsv } from "./club-archive";
+import { planMatchImport } from "./match-import";
+import { compareMatchOrder } from "./skill-replay";
+import { insertPlayerSchema, insertMatchSchema, insertSessionSchema, insertTournamentSchema, tournamentTeamSchema, insertLadderSchema, ladderEntrySchema, issueChallengeSchema, updateClubSettingsSchema, skillPolicySchema, clubArchiveSchema, matchImportRequestSchema, skillProposalStatuses, statsFilterSchema, inStatsWindow, headToHeadQuerySchema, checkInSchema, scheduleRequestSchema, startLiveMatchSchema, rallySchema, summarizeGames, gameScoresOf, disciplineOf, lineupError, matchFormats, teamSizeOf, teamPlayerIds, otpRequestSchema, otpVerifySchema, type Player, type DoublesTeam, type MatchupsResponse, type SetupRequest, type AuthUser, type CourtSchedule, type LiveMatchState, type MatchImportResult } from "@shared/schema";
 import { z } from "zod";
 
-// Extend Express Request to include session
-declare module 'express-session' {
-  interface SessionData {
-    userId?: number;
-  }
-}
-
 const setupRequestSchema = z.object({
   managerName: z.string().min(1),
   managerSkillLevel: z.number().min(1).max(10),
   managerMobile: z.string().min(10).max(15).regex(/^\+?[1-9]\d{1,14}$/, "Invalid mobile number format"),
 });
 
+// Matchup suggestions look back over this many matches for repeat partnerships,
+// each of which costs as much as one skill level (100 rating points) of imbalance between the teams
+const RECENT_PARTNER_MATCHES = 20;
+const REPEAT_PARTNER_PENALTY = 1;
+
+// Per-IP and per-player limits on the OTP endpoints
+const playerKey = (req: Request) => typeof req.body?.playerId === "number" ? `player:${req.body.playerId}` : undefined;
+
+const sendOtpLimiter = rateLimit({
+  name: "send-otp",
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keys: (req) => [playerKey(req)],
+  message: "Too many codes requested for this player. Please try again later.",
+});
+
+const sendOtpIpLimiter = rateLimit({
+  name: "send-otp",
+  windowMs: 60 * 60 * 1000,
+  max: 20,
+  keys: (req) => [`ip:${req.ip}`],
+  message: "Too many codes requested. Please try again later.",
+});
+
+const verifyOtpLimiter = rateLimit({
+  name: "verify-otp",
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  keys: (req) => [playerKey(req)],
+  message: "Too many verification attempts. Please try again later.",
+});
+
+const verifyOtpIpLimiter = rateLimit({
+  name: "verify-otp",
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  keys: (req) => [`ip:${req.ip}`],
+  message: "Too many verification attempts. Please try again later.",
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
   app.get("/api/auth/status", async (req, res) => {
@@ -24,18 +67,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isInitialized = await storage.isInitialized();
       
       // Check if user is logged in via session
-      let currentUser = null;
-      if (req.session.userId) {
-        const user = await storage.getPlayer(req.session.userId);
-        if (user) {
-          currentUser = {
-            id: user.id,
-            name: user.name,
-            role: user.role as "manager" | "player",
-            skillLevel: user.skillLevel,
-          };
-        }
-      }
+      const currentUser = await getSessionUser(req);
       
       res.json({
         initialized: isInitialized,
@@ -67,16 +99,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send OTP for login
-  app.post("/api/auth/send-otp", async (req, res) => {
+  app.post("/api/auth/send-otp", sendOtpIpLimiter, sendOtpLimiter, async (req, res) => {
     try {
       const { playerId } = otpRequestSchema.parse(req.body);
-      const sent = await storage.sendOTP(playerId);
+      const result = await storage.sendOTP(playerId);
+      
+      if (result.status === "cooldown") {
+        res.set("Retry-After", result.retryAfterSeconds.toString());
+        return res.status(429).json({
+          error: "Please wait before requesting another code",
+          retryAfterSeconds: result.retryAfterSeconds,
+        });
+      }
       
-      if (!sent) {
+      if (result.status !== "sent") {
         return res.status(500).json({ error: "Failed to send OTP" });
       }
       
-      res.json({ message: "OTP sent successfully" });
+      res.json({
+        message: "OTP sent successfully",
+        expiresInSeconds: result.expiresInSeconds,
+        resendInSeconds: result.resendInSeconds,
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid request data", details: error.errors });
@@ -87,29 +131,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Verify OTP and login
-  app.post("/api/auth/verify-otp", async (req, res) => {
+  app.post("/api/auth/verify-otp", verifyOtpIpLimiter, verifyOtpLimiter, async (req, res) => {
     try {
       const { playerId, code } = otpVerifySchema.parse(req.body);
-      const isValid = await storage.verifyOTP(playerId, code);
+      const result = await storage.verifyOTP(playerId, code);
       
-      if (!isValid) {
-        return res.status(400).json({ error: "Invalid or expired OTP" });
+      if (result.status === "invalid") {
+        return res.status(400).json({ error: "Invalid OTP", attemptsRemaining: result.attemptsRemaining });
       }
       
-      // Login the user after successful OTP verification
-      req.session.userId = playerId;
+      if (result.status === "expired") {
+        return res.status(400).json({ error: "Code expired or too many attempts. Please request a new code.", expired: true });
+      }
       
       const user = await storage.getPlayer(playerId);
-      if (!user) {
+      if (!user || !user.isActive) {
         return res.status(404).json({ error: "User not found" });
       }
       
-      const currentUser: AuthUser = {
-        id: user.id,
-        name: user.name,
-        role: user.role as "manager" | "player",
-        skillLevel: user.skillLevel,
-      };
+      // Login the user after successful OTP verification
+      req.session.userId = playerId;
+      
+      const currentUser: AuthUser = toAuthUser(user);
       
       res.json(currentUser);
     } catch (error) {
@@ -145,14 +188,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Data reset endpoint - Manager only
-  app.post("/api/auth/reset", async (req, res) => {
+  app.post("/api/auth/reset", requireRole("manager"), async (req, res) => {
     try {
-      const currentUser = await storage.getCurrentUser();
-      
-      if (!currentUser || currentUser.role !== "manager") {
-        return res.status(403).json({ error: "Only managers can reset data" });
-      }
-      
       await storage.resetAllData();
       res.json({ message: "All data has been reset successfully" });
     } catch (error) {
@@ -170,7 +207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/players", async (req, res) => {
+  app.post("/api/players", requireRole("manager"), async (req, res) => {
     try {
       const playerData = insertPlayerSchema.parse(req.body);
       const player = await storage.createPlayer(playerData);
@@ -184,11 +221,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/players/:id", async (req, res) => {
+  app.put("/api/players/:id", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const playerData = insertPlayerSchema.partial().parse(req.body);
-      const player = await storage.updatePlayer(id, playerData);
+      const player = await storage.updatePlayer(id, playerData, req.currentUser!.id);
       res.json(player);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -199,7 +236,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/players/:id", async (req, res) => {
+  app.delete("/api/players/:id", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const deleted = await storage.deletePlayer(id);
@@ -213,10 +250,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Timeline of a player's skill level changes, oldest first
+  app.get("/api/players/:id/skill-history", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const player = await storage.getPlayer(id);
+      if (!player) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      
+      const history = await storage.getSkillLevelHistory(id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch skill history" });
+    }
+  });
+
+  // Attendance across all sessions for every player
+  app.get("/api/attendance", async (req, res) => {
+    try {
+      const summaries = await storage.getAttendanceSummaries();
+      res.json(summaries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch attendance" });
+    }
+  });
+
+  app.get("/api/players/:id/attendance", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const player = await storage.getPlayer(id);
+      if (!player) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      
+      const attendance = await storage.getPlayerAttendance(id);
+      res.json(attendance);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch attendance" });
+    }
+  });
+
+  // Record with each partner and against each opponent, best first
+  const connectionsHandler = (relation: "partners" | "opponents") => async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const player = await storage.getPlayer(id);
+      if (!player) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      
+      const connections = await storage.getPlayerConnections(id, relation);
+      res.json(connections);
+    } catch (error) {
+      res.status(500).json({ error: `Failed to fetch ${relation}` });
+    }
+  };
+
+  // Everything the player profile page shows apart from skill history and partners
+  app.get("/api/players/:id/profile", async (req, res) => {
+    try {
+      const profile = await storage.getPlayerProfile(parseInt(req.params.id));
+      if (!profile) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch player profile" });
+    }
+  });
+
+  app.get("/api/players/:id/partners", connectionsHandler("partners"));
+  app.get("/api/players/:id/opponents", connectionsHandler("opponents"));
+
+  // Meetings between two players or two teams, e.g. /api/head-to-head?a=1,2&b=3,4
+  app.get("/api/head-to-head", async (req, res) => {
+    try {
+      const { a, b } = headToHeadQuerySchema.parse(req.query);
+      const players = await storage.getAllPlayers();
+      if (![...a, ...b].every(id => players.some(p => p.id === id))) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      
+      const headToHead = await storage.getHeadToHead(a, b);
+      res.json(headToHead);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid players", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch head-to-head" });
+      }
+    }
+  });
+
   // Doubles pairs generation
   app.get("/api/pairs", async (req, res) => {
     try {
-      const players = await storage.getAllPlayers();
+      // With a session, only pair up the players who are checked in tonight
+      const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
+      const players = sessionId ? await storage.getAvailablePlayers(sessionId) : await storage.getAllPlayers();
       const skillFilter = req.query.skillLevel as string;
       
       let filteredPlayers = players;
@@ -232,31 +364,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const pairs: DoublesTeam[] = [];
-      
-      for (let i = 0; i < filteredPlayers.length; i++) {
-        for (let j = i + 1; j < filteredPlayers.length; j++) {
-          const player1 = filteredPlayers[i];
-          const player2 = filteredPlayers[j];
-          
-          // Determine balance level based on skill difference (1-10 scale)
-          const skillDiff = Math.abs(player1.skillLevel - player2.skillLevel);
-          
-          const balanceLevel = skillDiff <= 2 ? "Balanced" : "Unbalanced";
-          
-          pairs.push({
-            player1,
-            player2,
-            balanceLevel,
-            skillScore: player1.skillLevel + player2.skillLevel,
-          });
-        }
-      }
+      const ratings = await storage.getPlayerRatings();
+      const ratingOf = (player: Player) => ratingOrInitial(player, ratings.find(r => r.playerId === player.id));
+
+      // Partnerships from the most recent matches count against being paired again, unless turned off
+      const avoidRepeats = req.query.avoidRepeats !== "false";
+      const recentMatches = avoidRepeats
+        ? (await storage.getAllMatches())
+            .filter(match => disciplineOf(match.format) === "doubles")
+            .sort(compareMatchOrder)
+            .slice(-RECENT_PARTNER_MATCHES)
+        : [];
+      const seed = req.query.seed ? parseInt(req.query.seed as string) : undefined;
+
+      const { matchups, unmatched } = generateMatchups(
+        filteredPlayers.map(player => ({ id: player.id, skillLevel: player.skillLevel, rating: ratingOf(player) })),
+        {
+          recentPartners: recentMatches.flatMap(match => [
+            match.teamA as [number, number],
+            match.teamB as [number, number],
+          ]),
+          repeatPenalty: avoidRepeats ? REPEAT_PARTNER_PENALTY : 0,
+          seed: Number.isNaN(seed) ? undefined : seed,
+        },
+      );
+
+      const playerById = new Map(filteredPlayers.map(player => [player.id, player]));
+      const toTeam = ([id1, id2]: [number, number]): DoublesTeam => {
+        const player1 = playerById.get(id1)!;
+        const player2 = playerById.get(id2)!;
+        const rating1 = ratingOf(player1).rating;
+        const rating2 = ratingOf(player2).rating;
+        
+        // Determine balance level from the rating gap - two skill level bands or less is balanced
+        const ratingDiff = Math.abs(rating1 - rating2);
+        
+        return {
+          player1,
+          player2,
+          balanceLevel: ratingDiff <= 200 ? "Balanced" : "Unbalanced",
+          skillScore: player1.skillLevel + player2.skillLevel,
+          ratingScore: Math.round(rating1 + rating2),
+        };
+      };
 
-      // Sort pairs by skill score in descending order
-      pairs.sort((a, b) => b.skillScore - a.skillScore);
+      const response: MatchupsResponse = {
+        matchups: matchups.map(matchup => ({
+          teamA: toTeam(matchup.teamA),
+          teamB: toTeam(matchup.teamB),
+          skillDifference: matchup.skillDifference,
+          ratingDifference: matchup.ratingDifference,
+          teamAWinProbability: Math.round(matchup.teamAWinProbability * 100) / 100,
+        })),
+        unmatched: unmatched.map(id => playerById.get(id)!),
+      };
       
-      res.json(pairs);
+      res.json(response);
     } catch (error) {
       res.status(500).json({ error: "Failed to generate pairs" });
     }
@@ -273,10 +436,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Skill level changes waiting for (or decided by) a manager in review mode, newest first
+  app.get("/api/skill-proposals", requireRole("manager"), async (req, res) => {
+    try {
+      const status = req.query.status ? z.enum(skillProposalStatuses).parse(req.query.status) : undefined;
+      const proposals = await storage.getSkillProposals(status);
+      res.json(proposals);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid proposal status", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch skill proposals" });
+      }
+    }
+  });
+
+  const decideProposal = (approve: boolean) => async (req: Request, res: Response) => {
+    try {
+      const { skillAdjustmentMode } = await storage.getClubSettings();
+      if (skillAdjustmentMode !== "review") {
+        return res.status(409).json({ error: "Skill levels are adjusted automatically, there is nothing to review" });
+      }
+      
+      const proposal = await storage.decideSkillProposal(parseInt(req.params.id), approve, req.currentUser!.id);
+      if (!proposal) {
+        return res.status(404).json({ error: "No pending proposal found" });
+      }
+      res.json(proposal);
+    } catch (error) {
+      console.error("Failed to decide skill proposal:", error);
+      res.status(500).json({ error: `Failed to ${approve ? "approve" : "reject"} proposal` });
+    }
+  };
+
+  app.post("/api/skill-proposals/:id/approve", requireRole("manager"), decideProposal(true));
+  app.post("/api/skill-proposals/:id/reject", requireRole("manager"), decideProposal(false));
+
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await storage.getClubSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", requireRole("manager"), async (req, res) => {
+    try {
+      const data = updateClubSettingsSchema.parse(req.body);
+      const settings = await storage.updateClubSettings(data, req.currentUser!.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid settings", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update settings" });
+      }
+    }
+  });
+
+  app.get("/api/settings/skill-policy", requireRole("manager"), async (req, res) => {
+    try {
+      const { skillPolicy } = await storage.getClubSettings();
+      res.json(skillPolicy);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch skill policy" });
+    }
+  });
+
+  app.put("/api/settings/skill-policy", requireRole("manager"), async (req, res) => {
+    try {
+      const policy = skillPolicySchema.parse(req.body);
+      const settings = await storage.updateSkillPolicy(policy, req.currentUser!.id);
+      res.json(settings.skillPolicy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid skill policy", details: error.errors });
+      } else {
+        console.error("Failed to update skill policy:", error);
+        res.status(500).json({ error: "Failed to update skill policy" });
+      }
+    }
+  });
+
+  // Shows who would move under a proposed policy; nothing is saved
+  app.post("/api/settings/skill-policy/dry-run", requireRole("manager"), async (req, res) => {
+    try {
+      const policy = skillPolicySchema.parse(req.body);
+      const preview = await storage.previewSkillPolicy(policy);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid skill policy", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to preview skill policy" });
+      }
+    }
+  });
+
   // One-time action: Reset all players to skill level 5 and recalculate
-  app.post("/api/reset-skills-to-5", async (req, res) => {
+  app.post("/api/reset-skills-to-5", requireRole("manager"), async (req, res) => {
     try {
-      await storage.resetAllPlayersToLevel5();
+      await storage.resetAllPlayersToLevel5(req.currentUser!.id);
       res.json({ message: "All players reset to skill level 5 and recalculated successfully" });
     } catch (error) {
       console.error("Failed to reset skills to 5:", error);
@@ -284,6 +545,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ratings for every player who has played at least one match in the discipline (doubles by default)
+  app.get("/api/ratings", async (req, res) => {
+    try {
+      const discipline = req.query.discipline === "singles" ? "singles" : "doubles";
+      const ratings = await storage.getPlayerRatings(discipline);
+      res.json(ratings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch ratings" });
+    }
+  });
+
+  // Rebuild ratings and skill levels from the full match history (Manager only)
+  app.post("/api/ratings/recalculate", requireRole("manager"), async (req, res) => {
+    try {
+      await storage.recalculateAllSkillLevels(req.currentUser!.id);
+      res.json({ message: "Ratings recalculated successfully" });
+    } catch (error) {
+      console.error("Rating recalculation error:", error);
+      res.status(500).json({ error: "Failed to recalculate ratings" });
+    }
+  });
+
   // Match routes
   app.get("/api/matches", async (req, res) => {
     try {
@@ -294,32 +577,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/matches", async (req, res) => {
+  app.post("/api/matches", requireRole("manager"), async (req, res) => {
     try {
       const matchData = insertMatchSchema.parse(req.body);
       
       // Validate that all players exist
       const players = await storage.getAllPlayers();
-      const playerIds = [matchData.teamAPlayer1Id, matchData.teamAPlayer2Id, 
-                        matchData.teamBPlayer1Id, matchData.teamBPlayer2Id];
-      
-      for (const playerId of playerIds) {
+      for (const playerId of [...matchData.teamA, ...matchData.teamB]) {
         if (!players.find(p => p.id === playerId)) {
           return res.status(400).json({ error: `Player with id ${playerId} not found` });
         }
       }
 
-      // Validate no duplicate players
-      const uniquePlayerIds = new Set(playerIds);
-      if (uniquePlayerIds.size !== 4) {
-        return res.status(400).json({ error: "All four players must be different" });
+      // Validate the number of players on each side for the format, and no duplicate players
+      const lineupProblem = lineupError(matchData.format, matchData.teamA, matchData.teamB);
+      if (lineupProblem) {
+        return res.status(400).json({ error: lineupProblem });
       }
 
-      // Determine winner based on scores  
-      const winnerId = matchData.teamAScore > matchData.teamBScore ? 1 : 2;
-      const finalMatchData = { ...matchData, winnerId };
+      if (matchData.sessionId && !(await storage.getSession(matchData.sessionId))) {
+        return res.status(400).json({ error: `Session with id ${matchData.sessionId} not found` });
+      }
 
-      const match = await storage.createMatch(finalMatchData);
+      // The winner is derived from the games when the match is stored
+      const match = await storage.createMatch(matchData, req.currentUser!.id);
       res.status(201).json(match);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -330,17 +611,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/matches/:id", async (req, res) => {
+  app.put("/api/matches/:id", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const matchData = insertMatchSchema.partial().parse(req.body);
-      
-      // If updating scores, recalculate winner
-      if (matchData.teamAScore !== undefined && matchData.teamBScore !== undefined) {
-        matchData.winnerId = matchData.teamAScore > matchData.teamBScore ? 1 : 2;
+      const existing = await storage.getMatch(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Match not found" });
+      }
+
+      if ((matchData.games || matchData.format || matchData.teamA || matchData.teamB) && await storage.isTournamentResultLocked(id)) {
+        return res.status(409).json({ error: "This match decided a tournament match whose next round has already been played" });
+      }
+      if ((matchData.games || matchData.format || matchData.teamA || matchData.teamB) && await storage.isLadderResultLocked(id)) {
+        return res.status(409).json({ error: "This match settled a ladder challenge and those players have moved on since" });
+      }
+
+      // A new format or line-up is checked against whatever part of the match isn't changing
+      if (matchData.format || matchData.teamA || matchData.teamB) {
+        const players = await storage.getAllPlayers();
+        for (const playerId of [...(matchData.teamA ?? []), ...(matchData.teamB ?? [])]) {
+          if (!players.find(p => p.id === playerId)) {
+            return res.status(400).json({ error: `Player with id ${playerId} not found` });
+          }
+        }
+
+        const lineupProblem = lineupError(
+          matchData.format ?? existing.format,
+          matchData.teamA ?? existing.teamA,
+          matchData.teamB ?? existing.teamB,
+        );
+        if (lineupProblem) {
+          return res.status(400).json({ error: lineupProblem });
+        }
+      }
+
+      if (matchData.sessionId && !(await storage.getSession(matchData.sessionId))) {
+        return res.status(400).json({ error: `Session with id ${matchData.sessionId} not found` });
       }
       
-      const match = await storage.updateMatch(id, matchData);
+      const match = await storage.updateMatch(id, matchData, req.currentUser!.id);
       res.json(match);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -351,10 +661,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/matches/:id", async (req, res) => {
+  app.delete("/api/matches/:id", requireRole("manager"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteMatch(id);
+      if (await storage.isTournamentResultLocked(id)) {
+        return res.status(409).json({ error: "This match decided a tournament match whose next round has already been played" });
+      }
+      if (await storage.isLadderResultLocked(id)) {
+        return res.status(409).json({ error: "This match settled a ladder challenge and those players have moved on since" });
+      }
+      const success = await storage.deleteMatch(id, req.currentUser!.id);
       if (success) {
         res.json({ message: "Match deleted successfully" });
       } else {
@@ -365,120 +681,769 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Statistics routes
-  app.get("/api/stats", async (req, res) => {
+  // Live scoring. The scoreboard is public; only managers umpire.
+  // A finished live match is saved through the normal match creation path.
+  const commitLiveMatch = async (state: LiveMatchState, changedBy: number): Promise<LiveMatchState> => {
+    const matchData = insertMatchSchema.parse({
+      format: state.format,
+      teamA: state.teamA,
+      teamB: state.teamB,
+      sessionId: state.sessionId,
+      games: state.games,
+    });
+    const match = await storage.createMatch(matchData, changedBy);
+    return liveScoring.markCommitted(state.id, match.id) ?? state;
+  };
+
+  app.get("/api/live-matches", async (req, res) => {
+    res.json(liveScoring.list());
+  });
+
+  app.get("/api/live-matches/:id", async (req, res) => {
+    const state = liveScoring.get(parseInt(req.params.id));
+    if (!state) {
+      return res.status(404).json({ error: "Live match not found" });
+    }
+    res.json(state);
+  });
+
+  // Server-sent events: the current state straight away, then every change
+  app.get("/api/live-matches/:id/events", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const state = liveScoring.get(id);
+    if (!state) {
+      return res.status(404).json({ error: "Live match not found" });
+    }
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25 * 1000);
+    const send = (update: LiveMatchState | null) => {
+      if (update) {
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+      } else {
+        // Saved or cancelled: the stream ends, and the browser finds the match gone when it reconnects
+        clearInterval(heartbeat);
+        res.end();
+      }
+    };
+    send(state);
+    const unsubscribe = liveScoring.subscribe(id, send);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.post("/api/live-matches", requireRole("manager"), async (req, res) => {
     try {
-      const playerStats = await storage.getPlayerStats();
-      const matches = await storage.getAllMatches();
-      const players = await storage.getAllPlayers();
-      
-      // Calculate team statistics
-      const teamStatsMap = new Map<string, {
-        player1: any,
-        player2: any,
-        skillScore: number,
-        totalMatches: number,
-        wins: number,
-        losses: number,
-        pointsFor: number,
-        pointsAgainst: number
-      }>();
+      const setup = startLiveMatchSchema.parse(req.body);
+      const playerIds = [setup.teamAPlayer1Id, setup.teamAPlayer2Id, setup.teamBPlayer1Id, setup.teamBPlayer2Id];
 
-      for (const match of matches) {
-        // Team A
-        const teamAKey = [match.teamAPlayer1Id, match.teamAPlayer2Id].sort().join('-');
-        const teamAPlayer1 = players.find(p => p.id === match.teamAPlayer1Id);
-        const teamAPlayer2 = players.find(p => p.id === match.teamAPlayer2Id);
-        
-        if (teamAPlayer1 && teamAPlayer2) {
-          if (!teamStatsMap.has(teamAKey)) {
-            teamStatsMap.set(teamAKey, {
-              player1: teamAPlayer1,
-              player2: teamAPlayer2,
-              skillScore: teamAPlayer1.skillLevel + teamAPlayer2.skillLevel,
-              totalMatches: 0,
-              wins: 0,
-              losses: 0,
-              pointsFor: 0,
-              pointsAgainst: 0
-            });
-          }
-          
-          const teamAStat = teamStatsMap.get(teamAKey)!;
-          teamAStat.totalMatches++;
-          teamAStat.pointsFor += match.teamAScore;
-          teamAStat.pointsAgainst += match.teamBScore;
-          if (match.winnerId === 1) teamAStat.wins++;
-          else teamAStat.losses++;
+      const players = await storage.getAllPlayers();
+      for (const playerId of playerIds) {
+        if (!players.find(p => p.id === playerId)) {
+          return res.status(400).json({ error: `Player with id ${playerId} not found` });
         }
+      }
 
-        // Team B
-        const teamBKey = [match.teamBPlayer1Id, match.teamBPlayer2Id].sort().join('-');
-        const teamBPlayer1 = players.find(p => p.id === match.teamBPlayer1Id);
-        const teamBPlayer2 = players.find(p => p.id === match.teamBPlayer2Id);
-        
-        if (teamBPlayer1 && teamBPlayer2) {
-          if (!teamStatsMap.has(teamBKey)) {
-            teamStatsMap.set(teamBKey, {
-              player1: teamBPlayer1,
-              player2: teamBPlayer2,
-              skillScore: teamBPlayer1.skillLevel + teamBPlayer2.skillLevel,
-              totalMatches: 0,
-              wins: 0,
-              losses: 0,
-              pointsFor: 0,
-              pointsAgainst: 0
-            });
-          }
-          
-          const teamBStat = teamStatsMap.get(teamBKey)!;
-          teamBStat.totalMatches++;
-          teamBStat.pointsFor += match.teamBScore;
-          teamBStat.pointsAgainst += match.teamAScore;
-          if (match.winnerId === 2) teamBStat.wins++;
-          else teamBStat.losses++;
-        }
+      if (new Set(playerIds).size !== 4) {
+        return res.status(400).json({ error: "All four players must be different" });
       }
 
-      const teamStats = Array.from(teamStatsMap.values()).map(team => ({
-        ...team,
-        winRate: team.totalMatches > 0 ? Math.round((team.wins / team.totalMatches) * 100) : 0,
-        pointDifference: team.pointsFor - team.pointsAgainst
-      }));
-      
-      // Filter out players with 0 matches and apply enhanced ranking logic
-      const rankedPlayerStats = playerStats
-        .filter(player => player.totalMatches > 0)
-        .sort((a, b) => {
-          // 1. Sort by win rate (higher first)
-          if (a.winRate !== b.winRate) {
-            return b.winRate - a.winRate;
-          }
-          // 2. If win rate is same, sort by number of wins (higher first)
-          if (a.wins !== b.wins) {
-            return b.wins - a.wins;
-          }
-          // 3. If wins are same, sort by point difference (higher first)
-          return b.pointDifference - a.pointDifference;
-        });
+      if (setup.sessionId && !(await storage.getSession(setup.sessionId))) {
+        return res.status(400).json({ error: `Session with id ${setup.sessionId} not found` });
+      }
+
+      res.status(201).json(liveScoring.start(setup));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid live match data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to start live match" });
+      }
+    }
+  });
+
+  app.post("/api/live-matches/:id/rally", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { winner } = rallySchema.parse(req.body);
+      if (!liveScoring.get(id)) {
+        return res.status(404).json({ error: "Live match not found" });
+      }
+
+      const state = liveScoring.rally(id, winner);
+      if (!state) {
+        return res.status(400).json({ error: "This match is already over" });
+      }
+
+      // The final rally saves the result
+      res.json(state.status === "finished" ? await commitLiveMatch(state, req.currentUser!.id) : state);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid rally", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to record rally" });
+      }
+    }
+  });
+
+  app.post("/api/live-matches/:id/undo", requireRole("manager"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    const current = liveScoring.get(id);
+    if (!current) {
+      return res.status(404).json({ error: "Live match not found" });
+    }
+
+    const state = liveScoring.undo(id);
+    if (!state) {
+      return res.status(400).json({ error: current.matchId ? "The result has already been saved" : "Nothing to undo" });
+    }
+    res.json(state);
+  });
+
+  // Retry saving a finished match whose result couldn't be stored on the final rally
+  app.post("/api/live-matches/:id/commit", requireRole("manager"), async (req, res) => {
+    try {
+      const state = liveScoring.get(parseInt(req.params.id));
+      if (!state) {
+        return res.status(404).json({ error: "Live match not found" });
+      }
+      if (state.status !== "finished" || state.matchId !== null) {
+        return res.status(400).json({ error: state.matchId ? "The result has already been saved" : "The match isn't finished yet" });
+      }
+      res.json(await commitLiveMatch(state, req.currentUser!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save match result" });
+    }
+  });
+
+  app.delete("/api/live-matches/:id", requireRole("manager"), async (req, res) => {
+    if (liveScoring.remove(parseInt(req.params.id))) {
+      res.json({ message: "Live match removed" });
+    } else {
+      res.status(404).json({ error: "Live match not found" });
+    }
+  });
+
+  // Club session routes
+  app.get("/api/sessions", async (req, res) => {
+    try {
+      const sessions = await storage.getAllSessions();
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.get("/api/sessions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = await storage.getSession(id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch session" });
+    }
+  });
+
+  app.post("/api/sessions", requireRole("manager"), async (req, res) => {
+    try {
+      const sessionData = insertSessionSchema.parse(req.body);
+      const session = await storage.createSession({
+        ...sessionData,
+        organizerId: sessionData.organizerId ?? req.currentUser!.id,
+      });
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid session data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create session" });
+      }
+    }
+  });
+
+  app.put("/api/sessions/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const sessionData = insertSessionSchema.partial().parse(req.body);
+      const session = await storage.updateSession(id, sessionData);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid session data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update session" });
+      }
+    }
+  });
+
+  app.delete("/api/sessions/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteSession(id);
+      if (success) {
+        res.json({ message: "Session deleted successfully" });
+      } else {
+        res.status(404).json({ error: "Session not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete session" });
+    }
+  });
+
+  // Check a player in to a session. Players check themselves in; managers can check in anyone.
+  app.post("/api/sessions/:id/check-in", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const { playerId = req.currentUser!.id } = checkInSchema.parse(req.body ?? {});
+      if (playerId !== req.currentUser!.id && req.currentUser!.role !== "manager") {
+        return res.status(403).json({ error: "Only managers can check in other players" });
+      }
+      
+      if (!(await storage.getSession(sessionId))) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      const player = await storage.getPlayer(playerId);
+      if (!player || !player.isActive) {
+        return res.status(400).json({ error: `Player with id ${playerId} not found` });
+      }
+      
+      const attendee = await storage.checkIn(sessionId, playerId, req.currentUser!.id);
+      res.json(attendee);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid check-in data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to check in" });
+      }
+    }
+  });
+
+  app.post("/api/sessions/:id/check-out", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const { playerId = req.currentUser!.id } = checkInSchema.parse(req.body ?? {});
+      if (playerId !== req.currentUser!.id && req.currentUser!.role !== "manager") {
+        return res.status(403).json({ error: "Only managers can check out other players" });
+      }
+      
+      const attendee = await storage.checkOut(sessionId, playerId);
+      if (!attendee) {
+        return res.status(404).json({ error: "Player is not checked in to this session" });
+      }
+      res.json(attendee);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid check-out data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to check out" });
+      }
+    }
+  });
+
+  // Players who are at the hall right now
+  app.get("/api/sessions/:id/available", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const players = await storage.getAvailablePlayers(sessionId);
+      res.json(players);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch available players" });
+    }
+  });
+
+  // Court rotation for the players currently checked in. Calling it again after someone
+  // arrives or leaves regenerates the remaining rounds, taking tonight's recorded matches into account.
+  app.post("/api/schedule/generate", requireRole("manager"), async (req, res) => {
+    try {
+      const { sessionId, rounds, courts, seed } = scheduleRequestSchema.parse(req.body);
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const players = await storage.getAvailablePlayers(sessionId);
+      if (players.length < 4) {
+        return res.status(400).json({ error: "At least 4 checked-in players are needed to schedule games" });
+      }
+
+      const courtCount = courts ?? session.courtCount;
+      const schedule: CourtSchedule = {
+        sessionId,
+        courts: courtCount,
+        playerIds: players.map(p => p.id),
+        rounds: generateSchedule({
+          players,
+          courts: courtCount,
+          rounds,
+          history: session.matches
+            .filter(match => disciplineOf(match.format) === "doubles")
+            .map((match): PlayedGame => ({
+              teamA: match.teamA as [number, number],
+              teamB: match.teamB as [number, number],
+            })),
+          seed: seed ?? session.matches.length + 1,
+        }),
+      };
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid schedule request", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to generate schedule" });
+      }
+    }
+  });
+
+  // Tournament routes. Results come in through the normal match routes: recording a match between two
+  // teams a running tournament is waiting on decides that tournament match.
+  app.get("/api/tournaments", async (req, res) => {
+    try {
+      const tournaments = await storage.getAllTournaments();
+      res.json(tournaments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tournaments" });
+    }
+  });
+
+  app.get("/api/tournaments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tournament = await storage.getTournament(id);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      res.json(tournament);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tournament" });
+    }
+  });
+
+  app.post("/api/tournaments", requireRole("manager"), async (req, res) => {
+    try {
+      const tournamentData = insertTournamentSchema.parse(req.body);
+      const tournament = await storage.createTournament(tournamentData, req.currentUser!.id);
+      res.status(201).json(tournament);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid tournament data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create tournament" });
+      }
+    }
+  });
+
+  app.delete("/api/tournaments/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteTournament(id);
+      if (success) {
+        res.json({ message: "Tournament deleted successfully" });
+      } else {
+        res.status(404).json({ error: "Tournament not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete tournament" });
+    }
+  });
+
+  // Teams can only be registered or withdrawn before the draw is made
+  app.post("/api/tournaments/:id/teams", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { playerIds } = tournamentTeamSchema.parse(req.body);
+      const tournament = await storage.getTournament(id);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (tournament.status !== "registration") {
+        return res.status(400).json({ error: "The tournament has already started" });
+      }
+
+      const players = await storage.getAllPlayers();
+      for (const playerId of playerIds) {
+        if (!players.find(p => p.id === playerId)) {
+          return res.status(400).json({ error: `Player with id ${playerId} not found` });
+        }
+      }
+      const teamSize = teamSizeOf(tournament.matchFormat);
+      if (playerIds.length !== teamSize) {
+        return res.status(400).json({ error: teamSize === 1 ? "A singles entry is one player" : "A team is two players" });
+      }
+      if (new Set(playerIds).size !== playerIds.length) {
+        return res.status(400).json({ error: "All players must be different" });
+      }
+      const registered = tournament.teams.flatMap(teamPlayerIds);
+      const alreadyIn = playerIds.find(playerId => registered.includes(playerId));
+      if (alreadyIn) {
+        return res.status(400).json({ error: `${players.find(p => p.id === alreadyIn)!.name} is already registered` });
+      }
+
+      const team = await storage.addTournamentTeam(id, playerIds);
+      res.status(201).json(team);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid team data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to register team" });
+      }
+    }
+  });
+
+  app.delete("/api/tournaments/:id/teams/:teamId", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tournament = await storage.getTournament(id);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (tournament.status !== "registration") {
+        return res.status(400).json({ error: "The tournament has already started" });
+      }
+
+      const success = await storage.removeTournamentTeam(id, parseInt(req.params.teamId));
+      if (success) {
+        res.json({ message: "Team withdrawn successfully" });
+      } else {
+        res.status(404).json({ error: "Team not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Failed to withdraw team" });
+    }
+  });
+
+  // Seed the teams and make the draw
+  app.post("/api/tournaments/:id/start", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tournament = await storage.getTournament(id);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (tournament.status !== "registration") {
+        return res.status(400).json({ error: "The tournament has already started" });
+      }
+      const minimumTeams = tournament.format === "round_robin" ? tournament.groupCount * 2 : 2;
+      if (tournament.teamCount < minimumTeams) {
+        return res.status(400).json({
+          error: tournament.groupCount > 1 && tournament.format === "round_robin"
+            ? `At least ${minimumTeams} teams are needed for ${tournament.groupCount} groups`
+            : "At least 2 teams are needed to start",
+        });
+      }
+
+      const started = await storage.startTournament(id);
+      res.json(started);
+    } catch (error) {
+      console.error("Tournament start error:", error);
+      res.status(500).json({ error: "Failed to start tournament" });
+    }
+  });
+
+  // Ladder routes. Like tournaments, challenge results come in through the normal match routes.
+  // Overdue challenges are settled before a ladder is shown or a challenge is acted on, so nobody
+  // sees or plays one that has already been forfeited.
+  app.get("/api/ladders", async (req, res) => {
+    try {
+      const ladders = await storage.getAllLadders();
+      res.json(ladders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch ladders" });
+    }
+  });
+
+  app.get("/api/ladders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.resolveOverdueChallenges();
+      const ladder = await storage.getLadder(id);
+      if (!ladder) {
+        return res.status(404).json({ error: "Ladder not found" });
+      }
+      res.json(ladder);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch ladder" });
+    }
+  });
+
+  app.post("/api/ladders", requireRole("manager"), async (req, res) => {
+    try {
+      const ladderData = insertLadderSchema.parse(req.body);
+      const ladder = await storage.createLadder(ladderData);
+      res.status(201).json(ladder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid ladder data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create ladder" });
+      }
+    }
+  });
+
+  app.delete("/api/ladders/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteLadder(id);
+      if (success) {
+        res.json({ message: "Ladder deleted successfully" });
+      } else {
+        res.status(404).json({ error: "Ladder not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete ladder" });
+    }
+  });
+
+  app.post("/api/ladders/:id/entries", requireRole("manager"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { playerIds } = ladderEntrySchema.parse(req.body);
+      const ladder = await storage.getLadder(id);
+      if (!ladder) {
+        return res.status(404).json({ error: "Ladder not found" });
+      }
+
+      const players = await storage.getAllPlayers();
+      for (const playerId of playerIds) {
+        if (!players.find(p => p.id === playerId)) {
+          return res.status(400).json({ error: `Player with id ${playerId} not found` });
+        }
+      }
+      const teamSize = teamSizeOf(ladder.matchFormat);
+      if (playerIds.length !== teamSize) {
+        return res.status(400).json({ error: teamSize === 1 ? "A singles entry is one player" : "A team is two players" });
+      }
+      if (new Set(playerIds).size !== playerIds.length) {
+        return res.status(400).json({ error: "All players must be different" });
+      }
+      const onLadder = ladder.entries.flatMap(teamPlayerIds);
+      const alreadyOn = playerIds.find(playerId => onLadder.includes(playerId));
+      if (alreadyOn) {
+        return res.status(400).json({ error: `${players.find(p => p.id === alreadyOn)!.name} is already on this ladder` });
+      }
+
+      const entry = await storage.addLadderEntry(id, playerIds);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid entry data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to add ladder entry" });
+      }
+    }
+  });
+
+  app.delete("/api/ladders/:id/entries/:entryId", requireRole("manager"), async (req, res) => {
+    try {
+      const success = await storage.removeLadderEntry(parseInt(req.params.id), parseInt(req.params.entryId));
+      if (success) {
+        res.json({ message: "Entry removed successfully" });
+      } else {
+        res.status(404).json({ error: "Entry not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove ladder entry" });
+    }
+  });
+
+  // Players challenge on behalf of their own entry; managers can issue a challenge for anyone
+  app.post("/api/ladders/:id/challenges", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { challengerEntryId, defenderEntryId } = issueChallengeSchema.parse(req.body);
+      await storage.resolveOverdueChallenges();
+      const ladder = await storage.getLadder(id);
+      if (!ladder) {
+        return res.status(404).json({ error: "Ladder not found" });
+      }
+
+      const challenger = ladder.entries.find(entry => entry.id === challengerEntryId);
+      const defender = ladder.entries.find(entry => entry.id === defenderEntryId);
+      if (!challenger || !defender) {
+        return res.status(400).json({ error: "Both entries must be on this ladder" });
+      }
+      const user = req.currentUser!;
+      if (user.role !== "manager" && !teamPlayerIds(challenger).includes(user.id)) {
+        return res.status(403).json({ error: "You can only challenge for your own entry" });
+      }
+      const rungsUp = challenger.position - defender.position;
+      if (rungsUp < 1 || rungsUp > ladder.challengeRange) {
+        return res.status(400).json({ error: `You can challenge up to ${ladder.challengeRange} rungs above you` });
+      }
+      const busy = ladder.challenges.some(challenge =>
+        (challenge.status === "pending" || challenge.status === "accepted") &&
+        [challenge.challengerEntryId, challenge.defenderEntryId].some(entryId => entryId === challengerEntryId || entryId === defenderEntryId));
+      if (busy) {
+        return res.status(400).json({ error: "One of these entries already has an open challenge" });
+      }
+
+      const challenge = await storage.createChallenge(id, challengerEntryId, defenderEntryId, user.id);
+      res.status(201).json(challenge);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid challenge", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to issue challenge" });
+      }
+    }
+  });
+
+  // The defending side, or a manager, answers a challenge
+  const respondToChallenge = (accept: boolean) => async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.resolveOverdueChallenges();
+      const challenge = await storage.getChallenge(id);
+      if (!challenge) {
+        return res.status(404).json({ error: "Challenge not found" });
+      }
+      const ladder = await storage.getLadder(challenge.ladderId);
+      const defender = ladder?.entries.find(entry => entry.id === challenge.defenderEntryId);
+      const user = req.currentUser!;
+      if (user.role !== "manager" && !(defender && teamPlayerIds(defender).includes(user.id))) {
+        return res.status(403).json({ error: "Only the challenged players can answer this challenge" });
+      }
+
+      const updated = await storage.respondToChallenge(id, accept);
+      if (!updated) {
+        return res.status(400).json({ error: "This challenge has already been answered" });
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: accept ? "Failed to accept challenge" : "Failed to decline challenge" });
+    }
+  };
+
+  app.post("/api/challenges/:id/accept", requireAuth, respondToChallenge(true));
+  app.post("/api/challenges/:id/decline", requireAuth, respondToChallenge(false));
+
+  // Statistics routes. `format` narrows everything to one match format; team stats only cover doubles.
+  app.get("/api/stats", async (req, res) => {
+    try {
+      const { minMatches, ...filter } = statsFilterSchema.extend({
+        minMatches: z.coerce.number().int().min(1).max(100).default(1),
+      }).parse(req.query);
+      const playerStats = await storage.getPlayerStats(undefined, filter);
+      const matches = (await storage.getAllMatches()).filter(match => inStatsWindow(match, filter));
+      const players = await storage.getAllPlayers();
+      const windowed = filter.from !== undefined || filter.to !== undefined || filter.sessionId !== undefined;
       
-      // Enhanced ranking logic for team stats
-      const rankedTeamStats = teamStats.sort((a, b) => {
-        // 1. Sort by win rate (higher first)
-        if (a.winRate !== b.winRate) {
-          return b.winRate - a.winRate;
+      // Calculate team statistics
+      const teamStatsMap = new Map<string, {
+        player1: any,
+        player2: any,
+        skillScore: number,
+        totalMatches: number,
+        wins: number,
+        losses: number,
+        pointsFor: number,
+        pointsAgainst: number,
+        gamesWon: number,
+        gamesLost: number
+      }>();
+
+      for (const match of matches) {
+        if (disciplineOf(match.format) !== "doubles") continue;
+        const { teamAGames, teamBGames } = summarizeGames(gameScoresOf(match));
+
+        // Team A
+        const teamAKey = [...match.teamA].sort().join('-');
+        const teamAPlayer1 = players.find(p => p.id === match.teamA[0]);
+        const teamAPlayer2 = players.find(p => p.id === match.teamA[1]);
+        
+        if (teamAPlayer1 && teamAPlayer2) {
+          if (!teamStatsMap.has(teamAKey)) {
+            teamStatsMap.set(teamAKey, {
+              player1: teamAPlayer1,
+              player2: teamAPlayer2,
+              skillScore: teamAPlayer1.skillLevel + teamAPlayer2.skillLevel,
+              totalMatches: 0,
+              wins: 0,
+              losses: 0,
+              pointsFor: 0,
+              pointsAgainst: 0,
+              gamesWon: 0,
+              gamesLost: 0
+            });
+          }
+          
+          const teamAStat = teamStatsMap.get(teamAKey)!;
+          teamAStat.totalMatches++;
+          teamAStat.pointsFor += match.teamAScore;
+          teamAStat.pointsAgainst += match.teamBScore;
+          teamAStat.gamesWon += teamAGames;
+          teamAStat.gamesLost += teamBGames;
+          if (match.winnerId === 1) teamAStat.wins++;
+          else teamAStat.losses++;
         }
-        // 2. If win rate is same, sort by number of wins (higher first)
-        if (a.wins !== b.wins) {
-          return b.wins - a.wins;
+
+        // Team B
+        const teamBKey = [...match.teamB].sort().join('-');
+        const teamBPlayer1 = players.find(p => p.id === match.teamB[0]);
+        const teamBPlayer2 = players.find(p => p.id === match.teamB[1]);
+        
+        if (teamBPlayer1 && teamBPlayer2) {
+          if (!teamStatsMap.has(teamBKey)) {
+            teamStatsMap.set(teamBKey, {
+              player1: teamBPlayer1,
+              player2: teamBPlayer2,
+              skillScore: teamBPlayer1.skillLevel + teamBPlayer2.skillLevel,
+              totalMatches: 0,
+              wins: 0,
+              losses: 0,
+              pointsFor: 0,
+              pointsAgainst: 0,
+              gamesWon: 0,
+              gamesLost: 0
+            });
+          }
+          
+          const teamBStat = teamStatsMap.get(teamBKey)!;
+          teamBStat.totalMatches++;
+          teamBStat.pointsFor += match.teamBScore;
+          teamBStat.pointsAgainst += match.teamAScore;
+          teamBStat.gamesWon += teamBGames;
+          teamBStat.gamesLost += teamAGames;
+          if (match.winnerId === 2) teamBStat.wins++;
+          else teamBStat.losses++;
         }
-        // 3. If wins are same, sort by point difference (higher first)
-        return b.pointDifference - a.pointDifference;
-      });
+      }
+
+      const teamStats = Array.from(teamStatsMap.values()).map(team => ({
+        ...team,
+        winRate: team.totalMatches > 0 ? Math.round((team.wins / team.totalMatches) * 100) : 0,
+        pointDifference: team.pointsFor - team.pointsAgainst,
+        pointsPerGame: team.gamesWon + team.gamesLost > 0 ? Math.round((team.pointsFor / (team.gamesWon + team.gamesLost)) * 10) / 10 : 0
+      }));
+      
+      // Only rank those with enough matches in the window, by win rate, wins, then point difference
+      const playedPlayerStats = playerStats.filter(player => player.totalMatches > 0);
+      const rankedPlayerStats = playedPlayerStats
+        .filter(player => player.totalMatches >= minMatches)
+        .sort(compareStandings);
+      
+      const rankedTeamStats = teamStats
+        .filter(team => team.totalMatches >= minMatches)
+        .sort(compareStandings);
       
       // Calculate additional stats
       const totalMatches = matches.length;
-      const activePlayers = players.length;
+      // Within a window, active means having played in it
+      const activePlayers = windowed ? playedPlayerStats.length : players.length;
       
       // Calculate weekly matches (last 7 days)
       const weekAgo = new Date();
@@ -493,14 +1458,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalMatches,
         activePlayers,
         weeklyMatches,
+        minMatches,
+        unrankedPlayers: playedPlayerStats.length - rankedPlayerStats.length,
+        unrankedTeams: teamStats.length - rankedTeamStats.length,
       });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch statistics" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid statistics filter", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch statistics" });
+      }
     }
   });
 
   // Reset all data (Manager only)
-  app.post("/api/reset-data", async (req, res) => {
+  app.post("/api/reset-data", requireRole("manager"), async (req, res) => {
     try {
       await storage.resetAllData();
       res.json({ message: "All data has been reset successfully" });
@@ -510,10 +1482,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update skill levels based on recent performance (Manager only)
-  app.post("/api/skill-levels/update", async (req, res) => {
+  // Back up the club as a versioned JSON archive (Manager only)
+  app.get("/api/export", requireRole("manager"), async (req, res) => {
+    try {
+      const archive = await storage.exportClub();
+      res.attachment(`club-${archive.exportedAt.toISOString().slice(0, 10)}.json`);
+      res.json(archive);
+    } catch (error) {
+      console.error("Export error:", error);
+      res.status(500).json({ error: "Failed to export club data" });
+    }
+  });
+
+  // Spreadsheet-friendly exports of the same data (Manager only)
+  app.get("/api/export/:table.csv", requireRole("manager"), async (req, res) => {
+    const toCsv = req.params.table === "players" ? playersCsv : req.params.table === "matches" ? matchesCsv : null;
+    if (!toCsv) {
+      return res.status(404).json({ error: "Only players and matches can be exported as CSV" });
+    }
+
+    try {
+      const archive = await storage.exportClub();
+      res.attachment(`${req.params.table}-${archive.exportedAt.toISOString().slice(0, 10)}.csv`);
+      res.type("text/csv").send(toCsv(archive));
+    } catch (error) {
+      console.error("CSV export error:", error);
+      res.status(500).json({ error: "Failed to export club data" });
+    }
+  });
+
+  // Check an archive against this club without changing anything (Manager only)
+  app.post("/api/import/dry-run", requireRole("manager"), async (req, res) => {
+    try {
+      const archive = clubArchiveSchema.parse(req.body);
+      res.json(await storage.importClub(archive, true, req.currentUser!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid club archive", details: error.errors });
+      } else {
+        console.error("Import dry run error:", error);
+        res.status(500).json({ error: "Failed to check club archive" });
+      }
+    }
+  });
+
+  // Restore an archive, merging records that already exist here (Manager only)
+  app.post("/api/import", requireRole("manager"), async (req, res) => {
+    try {
+      const archive = clubArchiveSchema.parse(req.body);
+      const report = await storage.importClub(archive, false, req.currentUser!.id);
+      if (!report.imported) {
+        return res.status(400).json({ error: report.errors[0] ?? "The archive could not be imported", report });
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid club archive", details: error.errors });
+      } else {
+        console.error("Import error:", error);
+        res.status(500).json({ error: "Failed to import club archive" });
+      }
+    }
+  });
+
+  // Read a CSV of past results and report what would be imported, with suggestions for
+  // names that need review (Manager only)
+  app.post("/api/import/matches/preview", requireRole("manager"), async (req, res) => {
+    try {
+      const request = matchImportRequestSchema.parse(req.body);
+      const { preview } = planMatchImport(request, await storage.getAllPlayers(), await storage.getAllMatches());
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import request", details: error.errors });
+      } else {
+        console.error("Match import preview error:", error);
+        res.status(500).json({ error: "Failed to read match history" });
+      }
+    }
+  });
+
+  // Record the past results and replay skill levels once, from the earliest of them (Manager only)
+  app.post("/api/import/matches", requireRole("manager"), async (req, res) => {
+    try {
+      const request = matchImportRequestSchema.parse(req.body);
+      const { preview, matches } = planMatchImport(request, await storage.getAllPlayers(), await storage.getAllMatches());
+
+      if (preview.errors.length > 0) {
+        return res.status(400).json({ error: preview.errors[0], preview });
+      }
+      if (preview.invalid > 0 && !request.skipInvalid) {
+        return res.status(400).json({ error: `${preview.invalid} row${preview.invalid === 1 ? " has" : "s have"} problems; fix them or skip invalid rows`, preview });
+      }
+
+      const imported = await storage.importMatches(matches, req.currentUser!.id);
+      const result: MatchImportResult = { ...preview, imported: imported.length };
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import request", details: error.errors });
+      } else {
+        console.error("Match import error:", error);
+        res.status(500).json({ error: "Failed to import match history" });
+      }
+    }
+  });
+
+  // Update skill levels by replaying the match history (Manager only)
+  app.post("/api/skill-levels/update", requireRole("manager"), async (req, res) => {
     try {
-      await storage.checkForSkillLevelUpdates();
+      await storage.recalculateAllSkillLevels(req.currentUser!.id);
       res.json({ message: "Skill levels updated successfully" });
     } catch (error) {
       console.error("Skill level update error:", error);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { ScheduledRound } from "@shared/schema";
+import { generateSchedule, type SchedulePlayer } from "./scheduler";
+
+const playersAt = (...levels: number[]): SchedulePlayer[] => levels.map((skillLevel, index) => ({ id: index + 1, skillLevel }));
+
+const pairKeys = (rounds: ScheduledRound[]) =>
+  rounds.flatMap(round => round.games.flatMap(game => [game.teamA, game.teamB].map(([a, b]) => `${Math.min(a, b)}-${Math.max(a, b)}`)));
+
+describe("generateSchedule", () => {
+  it("puts everyone on a court or on the bench once per round, and only as many courts as the players fill", () => {
+    const players = playersAt(5, 5, 5, 5, 5, 5, 5, 5, 5, 5, 5);
+    const rounds = generateSchedule({ players, courts: 4, rounds: 3 });
+
+    expect(rounds.map(round => round.round)).toEqual([1, 2, 3]);
+    for (const round of rounds) {
+      expect(round.games.map(game => game.court)).toEqual([1, 2]);
+      const everyone = [...round.games.flatMap(game => [...game.teamA, ...game.teamB]), ...round.sittingOut];
+      expect(everyone.sort((a, b) => a - b)).toEqual(players.map(player => player.id));
+    }
+  });
+
+  it("rotates the bench so nobody sits out twice before everyone has sat out once", () => {
+    const rounds = generateSchedule({ players: playersAt(1, 2, 3, 4, 5, 6, 7, 8, 9, 10), courts: 2, rounds: 5 });
+    const benched = rounds.flatMap(round => round.sittingOut);
+    expect(benched).toHaveLength(10);
+    expect(new Set(benched).size).toBe(10);
+  });
+
+  it("splits strong and weak players across the teams and reports each team's skill", () => {
+    const [round] = generateSchedule({ players: playersAt(1, 1, 9, 9), courts: 1, rounds: 1 });
+    expect(round.games).toHaveLength(1);
+    expect(round.games[0]).toMatchObject({ teamASkill: 10, teamBSkill: 10 });
+  });
+
+  it("avoids partnerships already played tonight or earlier in the schedule", () => {
+    const players = playersAt(5, 5, 5, 5, 5, 5, 5, 5);
+    const history = [{ teamA: [1, 2] as [number, number], teamB: [3, 4] as [number, number] }];
+    const rounds = generateSchedule({ players, courts: 2, rounds: 3, history });
+
+    const partnerships = pairKeys(rounds);
+    expect(new Set(partnerships).size).toBe(partnerships.length);
+    expect(partnerships).not.toContain("1-2");
+    expect(partnerships).not.toContain("3-4");
+  });
+
+  it("gives the same schedule for the same seed and nothing for fewer than four players", () => {
+    const players = playersAt(3, 4, 5, 6, 7, 8, 4, 5, 6);
+    expect(generateSchedule({ players, courts: 2, rounds: 4, seed: 7 })).toEqual(generateSchedule({ players, courts: 2, rounds: 4, seed: 7 }));
+    expect(generateSchedule({ players: playersAt(5, 5, 5), courts: 2, rounds: 4 })).toEqual([]);
+    expect(generateSchedule({ players, courts: 0, rounds: 4 })).toEqual([]);
+  });
+});
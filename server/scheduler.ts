@@ -0,0 +1,93 @@
+import type { ScheduledGame, ScheduledRound } from "@shared/schema";
+import { arrangeGames, createRandom, shuffle, PairCounts, type Team } from "./matchmaking";
+
+// Court rotation for a club night.
+//
+// Each round fills as many courts as the player count allows. Who sits out is decided by
+// games played so far (fewest games play first), and the players on court are grouped into
+// games that minimise a cost made of repeated partners, repeated opponents and the skill gap
+// between the two teams. Results are deterministic for a given seed.
+
+export interface SchedulePlayer {
+  id: number;
+  skillLevel: number;
+}
+
+export interface PlayedGame {
+  teamA: Team;
+  teamB: Team;
+}
+
+export interface ScheduleOptions {
+  players: SchedulePlayer[];
+  courts: number;
+  rounds: number;
+  history?: PlayedGame[]; // games already played tonight, so the schedule avoids repeating them
+  seed?: number;
+}
+
+// Relative weights of the cost terms. A repeated partnership is worse than a repeated
+// opponent, and one skill level of imbalance is roughly as bad as one repeated opponent.
+const PARTNER_WEIGHT = 4;
+const OPPONENT_WEIGHT = 1;
+const SKILL_WEIGHT = 1;
+
+export function generateSchedule({ players, courts, rounds, history = [], seed = 1 }: ScheduleOptions): ScheduledRound[] {
+  const random = createRandom(seed);
+  const skillOf = new Map(players.map(player => [player.id, player.skillLevel]));
+  const partners = new PairCounts();
+  const opponents = new PairCounts();
+  const gamesPlayed = new Map(players.map(player => [player.id, 0]));
+  const sitOuts = new Map(players.map(player => [player.id, 0]));
+
+  const recordGame = (game: PlayedGame) => {
+    const [a1, a2] = game.teamA;
+    const [b1, b2] = game.teamB;
+    partners.add(a1, a2);
+    partners.add(b1, b2);
+    for (const a of game.teamA) {
+      for (const b of game.teamB) {
+        opponents.add(a, b);
+      }
+    }
+    for (const playerId of [a1, a2, b1, b2]) {
+      if (gamesPlayed.has(playerId)) {
+        gamesPlayed.set(playerId, gamesPlayed.get(playerId)! + 1);
+      }
+    }
+  };
+  history.forEach(recordGame);
+
+  const teamSkill = (team: Team) => (skillOf.get(team[0]) ?? 0) + (skillOf.get(team[1]) ?? 0);
+
+  const gameCost = (teamA: Team, teamB: Team) => {
+    let cost = PARTNER_WEIGHT * (partners.get(teamA[0], teamA[1]) + partners.get(teamB[0], teamB[1]));
+    for (const a of teamA) {
+      for (const b of teamB) {
+        cost += OPPONENT_WEIGHT * opponents.get(a, b);
+      }
+    }
+    return cost + SKILL_WEIGHT * Math.abs(teamSkill(teamA) - teamSkill(teamB));
+  };
+
+  const schedule: ScheduledRound[] = [];
+  const gamesPerRound = Math.min(courts, Math.floor(players.length / 4));
+  if (gamesPerRound === 0) return schedule;
+
+  for (let round = 1; round <= rounds; round++) {
+    // Fewest games played go on court first; ties go to whoever has sat out the most, then at random
+    const ordered = shuffle(players.map(player => player.id), random)
+      .sort((a, b) => gamesPlayed.get(a)! - gamesPlayed.get(b)! || sitOuts.get(b)! - sitOuts.get(a)!);
+    const playing = ordered.slice(0, gamesPerRound * 4);
+    const sittingOut = ordered.slice(gamesPerRound * 4);
+
+    const games: ScheduledGame[] = arrangeGames(playing, gamesPerRound, gameCost, random)
+      .map(({ teamA, teamB }, index) => ({ court: index + 1, teamA, teamB, teamASkill: teamSkill(teamA), teamBSkill: teamSkill(teamB) }));
+    games.forEach(recordGame);
+    sittingOut.forEach(playerId => sitOuts.set(playerId, sitOuts.get(playerId)! + 1));
+
+    schedule.push({ round, games, sittingOut });
+  }
+
+  return schedule;
+}
@@ -0,0 +1,174 @@
+import { storage } from "./storage";
+import { createRandom, shuffle } from "./matchmaking";
+import type { GameScore, HistoricalMatch, MatchFormat, Player } from "@shared/schema";
+
+// npm run seed - fill an empty database with a demo club: players at every skill level and
+// a few months of twice-weekly sessions. Pass --force to wipe an existing club first.
+
+const SEED_WEEKS = 16;
+const MATCH_MINUTES = 15;
+
+// Name, starting level and how far their real form drifts over the season (positive = improving)
+const demoPlayers: Array<[string, number, number]> = [
+  ["Aarav Sharma", 1, 1.5],
+  ["Meera Iyer", 1, 0],
+  ["Kabir Rao", 2, 0.5],
+  ["Ananya Gupta", 2, 2],
+  ["Rohan Desai", 3, 0],
+  ["Ishita Menon", 3, -0.5],
+  ["Vikram Nair", 4, 1],
+  ["Priya Kulkarni", 4, 0],
+  ["Arjun Reddy", 4, -1],
+  ["Sneha Patil", 5, 0.5],
+  ["Karthik Hegde", 5, 0],
+  ["Divya Shetty", 5, -1.5],
+  ["Nikhil Joshi", 6, 0],
+  ["Pooja Bhat", 6, 1],
+  ["Siddharth Kumar", 6, -0.5],
+  ["Lakshmi Narayan", 7, 0],
+  ["Rahul Verma", 7, 0.5],
+  ["Tanvi Kamath", 8, 0],
+  ["Aditya Prasad", 8, -1],
+  ["Nandini Rao", 9, 0],
+  ["Varun Gowda", 9, 0.5],
+  ["Harish Srinivas", 10, 0],
+];
+
+// Deterministic, so every seeded club looks the same
+const random = createRandom(20250101);
+
+// One game: the stronger side usually wins, and by more the bigger the gap
+function playGame(strengthGap: number): GameScore {
+  const teamAWins = random() < 1 / (1 + Math.exp(-strengthGap * 0.8));
+  const margin = Math.abs(strengthGap) * 3 + random() * 8;
+  let winner = 21;
+  let loser = Math.max(4, Math.min(19, Math.round(19 - margin)));
+  if (loser === 19 && random() < 0.5) {
+    winner = 22 + Math.floor(random() * 4);
+    loser = winner - 2;
+  }
+  return teamAWins ? { teamAScore: winner, teamBScore: loser } : { teamAScore: loser, teamBScore: winner };
+}
+
+function playMatch(strengthGap: number): GameScore[] {
+  const first = playGame(strengthGap);
+  if (random() < 0.4) return [first];
+
+  const games = [first, playGame(strengthGap)];
+  const teamAGames = games.filter(game => game.teamAScore > game.teamBScore).length;
+  if (teamAGames === 1) games.push(playGame(strengthGap));
+  return games;
+}
+
+(async () => {
+  const force = process.argv.includes("--force");
+
+  await storage.migrate();
+  if (await storage.isInitialized()) {
+    if (!force) {
+      console.error("The club is already set up. Run `npm run seed -- --force` to replace all of its data with the demo club.");
+      process.exit(1);
+    }
+    console.log("Removing existing club data...");
+    await storage.resetAllData();
+  }
+
+  const manager = await storage.setupInitialManager({
+    managerName: "Club Manager",
+    managerSkillLevel: 6,
+    managerMobile: "+919845000001",
+  });
+
+  const seededPlayers: Player[] = [];
+  for (let index = 0; index < demoPlayers.length; index++) {
+    const [name, skillLevel] = demoPlayers[index];
+    seededPlayers.push(await storage.createPlayer({
+      name,
+      skillLevel,
+      role: "player",
+      mobileNumber: `+91984510${String(index + 1).padStart(4, "0")}`,
+    }));
+  }
+  // Changes wait for the manager, so the seeded levels stay put and the drifting players show up in the review queue
+  await storage.updateClubSettings({ skillAdjustmentMode: "review" }, manager.id);
+
+  const driftOf = new Map(seededPlayers.map((player, index) => [player.id, demoPlayers[index][2]]));
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const seasonStart = new Date(today.getTime() - SEED_WEEKS * 7 * 24 * 60 * 60 * 1000);
+
+  // Real form moves linearly from the starting level towards level + drift over the season
+  const formOf = (player: Player, playedAt: Date) => {
+    const progress = (playedAt.getTime() - seasonStart.getTime()) / (today.getTime() - seasonStart.getTime());
+    return player.skillLevel + (driftOf.get(player.id) ?? 0) * progress + (random() - 0.5);
+  };
+  const teamForm = (team: Player[], playedAt: Date) =>
+    team.reduce((sum, player) => sum + formOf(player, playedAt), 0) / team.length;
+
+  const history: HistoricalMatch[] = [];
+  let sessionCount = 0;
+
+  for (let day = new Date(seasonStart); day < today; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    // Tuesday evenings and Saturday mornings
+    const weekday = day.getDay();
+    if (weekday !== 2 && weekday !== 6) continue;
+
+    const start = new Date(day);
+    start.setHours(weekday === 2 ? 18 : 8, weekday === 2 ? 30 : 0);
+    const courtCount = weekday === 2 ? 3 : 4;
+    const attendees = shuffle(seededPlayers, random).slice(0, 10 + Math.floor(random() * 7));
+
+    const session = await storage.createSession({
+      date: start,
+      venue: weekday === 2 ? "Kanteerava Indoor Stadium" : "Koramangala Club Courts",
+      courtCount,
+      organizerId: manager.id,
+      notes: null,
+      attendeeIds: attendees.map(player => player.id),
+    });
+    sessionCount++;
+
+    // Each round fills the courts with players of similar level, mostly doubles
+    const rounds = 3 + Math.floor(random() * 3);
+    for (let round = 0; round < rounds; round++) {
+      const playedAt = new Date(start.getTime() + round * MATCH_MINUTES * 60 * 1000);
+      const available = attendees
+        .map(player => ({ player, key: player.skillLevel + random() * 3 }))
+        .sort((a, b) => a.key - b.key)
+        .map(({ player }) => player);
+
+      for (let court = 0; court < courtCount; court++) {
+        const format: MatchFormat = random() < 0.15 ? "singles" : "doubles";
+        const size = format === "singles" ? 2 : 4;
+        const group = available.splice(0, size);
+        if (group.length < size) break;
+
+        // Split a doubles four as best and worst against the middle two
+        const [teamA, teamB] = format === "singles"
+          ? [[group[0]], [group[1]]]
+          : [[group[0], group[3]], [group[1], group[2]]];
+        const gap = teamForm(teamA, playedAt) - teamForm(teamB, playedAt);
+
+        history.push({
+          format,
+          sessionId: session.id,
+          teamA: teamA.map(player => player.id),
+          teamB: teamB.map(player => player.id),
+          games: playMatch(gap),
+          playedAt: new Date(playedAt.getTime() + court * 60 * 1000),
+        });
+      }
+    }
+  }
+
+  console.log(`Recording ${history.length} matches and replaying skill levels...`);
+  await storage.importMatches(history, manager.id);
+
+  const proposals = await storage.getSkillProposals("pending");
+  console.log(`Seeded ${seededPlayers.length} players, ${sessionCount} sessions and ${history.length} matches, with ${proposals.length} level changes waiting for review. Log in as ${manager.name}.`);
+  process.exit(0);
+})().catch(error => {
+  console.error("Seeding failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,283 @@
+import { defaultSkillPolicy, disciplineOf, type Discipline, type MatchDetails, type MatchFormat, type SkillPolicy } from "@shared/schema";
+import { bandedSkillLevel, rateMatch, ratingForSkillLevel, skillLevelBand, type Rating } from "./rating";
+
+// Deterministic replay of skill levels and ratings.
+//
+// Matches are processed once, in (playedAt, id) order. After each match the participants are
+// rated, and each participant's skill level follows the band their doubles rating is in.
+// Replaying the same matches from the same starting state always produces the same result, so
+// the replay can resume from any match using the state snapshotted after the matches before it:
+// each player's last match in each discipline is all it needs of the earlier history.
+// Levels a manager set by hand are applied between the matches, at the time they were set, and
+// move the player's doubles rating into the level's band.
+//
+// Singles and doubles are rated on separate tracks. Skill levels drive doubles pairing, so only
+// doubles ratings move them.
+
+export type ReplayMatch = Pick<MatchDetails, "id" | "format" | "teamA" | "teamB" | "teamAScore" | "teamBScore" | "winnerId" | "playedAt">;
+
+export interface PlayerSkillState extends Rating {
+  skillLevel: number;
+  matchesPlayed: number;
+}
+
+// A participant's state straight after a match
+export interface MatchSnapshot extends PlayerSkillState {
+  matchId: number;
+  playerId: number;
+}
+
+export interface SkillLevelEvent {
+  matchId: number;
+  playerId: number;
+  oldLevel: number;
+  newLevel: number;
+}
+
+// A change the results call for but that waits for a manager (review mode)
+export interface SkillProposalEvent extends SkillLevelEvent {
+  reason: string;
+}
+
+// A manager's answer to a proposal. An approval is applied whenever the replay reaches the same proposal again.
+export interface SkillDecision extends SkillLevelEvent {
+  approved: boolean;
+}
+
+// A level a manager set by hand. It replaces whatever the results before it produced, from the moment
+// it was made, and the player's doubles rating is moved into its band.
+export interface SkillOverride {
+  playerId: number;
+  level: number;
+  at: Date;
+}
+
+export function participantIds(match: Pick<ReplayMatch, "teamA" | "teamB">): number[] {
+  return [...match.teamA, ...match.teamB];
+}
+
+// Chronological order used everywhere matches are replayed
+export function compareMatchOrder(a: { playedAt: Date; id: number }, b: { playedAt: Date; id: number }): number {
+  return new Date(a.playedAt).getTime() - new Date(b.playedAt).getTime() || a.id - b.id;
+}
+
+export type RatingState = Rating & { matchesPlayed: number };
+
+// Where a player's doubles rating puts their skill level. Shared by the replay, the suggestion list and
+// player stats so they always agree. Skill levels only follow the rating once a player has `autoUpdateMatches`
+// rated doubles matches; with fewer (but at least `suggestionMatches`) it is a suggestion.
+export function evaluateRating(skillLevel: number, doubles: RatingState, policy: SkillPolicy = defaultSkillPolicy) {
+  // Skip players without enough matches for a suggestion
+  if (doubles.matchesPlayed < policy.suggestionMatches) return null;
+
+  return {
+    rating: doubles.rating,
+    ratingDeviation: doubles.ratingDeviation,
+    suggestedLevel: bandedSkillLevel(doubles.rating, skillLevel, policy.bandMargin),
+    shouldAutoUpdate: doubles.matchesPlayed >= policy.autoUpdateMatches,
+    matchesPlayed: doubles.matchesPlayed,
+  };
+}
+
+export type RatingEvaluation = NonNullable<ReturnType<typeof evaluateRating>>;
+
+function describeBand(skillLevel: number): string {
+  const { min, max } = skillLevelBand(skillLevel);
+  if (min === -Infinity) return `below ${max}`;
+  if (max === Infinity) return `${min} and up`;
+  return `${min}-${max - 1}`;
+}
+
+// The reason shown with a suggestion or a proposed change, wherever it comes from
+export function describeEvaluation(evaluation: RatingEvaluation, skillLevel: number): string {
+  const rating = `Doubles rating ${Math.round(evaluation.rating)} ±${Math.round(evaluation.ratingDeviation)} after ${evaluation.matchesPlayed} matches`;
+  if (evaluation.suggestedLevel === skillLevel) {
+    return `${rating} fits level ${skillLevel}. Current level appropriate.`;
+  }
+  return `${rating} is in the level ${evaluation.suggestedLevel} band (${describeBand(evaluation.suggestedLevel)}). ${
+    evaluation.suggestedLevel > skillLevel ? `Ready for level ${evaluation.suggestedLevel}.` : `Level ${evaluation.suggestedLevel} may suit better.`
+  }`;
+}
+
+export class SkillReplay {
+  private levels = new Map<number, number>();
+  private ratings: Record<Discipline, Map<number, RatingState>> = { doubles: new Map(), singles: new Map() };
+
+  private decisions: Map<string, SkillDecision> | null;
+  // Each player's manual overrides in time order, and how many of them the replay has passed
+  private overrides = new Map<number, SkillOverride[]>();
+  private overridesPassed = new Map<number, number>();
+  // Overrides passed in the history after a player's last doubles match there, whose rating change the
+  // seeded doubles rating doesn't include yet
+  private pendingRatingOverrides = new Map<number, number>();
+
+  // `initialState` supplies the state of a player who has no snapshot to resume from. With `decisions`
+  // the replay runs in review mode: levels only move where a manager approved the change, and every
+  // other change the results call for comes back as a proposal. `overrides` are applied in time
+  // order between the matches.
+  constructor(private initialState: (playerId: number) => PlayerSkillState, private policy: SkillPolicy = defaultSkillPolicy, decisions?: SkillDecision[], overrides: SkillOverride[] = []) {
+    this.decisions = decisions ? new Map(decisions.map(decision => [`${decision.matchId}:${decision.playerId}`, decision])) : null;
+    for (const override of [...overrides].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())) {
+      this.overrides.set(override.playerId, [...this.overrides.get(override.playerId) ?? [], override]);
+    }
+  }
+
+  // Resume a player's skill level from the snapshot of their last match before the replay starts
+  seedLevel(playerId: number, skillLevel: number) {
+    this.levels.set(playerId, skillLevel);
+  }
+
+  // Resume a player's rating in one discipline from the snapshot of their last match in it
+  seedRating(playerId: number, discipline: Discipline, state: RatingState) {
+    this.ratings[discipline].set(playerId, { ...state });
+  }
+
+  // Record a player's last match in a discipline before the replay starts, oldest first. The seeded level
+  // already includes the overrides made before it, and so does the seeded doubles rating when it is a
+  // doubles match.
+  addHistory(playerId: number, discipline: Discipline, playedAt: Date) {
+    this.passOverrides(playerId, playedAt, false);
+    if (discipline === "doubles") this.pendingRatingOverrides.delete(playerId);
+  }
+
+  // Apply the overrides made after the last match, once every match has been applied
+  finish() {
+    this.applyPendingRatingOverrides();
+    this.overrides.forEach((_, playerId) => this.passOverrides(playerId, null, true));
+  }
+
+  stateOf(playerId: number, discipline: Discipline = "doubles"): PlayerSkillState {
+    return { ...this.ratingOf(playerId, discipline), skillLevel: this.levelOf(playerId) };
+  }
+
+  apply(match: ReplayMatch): { snapshots: MatchSnapshot[]; events: SkillLevelEvent[]; proposals: SkillProposalEvent[] } {
+    const discipline = disciplineOf(match.format);
+    const ids = participantIds(match);
+    this.applyPendingRatingOverrides();
+    ids.forEach(playerId => this.passOverrides(playerId, match.playedAt, true));
+    const before = ids.map(playerId => this.ratingOf(playerId, discipline));
+
+    const result = rateMatch(before.slice(0, match.teamA.length), before.slice(match.teamA.length), match.winnerId);
+    const rated = [...result.teamA, ...result.teamB];
+    ids.forEach((playerId, i) => {
+      this.ratings[discipline].set(playerId, { ...rated[i], matchesPlayed: before[i].matchesPlayed + 1 });
+    });
+
+    const events: SkillLevelEvent[] = [];
+    const proposals: SkillProposalEvent[] = [];
+    if (discipline === "doubles") {
+      for (const playerId of ids) {
+        const skillLevel = this.levelOf(playerId);
+        const evaluation = evaluateRating(skillLevel, this.ratingOf(playerId, "doubles"), this.policy);
+        if (!evaluation?.shouldAutoUpdate || evaluation.suggestedLevel === skillLevel) continue;
+
+        const event = { matchId: match.id, playerId, oldLevel: skillLevel, newLevel: evaluation.suggestedLevel };
+        const decision = this.decisions?.get(`${match.id}:${playerId}`);
+        if (!this.decisions || (decision?.approved && decision.oldLevel === event.oldLevel && decision.newLevel === event.newLevel)) {
+          events.push(event);
+        } else if (!decision) {
+          proposals.push({ ...event, reason: describeEvaluation(evaluation, skillLevel) });
+        }
+      }
+      for (const event of events) {
+        this.levels.set(event.playerId, event.newLevel);
+      }
+    }
+
+    const snapshots = ids.map(playerId => ({ ...this.stateOf(playerId, discipline), matchId: match.id, playerId }));
+    return { snapshots, events, proposals };
+  }
+
+  private levelOf(playerId: number): number {
+    let level = this.levels.get(playerId);
+    if (level === undefined) {
+      level = this.initialState(playerId).skillLevel;
+      this.levels.set(playerId, level);
+    }
+    return level;
+  }
+
+  private ratingOf(playerId: number, discipline: Discipline): RatingState {
+    let state = this.ratings[discipline].get(playerId);
+    if (!state) {
+      const { rating, ratingDeviation, volatility, matchesPlayed } = this.initialState(playerId);
+      state = { rating, ratingDeviation, volatility, matchesPlayed };
+      this.ratings[discipline].set(playerId, state);
+    }
+    return state;
+  }
+
+  // Move past a player's overrides made up to `until` (all of them when null), setting the level and
+  // moving the doubles rating into its band - unless they come before the seeded state, which holds the
+  // level already and leaves the rating change pending until the history shows otherwise
+  private passOverrides(playerId: number, until: Date | null, apply: boolean) {
+    const overrides = this.overrides.get(playerId);
+    if (!overrides) return;
+    let passed = this.overridesPassed.get(playerId) ?? 0;
+    while (passed < overrides.length && (until === null || new Date(overrides[passed].at).getTime() <= new Date(until).getTime())) {
+      const { level } = overrides[passed];
+      if (apply) {
+        this.levels.set(playerId, level);
+        this.overrideRating(playerId, level);
+      } else {
+        this.pendingRatingOverrides.set(playerId, level);
+      }
+      passed++;
+    }
+    this.overridesPassed.set(playerId, passed);
+  }
+
+  private applyPendingRatingOverrides() {
+    this.pendingRatingOverrides.forEach((level, playerId) => this.overrideRating(playerId, level));
+    this.pendingRatingOverrides.clear();
+  }
+
+  private overrideRating(playerId: number, level: number) {
+    const state = this.ratingOf(playerId, "doubles");
+    this.ratings.doubles.set(playerId, { ...ratingForSkillLevel(state, level), matchesPlayed: state.matchesPlayed });
+  }
+}
+
+// A player's state after their last match in one discipline before a replay starts
+export interface ResumePoint {
+  snapshot: MatchSnapshot;
+  format: MatchFormat;
+  playedAt: Date;
+}
+
+export interface ReplayOutcome<M extends ReplayMatch> {
+  isFullReplay: boolean;
+  replayedMatches: M[];
+  snapshots: MatchSnapshot[];
+  events: SkillLevelEvent[];
+  proposals: SkillProposalEvent[];
+}
+
+// Replay `matches`, in replay order. With `resumeFrom` - each player's last snapshot in each discipline
+// before the first of them - the replay picks up where those left off; without, `matches` is the whole history.
+export function runReplay<M extends ReplayMatch>(replay: SkillReplay, matches: M[], resumeFrom: ResumePoint[] | null): ReplayOutcome<M> {
+  const pointsByPlayer = new Map<number, ResumePoint[]>();
+  for (const point of resumeFrom ?? []) {
+    const { playerId, rating, ratingDeviation, volatility, matchesPlayed } = point.snapshot;
+    replay.seedRating(playerId, disciplineOf(point.format), { rating, ratingDeviation, volatility, matchesPlayed });
+    pointsByPlayer.set(playerId, [...pointsByPlayer.get(playerId) ?? [], point]);
+  }
+  pointsByPlayer.forEach((points, playerId) => {
+    const ordered = points.sort((a, b) => compareMatchOrder({ playedAt: a.playedAt, id: a.snapshot.matchId }, { playedAt: b.playedAt, id: b.snapshot.matchId }));
+    // The level is the one after their last match in either discipline
+    replay.seedLevel(playerId, ordered[ordered.length - 1].snapshot.skillLevel);
+    ordered.forEach(point => replay.addHistory(playerId, disciplineOf(point.format), point.playedAt));
+  });
+
+  const snapshots: MatchSnapshot[] = [];
+  const events: SkillLevelEvent[] = [];
+  const proposals: SkillProposalEvent[] = [];
+  for (const match of matches) {
+    const result = replay.apply(match);
+    snapshots.push(...result.snapshots);
+    events.push(...result.events);
+    proposals.push(...result.proposals);
+  }
+  replay.finish();
+  return { isFullReplay: resumeFrom === null, replayedMatches: matches, snapshots, events, proposals };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { ConsoleSmsProvider, TwilioSmsProvider, createSmsProvider } from "./sms-service";
+
+const twilio = { TWILIO_ACCOUNT_SID: "AC123", TWILIO_AUTH_TOKEN: "token", TWILIO_PHONE_NUMBER: "+15550000000" };
+
+describe("createSmsProvider", () => {
+  it("uses Twilio when its credentials are set and the console otherwise in development", () => {
+    expect(createSmsProvider({ ...twilio, NODE_ENV: "production" })).toBeInstanceOf(TwilioSmsProvider);
+    expect(createSmsProvider({ NODE_ENV: "development" })).toBeInstanceOf(ConsoleSmsProvider);
+  });
+
+  it("refuses to fall back to the console in production", () => {
+    expect(() => createSmsProvider({ NODE_ENV: "production" })).toThrow(/No SMS transport configured/);
+    expect(createSmsProvider({ NODE_ENV: "production", SMS_PROVIDER: "console" })).toBeInstanceOf(ConsoleSmsProvider);
+  });
+
+  it("rejects unknown or incomplete transports", () => {
+    expect(() => createSmsProvider({ SMS_PROVIDER: "pigeon" })).toThrow(/Unknown SMS_PROVIDER/);
+    expect(() => createSmsProvider({ SMS_PROVIDER: "webhook" })).toThrow(/SMS_WEBHOOK_URL/);
+  });
+});
@@ -1,32 +1,131 @@
 import twilio from 'twilio';
+import { appendFile } from 'fs/promises';
+import path from 'path';
+import { randomInt } from 'crypto';
 
-const client = twilio(
-  process.env.TWILIO_ACCOUNT_SID,
-  process.env.TWILIO_AUTH_TOKEN
-);
+// Anything that can deliver a text message to a mobile number
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, body: string): Promise<boolean>;
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  private client: ReturnType<typeof twilio>;
 
-const fromNumber = process.env.TWILIO_PHONE_NUMBER;
+  constructor(accountSid: string, authToken: string, private fromNumber: string) {
+    this.client = twilio(accountSid, authToken);
+  }
 
-export class SMSService {
-  async sendOTP(mobileNumber: string, code: string): Promise<boolean> {
+  async send(to: string, body: string): Promise<boolean> {
     try {
-      const message = await client.messages.create({
-        body: `Your Kanteeravas Badminton Club verification code is: ${code}. Valid for 5 minutes.`,
-        from: fromNumber,
-        to: mobileNumber
+      const message = await this.client.messages.create({
+        body,
+        from: this.fromNumber,
+        to
       });
 
-      console.log(`SMS sent successfully to ${mobileNumber}. SID: ${message.sid}`);
+      console.log(`SMS sent successfully to ${to}. SID: ${message.sid}`);
       return true;
     } catch (error) {
       console.error('Failed to send SMS:', error);
       return false;
     }
   }
+}
+
+// Prints messages to the server log - for local development without an SMS account
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  async send(to: string, body: string): Promise<boolean> {
+    console.log(`[sms:console] To ${to}: ${body}`);
+    return true;
+  }
+}
+
+// Appends each message as a JSON line to a local outbox file
+export class FileOutboxSmsProvider implements SmsProvider {
+  readonly name = 'file';
 
-  generateOTP(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  constructor(private outboxPath: string) {}
+
+  async send(to: string, body: string): Promise<boolean> {
+    try {
+      const entry = { to, body, sentAt: new Date().toISOString() };
+      await appendFile(this.outboxPath, JSON.stringify(entry) + '\n', 'utf8');
+      console.log(`[sms:file] Message to ${to} written to ${this.outboxPath}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to write SMS to outbox:', error);
+      return false;
+    }
   }
 }
 
-export const smsService = new SMSService();
\ No newline at end of file
+// POSTs { to, body } as JSON to a gateway URL, for clubs using another SMS vendor
+export class WebhookSmsProvider implements SmsProvider {
+  readonly name = 'webhook';
+
+  constructor(private url: string, private authToken?: string) {}
+
+  async send(to: string, body: string): Promise<boolean> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {}),
+        },
+        body: JSON.stringify({ to, body }),
+      });
+
+      if (!response.ok) {
+        console.error(`SMS webhook responded with ${response.status}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to call SMS webhook:', error);
+      return false;
+    }
+  }
+}
+
+// Select the transport from SMS_PROVIDER (twilio | console | file | webhook).
+// Without an explicit choice, Twilio is used when its credentials are present, otherwise the console
+// outside production. A production server never falls back to printing login codes to its log.
+export function createSmsProvider(env: NodeJS.ProcessEnv = process.env): SmsProvider {
+  const hasTwilioCredentials = !!(env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_PHONE_NUMBER);
+  if (!env.SMS_PROVIDER && !hasTwilioCredentials && env.NODE_ENV === 'production') {
+    throw new Error("No SMS transport configured: set the Twilio credentials or SMS_PROVIDER");
+  }
+  const providerName = env.SMS_PROVIDER || (hasTwilioCredentials ? 'twilio' : 'console');
+
+  switch (providerName) {
+    case 'twilio':
+      if (!hasTwilioCredentials) {
+        throw new Error("SMS_PROVIDER=twilio requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER");
+      }
+      return new TwilioSmsProvider(env.TWILIO_ACCOUNT_SID!, env.TWILIO_AUTH_TOKEN!, env.TWILIO_PHONE_NUMBER!);
+    case 'console':
+      return new ConsoleSmsProvider();
+    case 'file':
+      return new FileOutboxSmsProvider(path.resolve(env.SMS_OUTBOX_FILE || 'sms-outbox.log'));
+    case 'webhook':
+      if (!env.SMS_WEBHOOK_URL) {
+        throw new Error("SMS_PROVIDER=webhook requires SMS_WEBHOOK_URL");
+      }
+      return new WebhookSmsProvider(env.SMS_WEBHOOK_URL, env.SMS_WEBHOOK_TOKEN);
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${providerName}". Use twilio, console, file or webhook.`);
+  }
+}
+
+export function formatOTPMessage(code: string): string {
+  return `Your Kanteeravas Badminton Club verification code is: ${code}. Valid for 5 minutes.`;
+}
+
+export function generateOTP(): string {
+  return randomInt(0, 1000000).toString().padStart(6, '0');
+}
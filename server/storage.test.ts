@@ -0,0 +1,673 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { GameScore, HistoricalMatch, Player } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import { createRandom, shuffle } from "./matchmaking";
+import { compareMatchOrder } from "./skill-replay";
+import { ratingToSkillLevel, skillLevelBand, skillLevelToRating } from "./rating";
+import type { SmsProvider } from "./sms-service";
+
+// The IStorage contract, run against both backends. DatabaseStorage runs on an in-memory PGlite
+// database with the checked-in migrations applied.
+
+// Keeps every message so OTP tests can read the code back
+class OutboxSmsProvider implements SmsProvider {
+  readonly name = "outbox";
+  sent: Array<{ to: string; body: string }> = [];
+
+  async send(to: string, body: string): Promise<boolean> {
+    this.sent.push({ to, body });
+    return true;
+  }
+
+  lastCode(to: string): string {
+    const message = [...this.sent].reverse().find(entry => entry.to === to);
+    return message!.body.match(/code is: (\d{6})/)![1];
+  }
+}
+
+interface Backend {
+  storage: IStorage;
+  sms: OutboxSmsProvider;
+  reset(): Promise<void>; // back to an empty, freshly migrated club
+  close(): Promise<void>;
+}
+
+async function memoryBackend(): Promise<Backend> {
+  const backend: Backend = {
+    storage: null!,
+    sms: null!,
+    async reset() {
+      backend.sms = new OutboxSmsProvider();
+      backend.storage = new MemStorage(backend.sms);
+    },
+    async close() {},
+  };
+  await backend.reset();
+  return backend;
+}
+
+// Starting PGlite takes seconds, so one database serves the whole suite and is emptied between tests
+async function pgliteBackend(): Promise<Backend> {
+  const client = new PGlite();
+  const sms = new OutboxSmsProvider();
+  const storage = new DatabaseStorage(drizzle({ client, schema }), sms);
+  await storage.migrate();
+  return {
+    storage,
+    sms,
+    async reset() {
+      sms.sent = [];
+      const { rows } = await client.query<{ tablename: string }>("select tablename from pg_tables where schemaname = 'public'");
+      await client.exec(`truncate ${rows.map(row => `"${row.tablename}"`).join(", ")} restart identity`);
+    },
+    close: () => client.close(),
+  };
+}
+
+const backends: Array<[string, () => Promise<Backend>]> = [
+  ["MemStorage", memoryBackend],
+  ["DatabaseStorage on PGlite", pgliteBackend],
+];
+
+const win: GameScore = { teamAScore: 21, teamBScore: 12 };
+const loss: GameScore = { teamAScore: 15, teamBScore: 21 };
+
+async function createPlayers(storage: IStorage, levels: number[]): Promise<Player[]> {
+  const created: Player[] = [];
+  for (const [index, skillLevel] of levels.entries()) {
+    created.push(await storage.createPlayer({
+      name: `Player ${index + 1}`,
+      skillLevel,
+      role: "player",
+      mobileNumber: `+9198000${String(index + 1).padStart(5, "0")}`,
+    }));
+  }
+  return created;
+}
+
+// A season of doubles and singles between players of mixed levels, the same every time
+function generateHistory(roster: Player[], count: number): HistoricalMatch[] {
+  const random = createRandom(42);
+  const start = new Date("2024-01-06T09:00:00Z").getTime();
+  return Array.from({ length: count }, (_, index) => {
+    const singles = random() < 0.2;
+    const lineup = shuffle(roster, random).slice(0, singles ? 2 : 4);
+    const [teamA, teamB] = singles
+      ? [[lineup[0]], [lineup[1]]]
+      : [[lineup[0], lineup[1]], [lineup[2], lineup[3]]];
+    const strength = (team: Player[]) => team.reduce((sum, player) => sum + player.skillLevel, 0) / team.length;
+    const teamAWins = random() < 1 / (1 + Math.exp(strength(teamB) - strength(teamA)));
+    return {
+      format: singles ? "singles" as const : "doubles" as const,
+      sessionId: null,
+      teamA: teamA.map(player => player.id),
+      teamB: teamB.map(player => player.id),
+      games: [teamAWins ? win : loss],
+      playedAt: new Date(start + index * 60 * 60 * 1000),
+    };
+  });
+}
+
+// What a replay leaves behind, in a form both backends can be compared on
+async function skillState(storage: IStorage) {
+  const players = (await storage.getAllPlayers()).sort((a, b) => a.id - b.id);
+  const history = await Promise.all(players.map(player => storage.getSkillLevelHistory(player.id)));
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return {
+    players: players.map(({ id, skillLevel, originalSkillLevel }) => ({ id, skillLevel, originalSkillLevel })),
+    ratings: (await Promise.all(schema.disciplines.map(discipline => storage.getPlayerRatings(discipline))))
+      .flat()
+      .map(({ playerId, discipline, rating, ratingDeviation, volatility, matchesPlayed }) =>
+        ({ playerId, discipline, rating: round(rating), ratingDeviation: round(ratingDeviation), volatility: round(volatility), matchesPlayed }))
+      .sort((a, b) => a.playerId - b.playerId || a.discipline.localeCompare(b.discipline)),
+    history: history.flat().map(({ playerId, oldLevel, newLevel, cause, matchId }) => ({ playerId, oldLevel, newLevel, cause, matchId })),
+    proposals: (await storage.getSkillProposals())
+      .map(({ playerId, matchId, oldLevel, newLevel, status }) => ({ playerId, matchId, oldLevel, newLevel, status }))
+      .sort((a, b) => a.matchId - b.matchId || a.playerId - b.playerId),
+  };
+}
+
+describe.each(backends)("%s", (_name, createBackend) => {
+  let backend: Backend;
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    backend = await createBackend();
+  }, 60000);
+
+  beforeEach(async () => {
+    await backend.reset();
+    storage = backend.storage;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await backend.close();
+  });
+
+  describe("setup and players", () => {
+    it("is initialized once a manager exists", async () => {
+      expect(await storage.isInitialized()).toBe(false);
+      const manager = await storage.setupInitialManager({ managerName: "Manager", managerSkillLevel: 7, managerMobile: "+919800000001" });
+      expect(manager).toMatchObject({ name: "Manager", role: "manager", skillLevel: 7 });
+      expect(await storage.isInitialized()).toBe(true);
+    });
+
+    it("creates players at their original level and updates them", async () => {
+      const [player] = await createPlayers(storage, [4]);
+      expect(player).toMatchObject({ skillLevel: 4, originalSkillLevel: 4, role: "player", isActive: true });
+
+      const updated = await storage.updatePlayer(player.id, { name: "Renamed" });
+      expect(updated).toMatchObject({ id: player.id, name: "Renamed", skillLevel: 4 });
+      expect(await storage.getSkillLevelHistory(player.id)).toEqual([]);
+    });
+
+    it("soft-deletes players", async () => {
+      const [kept, removed] = await createPlayers(storage, [5, 5]);
+      expect(await storage.deletePlayer(removed.id)).toBe(true);
+
+      expect((await storage.getAllPlayers()).map(player => player.id)).toEqual([kept.id]);
+      expect(await storage.getPlayer(removed.id)).toMatchObject({ id: removed.id, isActive: false });
+      expect(await storage.deletePlayer(9999)).toBe(false);
+    });
+  });
+
+  describe("matches", () => {
+    it("derives the result from the games and keeps the line-up", async () => {
+      const [a1, a2, b1, b2] = await createPlayers(storage, [5, 5, 5, 5]);
+      const match = await storage.createMatch({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], games: [loss, win, win] });
+
+      expect(match).toMatchObject({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], winnerId: 1, teamAScore: 57, teamBScore: 45 });
+      expect(match.games.map(({ gameNumber, teamAScore, teamBScore }) => ({ gameNumber, teamAScore, teamBScore }))).toEqual([
+        { gameNumber: 1, ...loss },
+        { gameNumber: 2, ...win },
+        { gameNumber: 3, ...win },
+      ]);
+      expect(await storage.getMatch(match.id)).toEqual(match);
+      expect(await storage.getAllMatches()).toEqual([match]);
+    });
+
+    it("updates and deletes matches", async () => {
+      const [a, b, c] = await createPlayers(storage, [5, 5, 5]);
+      const match = await storage.createMatch({ format: "singles", teamA: [a.id], teamB: [b.id], games: [win] });
+
+      const updated = await storage.updateMatch(match.id, { teamB: [c.id], games: [loss] });
+      expect(updated).toMatchObject({ id: match.id, teamA: [a.id], teamB: [c.id], winnerId: 2 });
+
+      expect(await storage.deleteMatch(match.id)).toBe(true);
+      expect(await storage.getMatch(match.id)).toBeUndefined();
+      expect(await storage.deleteMatch(match.id)).toBe(false);
+    });
+  });
+
+  describe("skill recalculation", () => {
+    it("moves levels and ratings with results and rewinds them when matches go", async () => {
+      const [a1, a2, b1, b2] = await createPlayers(storage, [5, 5, 5, 5]);
+      const recorded = [];
+      for (let i = 0; i < 5; i++) {
+        recorded.push(await storage.createMatch({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], games: [win] }));
+      }
+
+      const winner = (await storage.getPlayer(a1.id))!;
+      const loser = (await storage.getPlayer(b1.id))!;
+      expect(winner.skillLevel).toBeGreaterThan(5);
+      expect(loser.skillLevel).toBeLessThan(5);
+      expect((await storage.getSkillLevelHistory(a1.id)).every(change => change.cause === "auto")).toBe(true);
+
+      const ratings = await storage.getPlayerRatings("doubles");
+      const ratingOf = (playerId: number) => ratings.find(rating => rating.playerId === playerId)!;
+      expect(ratingOf(a1.id)).toMatchObject({ matchesPlayed: 5 });
+      expect(ratingOf(a1.id).rating).toBeGreaterThan(ratingOf(b1.id).rating);
+
+      // A recalculation from scratch lands on the same state
+      const before = await skillState(storage);
+      await storage.recalculateAllSkillLevels();
+      expect((await skillState(storage)).players).toEqual(before.players);
+      expect((await skillState(storage)).ratings).toEqual(before.ratings);
+
+      for (const match of recorded) {
+        await storage.deleteMatch(match.id);
+      }
+      expect((await storage.getAllPlayers()).map(player => player.skillLevel)).toEqual([5, 5, 5, 5]);
+      expect(await storage.getPlayerRatings("doubles")).toEqual([]);
+    });
+
+    it("replays from the earliest changed match to the same state as a full recalculation", async () => {
+      const roster = await createPlayers(storage, [3, 4, 5, 5, 6, 7]);
+      const history = generateHistory(roster, 30);
+      await storage.importMatches(history.slice(0, 20));
+
+      // A match played between earlier ones, newer matches, then an edit and a deletion in the middle
+      await storage.importMatches([{ ...history[25], playedAt: new Date(history[5].playedAt.getTime() + 1000) }]);
+      for (const { playedAt, ...match } of history.slice(20)) {
+        await storage.createMatch(match);
+      }
+      const recorded = (await storage.getAllMatches()).sort(compareMatchOrder);
+      const [edited] = recorded[8].games;
+      await storage.updateMatch(recorded[8].id, { games: [edited.teamAScore > edited.teamBScore ? loss : win] });
+      await storage.deleteMatch(recorded[12].id);
+
+      const replayed = await skillState(storage);
+      await storage.recalculateAllSkillLevels();
+      const recalculated = await skillState(storage);
+      expect(recalculated.players).toEqual(replayed.players);
+      expect(recalculated.ratings).toEqual(replayed.ratings);
+    });
+
+    it("keeps a manual level through the matches recorded after it", async () => {
+      const [a1, a2, b1, b2] = await createPlayers(storage, [5, 5, 5, 5]);
+      await storage.createMatch({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], games: [win] });
+
+      // The edit is placed in time between the matches; keep it off the first match's millisecond
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.updatePlayer(a1.id, { skillLevel: 8 });
+      const doublesRating = async () => (await storage.getPlayerRatings("doubles")).find(rating => rating.playerId === a1.id)!;
+      expect(await doublesRating()).toMatchObject({ rating: skillLevelToRating(8), matchesPlayed: 1 });
+
+      await storage.createMatch({ format: "doubles", teamA: [a1.id, b1.id], teamB: [a2.id, b2.id], games: [loss] });
+      expect((await storage.getPlayer(a1.id))!.skillLevel).toBe(8);
+      expect((await storage.getSkillLevelHistory(a1.id)).map(({ oldLevel, newLevel, cause }) => ({ oldLevel, newLevel, cause }))).toEqual([
+        { oldLevel: 5, newLevel: 8, cause: "manual" },
+      ]);
+
+      // A replay from scratch applies it at the time it was made, and the level follows the rating on from there
+      const { rating: ratingBefore, ratingDeviation, volatility } = await doublesRating();
+      await storage.recalculateAllSkillLevels();
+      expect((await storage.getPlayer(a1.id))!.skillLevel).toBe(8);
+      expect(await doublesRating()).toMatchObject({ rating: ratingBefore, ratingDeviation, volatility });
+      for (let i = 0; i < 4; i++) {
+        await storage.createMatch({ format: "doubles", teamA: [a1.id, b1.id], teamB: [a2.id, b2.id], games: [loss] });
+      }
+      const { rating } = await doublesRating();
+      expect(rating).toBeLessThan(skillLevelBand(8).min);
+      expect((await storage.getPlayer(a1.id))!.skillLevel).toBe(ratingToSkillLevel(rating));
+    });
+
+    it("resumes a replay from a manual level set after a player's last doubles match", async () => {
+      const [a1, a2, b1, b2] = await createPlayers(storage, [5, 5, 5, 5]);
+      await storage.createMatch({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], games: [win] });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.updatePlayer(a1.id, { skillLevel: 8 });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.createMatch({ format: "singles", teamA: [a1.id], teamB: [b1.id], games: [win] });
+      const last = await storage.createMatch({ format: "doubles", teamA: [a1.id, b1.id], teamB: [a2.id, b2.id], games: [loss] });
+
+      // Editing the last match resumes from a doubles rating snapshotted before the edit, which must still move into level 8's band
+      await storage.updateMatch(last.id, { games: [win] });
+      const resumed = await skillState(storage);
+      await storage.recalculateAllSkillLevels();
+      expect(await skillState(storage)).toEqual(resumed);
+    });
+
+    it("resets every active player to level 5 and records the levels it moved", async () => {
+      const [low, even, high, gone] = await createPlayers(storage, [3, 5, 8, 9]);
+      await storage.deletePlayer(gone.id);
+      await storage.resetAllPlayersToLevel5();
+
+      for (const player of [low, even, high]) {
+        expect(await storage.getPlayer(player.id)).toMatchObject({ skillLevel: 5, originalSkillLevel: 5, previousSkillLevel: player.skillLevel });
+      }
+      expect((await storage.getPlayer(gone.id))!.skillLevel).toBe(9);
+      const causes = async (playerId: number) => (await storage.getSkillLevelHistory(playerId)).map(({ oldLevel, newLevel, cause }) => ({ oldLevel, newLevel, cause }));
+      expect(await causes(low.id)).toEqual([{ oldLevel: 3, newLevel: 5, cause: "reset" }]);
+      expect(await causes(even.id)).toEqual([]);
+      expect(await causes(high.id)).toEqual([{ oldLevel: 8, newLevel: 5, cause: "reset" }]);
+    });
+
+    it("holds changes for review and applies approved ones", async () => {
+      const manager = await storage.setupInitialManager({ managerName: "Manager", managerSkillLevel: 5, managerMobile: "+919800000001" });
+      await storage.updateClubSettings({ skillAdjustmentMode: "review" }, manager.id);
+      const [a1, a2, b1, b2] = await createPlayers(storage, [5, 5, 5, 5]);
+      for (let i = 0; i < 5; i++) {
+        await storage.createMatch({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], games: [win] });
+      }
+
+      expect((await storage.getPlayer(a1.id))!.skillLevel).toBe(5);
+      const pending = await storage.getSkillProposals("pending");
+      const proposal = pending.find(entry => entry.playerId === a1.id)!;
+      expect(proposal).toMatchObject({ oldLevel: 5, status: "pending" });
+      expect(proposal.newLevel).toBeGreaterThan(5);
+
+      const decided = await storage.decideSkillProposal(proposal.id, true, manager.id);
+      expect(decided).toMatchObject({ status: "approved", decidedBy: manager.id });
+      expect((await storage.getPlayer(a1.id))!.skillLevel).toBe(proposal.newLevel);
+      expect(await storage.decideSkillProposal(proposal.id, false, manager.id)).toBeUndefined();
+    });
+  });
+
+  describe("sessions and attendance", () => {
+    it("tracks who is checked in", async () => {
+      const [organizer, early, late] = await createPlayers(storage, [5, 5, 5]);
+      const session = await storage.createSession({
+        date: new Date("2024-03-05T18:30:00Z"),
+        venue: "Main Hall",
+        courtCount: 2,
+        organizerId: organizer.id,
+        notes: null,
+        attendeeIds: [organizer.id, early.id],
+      });
+      expect(session).toMatchObject({ venue: "Main Hall", courtCount: 2 });
+
+      await storage.checkIn(session.id, late.id, organizer.id);
+      await storage.checkOut(session.id, early.id);
+      const available = await storage.getAvailablePlayers(session.id);
+      expect(available.map(player => player.id).sort()).toEqual([organizer.id, late.id].sort());
+
+      expect(await storage.deleteSession(session.id)).toBe(true);
+      expect(await storage.getSession(session.id)).toBeUndefined();
+    });
+  });
+
+  describe("tournaments", () => {
+    it("advances teams through a double elimination draw and replays a grand final the losers bracket wins", async () => {
+      const players = await createPlayers(storage, [5, 5, 5, 5]);
+      const { id } = await storage.createTournament({ name: "Club Cup", format: "double_elimination", matchFormat: "singles", seeding: "rating", groupCount: 1 });
+      for (const player of players) {
+        await storage.addTournamentTeam(id, [player.id]);
+      }
+      await storage.startTournament(id);
+
+      // Record the match the draw is waiting on, won by the team in the given slot
+      const play = async (bracket: string, round: number, position: number, winner: "A" | "B") => {
+        const { teams, matches } = (await storage.getTournament(id))!;
+        const drawn = matches.find(match => match.bracket === bracket && match.round === round && match.position === position)!;
+        const playerOf = (teamId: number | null) => teams.find(team => team.id === teamId)!.player1Id;
+        const result = await storage.createMatch({ format: "singles", teamA: [playerOf(drawn.teamAId)], teamB: [playerOf(drawn.teamBId)], games: [winner === "A" ? win : loss] });
+        return { winnerTeamId: winner === "A" ? drawn.teamAId : drawn.teamBId, loserTeamId: winner === "A" ? drawn.teamBId : drawn.teamAId, matchId: result.id };
+      };
+      const slotsOf = async (bracket: string, round: number) => {
+        const { matches } = (await storage.getTournament(id))!;
+        return matches.filter(match => match.bracket === bracket && match.round === round).map(({ teamAId, teamBId }) => [teamAId, teamBId]);
+      };
+
+      const semi1 = await play("winners", 1, 1, "A");
+      const semi2 = await play("winners", 1, 2, "B");
+      expect(await slotsOf("winners", 2)).toEqual([[semi1.winnerTeamId, semi2.winnerTeamId]]);
+      expect(await slotsOf("losers", 1)).toEqual([[semi1.loserTeamId, semi2.loserTeamId]]);
+
+      const winnersFinal = await play("winners", 2, 1, "A");
+      const losersFirst = await play("losers", 1, 1, "A");
+      expect(await slotsOf("losers", 2)).toEqual([[losersFirst.winnerTeamId, winnersFinal.loserTeamId]]);
+      const losersFinal = await play("losers", 2, 1, "B");
+      expect(await slotsOf("final", 1)).toEqual([[winnersFinal.winnerTeamId, losersFinal.winnerTeamId]]);
+
+      // The losers bracket champion takes the grand final, so the two meet again
+      const grandFinal = await play("final", 1, 1, "B");
+      expect(await slotsOf("final", 2)).toEqual([[winnersFinal.winnerTeamId, losersFinal.winnerTeamId]]);
+      expect((await storage.getTournament(id))!.status).toBe("in_progress");
+      expect(await storage.isTournamentResultLocked(grandFinal.matchId)).toBe(false);
+
+      const reset = await play("final", 2, 1, "A");
+      expect((await storage.getTournament(id))!.status).toBe("completed");
+      expect(await storage.isTournamentResultLocked(grandFinal.matchId)).toBe(true);
+
+      // Taking the deciding result back reopens the tournament; the first grand final is then free to go
+      await storage.deleteMatch(reset.matchId);
+      expect((await storage.getTournament(id))!.status).toBe("in_progress");
+      await storage.deleteMatch(grandFinal.matchId);
+      expect(await slotsOf("final", 2)).toEqual([]);
+    });
+  });
+
+  describe("ladders", () => {
+    it("gives the rung to the challengers when a challenge is declined", async () => {
+      const [top, second, third] = await createPlayers(storage, [5, 5, 5]);
+      const ladder = await storage.createLadder({ name: "Singles Ladder", matchFormat: "singles", challengeRange: 3, challengeDays: 7 });
+      const [topEntry, , thirdEntry] = [
+        await storage.addLadderEntry(ladder.id, [top.id]),
+        await storage.addLadderEntry(ladder.id, [second.id]),
+        await storage.addLadderEntry(ladder.id, [third.id]),
+      ];
+
+      const challenge = await storage.createChallenge(ladder.id, thirdEntry.id, topEntry.id, third.id);
+      expect(await storage.respondToChallenge(challenge.id, false)).toMatchObject({ status: "declined", winnerEntryId: thirdEntry.id });
+      expect(await storage.respondToChallenge(challenge.id, true)).toBeUndefined();
+
+      const details = await storage.getLadder(ladder.id);
+      expect(details!.entries.map(entry => entry.player1Id)).toEqual([third.id, second.id, top.id]);
+    });
+
+    it("takes a result back only while both entries still hold the rungs it gave them", async () => {
+      const [first, second, third, fourth] = await createPlayers(storage, [5, 5, 5, 5]);
+      const ladder = await storage.createLadder({ name: "Singles Ladder", matchFormat: "singles", challengeRange: 3, challengeDays: 7 });
+      const entries = [];
+      for (const player of [first, second, third, fourth]) {
+        entries.push(await storage.addLadderEntry(ladder.id, [player.id]));
+      }
+      const rungs = async () => (await storage.getLadder(ladder.id))!.entries.map(entry => entry.player1Id);
+
+      await storage.createChallenge(ladder.id, entries[2].id, entries[0].id, third.id);
+      const upset = await storage.createMatch({ format: "singles", teamA: [third.id], teamB: [first.id], games: [win] });
+      expect(await rungs()).toEqual([third.id, second.id, first.id, fourth.id]);
+
+      // Nothing has moved since, so deleting the match puts both back
+      expect(await storage.isLadderResultLocked(upset.id)).toBe(false);
+      await storage.deleteMatch(upset.id);
+      expect(await rungs()).toEqual([first.id, second.id, third.id, fourth.id]);
+
+      // Played again, then a later challenge moves the loser on
+      const replayed = await storage.createMatch({ format: "singles", teamA: [third.id], teamB: [first.id], games: [win] });
+      await storage.createChallenge(ladder.id, entries[3].id, entries[0].id, fourth.id);
+      const later = await storage.createMatch({ format: "singles", teamA: [fourth.id], teamB: [first.id], games: [win] });
+      const settledLadder = [third.id, second.id, fourth.id, first.id];
+      expect(await rungs()).toEqual(settledLadder);
+
+      expect(await storage.isLadderResultLocked(replayed.id)).toBe(true);
+      await expect(storage.deleteMatch(replayed.id)).rejects.toThrow();
+      expect(await rungs()).toEqual(settledLadder);
+      expect(await storage.getMatch(replayed.id)).toBeDefined();
+
+      // Someone leaving shifts the rungs, which locks the later result too
+      expect(await storage.isLadderResultLocked(later.id)).toBe(false);
+      await storage.removeLadderEntry(ladder.id, entries[1].id);
+      expect(await storage.isLadderResultLocked(later.id)).toBe(true);
+    });
+  });
+
+  describe("OTP codes", () => {
+    it("sends a code, enforces the cooldown and counts wrong guesses", async () => {
+      const [player] = await createPlayers(storage, [5]);
+      expect(await storage.sendOTP(player.id)).toMatchObject({ status: "sent" });
+      expect(await storage.sendOTP(player.id)).toMatchObject({ status: "cooldown" });
+
+      const code = backend.sms.lastCode(player.mobileNumber);
+      const wrong = code === "000000" ? "111111" : "000000";
+      expect(await storage.verifyOTP(player.id, wrong)).toEqual({ status: "invalid", attemptsRemaining: 4 });
+      expect(await storage.verifyOTP(player.id, code)).toEqual({ status: "verified" });
+      expect(await storage.verifyOTP(player.id, code)).toEqual({ status: "expired" });
+    });
+
+    it("burns a code after five wrong guesses", async () => {
+      const [player] = await createPlayers(storage, [5]);
+      await storage.sendOTP(player.id);
+      const code = backend.sms.lastCode(player.mobileNumber);
+      const wrong = code === "000000" ? "111111" : "000000";
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        expect(await storage.verifyOTP(player.id, wrong)).toEqual({ status: "invalid", attemptsRemaining: 5 - attempt });
+      }
+      expect(await storage.verifyOTP(player.id, wrong)).toEqual({ status: "expired" });
+      expect(await storage.verifyOTP(player.id, code)).toEqual({ status: "expired" });
+    });
+
+    it("counts wrong guesses sent at the same moment one by one", async () => {
+      const [player] = await createPlayers(storage, [5]);
+      await storage.sendOTP(player.id);
+      const code = backend.sms.lastCode(player.mobileNumber);
+      const wrong = code === "000000" ? "111111" : "000000";
+
+      const results = await Promise.all(Array.from({ length: 10 }, () => storage.verifyOTP(player.id, wrong)));
+      const remaining = results.flatMap(result => result.status === "invalid" ? [result.attemptsRemaining] : []);
+      expect(remaining.sort()).toEqual([1, 2, 3, 4]);
+      expect(results.filter(result => result.status === "expired")).toHaveLength(6);
+      expect(await storage.verifyOTP(player.id, code)).toEqual({ status: "expired" });
+    });
+
+    it("sends one code when several are requested at the same moment", async () => {
+      const [player] = await createPlayers(storage, [5]);
+      const results = await Promise.all(Array.from({ length: 3 }, () => storage.sendOTP(player.id)));
+      expect(results.filter(result => result.status === "sent")).toHaveLength(1);
+      expect(results.filter(result => result.status === "cooldown")).toHaveLength(2);
+      expect(backend.sms.sent).toHaveLength(1);
+    });
+
+    it("expires codes after five minutes and purges them after a day", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      const [player, inactive] = await createPlayers(storage, [5, 5]);
+      await storage.sendOTP(player.id);
+      const code = backend.sms.lastCode(player.mobileNumber);
+
+      vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+      expect(await storage.verifyOTP(player.id, code)).toEqual({ status: "expired" });
+      expect(await storage.purgeStaleOTPs()).toBe(0);
+
+      vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+      expect(await storage.purgeStaleOTPs()).toBe(1);
+
+      await storage.deletePlayer(inactive.id);
+      expect(await storage.sendOTP(inactive.id)).toEqual({ status: "failed" });
+    });
+  });
+
+  describe("data management", () => {
+    it("resets all club data", async () => {
+      await storage.setupInitialManager({ managerName: "Manager", managerSkillLevel: 5, managerMobile: "+919800000001" });
+      const [a, b] = await createPlayers(storage, [5, 5]);
+      await storage.createMatch({ format: "singles", teamA: [a.id], teamB: [b.id], games: [win] });
+
+      await storage.resetAllData();
+      expect(await storage.isInitialized()).toBe(false);
+      expect(await storage.getAllPlayers()).toEqual([]);
+      expect(await storage.getAllMatches()).toEqual([]);
+    });
+
+    it("restores tournaments and ladders from an archive with their links remapped", async () => {
+      const manager = await storage.setupInitialManager({ managerName: "Manager", managerSkillLevel: 5, managerMobile: "+919800000099" });
+      const players = await createPlayers(storage, [5, 5, 5, 5]);
+      const tournament = await storage.createTournament({ name: "Club Cup", format: "single_elimination", matchFormat: "singles", seeding: "rating", groupCount: 1 }, manager.id);
+      for (const player of players) {
+        await storage.addTournamentTeam(tournament.id, [player.id]);
+      }
+      await storage.startTournament(tournament.id);
+      const ladder = await storage.createLadder({ name: "Singles Ladder", matchFormat: "singles", challengeRange: 3, challengeDays: 7 });
+      const [topEntry, , thirdEntry] = [
+        await storage.addLadderEntry(ladder.id, [players[0].id]),
+        await storage.addLadderEntry(ladder.id, [players[1].id]),
+        await storage.addLadderEntry(ladder.id, [players[2].id]),
+      ];
+      const challenge = await storage.createChallenge(ladder.id, thirdEntry.id, topEntry.id, players[2].id);
+      await storage.respondToChallenge(challenge.id, false);
+
+      // Tournaments and ladders described by player names and draw positions, so IDs don't matter
+      const competitions = async () => {
+        const names = new Map((await storage.getAllPlayers()).map(player => [player.id, player.name]));
+        const [{ id: tournamentId }] = await storage.getAllTournaments();
+        const cup = (await storage.getTournament(tournamentId))!;
+        const teamName = (teamId: number | null) => teamId === null ? null : names.get(cup.teams.find(team => team.id === teamId)!.player1Id);
+        const slot = (matchId: number | null) => {
+          const match = cup.matches.find(candidate => candidate.id === matchId);
+          return match ? `${match.bracket} ${match.round}.${match.position}` : null;
+        };
+        const [{ id: ladderId }] = await storage.getAllLadders();
+        const rungs = (await storage.getLadder(ladderId))!;
+        const entryName = (entryId: number | null) => entryId === null ? null : names.get(rungs.entries.find(entry => entry.id === entryId)!.player1Id);
+        return {
+          tournament: { name: cup.name, status: cup.status, createdBy: names.get(cup.createdBy!) },
+          teams: cup.teams.map(team => ({ player: names.get(team.player1Id), seed: team.seed })),
+          draw: cup.matches.map(match => ({
+            slot: slot(match.id), teamA: teamName(match.teamAId), teamB: teamName(match.teamBId), next: slot(match.winnerNextMatchId), nextSlot: match.winnerNextSlot,
+          })),
+          rungs: rungs.entries.map(entry => names.get(entry.player1Id)),
+          challenges: rungs.challenges.map(({ status, challengerEntryId, defenderEntryId, winnerEntryId }) =>
+            ({ status, challenger: entryName(challengerEntryId), defender: entryName(defenderEntryId), winner: entryName(winnerEntryId) })),
+        };
+      };
+      const before = await competitions();
+      const archive = schema.clubArchiveSchema.parse(JSON.parse(JSON.stringify(await storage.exportClub())));
+
+      // Imported again into the same club, the tournament and ladder merge and nothing is added
+      const merged = await storage.importClub(archive, true, manager.id);
+      expect(merged.errors).toEqual([]);
+      expect(merged.conflicts.map(conflict => conflict.kind)).toEqual(expect.arrayContaining(["tournament", "ladder"]));
+      expect(merged.created).toMatchObject({ tournaments: 0, tournamentTeams: 0, tournamentMatches: 0, ladders: 0, ladderEntries: 0, challenges: 0 });
+
+      // Restored into a club whose IDs have moved on, every link points at the new records
+      await storage.resetAllData();
+      const restorer = await storage.setupInitialManager({ managerName: "Restorer", managerSkillLevel: 5, managerMobile: "+919800000098" });
+      await storage.createPlayer({ name: "Newcomer", skillLevel: 5, role: "player", mobileNumber: "+919800000097" });
+      const report = await storage.importClub(archive, false, restorer.id);
+      expect(report.imported).toBe(true);
+      expect(report.created).toMatchObject({ tournaments: 1, tournamentTeams: 4, tournamentMatches: 3, ladders: 1, ladderEntries: 3, challenges: 1 });
+      expect(await competitions()).toEqual(before);
+    });
+  });
+});
+
+describe("both backends", () => {
+  let backends: Backend[] = [];
+
+  beforeAll(async () => {
+    backends = [await memoryBackend(), await pgliteBackend()];
+  }, 60000);
+
+  afterAll(async () => {
+    await Promise.all(backends.map(backend => backend.close()));
+  });
+
+  it("replay the same history to the same levels, ratings, history and proposals", async () => {
+    const states = [];
+    for (const { storage } of backends) {
+      const manager = await storage.setupInitialManager({ managerName: "Manager", managerSkillLevel: 5, managerMobile: "+919800000001" });
+      const roster = await createPlayers(storage, [2, 3, 4, 4, 5, 5, 6, 7, 8, 9]);
+      const history = generateHistory(roster, 80);
+
+      await storage.importMatches(history.slice(0, 40), manager.id);
+      await storage.updatePlayer(roster[4].id, { skillLevel: 8 }, manager.id);
+      await storage.updateClubSettings({ skillAdjustmentMode: "review" }, manager.id);
+      for (const { playedAt, ...match } of history.slice(40, 60)) {
+        await storage.createMatch(match, manager.id);
+      }
+      const [firstProposal] = await storage.getSkillProposals("pending");
+      if (firstProposal) await storage.decideSkillProposal(firstProposal.id, true, manager.id);
+      await storage.importMatches(history.slice(60), manager.id);
+
+      // Edit and delete matches in the middle of the history
+      const matches = (await storage.getAllMatches()).sort((a, b) => a.id - b.id);
+      await storage.updateMatch(matches[10].id, { games: [loss] }, manager.id);
+      await storage.deleteMatch(matches[20].id, manager.id);
+
+      states.push(await skillState(storage));
+    }
+
+    expect(states[0].history.length).toBeGreaterThan(0);
+    expect(states[1]).toEqual(states[0]);
+  });
+});
+
+describe("DatabaseStorage replays", () => {
+  it("load only the matches they replay when a new match is recorded", async () => {
+    const queries: Array<{ query: string; params: unknown[] }> = [];
+    const client = new PGlite();
+    const logger = { logQuery: (query: string, params: unknown[]) => queries.push({ query, params }) };
+    const storage = new DatabaseStorage(drizzle({ client, schema, logger }), new OutboxSmsProvider());
+    await storage.migrate();
+    const roster = await createPlayers(storage, [3, 4, 5, 5, 6, 7]);
+    await storage.importMatches(generateHistory(roster, 60));
+
+    queries.length = 0;
+    const [a1, a2, b1, b2] = roster;
+    await storage.createMatch({ format: "doubles", teamA: [a1.id, a2.id], teamB: [b1.id, b2.id], games: [win] });
+
+    // Reading the earlier history would select every match, or pass all 60 match IDs to a query
+    const reads = queries.filter(({ query }) => query.startsWith("select"));
+    expect(reads.filter(({ query }) => query.endsWith(`from "matches"`))).toEqual([]);
+    expect(Math.max(...reads.map(({ params }) => params.length))).toBeLessThan(10);
+    await client.close();
+  });
+});
@@ -1,59 +1,212 @@
-import { players, matches, otpCodes, type Player, type InsertPlayer, type Match, type InsertMatch, type PlayerStats, type AuthUser, type SetupRequest } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gt } from "drizzle-orm";
-import { smsService } from "./sms-service";
+import { players, matches, matchGames, matchParticipants, sessions, sessionAttendees, otpCodes, playerRatings, matchSkillSnapshots, skillLevelChanges, clubSettings, skillProposals, tournaments, tournamentTeams, tournamentMatches, ladders, ladderEntries, challenges, type Player, type Session, type InsertSession, type SessionSummary, type SessionDetails, type SessionAttendee, type AttendanceSummary, type PlayerAttendance, type PlayerRating, type SkillLevelChange, type SkillChangeCause, type ClubSettings, type UpdateClubSettings, type ClubArchive, type ClubImportReport, type SkillPolicy, defaultSkillPolicy, type SkillPolicyPreview, type SkillProposal, type SkillProposalStatus, type InsertPlayer, type Match, type MatchGame, type MatchParticipant, type MatchSkillSnapshot, type MatchDetails, type Discipline, disciplines, disciplineOf, type GameScore, type InsertMatch, type HistoricalMatch, summarizeGames, type Tournament, type InsertTournament, type TournamentSummary, type TournamentDetails, type TournamentTeam, type TournamentMatch, type Ladder, type InsertLadder, type LadderSummary, type LadderDetails, type LadderEntry, type Challenge, teamPlayerIds, type PlayerStats, type PlayerConnection, type HeadToHead, type PlayerProfile, type StatsFilter, type AuthUser, type SetupRequest, type OtpSendResult, type OtpVerifyResult } from "@shared/schema";
+import { createDatabase, migrateDatabase, type Database } from "./db";
+import { eq, and, or, not, gt, lt, asc, desc, inArray, isNull, isNotNull, notInArray, sql, countDistinct } from "drizzle-orm";
+import { timingSafeEqual } from "crypto";
+import { initialRating, ratingForSkillLevel } from "./rating";
+import { computeConnections, computeHeadToHead, computeStandings } from "./rankings";
+import { computePlayerProfile, computePlayerStats, computeRatingDeltas, computeSkillSuggestions, type SkillLevelSuggestion } from "./player-stats";
+import { generateDraw, seedTeams, tournamentDetailsOf } from "./tournament";
+import { archiveClub, archivedMatchResult, planClubImport, remapId, type ClubContents } from "./club-archive";
+import { SkillReplay, compareMatchOrder, participantIds, runReplay, type ReplayMatch, type ResumePoint, type SkillLevelEvent, type SkillOverride, type SkillProposalEvent } from "./skill-replay";
+import { createSmsProvider, formatOTPMessage, generateOTP, type SmsProvider } from "./sms-service";
+
+// Why a skill level changed, recorded alongside the change in skill_level_changes
+export interface SkillChangeContext {
+  cause: SkillChangeCause;
+  matchId?: number | null;
+  changedBy?: number | null; // the logged-in user who triggered the change
+}
 
 export interface IStorage {
   // Authentication and Setup
   isInitialized(): Promise<boolean>;
   setupInitialManager(setup: SetupRequest): Promise<AuthUser>;
-  getCurrentUser(): Promise<AuthUser | null>;
-  setCurrentUser(userId: number | null): Promise<void>;
   
   // Player management
   getPlayer(id: number): Promise<Player | undefined>;
   getAllPlayers(): Promise<Player[]>;
   createPlayer(player: InsertPlayer): Promise<Player>;
-  updatePlayer(id: number, updates: Partial<InsertPlayer>): Promise<Player>;
+  updatePlayer(id: number, updates: Partial<InsertPlayer>, changedBy?: number): Promise<Player>;
   deletePlayer(id: number): Promise<boolean>;
   
   // Match management
-  getMatch(id: number): Promise<Match | undefined>;
-  getAllMatches(): Promise<Match[]>;
-  createMatch(match: InsertMatch): Promise<Match>;
-  updateMatch(id: number, updates: Partial<InsertMatch>): Promise<Match>;
-  deleteMatch(id: number): Promise<boolean>;
+  getMatch(id: number): Promise<MatchDetails | undefined>;
+  getAllMatches(): Promise<MatchDetails[]>;
+  createMatch(match: InsertMatch, changedBy?: number): Promise<MatchDetails>;
+  importMatches(history: HistoricalMatch[], changedBy?: number): Promise<MatchDetails[]>;
+  updateMatch(id: number, updates: Partial<InsertMatch>, changedBy?: number): Promise<MatchDetails>;
+  deleteMatch(id: number, changedBy?: number): Promise<boolean>;
+  
+  // Club sessions
+  getAllSessions(): Promise<SessionSummary[]>;
+  getSession(id: number): Promise<SessionDetails | undefined>;
+  createSession(session: InsertSession): Promise<SessionSummary>;
+  updateSession(id: number, updates: Partial<InsertSession>): Promise<SessionSummary | undefined>;
+  deleteSession(id: number): Promise<boolean>;
+  
+  // Attendance
+  checkIn(sessionId: number, playerId: number, checkedInBy: number): Promise<SessionAttendee>;
+  checkOut(sessionId: number, playerId: number): Promise<SessionAttendee | undefined>;
+  getAvailablePlayers(sessionId: number): Promise<Player[]>;
+  getAttendanceSummaries(): Promise<AttendanceSummary[]>;
+  getPlayerAttendance(playerId: number): Promise<PlayerAttendance>;
+  
+  // Tournaments
+  getAllTournaments(): Promise<TournamentSummary[]>;
+  getTournament(id: number): Promise<TournamentDetails | undefined>;
+  createTournament(tournament: InsertTournament, createdBy?: number): Promise<Tournament>;
+  deleteTournament(id: number): Promise<boolean>;
+  addTournamentTeam(tournamentId: number, playerIds: number[]): Promise<TournamentTeam>;
+  removeTournamentTeam(tournamentId: number, teamId: number): Promise<boolean>;
+  startTournament(id: number): Promise<TournamentDetails>;
+  isTournamentResultLocked(matchId: number): Promise<boolean>;
+  
+  // Ladders and challenges
+  getAllLadders(): Promise<LadderSummary[]>;
+  getLadder(id: number): Promise<LadderDetails | undefined>;
+  createLadder(ladder: InsertLadder): Promise<Ladder>;
+  deleteLadder(id: number): Promise<boolean>;
+  addLadderEntry(ladderId: number, playerIds: number[]): Promise<LadderEntry>;
+  removeLadderEntry(ladderId: number, entryId: number): Promise<boolean>;
+  getChallenge(id: number): Promise<Challenge | undefined>;
+  createChallenge(ladderId: number, challengerEntryId: number, defenderEntryId: number, issuedBy: number): Promise<Challenge>;
+  respondToChallenge(id: number, accept: boolean): Promise<Challenge | undefined>;
+  resolveOverdueChallenges(): Promise<number>;
+  isLadderResultLocked(matchId: number): Promise<boolean>;
   
   // Skill level management
-  updatePlayerSkillLevel(playerId: number, newSkillLevel: number): Promise<void>;
-  checkForSkillLevelUpdates(): Promise<void>;
-  getSkillLevelSuggestions(): Promise<Array<{ playerId: number; name: string; currentLevel: number; suggestedLevel: number; reason: string; matchesAnalyzed: number; matchesNeeded?: number }>>;
-  recalculateAllSkillLevels(): Promise<void>;
-  resetAllPlayersToLevel5(): Promise<void>;
+  getSkillLevelSuggestions(): Promise<SkillLevelSuggestion[]>;
+  recalculateAllSkillLevels(changedBy?: number): Promise<void>;
+  resetAllPlayersToLevel5(changedBy?: number): Promise<void>;
+  getSkillLevelHistory(playerId: number): Promise<SkillLevelChange[]>;
+  getSkillProposals(status?: SkillProposalStatus): Promise<SkillProposal[]>;
+  decideSkillProposal(id: number, approve: boolean, decidedBy: number): Promise<SkillProposal | undefined>;
+  
+  // Club settings
+  getClubSettings(): Promise<ClubSettings>;
+  updateClubSettings(data: UpdateClubSettings, updatedBy: number): Promise<ClubSettings>;
+  updateSkillPolicy(policy: SkillPolicy, updatedBy: number): Promise<ClubSettings>;
+  previewSkillPolicy(policy: SkillPolicy): Promise<SkillPolicyPreview[]>;
+  
+  // Ratings
+  getPlayerRatings(discipline?: Discipline): Promise<PlayerRating[]>;
   
   // Statistics
-  getPlayerStats(playerId?: number): Promise<PlayerStats[]>;
+  getPlayerStats(playerId?: number, filter?: StatsFilter): Promise<PlayerStats[]>;
+  getPlayerConnections(playerId: number, relation: "partners" | "opponents"): Promise<PlayerConnection[]>;
+  getHeadToHead(teamA: number[], teamB: number[]): Promise<HeadToHead>;
+  getPlayerProfile(playerId: number): Promise<PlayerProfile | undefined>;
   
   // Data management
+  migrate(): Promise<void>;
   resetAllData(): Promise<void>;
+  exportClub(): Promise<ClubArchive>;
+  importClub(archive: ClubArchive, dryRun: boolean, importedBy: number): Promise<ClubImportReport>;
   
   // OTP management
-  sendOTP(playerId: number): Promise<boolean>;
-  verifyOTP(playerId: number, code: string): Promise<boolean>;
+  sendOTP(playerId: number): Promise<OtpSendResult>;
+  verifyOTP(playerId: number, code: string): Promise<OtpVerifyResult>;
+  purgeStaleOTPs(): Promise<number>;
+}
+
+// OTP policy
+const OTP_TTL_MS = 5 * 60 * 1000; // codes are valid for 5 minutes
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // minimum gap between codes for the same player
+const OTP_MAX_ATTEMPTS = 5; // wrong guesses before a code is invalidated
+const OTP_RETENTION_MS = 24 * 60 * 60 * 1000; // how long expired codes are kept before purging
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Snapshots are written in batches to stay well under Postgres' bind parameter limit
+const SNAPSHOT_BATCH_SIZE = 1000;
+
+// Settled challenges shown with a ladder
+const RECENT_CHALLENGES = 20;
+
+function codesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Which side of a recorded match `teamA` played on against `teamB`, in either order, or null if the match
+// wasn't between them
+function sideOf(match: Pick<MatchDetails, "teamA" | "teamB">, teamA: number[], teamB: number[]): 1 | 2 | null {
+  const sameLineup = (lineup: number[], side: number[]) => lineup.length === side.length && lineup.every(playerId => side.includes(playerId));
+  if (sameLineup(teamA, match.teamA) && sameLineup(teamB, match.teamB)) return 1;
+  if (sameLineup(teamA, match.teamB) && sameLineup(teamB, match.teamA)) return 2;
+  return null;
+}
+
+// Winner and point totals stored on the match row, derived from its games
+function matchResult(games: GameScore[]) {
+  const summary = summarizeGames(games);
+  return { teamAScore: summary.teamAPoints, teamBScore: summary.teamBPoints, winnerId: summary.winnerId };
+}
+
+// The manual level changes a replay applies, from the manual and reset rows of skill_level_changes.
+// A reset makes level 5 everyone's new starting point, so only manual changes made after the latest
+// one count.
+function manualOverrides(changes: SkillLevelChange[]): SkillOverride[] {
+  const lastReset = Math.max(0, ...changes.filter(change => change.cause === "reset").map(change => change.createdAt.getTime()));
+  return changes
+    .filter(change => change.cause === "manual" && change.createdAt.getTime() > lastReset)
+    .map(change => ({ playerId: change.playerId, level: change.newLevel, at: change.createdAt }));
+}
+
+// A replay under `policy`, starting every player from their original level and applying the levels
+// a manager set by hand since. In review mode it only applies the changes a manager approved among
+// the `decided` proposals.
+function createSkillReplay(playersById: Map<number, Player>, settings: ClubSettings, decided: SkillProposal[], changes: SkillLevelChange[], policy: SkillPolicy): SkillReplay {
+  const decisions = settings.skillAdjustmentMode === "review"
+    ? decided.map(({ matchId, playerId, oldLevel, newLevel, status }) => ({ matchId, playerId, oldLevel, newLevel, approved: status === "approved" }))
+    : undefined;
+
+  return new SkillReplay(playerId => {
+    const player = playersById.get(playerId);
+    const skillLevel = player ? player.originalSkillLevel ?? player.skillLevel : 5;
+    return { ...initialRating(skillLevel), skillLevel, matchesPlayed: 0 };
+  }, policy, decisions, manualOverrides(changes));
+}
+
+// The skill_level_changes rows for a replay. A new match logs each automatic change against the match
+// that caused it; edits and recalculations log one net change per player.
+function skillChangeHistory(change: SkillChangeContext, events: SkillLevelEvent[], affectedPlayerIds: number[], playersById: Map<number, Player>, replay: SkillReplay) {
+  return change.cause === "auto"
+    ? events.map(event => ({ ...event, cause: change.cause, changedBy: change.changedBy ?? null }))
+    : affectedPlayerIds
+        .map(playerId => ({ playerId, oldLevel: playersById.get(playerId)?.skillLevel, newLevel: replay.stateOf(playerId).skillLevel }))
+        .filter((row): row is { playerId: number; oldLevel: number; newLevel: number } => row.oldLevel !== undefined && row.oldLevel !== row.newLevel)
+        .map(row => ({ ...row, cause: change.cause, matchId: change.matchId ?? null, changedBy: change.changedBy ?? null }));
+}
+
+// Matches ordered before `match` in replay order
+function playedBefore(match: ReplayMatch) {
+  const playedAt = new Date(match.playedAt);
+  return or(lt(matches.playedAt, playedAt), and(eq(matches.playedAt, playedAt), lt(matches.id, match.id)))!;
+}
+
+// A player only keeps their latest open proposal
+function latestProposals(proposals: SkillProposalEvent[]): SkillProposalEvent[] {
+  const latest = new Map<number, SkillProposalEvent>();
+  for (const proposal of proposals) {
+    latest.set(proposal.playerId, proposal);
+  }
+  return Array.from(latest.values());
 }
 
 // Database Storage Implementation
 
 export class DatabaseStorage implements IStorage {
-  private currentUser: AuthUser | null = null;
+  constructor(private db: Database, private smsProvider: SmsProvider) {}
 
   async isInitialized(): Promise<boolean> {
-    const managers = await db.select().from(players).where(eq(players.role, "manager"));
+    const managers = await this.db.select().from(players).where(eq(players.role, "manager"));
     return managers.length > 0;
   }
 
   async setupInitialManager(setup: SetupRequest): Promise<AuthUser> {
-    const [manager] = await db
+    const [manager] = await this.db
       .insert(players)
       .values({
         name: setup.managerName,
@@ -75,40 +228,17 @@ export class DatabaseStorage implements IStorage {
     return authUser;
   }
 
-  async getCurrentUser(): Promise<AuthUser | null> {
-    return this.currentUser;
-  }
-
-  async setCurrentUser(userId: number | null): Promise<void> {
-    if (userId === null) {
-      this.currentUser = null;
-      return;
-    }
-    
-    const [user] = await db.select().from(players).where(eq(players.id, userId));
-    if (user) {
-      this.currentUser = {
-        id: user.id,
-        name: user.name,
-        role: user.role as "manager" | "player",
-        skillLevel: user.skillLevel,
-      };
-    } else {
-      this.currentUser = null;
-    }
-  }
-
   async getPlayer(id: number): Promise<Player | undefined> {
-    const [player] = await db.select().from(players).where(eq(players.id, id));
+    const [player] = await this.db.select().from(players).where(eq(players.id, id));
     return player || undefined;
   }
 
   async getAllPlayers(): Promise<Player[]> {
-    return await db.select().from(players).where(eq(players.isActive, true));
+    return await this.db.select().from(players).where(eq(players.isActive, true));
   }
 
   async createPlayer(player: InsertPlayer): Promise<Player> {
-    const [newPlayer] = await db
+    const [newPlayer] = await this.db
       .insert(players)
       .values({
         name: player.name,
@@ -122,650 +252,2920 @@ export class DatabaseStorage implements IStorage {
     return newPlayer;
   }
 
-  async updatePlayer(id: number, updates: Partial<InsertPlayer>): Promise<Player> {
-    const [updatedPlayer] = await db
-      .update(players)
-      .set(updates)
-      .where(eq(players.id, id))
-      .returning();
-    return updatedPlayer;
+  async updatePlayer(id: number, updates: Partial<InsertPlayer>, changedBy?: number): Promise<Player> {
+    return await this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(players).where(eq(players.id, id)).for("update");
+      const [updatedPlayer] = await tx
+        .update(players)
+        .set(updates)
+        .where(eq(players.id, id))
+        .returning();
+
+      if (existing && updatedPlayer && updatedPlayer.skillLevel !== existing.skillLevel) {
+        await this.recordSkillLevelChange(tx, id, existing.skillLevel, updatedPlayer.skillLevel, { cause: "manual", changedBy });
+
+        // The doubles rating moves into the new level's band, as the replay will do from now on
+        const [doubles] = await tx.select().from(playerRatings)
+          .where(and(eq(playerRatings.playerId, id), eq(playerRatings.discipline, "doubles")));
+        if (doubles) {
+          await tx.update(playerRatings)
+            .set({ ...ratingForSkillLevel(doubles, updatedPlayer.skillLevel), updatedAt: new Date() })
+            .where(eq(playerRatings.id, doubles.id));
+        }
+      }
+      return updatedPlayer;
+    });
   }
 
   async deletePlayer(id: number): Promise<boolean> {
-    const result = await db
+    const deactivated = await this.db
       .update(players)
       .set({ isActive: false })
-      .where(eq(players.id, id));
-    return (result.rowCount || 0) > 0;
+      .where(eq(players.id, id))
+      .returning({ id: players.id });
+    return deactivated.length > 0;
   }
 
-  async getMatch(id: number): Promise<Match | undefined> {
-    const [match] = await db.select().from(matches).where(eq(matches.id, id));
-    return match || undefined;
+  async getMatch(id: number): Promise<MatchDetails | undefined> {
+    const [match] = await this.db.select().from(matches).where(eq(matches.id, id));
+    if (!match) return undefined;
+    const [details] = await this.attachDetails(this.db, [match]);
+    return details;
   }
 
-  async getAllMatches(): Promise<Match[]> {
-    return await db.select().from(matches);
+  async getAllMatches(): Promise<MatchDetails[]> {
+    const allMatches = await this.db.select().from(matches);
+    return await this.attachDetails(this.db, allMatches);
   }
 
-  async createMatch(match: InsertMatch): Promise<Match> {
-    const [newMatch] = await db
-      .insert(matches)
-      .values(match)
-      .returning();
-    
-    // Auto-update skill levels after each match
-    await this.checkForSkillLevelUpdates();
-    
-    return newMatch;
+  async createMatch(match: InsertMatch, changedBy?: number): Promise<MatchDetails> {
+    const { games, teamA, teamB, ...values } = match;
+    return await this.db.transaction(async (tx) => {
+      const [newMatch] = await tx
+        .insert(matches)
+        .values({ ...values, ...matchResult(games) })
+        .returning();
+      await this.saveParticipants(tx, newMatch.id, teamA, teamB);
+      await this.saveGames(tx, newMatch.id, games);
+      const [details] = await this.attachDetails(tx, [newMatch]);
+      
+      // Usually the newest match, so only it is replayed; a backdated match replays everything after it
+      await this.replaySkills(tx, details, { cause: "auto", changedBy });
+      await this.recordTournamentResult(tx, details);
+      await this.recordLadderResult(tx, details);
+      
+      if (details.sessionId) {
+        await this.addSessionAttendees(tx, details.sessionId, participantIds(details), changedBy);
+      }
+      
+      return details;
+    });
   }
 
-  async updateMatch(id: number, updateData: Partial<InsertMatch>): Promise<Match> {
-    const [updatedMatch] = await db
-      .update(matches)
-      .set(updateData)
-      .where(eq(matches.id, id))
-      .returning();
+  // Past results are inserted together and replayed once from the earliest of them,
+  // rather than once per match as createMatch would
+  async importMatches(history: HistoricalMatch[], changedBy?: number): Promise<MatchDetails[]> {
+    if (history.length === 0) return [];
+    return await this.db.transaction(async (tx) => {
+      const imported: MatchDetails[] = [];
+      for (const { games, teamA, teamB, ...values } of history) {
+        const [newMatch] = await tx
+          .insert(matches)
+          .values({ ...values, ...matchResult(games) })
+          .returning();
+        await this.saveParticipants(tx, newMatch.id, teamA, teamB);
+        await this.saveGames(tx, newMatch.id, games);
+        const [details] = await this.attachDetails(tx, [newMatch]);
+        imported.push(details);
 
-    if (!updatedMatch) {
-      throw new Error("Match not found");
-    }
+        if (details.sessionId) {
+          await this.addSessionAttendees(tx, details.sessionId, participantIds(details), changedBy);
+        }
+      }
+
+      const [earliest] = imported.slice().sort(compareMatchOrder);
+      await this.replaySkills(tx, earliest, { cause: "auto", changedBy });
+      return imported;
+    });
+  }
+
+  async updateMatch(id: number, updateData: Partial<InsertMatch>, changedBy?: number): Promise<MatchDetails> {
+    const { games, teamA, teamB, ...values } = updateData;
+    return await this.db.transaction(async (tx) => {
+      const [existingRow] = await tx.select().from(matches).where(eq(matches.id, id));
+      if (!existingRow) {
+        throw new Error("Match not found");
+      }
+      const [existing] = await this.attachDetails(tx, [existingRow]);
+      
+      // New games replace the old ones and re-derive the winner and totals
+      const changes = games ? { ...values, ...matchResult(games) } : values;
+      const [updatedRow] = Object.keys(changes).length > 0
+        ? await tx.update(matches).set(changes).where(eq(matches.id, id)).returning()
+        : [existingRow];
+      if (games) {
+        await tx.delete(matchGames).where(eq(matchGames.matchId, id));
+        await this.saveGames(tx, id, games);
+      }
+      if (teamA || teamB) {
+        await tx.delete(matchParticipants).where(eq(matchParticipants.matchId, id));
+        await this.saveParticipants(tx, id, teamA ?? existing.teamA, teamB ?? existing.teamB);
+      }
+      const [updatedMatch] = await this.attachDetails(tx, [updatedRow]);
+
+      // Replay from wherever the match sits earliest - before or after the edit - and
+      // include the original players in case they were swapped out
+      const start = compareMatchOrder(existing, updatedMatch) <= 0 ? existing : updatedMatch;
+      await this.replaySkills(tx, start, { cause: "recalculation", changedBy }, participantIds(existing));
 
-    // Reset all skill levels and recalculate from scratch
-    await this.recalculateAllSkillLevels();
+      // A new result or line-up may decide a different tournament match or challenge, or none at all
+      if (games || teamA || teamB || values.format) {
+        await this.retractTournamentResult(tx, id);
+        await this.recordTournamentResult(tx, updatedMatch);
+        await this.retractLadderResult(tx, id);
+        await this.recordLadderResult(tx, updatedMatch);
+      }
+
+      if (updatedMatch.sessionId) {
+        await this.addSessionAttendees(tx, updatedMatch.sessionId, participantIds(updatedMatch), changedBy);
+      }
 
-    return updatedMatch;
+      return updatedMatch;
+    });
   }
 
-  async deleteMatch(id: number): Promise<boolean> {
-    const result = await db
-      .delete(matches)
-      .where(eq(matches.id, id));
+  async deleteMatch(id: number, changedBy?: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const [deletedRow] = await tx
+        .delete(matches)
+        .where(eq(matches.id, id))
+        .returning();
+      if (!deletedRow) {
+        return false;
+      }
+      const [deletedMatch] = await this.attachDetails(tx, [deletedRow]);
 
-    if (result.rowCount && result.rowCount > 0) {
-      // Reset all skill levels and recalculate from scratch
-      await this.recalculateAllSkillLevels();
+      await tx.delete(matchGames).where(eq(matchGames.matchId, id));
+      await tx.delete(matchParticipants).where(eq(matchParticipants.matchId, id));
+      await tx.delete(matchSkillSnapshots).where(eq(matchSkillSnapshots.matchId, id));
+      await tx.delete(skillProposals).where(and(eq(skillProposals.matchId, id), eq(skillProposals.status, "pending")));
+      await this.retractTournamentResult(tx, id);
+      await this.retractLadderResult(tx, id);
+      await this.replaySkills(tx, deletedMatch, { cause: "recalculation", changedBy }, participantIds(deletedMatch));
       return true;
-    }
-    return false;
+    });
   }
 
+  private async saveGames(tx: Transaction, matchId: number, games: GameScore[]) {
+    return await tx
+      .insert(matchGames)
+      .values(games.map((game, index) => ({ matchId, gameNumber: index + 1, teamAScore: game.teamAScore, teamBScore: game.teamBScore })))
+      .returning();
+  }
 
+  private async saveParticipants(tx: Transaction, matchId: number, teamA: number[], teamB: number[]) {
+    await tx.insert(matchParticipants).values([
+      ...teamA.map((playerId, index) => ({ matchId, playerId, team: 1, position: index + 1 })),
+      ...teamB.map((playerId, index) => ({ matchId, playerId, team: 2, position: index + 1 })),
+    ]);
+  }
 
-  async getPlayerStats(playerId?: number): Promise<PlayerStats[]> {
-    const allPlayers = await this.getAllPlayers();
-    const allMatches = await this.getAllMatches();
-    
-    const stats: PlayerStats[] = [];
-    
-    for (const player of allPlayers) {
-      if (playerId && player.id !== playerId) continue;
-      
-      const playerMatches = allMatches.filter(match => 
-        match.teamAPlayer1Id === player.id ||
-        match.teamAPlayer2Id === player.id ||
-        match.teamBPlayer1Id === player.id ||
-        match.teamBPlayer2Id === player.id
-      ).sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime());
-      
-      // Get last 3 matches for recent performance analysis
-      const recentMatches = playerMatches.slice(0, 3);
-      
-      let wins = 0;
-      let recentWins = 0;
-      let pointsFor = 0;
-      let pointsAgainst = 0;
-      
-      for (const match of playerMatches) {
-        const isTeamA = match.teamAPlayer1Id === player.id || match.teamAPlayer2Id === player.id;
-        const teamWon = match.winnerId === 1 ? "A" : "B";
-        
-        // Track wins
-        if ((isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B")) {
-          wins++;
-        }
-        
-        // Track points
-        if (isTeamA) {
-          pointsFor += match.teamAScore;
-          pointsAgainst += match.teamBScore;
-        } else {
-          pointsFor += match.teamBScore;
-          pointsAgainst += match.teamAScore;
-        }
-      }
-      
-      for (const match of recentMatches) {
-        const isTeamA = match.teamAPlayer1Id === player.id || match.teamAPlayer2Id === player.id;
-        const teamWon = match.winnerId === 1 ? "A" : "B";
-        if ((isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B")) {
-          recentWins++;
-        }
-      }
-      
-      const losses = playerMatches.length - wins;
-      const winRate = playerMatches.length > 0 ? Math.round((wins / playerMatches.length) * 100) : 0;
-      const pointDifference = pointsFor - pointsAgainst;
-      const recentWinRate = recentMatches.length > 0 ? Math.round((recentWins / recentMatches.length) * 100) : 0;
-      
-      // Calculate skill level change indicator
-      let skillLevelChange: "increased" | "decreased" | "unchanged" | undefined;
-      if (player.previousSkillLevel !== null && player.previousSkillLevel !== undefined) {
-        if (player.skillLevel > player.previousSkillLevel) {
-          skillLevelChange = "increased";
-        } else if (player.skillLevel < player.previousSkillLevel) {
-          skillLevelChange = "decreased";
-        } else {
-          skillLevelChange = "unchanged";
-        }
-      }
-      
-      // Determine recent performance trend
-      let recentPerformance: "improving" | "declining" | "stable" | undefined;
-      if (recentMatches.length >= 3) {
-        if (recentWinRate >= 67) { // 2/3 wins
-          recentPerformance = "improving";
-        } else if (recentWinRate <= 33) { // 1/3 wins or less
-          recentPerformance = "declining";
-        } else {
-          recentPerformance = "stable";
-        }
-      }
-      
-      let suggestedSkillLevel: number | undefined;
-      let suggestion: "increase" | "decrease" | "maintain" | undefined;
-      let suggestionReason: string | undefined;
-      
-      if (recentMatches.length >= 3) {
-        // Enhanced suggestions considering opponent strength
-        let suggestionScore = 0;
-        for (const match of recentMatches) {
-          const isTeamA = match.teamAPlayer1Id === player.id || match.teamAPlayer2Id === player.id;
-          const teamWon = match.winnerId === 1 ? "A" : "B";
-          const playerWon = (isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B");
-          
-          // Get opponent skill levels for this match
-          let opponentSkillLevels: number[] = [];
-          if (isTeamA) {
-            const opponent1 = allPlayers.find(p => p.id === match.teamBPlayer1Id);
-            const opponent2 = allPlayers.find(p => p.id === match.teamBPlayer2Id);
-            if (opponent1) opponentSkillLevels.push(opponent1.skillLevel);
-            if (opponent2) opponentSkillLevels.push(opponent2.skillLevel);
-          } else {
-            const opponent1 = allPlayers.find(p => p.id === match.teamAPlayer1Id);
-            const opponent2 = allPlayers.find(p => p.id === match.teamAPlayer2Id);
-            if (opponent1) opponentSkillLevels.push(opponent1.skillLevel);
-            if (opponent2) opponentSkillLevels.push(opponent2.skillLevel);
-          }
-          
-          const avgOpponentSkill = opponentSkillLevels.length > 0 
-            ? opponentSkillLevels.reduce((sum, skill) => sum + skill, 0) / opponentSkillLevels.length 
-            : player.skillLevel;
-          
-          const skillDifference = avgOpponentSkill - player.skillLevel;
-          
-          if (playerWon) {
-            suggestionScore += skillDifference >= 0 ? 1 + (skillDifference * 0.3) : 1 - (Math.abs(skillDifference) * 0.2);
-          } else {
-            suggestionScore += skillDifference <= 0 ? -(1 + (Math.abs(skillDifference) * 0.3)) : -(1 - (skillDifference * 0.2));
-          }
-        }
-        
-        const avgWeightedPerformance = suggestionScore / recentMatches.length;
-        
-        if (avgWeightedPerformance > 0.4) {
-          suggestedSkillLevel = Math.min(10, player.skillLevel + 1);
-          suggestion = "increase";
-          suggestionReason = `Excellent performance against quality opposition (${recentWins}/${recentMatches.length} wins). Ready for higher competition.`;
-        } else if (avgWeightedPerformance < -0.4) {
-          suggestedSkillLevel = Math.max(1, player.skillLevel - 1);
-          suggestion = "decrease";
-          suggestionReason = `Struggling against current level opponents (${recentWins}/${recentMatches.length} wins). Consider skill adjustment.`;
-        } else {
-          suggestedSkillLevel = player.skillLevel;
-          suggestion = "maintain";
-          suggestionReason = `Balanced performance considering opponent strength (${recentWins}/${recentMatches.length} wins). Current level appropriate.`;
-        }
-      }
-      
-      stats.push({
-        playerId: player.id,
-        name: player.name,
-        skillLevel: player.skillLevel,
-        previousSkillLevel: player.previousSkillLevel || undefined,
-        skillLevelChange,
-        role: player.role as "manager" | "player",
-        totalMatches: playerMatches.length,
-        wins,
-        losses,
-        winRate,
-        pointsFor,
-        pointsAgainst,
-        pointDifference,
-        suggestedSkillLevel,
-        suggestion,
-        suggestionReason,
-        recentPerformance,
-      });
-    }
+  // Games and line-ups for a set of matches. Matches recorded before participants were
+  // stored have no participant rows and keep their line-up in the legacy columns.
+  private async attachDetails(executor: Database | Transaction, rows: Match[]): Promise<MatchDetails[]> {
+    if (rows.length === 0) return [];
+    const matchIds = rows.map(match => match.id);
+    const games = await executor
+      .select()
+      .from(matchGames)
+      .where(inArray(matchGames.matchId, matchIds))
+      .orderBy(asc(matchGames.gameNumber));
+    const participants = await executor
+      .select()
+      .from(matchParticipants)
+      .where(inArray(matchParticipants.matchId, matchIds))
+      .orderBy(asc(matchParticipants.position));
     
-    return stats;
+    return rows.map(({ teamAPlayer1Id, teamAPlayer2Id, teamBPlayer1Id, teamBPlayer2Id, ...match }) => {
+      const lineup = participants.filter(participant => participant.matchId === match.id);
+      const team = (side: number, legacy: (number | null)[]) => lineup.length > 0
+        ? lineup.filter(participant => participant.team === side).map(participant => participant.playerId)
+        : legacy.filter((playerId): playerId is number => playerId !== null);
+      return {
+        ...match,
+        teamA: team(1, [teamAPlayer1Id, teamAPlayer2Id]),
+        teamB: team(2, [teamBPlayer1Id, teamBPlayer2Id]),
+        games: games.filter(game => game.matchId === match.id),
+      };
+    });
   }
 
-  async updatePlayerSkillLevel(playerId: number, newSkillLevel: number): Promise<void> {
-    const player = await this.getPlayer(playerId);
-    if (!player) return;
+  async getAllSessions(): Promise<SessionSummary[]> {
+    const allSessions = await this.db.select().from(sessions).orderBy(desc(sessions.date), desc(sessions.id));
+    const attendees = await this.db.select().from(sessionAttendees);
+    const sessionMatches = await this.db.select({ sessionId: matches.sessionId }).from(matches);
     
-    // Ensure skill level is bounded between 1 and 10
-    const boundedSkillLevel = Math.max(1, Math.min(10, newSkillLevel));
+    return allSessions.map(session => {
+      const sessionAttendance = attendees.filter(a => a.sessionId === session.id);
+      return {
+        ...session,
+        attendeeIds: sessionAttendance.map(a => a.playerId),
+        presentIds: sessionAttendance.filter(a => !a.checkedOutAt).map(a => a.playerId),
+        matchCount: sessionMatches.filter(m => m.sessionId === session.id).length,
+      };
+    });
+  }
+
+  async getSession(id: number): Promise<SessionDetails | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    if (!session) return undefined;
     
-    // Ensure skill level only changes by 1 at a time
-    const maxChange = Math.abs(boundedSkillLevel - player.skillLevel);
-    if (maxChange > 1) {
-      console.warn(`Attempted to change ${player.name}'s skill level by ${maxChange} levels (from ${player.skillLevel} to ${boundedSkillLevel}). Limiting change to 1 level.`);
-      if (boundedSkillLevel > player.skillLevel) {
-        newSkillLevel = player.skillLevel + 1;
-      } else {
-        newSkillLevel = player.skillLevel - 1;
-      }
-    } else {
-      newSkillLevel = boundedSkillLevel;
-    }
+    const attendees = await this.db
+      .select()
+      .from(sessionAttendees)
+      .where(eq(sessionAttendees.sessionId, id))
+      .orderBy(asc(sessionAttendees.checkedInAt));
+    const sessionMatches = await this.attachDetails(this.db, await this.db
+      .select()
+      .from(matches)
+      .where(eq(matches.sessionId, id))
+      .orderBy(asc(matches.playedAt), asc(matches.id)));
+    const allPlayers = await this.db.select().from(players);
     
-    await db
-      .update(players)
-      .set({
-        previousSkillLevel: player.skillLevel,
-        skillLevel: newSkillLevel,
-        lastSkillUpdate: new Date(),
-      })
-      .where(eq(players.id, playerId));
+    return {
+      ...session,
+      attendeeIds: attendees.map(a => a.playerId),
+      presentIds: attendees.filter(a => !a.checkedOutAt).map(a => a.playerId),
+      matchCount: sessionMatches.length,
+      attendees,
+      matches: sessionMatches,
+      leaderboard: computeStandings(sessionMatches, allPlayers),
+    };
   }
 
-  async checkForSkillLevelUpdates(): Promise<void> {
-    const allPlayers = await this.getAllPlayers();
-    const allMatches = await this.getAllMatches();
-    
-    for (const player of allPlayers) {
-      const playerMatches = allMatches.filter(match => 
-        match.teamAPlayer1Id === player.id ||
-        match.teamAPlayer2Id === player.id ||
-        match.teamBPlayer1Id === player.id ||
-        match.teamBPlayer2Id === player.id
-      ).sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime());
-      
-      // Skip players with less than 3 matches
-      if (playerMatches.length < 3) continue;
-      
-      // Determine if we should auto-update (5+ matches) or just suggest (3-4 matches)
-      const shouldAutoUpdate = playerMatches.length >= 5;
-      const matchesToAnalyze = shouldAutoUpdate ? 5 : Math.min(playerMatches.length, 3);
-      
-      // Get recent matches for analysis
-      const recentMatches = playerMatches.slice(0, matchesToAnalyze);
-      let weightedPerformanceScore = 0;
-      let totalWeight = 0;
-      
-      for (const match of recentMatches) {
-        const isTeamA = match.teamAPlayer1Id === player.id || match.teamAPlayer2Id === player.id;
-        const teamWon = match.winnerId === 1 ? "A" : "B";
-        const playerWon = (isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B");
-        
-        // Get opposition team players and match score data
-        let opponentSkillLevels: number[] = [];
-        let playerScore = 0;
-        let opponentScore = 0;
-        
-        if (isTeamA) {
-          // Player is in Team A, opponents are Team B
-          const opponent1 = allPlayers.find(p => p.id === match.teamBPlayer1Id);
-          const opponent2 = allPlayers.find(p => p.id === match.teamBPlayer2Id);
-          if (opponent1) opponentSkillLevels.push(opponent1.skillLevel);
-          if (opponent2) opponentSkillLevels.push(opponent2.skillLevel);
-          playerScore = match.teamAScore;
-          opponentScore = match.teamBScore;
-        } else {
-          // Player is in Team B, opponents are Team A
-          const opponent1 = allPlayers.find(p => p.id === match.teamAPlayer1Id);
-          const opponent2 = allPlayers.find(p => p.id === match.teamAPlayer2Id);
-          if (opponent1) opponentSkillLevels.push(opponent1.skillLevel);
-          if (opponent2) opponentSkillLevels.push(opponent2.skillLevel);
-          playerScore = match.teamBScore;
-          opponentScore = match.teamAScore;
-        }
-        
-        // Calculate average opponent skill level
-        const avgOpponentSkill = opponentSkillLevels.length > 0 
-          ? opponentSkillLevels.reduce((sum, skill) => sum + skill, 0) / opponentSkillLevels.length 
-          : player.skillLevel; // Default to player's level if no opponents found
-        
-        // Calculate skill difference and point difference
-        const skillDifference = avgOpponentSkill - player.skillLevel;
-        const pointDifference = playerScore - opponentScore;
-        
-        // Enhanced performance scoring considering both win/loss and point difference
-        let matchScore = 0;
-        
-        if (playerWon) {
-          // Base win score
-          let winScore = 1.0;
-          
-          // Bonus for beating stronger opponents
-          if (skillDifference > 0) {
-            winScore *= (1.0 + skillDifference * 0.25); // +25% per skill level difference
-          } else if (skillDifference < 0) {
-            // Reduced score for beating weaker opponents
-            winScore *= (1.0 - Math.abs(skillDifference) * 0.15); // -15% per skill level difference
-          }
-          
-          // Point difference bonus/penalty (winning by more points = better performance)
-          const pointBonus = Math.min(pointDifference * 0.1, 0.5); // Max 50% bonus
-          winScore *= (1.0 + pointBonus);
-          
-          matchScore = winScore;
-        } else {
-          // Base loss score
-          let lossScore = -1.0;
-          
-          // Reduced penalty for losing to stronger opponents
-          if (skillDifference > 0) {
-            lossScore *= (1.0 - skillDifference * 0.2); // Reduced penalty for losing to stronger
-          } else if (skillDifference < 0) {
-            // Increased penalty for losing to weaker opponents
-            lossScore *= (1.0 + Math.abs(skillDifference) * 0.3); // +30% penalty per skill level
-          }
-          
-          // Point difference consideration (losing by fewer points = better performance)
-          const pointPenalty = Math.max(Math.abs(pointDifference) * 0.1, 0.5); // Max 50% additional penalty
-          lossScore *= (1.0 + pointPenalty);
-          
-          matchScore = lossScore;
-        }
-        
-        weightedPerformanceScore += matchScore;
-        totalWeight += 1;
-      }
-      
-      // Calculate average weighted performance
-      const avgPerformance = totalWeight > 0 ? weightedPerformanceScore / totalWeight : 0;
-      let newSkillLevel = player.skillLevel;
-      
-      // Enhanced skill level adjustment based on weighted performance
-      // Only change by 1 level at a time, bounded between 1 and 10
-      if (avgPerformance > 0.5 && player.skillLevel < 10) {
-        // Strong weighted performance against appropriate opposition - increase by 1
-        newSkillLevel = Math.min(player.skillLevel + 1, 10);
-      } else if (avgPerformance < -0.5 && player.skillLevel > 1) {
-        // Poor weighted performance considering opposition strength - decrease by 1
-        newSkillLevel = Math.max(player.skillLevel - 1, 1);
-      }
-      
-      // Additional safety check: ensure skill level is within bounds and only changes by 1
-      newSkillLevel = Math.max(1, Math.min(10, newSkillLevel));
-      const skillChange = Math.abs(newSkillLevel - player.skillLevel);
-      if (skillChange > 1) {
-        // This should not happen with the logic above, but adding as a safety net
-        newSkillLevel = player.skillLevel + (newSkillLevel > player.skillLevel ? 1 : -1);
-      }
-      
-      // Only actually update skill level if player has 5+ matches
-      if (newSkillLevel !== player.skillLevel && shouldAutoUpdate) {
-        console.log(`Updating ${player.name} skill level from ${player.skillLevel} to ${newSkillLevel} (weighted performance: ${avgPerformance.toFixed(2)} over ${matchesToAnalyze} matches)`);
-        await this.updatePlayerSkillLevel(player.id, newSkillLevel);
-      } else if (newSkillLevel !== player.skillLevel && !shouldAutoUpdate) {
-        console.log(`Suggestion for ${player.name}: skill level change from ${player.skillLevel} to ${newSkillLevel} (weighted performance: ${avgPerformance.toFixed(2)} over ${matchesToAnalyze} matches) - need ${5 - playerMatches.length} more matches for auto-update`);
-      }
-    }
+  async createSession(session: InsertSession): Promise<SessionSummary> {
+    const { attendeeIds, ...values } = session;
+    return await this.db.transaction(async (tx) => {
+      const [newSession] = await tx.insert(sessions).values(values).returning();
+      await this.addSessionAttendees(tx, newSession.id, attendeeIds, newSession.organizerId);
+      const uniqueAttendeeIds = Array.from(new Set(attendeeIds));
+      return { ...newSession, attendeeIds: uniqueAttendeeIds, presentIds: uniqueAttendeeIds, matchCount: 0 };
+    });
   }
 
-  async getSkillLevelSuggestions(): Promise<Array<{ playerId: number; name: string; currentLevel: number; suggestedLevel: number; reason: string; matchesAnalyzed: number; matchesNeeded?: number }>> {
-    const allPlayers = await this.getAllPlayers();
-    const allMatches = await this.getAllMatches();
-    const suggestions: Array<{ playerId: number; name: string; currentLevel: number; suggestedLevel: number; reason: string; matchesAnalyzed: number; matchesNeeded?: number }> = [];
-    
-    for (const player of allPlayers) {
-      const playerMatches = allMatches.filter(match => 
-        match.teamAPlayer1Id === player.id ||
-        match.teamAPlayer2Id === player.id ||
-        match.teamBPlayer1Id === player.id ||
-        match.teamBPlayer2Id === player.id
-      ).sort((a, b) => new Date(b.playedAt).getTime() - new Date(a.playedAt).getTime());
-      
-      // Only provide suggestions for players with 3+ matches
-      if (playerMatches.length < 3) continue;
-      
-      const shouldAutoUpdate = playerMatches.length >= 5;
-      const matchesToAnalyze = shouldAutoUpdate ? 5 : Math.min(playerMatches.length, 3);
-      const recentMatches = playerMatches.slice(0, matchesToAnalyze);
-      
-      let weightedPerformanceScore = 0;
-      let totalWeight = 0;
-      
-      for (const match of recentMatches) {
-        const isTeamA = match.teamAPlayer1Id === player.id || match.teamAPlayer2Id === player.id;
-        const teamWon = match.winnerId === 1 ? "A" : "B";
-        const playerWon = (isTeamA && teamWon === "A") || (!isTeamA && teamWon === "B");
-        
-        let opponentSkillLevels: number[] = [];
-        let playerScore = 0;
-        let opponentScore = 0;
-        
-        if (isTeamA) {
-          const opponent1 = allPlayers.find(p => p.id === match.teamBPlayer1Id);
-          const opponent2 = allPlayers.find(p => p.id === match.teamBPlayer2Id);
-          if (opponent1) opponentSkillLevels.push(opponent1.skillLevel);
-          if (opponent2) opponentSkillLevels.push(opponent2.skillLevel);
-          playerScore = match.teamAScore;
-          opponentScore = match.teamBScore;
-        } else {
-          const opponent1 = allPlayers.find(p => p.id === match.teamAPlayer1Id);
-          const opponent2 = allPlayers.find(p => p.id === match.teamAPlayer2Id);
-          if (opponent1) opponentSkillLevels.push(opponent1.skillLevel);
-          if (opponent2) opponentSkillLevels.push(opponent2.skillLevel);
-          playerScore = match.teamBScore;
-          opponentScore = match.teamAScore;
-        }
-        
-        const avgOpponentSkill = opponentSkillLevels.length > 0 
-          ? opponentSkillLevels.reduce((sum, skill) => sum + skill, 0) / opponentSkillLevels.length 
-          : player.skillLevel;
-        
-        const skillDifference = avgOpponentSkill - player.skillLevel;
-        const pointDifference = playerScore - opponentScore;
-        
-        let matchScore = 0;
-        if (playerWon) {
-          let winScore = 1.0;
-          if (skillDifference > 0) {
-            winScore *= (1.0 + skillDifference * 0.25);
-          } else if (skillDifference < 0) {
-            winScore *= (1.0 - Math.abs(skillDifference) * 0.15);
-          }
-          const pointBonus = Math.min(pointDifference * 0.1, 0.5);
-          winScore *= (1.0 + pointBonus);
-          matchScore = winScore;
-        } else {
-          let lossScore = -1.0;
-          if (skillDifference > 0) {
-            lossScore *= (1.0 - skillDifference * 0.2);
-          } else if (skillDifference < 0) {
-            lossScore *= (1.0 + Math.abs(skillDifference) * 0.3);
-          }
-          const pointPenalty = Math.max(Math.abs(pointDifference) * 0.1, 0.5);
-          lossScore *= (1.0 + pointPenalty);
-          matchScore = lossScore;
-        }
-        
-        weightedPerformanceScore += matchScore;
-        totalWeight += 1;
-      }
-      
-      const avgPerformance = totalWeight > 0 ? weightedPerformanceScore / totalWeight : 0;
-      let suggestedLevel = player.skillLevel;
-      
-      // Only suggest 1 level change at a time, bounded between 1 and 10
-      if (avgPerformance > 0.5 && player.skillLevel < 10) {
-        suggestedLevel = Math.min(player.skillLevel + 1, 10);
-      } else if (avgPerformance < -0.5 && player.skillLevel > 1) {
-        suggestedLevel = Math.max(player.skillLevel - 1, 1);
-      }
-      
-      // Additional safety check for suggestions: ensure bounds and single-level change
-      suggestedLevel = Math.max(1, Math.min(10, suggestedLevel));
-      const skillChange = Math.abs(suggestedLevel - player.skillLevel);
-      if (skillChange > 1) {
-        suggestedLevel = player.skillLevel + (suggestedLevel > player.skillLevel ? 1 : -1);
-      }
+  async updateSession(id: number, updates: Partial<InsertSession>): Promise<SessionSummary | undefined> {
+    const { attendeeIds, ...values } = updates;
+    const updated = await this.db.transaction(async (tx) => {
+      const [session] = Object.keys(values).length > 0
+        ? await tx.update(sessions).set(values).where(eq(sessions.id, id)).returning()
+        : await tx.select().from(sessions).where(eq(sessions.id, id));
+      if (!session) return undefined;
       
-      if (suggestedLevel !== player.skillLevel) {
-        let reason = "";
-        if (suggestedLevel > player.skillLevel) {
-          reason = `Strong performance against opponents (weighted score: ${avgPerformance.toFixed(2)})`;
-        } else {
-          reason = `Challenging performance against opponents (weighted score: ${avgPerformance.toFixed(2)})`;
-        }
-        
-        const suggestion = {
-          playerId: player.id,
-          name: player.name,
-          currentLevel: player.skillLevel,
-          suggestedLevel,
-          reason,
-          matchesAnalyzed: matchesToAnalyze,
-          ...(shouldAutoUpdate ? {} : { matchesNeeded: 5 - playerMatches.length })
-        };
-        
-        suggestions.push(suggestion);
+      // The attendee list, when given, replaces the existing one; players already checked in keep their check-in time
+      if (attendeeIds) {
+        await tx
+          .delete(sessionAttendees)
+          .where(and(
+            eq(sessionAttendees.sessionId, id),
+            attendeeIds.length > 0 ? notInArray(sessionAttendees.playerId, attendeeIds) : undefined,
+          ));
+        await this.addSessionAttendees(tx, id, attendeeIds, session.organizerId);
       }
-    }
+      return session;
+    });
+    if (!updated) return undefined;
     
-    return suggestions;
+    return (await this.getAllSessions()).find(session => session.id === id);
   }
 
-  async recalculateAllSkillLevels(): Promise<void> {
-    const allPlayers = await this.getAllPlayers();
-    
-    // First, ensure all existing players have originalSkillLevel set
-    for (const player of allPlayers) {
-      if (player.originalSkillLevel === null || player.originalSkillLevel === undefined) {
-        await db
-          .update(players)
-          .set({ originalSkillLevel: player.skillLevel })
-          .where(eq(players.id, player.id));
-      }
-    }
-    
-    // Reset all players to their original skill levels (before any auto-adjustments)
-    for (const player of allPlayers) {
-      await db
-        .update(players)
-        .set({
-          skillLevel: player.originalSkillLevel || player.skillLevel,
-          previousSkillLevel: null,
-          lastSkillUpdate: null,
-        })
-        .where(eq(players.id, player.id));
-    }
+  async deleteSession(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(sessions).where(eq(sessions.id, id)).returning();
+      if (!deleted) return false;
+      
+      // Matches stay in the history, they just no longer belong to a night
+      await tx.delete(sessionAttendees).where(eq(sessionAttendees.sessionId, id));
+      await tx.update(matches).set({ sessionId: null }).where(eq(matches.sessionId, id));
+      return true;
+    });
+  }
+
+  private async addSessionAttendees(tx: Transaction, sessionId: number, playerIds: number[], checkedInBy?: number | null): Promise<void> {
+    if (playerIds.length === 0) return;
+    await tx
+      .insert(sessionAttendees)
+      .values(Array.from(new Set(playerIds)).map(playerId => ({ sessionId, playerId, checkedInBy: checkedInBy ?? null })))
+      .onConflictDoNothing();
+  }
+
+  async checkIn(sessionId: number, playerId: number, checkedInBy: number): Promise<SessionAttendee> {
+    // Checking in again after leaving puts the player back in the pool
+    const values = { checkedInAt: new Date(), checkedInBy, checkedOutAt: null };
+    const [attendee] = await this.db
+      .insert(sessionAttendees)
+      .values({ sessionId, playerId, ...values })
+      .onConflictDoUpdate({ target: [sessionAttendees.sessionId, sessionAttendees.playerId], set: values })
+      .returning();
+    return attendee;
+  }
+
+  async checkOut(sessionId: number, playerId: number): Promise<SessionAttendee | undefined> {
+    const [attendee] = await this.db
+      .update(sessionAttendees)
+      .set({ checkedOutAt: new Date() })
+      .where(and(eq(sessionAttendees.sessionId, sessionId), eq(sessionAttendees.playerId, playerId)))
+      .returning();
+    return attendee;
+  }
+
+  async getAvailablePlayers(sessionId: number): Promise<Player[]> {
+    const present = await this.db
+      .select({ playerId: sessionAttendees.playerId })
+      .from(sessionAttendees)
+      .where(and(eq(sessionAttendees.sessionId, sessionId), isNull(sessionAttendees.checkedOutAt)));
+    const presentIds = new Set(present.map(a => a.playerId));
     
-    // Now recalculate skill levels based on current match history
-    await this.checkForSkillLevelUpdates();
+    const activePlayers = await this.getAllPlayers();
+    return activePlayers.filter(player => presentIds.has(player.id));
   }
 
-  async resetAllPlayersToLevel5(): Promise<void> {
+  async getAttendanceSummaries(): Promise<AttendanceSummary[]> {
     const allPlayers = await this.getAllPlayers();
+    const allSessions = await this.db.select().from(sessions);
+    const attendees = await this.db.select().from(sessionAttendees);
     
-    console.log("Resetting all players to skill level 5...");
-    
-    // Set all players to skill level 5 and update their original skill level
-    for (const player of allPlayers) {
-      await db
-        .update(players)
-        .set({
-          skillLevel: 5,
-          originalSkillLevel: 5, // Set original to 5 as the new baseline
-          previousSkillLevel: player.skillLevel, // Store their previous level
-          lastSkillUpdate: new Date(),
-        })
-        .where(eq(players.id, player.id));
-      
-      console.log(`Reset ${player.name} from skill level ${player.skillLevel} to 5`);
-    }
-    
-    console.log("Running dynamic skill level calculations...");
+    return allPlayers.map(player => {
+      const attended = allSessions.filter(session => 
+        attendees.some(a => a.sessionId === session.id && a.playerId === player.id)
+      );
+      return {
+        playerId: player.id,
+        sessionsAttended: attended.length,
+        totalSessions: allSessions.length,
+        attendanceRate: allSessions.length > 0 ? Math.round((attended.length / allSessions.length) * 100) : 0,
+        lastAttended: attended.reduce<Date | null>((latest, s) => !latest || s.date > latest ? s.date : latest, null),
+      };
+    });
+  }
+
+  async getPlayerAttendance(playerId: number): Promise<PlayerAttendance> {
+    const allSessions = await this.db.select().from(sessions).orderBy(desc(sessions.date), desc(sessions.id));
+    const attendance = await this.db.select().from(sessionAttendees).where(eq(sessionAttendees.playerId, playerId));
+    const sessionMatches = await this.attachDetails(this.db, await this.db.select().from(matches).where(inArray(matches.sessionId, attendance.map(a => a.sessionId))));
     
-    // Now run the dynamic skill level calculation logic
-    await this.checkForSkillLevelUpdates();
+    const history = allSessions.flatMap(session => {
+      const record = attendance.find(a => a.sessionId === session.id);
+      if (!record) return [];
+      return [{
+        sessionId: session.id,
+        date: session.date,
+        venue: session.venue,
+        checkedInAt: record.checkedInAt,
+        checkedOutAt: record.checkedOutAt,
+        matchesPlayed: sessionMatches.filter(m => m.sessionId === session.id && participantIds(m).includes(playerId)).length,
+      }];
+    });
     
-    console.log("Skill level reset and recalculation completed!");
+    return {
+      playerId,
+      sessionsAttended: history.length,
+      totalSessions: allSessions.length,
+      attendanceRate: allSessions.length > 0 ? Math.round((history.length / allSessions.length) * 100) : 0,
+      lastAttended: history[0]?.date ?? null,
+      history,
+    };
   }
 
-  async resetAllData(): Promise<void> {
-    await db.delete(otpCodes);
-    await db.delete(matches);
-    await db.delete(players);
-    this.currentUser = null;
+  async getAllTournaments(): Promise<TournamentSummary[]> {
+    const allTournaments = await this.db.select().from(tournaments).orderBy(desc(tournaments.createdAt), desc(tournaments.id));
+    const teams = await this.db.select({ tournamentId: tournamentTeams.tournamentId }).from(tournamentTeams);
+    return allTournaments.map(tournament => ({
+      ...tournament,
+      teamCount: teams.filter(team => team.tournamentId === tournament.id).length,
+    }));
   }
 
-  async sendOTP(playerId: number): Promise<boolean> {
-    try {
-      // Get player's mobile number
-      const [player] = await db.select().from(players).where(eq(players.id, playerId));
-      if (!player) {
-        return false;
-      }
+  async getTournament(id: number): Promise<TournamentDetails | undefined> {
+    const [tournament] = await this.db.select().from(tournaments).where(eq(tournaments.id, id));
+    if (!tournament) return undefined;
 
-      // Generate OTP
-      const code = smsService.generateOTP();
-      const expiresAt = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
+    const teams = await this.db
+      .select()
+      .from(tournamentTeams)
+      .where(eq(tournamentTeams.tournamentId, id))
+      .orderBy(asc(tournamentTeams.id));
+    const draw = await this.db
+      .select()
+      .from(tournamentMatches)
+      .where(eq(tournamentMatches.tournamentId, id))
+      .orderBy(asc(tournamentMatches.round), asc(tournamentMatches.position));
+    const recordedIds = draw.flatMap(match => (match.matchId !== null ? [match.matchId] : []));
+    const recorded = recordedIds.length > 0
+      ? await this.attachDetails(this.db, await this.db.select().from(matches).where(inArray(matches.id, recordedIds)))
+      : [];
 
-      // Save OTP to database
-      await db.insert(otpCodes).values({
-        playerId,
-        code,
-        expiresAt,
-        isUsed: false,
-      });
+    return tournamentDetailsOf(tournament, teams, draw, recorded);
+  }
 
-      // Send SMS
-      const sent = await smsService.sendOTP(player.mobileNumber, code);
-      return sent;
-    } catch (error) {
-      console.error('Failed to send OTP:', error);
-      return false;
-    }
+  async createTournament(tournament: InsertTournament, createdBy?: number): Promise<Tournament> {
+    const [newTournament] = await this.db
+      .insert(tournaments)
+      .values({ ...tournament, createdBy: createdBy ?? null })
+      .returning();
+    return newTournament;
   }
 
-  async verifyOTP(playerId: number, code: string): Promise<boolean> {
-    try {
-      // Find valid OTP
-      const [otpRecord] = await db
+  async deleteTournament(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(tournaments).where(eq(tournaments.id, id)).returning();
+      if (!deleted) return false;
+
+      // The matches themselves stay in the history
+      await tx.delete(tournamentMatches).where(eq(tournamentMatches.tournamentId, id));
+      await tx.delete(tournamentTeams).where(eq(tournamentTeams.tournamentId, id));
+      return true;
+    });
+  }
+
+  async addTournamentTeam(tournamentId: number, playerIds: number[]): Promise<TournamentTeam> {
+    const [team] = await this.db
+      .insert(tournamentTeams)
+      .values({ tournamentId, player1Id: playerIds[0], player2Id: playerIds[1] ?? null })
+      .returning();
+    return team;
+  }
+
+  async removeTournamentTeam(tournamentId: number, teamId: number): Promise<boolean> {
+    const [removed] = await this.db
+      .delete(tournamentTeams)
+      .where(and(eq(tournamentTeams.id, teamId), eq(tournamentTeams.tournamentId, tournamentId)))
+      .returning();
+    return !!removed;
+  }
+
+  // Seed the teams, make the draw and open the tournament for results
+  async startTournament(id: number): Promise<TournamentDetails> {
+    await this.db.transaction(async (tx) => {
+      const [tournament] = await tx.select().from(tournaments).where(eq(tournaments.id, id));
+      if (!tournament) {
+        throw new Error("Tournament not found");
+      }
+      const teams = await tx
         .select()
-        .from(otpCodes)
-        .where(
-          and(
-            eq(otpCodes.playerId, playerId),
-            eq(otpCodes.code, code),
-            eq(otpCodes.isUsed, false),
-            gt(otpCodes.expiresAt, new Date())
-          )
-        );
+        .from(tournamentTeams)
+        .where(eq(tournamentTeams.tournamentId, id))
+        .orderBy(asc(tournamentTeams.id));
+      const allPlayers = await tx.select().from(players);
+      const ratings = await tx
+        .select()
+        .from(playerRatings)
+        .where(eq(playerRatings.discipline, disciplineOf(tournament.matchFormat)));
 
-      if (!otpRecord) {
-        return false;
+      const seeded = seedTeams(tournament, teams, allPlayers, ratings);
+      const draw = generateDraw(tournament.format, seeded.map(team => team.id), tournament.groupCount);
+
+      for (let index = 0; index < seeded.length; index++) {
+        await tx
+          .update(tournamentTeams)
+          .set({ seed: index + 1, groupNumber: draw.groups.get(seeded[index].id) ?? null })
+          .where(eq(tournamentTeams.id, seeded[index].id));
       }
 
-      // Mark OTP as used
-      await db
-        .update(otpCodes)
-        .set({ isUsed: true })
-        .where(eq(otpCodes.id, otpRecord.id));
+      const inserted = await tx
+        .insert(tournamentMatches)
+        .values(draw.matches.map(match => ({
+          tournamentId: id,
+          bracket: match.bracket,
+          round: match.round,
+          position: match.position,
+          groupNumber: match.groupNumber,
+          teamAId: match.teamAId,
+          teamBId: match.teamBId,
+        })))
+        .returning();
 
-      return true;
-    } catch (error) {
-      console.error('Failed to verify OTP:', error);
-      return false;
+      // Link each knockout match to the ones its winner and loser go on to
+      const idOf = (key: string) => inserted[draw.matches.findIndex(match => match.key === key)].id;
+      for (let index = 0; index < draw.matches.length; index++) {
+        const match = draw.matches[index];
+        if (!match.winnerTo && !match.loserTo) continue;
+        await tx
+          .update(tournamentMatches)
+          .set({
+            winnerNextMatchId: match.winnerTo ? idOf(match.winnerTo.key) : null,
+            winnerNextSlot: match.winnerTo?.slot ?? null,
+            loserNextMatchId: match.loserTo ? idOf(match.loserTo.key) : null,
+            loserNextSlot: match.loserTo?.slot ?? null,
+          })
+          .where(eq(tournamentMatches.id, inserted[index].id));
+      }
+
+      await tx
+        .update(tournaments)
+        .set({ status: "in_progress", startedAt: new Date() })
+        .where(eq(tournaments.id, id));
+    });
+
+    return (await this.getTournament(id))!;
+  }
+
+  // A result can't be taken back once a match it sent a team on to has been played
+  async isTournamentResultLocked(matchId: number): Promise<boolean> {
+    const [decided] = await this.db.select().from(tournamentMatches).where(eq(tournamentMatches.matchId, matchId));
+    if (!decided) return false;
+    const later = await this.followingTournamentMatches(this.db, decided);
+    return later.some(match => match.winnerTeamId !== null);
+  }
+
+  // Matches that a tournament match's result feeds into, including a grand final reset it caused
+  private async followingTournamentMatches(executor: Database | Transaction, decided: TournamentMatch): Promise<TournamentMatch[]> {
+    const nextIds = [decided.winnerNextMatchId, decided.loserNextMatchId].filter((id): id is number => id !== null);
+    const following = nextIds.length > 0
+      ? await executor.select().from(tournamentMatches).where(inArray(tournamentMatches.id, nextIds))
+      : [];
+    if (decided.bracket === "final" && decided.round === 1) {
+      following.push(...await executor
+        .select()
+        .from(tournamentMatches)
+        .where(and(
+          eq(tournamentMatches.tournamentId, decided.tournamentId),
+          eq(tournamentMatches.bracket, "final"),
+          eq(tournamentMatches.round, 2),
+        )));
     }
+    return following;
+  }
+
+  // If a recorded match is one a running tournament is waiting on, take its result and send the teams on.
+  // Tournaments match on format and line-up, whichever way round the teams were entered.
+  private async recordTournamentResult(tx: Transaction, match: MatchDetails): Promise<void> {
+    const open = await tx
+      .select({ tournamentMatch: tournamentMatches })
+      .from(tournamentMatches)
+      .innerJoin(tournaments, eq(tournaments.id, tournamentMatches.tournamentId))
+      .where(and(
+        eq(tournaments.status, "in_progress"),
+        eq(tournaments.matchFormat, match.format),
+        isNull(tournamentMatches.winnerTeamId),
+      ))
+      .orderBy(asc(tournamentMatches.tournamentId), asc(tournamentMatches.round), asc(tournamentMatches.position));
+    if (open.length === 0) return;
+
+    const teams = await tx
+      .select()
+      .from(tournamentTeams)
+      .where(inArray(tournamentTeams.tournamentId, Array.from(new Set(open.map(row => row.tournamentMatch.tournamentId)))));
+    const lineupOf = (teamId: number | null) => {
+      const team = teams.find(t => t.id === teamId);
+      return team ? teamPlayerIds(team) : [];
+    };
+
+    for (const { tournamentMatch } of open) {
+      const side = sideOf(match, lineupOf(tournamentMatch.teamAId), lineupOf(tournamentMatch.teamBId));
+      if (!side) continue;
+
+      const teamAWon = match.winnerId === side;
+      const winnerTeamId = teamAWon ? tournamentMatch.teamAId! : tournamentMatch.teamBId!;
+      const loserTeamId = teamAWon ? tournamentMatch.teamBId! : tournamentMatch.teamAId!;
+      await tx
+        .update(tournamentMatches)
+        .set({ winnerTeamId, matchId: match.id })
+        .where(eq(tournamentMatches.id, tournamentMatch.id));
+      await this.fillTournamentSlot(tx, tournamentMatch.winnerNextMatchId, tournamentMatch.winnerNextSlot, winnerTeamId);
+      await this.fillTournamentSlot(tx, tournamentMatch.loserNextMatchId, tournamentMatch.loserNextSlot, loserTeamId);
+
+      // Losing the grand final is a team's first defeat if they came through the winners bracket,
+      // so it is played again
+      if (tournamentMatch.bracket === "final" && tournamentMatch.round === 1 && winnerTeamId === tournamentMatch.teamBId) {
+        await tx.insert(tournamentMatches).values({
+          tournamentId: tournamentMatch.tournamentId,
+          bracket: "final",
+          round: 2,
+          position: 1,
+          teamAId: tournamentMatch.teamAId,
+          teamBId: tournamentMatch.teamBId,
+        });
+      }
+
+      const [undecided] = await tx
+        .select({ id: tournamentMatches.id })
+        .from(tournamentMatches)
+        .where(and(eq(tournamentMatches.tournamentId, tournamentMatch.tournamentId), isNull(tournamentMatches.winnerTeamId)))
+        .limit(1);
+      if (!undecided) {
+        await tx.update(tournaments).set({ status: "completed" }).where(eq(tournaments.id, tournamentMatch.tournamentId));
+      }
+      return;
+    }
+  }
+
+  private async fillTournamentSlot(tx: Transaction, tournamentMatchId: number | null, slot: number | null, teamId: number | null): Promise<void> {
+    if (tournamentMatchId === null) return;
+    await tx
+      .update(tournamentMatches)
+      .set(slot === 1 ? { teamAId: teamId } : { teamBId: teamId })
+      .where(eq(tournamentMatches.id, tournamentMatchId));
+  }
+
+  // Undo whatever a recorded match decided in a tournament, before it is edited or deleted
+  private async retractTournamentResult(tx: Transaction, matchId: number): Promise<void> {
+    const [decided] = await tx.select().from(tournamentMatches).where(eq(tournamentMatches.matchId, matchId));
+    if (!decided) return;
+
+    await tx
+      .update(tournamentMatches)
+      .set({ winnerTeamId: null, matchId: null })
+      .where(eq(tournamentMatches.id, decided.id));
+    await this.fillTournamentSlot(tx, decided.winnerNextMatchId, decided.winnerNextSlot, null);
+    await this.fillTournamentSlot(tx, decided.loserNextMatchId, decided.loserNextSlot, null);
+    if (decided.bracket === "final" && decided.round === 1) {
+      await tx
+        .delete(tournamentMatches)
+        .where(and(
+          eq(tournamentMatches.tournamentId, decided.tournamentId),
+          eq(tournamentMatches.bracket, "final"),
+          eq(tournamentMatches.round, 2),
+        ));
+    }
+    await tx
+      .update(tournaments)
+      .set({ status: "in_progress" })
+      .where(and(eq(tournaments.id, decided.tournamentId), eq(tournaments.status, "completed")));
+  }
+
+  async getAllLadders(): Promise<LadderSummary[]> {
+    const allLadders = await this.db.select().from(ladders).orderBy(asc(ladders.id));
+    const entries = await this.db.select({ ladderId: ladderEntries.ladderId }).from(ladderEntries);
+    return allLadders.map(ladder => ({
+      ...ladder,
+      entryCount: entries.filter(entry => entry.ladderId === ladder.id).length,
+    }));
+  }
+
+  async getLadder(id: number): Promise<LadderDetails | undefined> {
+    const [ladder] = await this.db.select().from(ladders).where(eq(ladders.id, id));
+    if (!ladder) return undefined;
+
+    const entries = await this.db
+      .select()
+      .from(ladderEntries)
+      .where(eq(ladderEntries.ladderId, id))
+      .orderBy(asc(ladderEntries.position));
+    const open = await this.db
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.ladderId, id), inArray(challenges.status, ["pending", "accepted"])))
+      .orderBy(asc(challenges.deadline));
+    const settled = await this.db
+      .select()
+      .from(challenges)
+      .where(and(eq(challenges.ladderId, id), notInArray(challenges.status, ["pending", "accepted"])))
+      .orderBy(desc(challenges.issuedAt))
+      .limit(RECENT_CHALLENGES);
+
+    return { ...ladder, entryCount: entries.length, entries, challenges: [...open, ...settled] };
+  }
+
+  async createLadder(ladder: InsertLadder): Promise<Ladder> {
+    const [newLadder] = await this.db.insert(ladders).values(ladder).returning();
+    return newLadder;
+  }
+
+  async deleteLadder(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(ladders).where(eq(ladders.id, id)).returning();
+      if (!deleted) return false;
+
+      await tx.delete(challenges).where(eq(challenges.ladderId, id));
+      await tx.delete(ladderEntries).where(eq(ladderEntries.ladderId, id));
+      return true;
+    });
+  }
+
+  // New entries start on the bottom rung
+  async addLadderEntry(ladderId: number, playerIds: number[]): Promise<LadderEntry> {
+    return await this.db.transaction(async (tx) => {
+      const [bottom] = await tx
+        .select({ position: ladderEntries.position })
+        .from(ladderEntries)
+        .where(eq(ladderEntries.ladderId, ladderId))
+        .orderBy(desc(ladderEntries.position))
+        .limit(1);
+      const [entry] = await tx
+        .insert(ladderEntries)
+        .values({ ladderId, position: (bottom?.position ?? 0) + 1, player1Id: playerIds[0], player2Id: playerIds[1] ?? null })
+        .returning();
+      return entry;
+    });
+  }
+
+  // Everyone below a leaving entry moves up a rung; their challenges go with them
+  async removeLadderEntry(ladderId: number, entryId: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(ladderEntries)
+        .where(and(eq(ladderEntries.id, entryId), eq(ladderEntries.ladderId, ladderId)))
+        .returning();
+      if (!removed) return false;
+
+      await tx
+        .update(ladderEntries)
+        .set({ position: sql`${ladderEntries.position} - 1` })
+        .where(and(eq(ladderEntries.ladderId, ladderId), gt(ladderEntries.position, removed.position)));
+      await tx
+        .delete(challenges)
+        .where(or(eq(challenges.challengerEntryId, entryId), eq(challenges.defenderEntryId, entryId)));
+      return true;
+    });
+  }
+
+  async getChallenge(id: number): Promise<Challenge | undefined> {
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.id, id));
+    return challenge;
+  }
+
+  async createChallenge(ladderId: number, challengerEntryId: number, defenderEntryId: number, issuedBy: number): Promise<Challenge> {
+    const [ladder] = await this.db.select().from(ladders).where(eq(ladders.id, ladderId));
+    const deadline = new Date(Date.now() + ladder.challengeDays * 24 * 60 * 60 * 1000);
+    const [challenge] = await this.db
+      .insert(challenges)
+      .values({ ladderId, challengerEntryId, defenderEntryId, issuedBy, deadline })
+      .returning();
+    return challenge;
+  }
+
+  // Declining forfeits: the challenger takes the defender's rung, as when a challenge goes unanswered
+  async respondToChallenge(id: number, accept: boolean): Promise<Challenge | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const now = new Date();
+      const [pending] = await tx.select().from(challenges).where(and(eq(challenges.id, id), eq(challenges.status, "pending")));
+      if (!pending) return undefined;
+
+      const [challenge] = await tx
+        .update(challenges)
+        .set(accept
+          ? { status: "accepted", respondedAt: now }
+          : { status: "declined", winnerEntryId: pending.challengerEntryId, respondedAt: now, resolvedAt: now })
+        .where(and(eq(challenges.id, id), eq(challenges.status, "pending")))
+        .returning();
+      if (challenge && !accept) {
+        await this.swapLadderPositions(tx, challenge.challengerEntryId, challenge.defenderEntryId);
+      }
+      return challenge;
+    });
+  }
+
+  // Settle challenges whose deadline has passed. One that was never answered is forfeited and the
+  // challenger takes the defender's rung; one that was accepted but not played just lapses.
+  async resolveOverdueChallenges(): Promise<number> {
+    return await this.db.transaction(async (tx) => {
+      const now = new Date();
+      const overdue = await tx
+        .select()
+        .from(challenges)
+        .where(and(inArray(challenges.status, ["pending", "accepted"]), lt(challenges.deadline, now)))
+        .orderBy(asc(challenges.deadline));
+
+      for (const challenge of overdue) {
+        if (challenge.status === "pending") {
+          await tx
+            .update(challenges)
+            .set({ status: "forfeited", winnerEntryId: challenge.challengerEntryId, resolvedAt: now })
+            .where(eq(challenges.id, challenge.id));
+          await this.swapLadderPositions(tx, challenge.challengerEntryId, challenge.defenderEntryId);
+        } else {
+          await tx
+            .update(challenges)
+            .set({ status: "expired", resolvedAt: now })
+            .where(eq(challenges.id, challenge.id));
+        }
+      }
+      return overdue.length;
+    });
+  }
+
+  // A result that moved an entry up can't be taken back once either entry has moved off the rung it won or lost
+  async isLadderResultLocked(matchId: number): Promise<boolean> {
+    const [settled] = await this.db.select().from(challenges).where(eq(challenges.matchId, matchId));
+    return !!settled && !await this.ladderResultStands(this.db, settled);
+  }
+
+  // Whether the ladder still shows what a settled challenge did to it. A defender's win moved nobody.
+  private async ladderResultStands(executor: Database | Transaction, challenge: Challenge): Promise<boolean> {
+    if (challenge.winnerEntryId !== challenge.challengerEntryId) return true;
+    if (challenge.challengerPosition === null || challenge.defenderPosition === null) return false;
+
+    const entries = await executor
+      .select()
+      .from(ladderEntries)
+      .where(inArray(ladderEntries.id, [challenge.challengerEntryId, challenge.defenderEntryId]));
+    const positionOf = (entryId: number) => entries.find(entry => entry.id === entryId)?.position;
+    return positionOf(challenge.challengerEntryId) === challenge.defenderPosition
+      && positionOf(challenge.defenderEntryId) === challenge.challengerPosition;
+  }
+
+  // If a recorded match is an open challenge being played, settle it. The players don't have to
+  // accept first; turning up and playing counts.
+  private async recordLadderResult(tx: Transaction, match: MatchDetails): Promise<void> {
+    const open = await tx
+      .select({ challenge: challenges })
+      .from(challenges)
+      .innerJoin(ladders, eq(ladders.id, challenges.ladderId))
+      .where(and(eq(ladders.matchFormat, match.format), inArray(challenges.status, ["pending", "accepted"])))
+      .orderBy(asc(challenges.issuedAt));
+    if (open.length === 0) return;
+
+    const entries = await tx
+      .select()
+      .from(ladderEntries)
+      .where(inArray(ladderEntries.id, open.flatMap(({ challenge }) => [challenge.challengerEntryId, challenge.defenderEntryId])));
+    const lineupOf = (entryId: number) => {
+      const entry = entries.find(e => e.id === entryId);
+      return entry ? teamPlayerIds(entry) : [];
+    };
+    const positionOf = (entryId: number) => entries.find(e => e.id === entryId)?.position ?? null;
+
+    for (const { challenge } of open) {
+      const side = sideOf(match, lineupOf(challenge.challengerEntryId), lineupOf(challenge.defenderEntryId));
+      if (!side) continue;
+
+      const challengerWon = match.winnerId === side;
+      await tx
+        .update(challenges)
+        .set({
+          status: "completed",
+          winnerEntryId: challengerWon ? challenge.challengerEntryId : challenge.defenderEntryId,
+          matchId: match.id,
+          respondedAt: challenge.respondedAt ?? new Date(),
+          resolvedAt: new Date(),
+          challengerPosition: positionOf(challenge.challengerEntryId),
+          defenderPosition: positionOf(challenge.defenderEntryId),
+        })
+        .where(eq(challenges.id, challenge.id));
+      if (challengerWon) {
+        await this.swapLadderPositions(tx, challenge.challengerEntryId, challenge.defenderEntryId);
+      }
+      return;
+    }
+  }
+
+  // Reopen the challenge a recorded match settled, before the match is edited or deleted, and put
+  // both entries back on the rungs they held before it
+  private async retractLadderResult(tx: Transaction, matchId: number): Promise<void> {
+    const [settled] = await tx.select().from(challenges).where(eq(challenges.matchId, matchId));
+    if (!settled) return;
+    if (!await this.ladderResultStands(tx, settled)) {
+      throw new Error("Ladder result is locked");
+    }
+
+    await tx
+      .update(challenges)
+      .set({ status: "accepted", winnerEntryId: null, matchId: null, resolvedAt: null, challengerPosition: null, defenderPosition: null })
+      .where(eq(challenges.id, settled.id));
+    if (settled.winnerEntryId === settled.challengerEntryId) {
+      await tx.update(ladderEntries).set({ position: settled.challengerPosition! }).where(eq(ladderEntries.id, settled.challengerEntryId));
+      await tx.update(ladderEntries).set({ position: settled.defenderPosition! }).where(eq(ladderEntries.id, settled.defenderEntryId));
+    }
+  }
+
+  private async swapLadderPositions(tx: Transaction, entryId: number, otherEntryId: number): Promise<void> {
+    const [entry] = await tx.select().from(ladderEntries).where(eq(ladderEntries.id, entryId));
+    const [other] = await tx.select().from(ladderEntries).where(eq(ladderEntries.id, otherEntryId));
+    if (!entry || !other) return;
+    await tx.update(ladderEntries).set({ position: other.position }).where(eq(ladderEntries.id, entry.id));
+    await tx.update(ladderEntries).set({ position: entry.position }).where(eq(ladderEntries.id, other.id));
+  }
+
+  async getPlayerStats(playerId?: number, filter: StatsFilter = {}): Promise<PlayerStats[]> {
+    const allPlayers = await this.getAllPlayers();
+    const allMatches = await this.getAllMatches();
+    const discipline = filter.format ? disciplineOf(filter.format) : "doubles";
+    const ratings = await this.getPlayerRatings(discipline);
+    const doublesRatings = discipline === "doubles" ? ratings : await this.getPlayerRatings("doubles");
+    const { skillPolicy } = await this.getClubSettings();
+    return computePlayerStats(allPlayers, allMatches, ratings, doublesRatings, skillPolicy, filter, playerId);
+  }
+
+  async getPlayerConnections(playerId: number, relation: "partners" | "opponents"): Promise<PlayerConnection[]> {
+    const allPlayers = await this.getAllPlayers();
+    const allMatches = await this.getAllMatches();
+    const ratingDeltas = await this.getRatingDeltas([playerId], allPlayers);
+    return computeConnections(playerId, relation, allMatches, allPlayers, ratingDeltas);
+  }
+
+  async getHeadToHead(teamA: number[], teamB: number[]): Promise<HeadToHead> {
+    const allPlayers = await this.getAllPlayers();
+    const allMatches = await this.getAllMatches();
+    const ratingDeltas = await this.getRatingDeltas(teamA, allPlayers);
+    return computeHeadToHead(teamA, teamB, allMatches, ratingDeltas);
+  }
+
+  async getPlayerProfile(playerId: number): Promise<PlayerProfile | undefined> {
+    const allPlayers = await this.getAllPlayers();
+    const player = allPlayers.find(p => p.id === playerId);
+    if (!player) return undefined;
+
+    const [stats] = await this.getPlayerStats(playerId);
+    const allMatches = await this.getAllMatches();
+    const ratingDeltas = await this.getRatingDeltas([playerId], allPlayers);
+    return computePlayerProfile(player, stats, allMatches, await this.getPlayerRatings("doubles"), ratingDeltas, await this.getClubSettings());
+  }
+
+  // The rating change each match brought the given players, averaged over those of them who played it
+  private async getRatingDeltas(playerIds: number[], allPlayers: Player[]): Promise<Map<number, number>> {
+    const rows = await this.db
+      .select({ snapshot: matchSkillSnapshots, format: matches.format, playedAt: matches.playedAt })
+      .from(matchSkillSnapshots)
+      .innerJoin(matches, eq(matchSkillSnapshots.matchId, matches.id))
+      .where(inArray(matchSkillSnapshots.playerId, playerIds));
+    return computeRatingDeltas(rows, allPlayers);
+  }
+
+  private async recordSkillLevelChange(executor: Database | Transaction, playerId: number, oldLevel: number, newLevel: number, change: SkillChangeContext): Promise<void> {
+    await executor.insert(skillLevelChanges).values({
+      playerId,
+      oldLevel,
+      newLevel,
+      cause: change.cause,
+      matchId: change.matchId ?? null,
+      changedBy: change.changedBy ?? null,
+    });
+  }
+
+  async getSkillLevelHistory(playerId: number): Promise<SkillLevelChange[]> {
+    return await this.db
+      .select()
+      .from(skillLevelChanges)
+      .where(eq(skillLevelChanges.playerId, playerId))
+      .orderBy(asc(skillLevelChanges.createdAt), asc(skillLevelChanges.id));
+  }
+
+  async getSkillLevelSuggestions(): Promise<SkillLevelSuggestion[]> {
+    const allPlayers = await this.getAllPlayers();
+    const { skillPolicy } = await this.getClubSettings();
+    return computeSkillSuggestions(allPlayers, await this.getPlayerRatings("doubles"), skillPolicy);
+  }
+
+  async getPlayerRatings(discipline: Discipline = "doubles"): Promise<PlayerRating[]> {
+    return await this.db.select().from(playerRatings).where(eq(playerRatings.discipline, discipline));
+  }
+
+  // Recompute skill levels and ratings for every match ordered at or after `start` (all matches when null).
+  // Only those matches are loaded, along with each player's latest snapshot before `start`, so recording
+  // the newest match replays that one match however long the club's history is. History from before
+  // snapshots existed is replayed in full, once, to fill them in. `extraPlayerIds` are players who may
+  // no longer appear in those matches (e.g. from a deleted match) but whose state still needs rewinding.
+  private async replaySkills(tx: Transaction, start: ReplayMatch | null, change: SkillChangeContext, extraPlayerIds: number[] = []): Promise<void> {
+    const allPlayers = await tx.select().from(players);
+    const playersById = new Map(allPlayers.map(player => [player.id, player]));
+
+    const resumeFrom = start ? await this.resumePointsBefore(tx, start) : null;
+    const replayFrom = resumeFrom ? not(playedBefore(start!)) : undefined;
+    const replayedRows = (await this.attachDetails(tx, await tx.select().from(matches).where(replayFrom))).sort(compareMatchOrder);
+    const replay = await this.createReplay(tx, playersById, await this.clubSettingsOf(tx));
+    const { isFullReplay, replayedMatches, snapshots, events, proposals } = runReplay(replay, replayedRows, resumeFrom);
+
+    // Replace the snapshots of every replayed match
+    if (isFullReplay) {
+      await tx.delete(matchSkillSnapshots);
+      await tx.update(players).set({ originalSkillLevel: players.skillLevel }).where(isNull(players.originalSkillLevel));
+    } else if (replayedMatches.length > 0) {
+      await tx.delete(matchSkillSnapshots).where(inArray(matchSkillSnapshots.matchId, replayedMatches.map(match => match.id)));
+    }
+    for (let i = 0; i < snapshots.length; i += SNAPSHOT_BATCH_SIZE) {
+      await tx.insert(matchSkillSnapshots).values(snapshots.slice(i, i + SNAPSHOT_BATCH_SIZE));
+    }
+
+    // Write back the final state of everyone the replay touched
+    const affectedPlayerIds = isFullReplay
+      ? allPlayers.map(player => player.id)
+      : Array.from(new Set([...extraPlayerIds, ...replayedMatches.flatMap(participantIds)]));
+    const now = new Date();
+    for (const playerId of affectedPlayerIds) {
+      const player = playersById.get(playerId);
+      if (!player) continue;
+      const { skillLevel } = replay.stateOf(playerId);
+
+      if (skillLevel !== player.skillLevel) {
+        await tx
+          .update(players)
+          .set({ skillLevel, previousSkillLevel: player.skillLevel, lastSkillUpdate: now })
+          .where(eq(players.id, playerId));
+      }
+
+      for (const discipline of disciplines) {
+        const state = replay.stateOf(playerId, discipline);
+        if (state.matchesPlayed > 0) {
+          const values = {
+            rating: state.rating,
+            ratingDeviation: state.ratingDeviation,
+            volatility: state.volatility,
+            matchesPlayed: state.matchesPlayed,
+            updatedAt: now,
+          };
+          await tx
+            .insert(playerRatings)
+            .values({ playerId, discipline, ...values })
+            .onConflictDoUpdate({ target: [playerRatings.playerId, playerRatings.discipline], set: values });
+        } else {
+          await tx.delete(playerRatings).where(and(eq(playerRatings.playerId, playerId), eq(playerRatings.discipline, discipline)));
+        }
+      }
+    }
+
+    const history = skillChangeHistory(change, events, affectedPlayerIds, playersById, replay);
+    if (history.length > 0) {
+      await tx.insert(skillLevelChanges).values(history);
+    }
+
+    await this.syncSkillProposals(tx, isFullReplay ? null : replayedMatches.map(match => match.id), proposals);
+  }
+
+  // Each player's snapshot after their last match in each discipline before `start`, or null when the
+  // replay has to start from the beginning: nothing comes before `start`, or some match before it has
+  // no snapshots yet
+  private async resumePointsBefore(tx: Transaction, start: ReplayMatch): Promise<ResumePoint[] | null> {
+    const [{ earlier, snapshotted }] = await tx
+      .select({ earlier: countDistinct(matches.id), snapshotted: countDistinct(matchSkillSnapshots.matchId) })
+      .from(matches)
+      .leftJoin(matchSkillSnapshots, eq(matchSkillSnapshots.matchId, matches.id))
+      .where(playedBefore(start));
+    if (earlier === 0 || snapshotted < earlier) return null;
+
+    // Singles is rated on its own; every other format counts as doubles, as in disciplineOf
+    const isSingles = sql<boolean>`${matches.format} = 'singles'`;
+    return await tx
+      .selectDistinctOn([matchSkillSnapshots.playerId, isSingles], { snapshot: matchSkillSnapshots, format: matches.format, playedAt: matches.playedAt })
+      .from(matchSkillSnapshots)
+      .innerJoin(matches, eq(matches.id, matchSkillSnapshots.matchId))
+      .where(playedBefore(start))
+      .orderBy(matchSkillSnapshots.playerId, isSingles, desc(matches.playedAt), desc(matches.id));
+  }
+
+  // A replay under the club's policy (or a proposed one)
+  private async createReplay(executor: Database | Transaction, playersById: Map<number, Player>, settings: ClubSettings, policy: SkillPolicy = settings.skillPolicy): Promise<SkillReplay> {
+    const decided = settings.skillAdjustmentMode === "review"
+      ? await executor.select().from(skillProposals).where(inArray(skillProposals.status, ["approved", "rejected"]))
+      : [];
+    const changes = await executor.select().from(skillLevelChanges).where(inArray(skillLevelChanges.cause, ["manual", "reset"]));
+    return createSkillReplay(playersById, settings, decided, changes, policy);
+  }
+
+  // Replays the whole history under a proposed policy without saving anything
+  async previewSkillPolicy(policy: SkillPolicy): Promise<SkillPolicyPreview[]> {
+    const allPlayers = await this.db.select().from(players);
+    const allMatches = (await this.attachDetails(this.db, await this.db.select().from(matches))).sort(compareMatchOrder);
+    const replay = await this.createReplay(this.db, new Map(allPlayers.map(player => [player.id, player])), await this.getClubSettings(), policy);
+
+    const proposedLevels = new Map<number, number>();
+    for (const match of allMatches) {
+      for (const proposal of replay.apply(match).proposals) {
+        proposedLevels.set(proposal.playerId, proposal.newLevel);
+      }
+    }
+    replay.finish();
+
+    return allPlayers
+      .filter(player => player.isActive)
+      .map(player => ({
+        playerId: player.id,
+        name: player.name,
+        currentLevel: player.skillLevel,
+        projectedLevel: replay.stateOf(player.id).skillLevel,
+        proposedLevel: proposedLevels.get(player.id) ?? null,
+      }))
+      .filter(preview => preview.projectedLevel !== preview.currentLevel || preview.proposedLevel !== null);
+  }
+
+  // Saving a policy replays the whole history under it, as the preview showed
+  async updateSkillPolicy(policy: SkillPolicy, updatedBy: number): Promise<ClubSettings> {
+    return await this.db.transaction(async (tx) => {
+      const current = await this.clubSettingsOf(tx);
+      const [updated] = await tx
+        .update(clubSettings)
+        .set({ skillPolicy: policy, updatedBy, updatedAt: new Date() })
+        .where(eq(clubSettings.id, current.id))
+        .returning();
+      await this.replaySkills(tx, null, { cause: "recalculation", changedBy: updatedBy });
+      return updated;
+    });
+  }
+
+  // Open proposals follow the replay: those of replayed matches are recomputed, and a player only
+  // keeps their latest one
+  private async syncSkillProposals(tx: Transaction, replayedMatchIds: number[] | null, proposals: SkillProposalEvent[]): Promise<void> {
+    if (replayedMatchIds === null) {
+      await tx.delete(skillProposals).where(eq(skillProposals.status, "pending"));
+    } else if (replayedMatchIds.length > 0) {
+      await tx.delete(skillProposals).where(and(eq(skillProposals.status, "pending"), inArray(skillProposals.matchId, replayedMatchIds)));
+    }
+
+    const latest = latestProposals(proposals);
+    if (latest.length === 0) return;
+
+    await tx.delete(skillProposals).where(and(eq(skillProposals.status, "pending"), inArray(skillProposals.playerId, latest.map(proposal => proposal.playerId))));
+    await tx.insert(skillProposals).values(latest);
+  }
+
+  async getSkillProposals(status?: SkillProposalStatus): Promise<SkillProposal[]> {
+    return await this.db
+      .select()
+      .from(skillProposals)
+      .where(status ? eq(skillProposals.status, status) : undefined)
+      .orderBy(desc(skillProposals.createdAt), desc(skillProposals.id));
+  }
+
+  // Approving replays from the proposal's match, so the new level also feeds every later evaluation
+  async decideSkillProposal(id: number, approve: boolean, decidedBy: number): Promise<SkillProposal | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [decided] = await tx
+        .update(skillProposals)
+        .set({ status: approve ? "approved" : "rejected", decidedBy, decidedAt: new Date() })
+        .where(and(eq(skillProposals.id, id), eq(skillProposals.status, "pending")))
+        .returning();
+      if (!decided) return undefined;
+
+      if (approve) {
+        const [match] = await this.attachDetails(tx, await tx.select().from(matches).where(eq(matches.id, decided.matchId)));
+        if (match) {
+          await this.replaySkills(tx, match, { cause: "approved", matchId: match.id, changedBy: decidedBy }, [decided.playerId]);
+        }
+      }
+      return decided;
+    });
+  }
+
+  async getClubSettings(): Promise<ClubSettings> {
+    return await this.clubSettingsOf(this.db);
+  }
+
+  async updateClubSettings(data: UpdateClubSettings, updatedBy: number): Promise<ClubSettings> {
+    return await this.db.transaction(async (tx) => {
+      const current = await this.clubSettingsOf(tx);
+      const [updated] = await tx
+        .update(clubSettings)
+        .set({ ...data, updatedBy, updatedAt: new Date() })
+        .where(eq(clubSettings.id, current.id))
+        .returning();
+
+      // Back to automatic adjustment: open proposals no longer wait for anyone
+      if (current.skillAdjustmentMode === "review" && updated.skillAdjustmentMode === "automatic") {
+        await tx.delete(skillProposals).where(eq(skillProposals.status, "pending"));
+      }
+      return updated;
+    });
+  }
+
+  // The settings row, created with the defaults the first time it is needed
+  private async clubSettingsOf(executor: Database | Transaction): Promise<ClubSettings> {
+    const [settings] = await executor.select().from(clubSettings).orderBy(asc(clubSettings.id)).limit(1);
+    if (settings) return settings;
+    const [created] = await executor.insert(clubSettings).values({}).returning();
+    return created;
+  }
+
+  async recalculateAllSkillLevels(changedBy?: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await this.replaySkills(tx, null, { cause: "recalculation", changedBy });
+    });
+  }
+
+  // A single update and the replay share one transaction, so a failure leaves every level as it was
+  async resetAllPlayersToLevel5(changedBy?: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const reset = await tx
+        .update(players)
+        .set({
+          skillLevel: 5,
+          originalSkillLevel: 5, // the new baseline
+          previousSkillLevel: players.skillLevel,
+          lastSkillUpdate: new Date(),
+        })
+        .where(eq(players.isActive, true))
+        .returning({ id: players.id, oldLevel: players.previousSkillLevel });
+
+      const changed = reset.filter(player => player.oldLevel !== 5);
+      if (changed.length > 0) {
+        await tx.insert(skillLevelChanges).values(changed.map(player => ({
+          playerId: player.id,
+          oldLevel: player.oldLevel ?? 5,
+          newLevel: 5,
+          cause: "reset" as const,
+          changedBy: changedBy ?? null,
+        })));
+      }
+
+      // Skill levels and ratings are rebuilt from level 5 for everyone
+      await this.replaySkills(tx, null, { cause: "recalculation", changedBy });
+    });
+  }
+
+  async migrate(): Promise<void> {
+    await migrateDatabase(this.db);
+  }
+
+  async resetAllData(): Promise<void> {
+    await this.db.delete(otpCodes);
+    await this.db.delete(skillLevelChanges);
+    await this.db.delete(skillProposals);
+    await this.db.delete(matchSkillSnapshots);
+    await this.db.delete(matchGames);
+    await this.db.delete(matchParticipants);
+    await this.db.delete(tournamentMatches);
+    await this.db.delete(tournamentTeams);
+    await this.db.delete(tournaments);
+    await this.db.delete(challenges);
+    await this.db.delete(ladderEntries);
+    await this.db.delete(ladders);
+    await this.db.delete(sessionAttendees);
+    await this.db.delete(sessions);
+    await this.db.delete(playerRatings);
+    await this.db.delete(matches);
+    await this.db.delete(players);
+  }
+  private async clubContents(executor: Database | Transaction): Promise<ClubContents> {
+    return {
+      settings: await this.clubSettingsOf(executor),
+      players: await executor.select().from(players),
+      sessions: await executor.select().from(sessions),
+      sessionAttendees: await executor.select().from(sessionAttendees),
+      matches: await this.attachDetails(executor, await executor.select().from(matches)),
+      skillLevelChanges: await executor.select().from(skillLevelChanges),
+      skillProposals: await executor.select().from(skillProposals),
+      tournaments: await executor.select().from(tournaments),
+      tournamentTeams: await executor.select().from(tournamentTeams),
+      tournamentMatches: await executor.select().from(tournamentMatches),
+      ladders: await executor.select().from(ladders),
+      ladderEntries: await executor.select().from(ladderEntries),
+      challenges: await executor.select().from(challenges),
+    };
+  }
+
+  async exportClub(): Promise<ClubArchive> {
+    return archiveClub(await this.clubContents(this.db));
+  }
+
+  // Everything the archive adds is written in one transaction, then the whole history is
+  // replayed once to rebuild ratings and snapshots
+  async importClub(archive: ClubArchive, dryRun: boolean, importedBy: number): Promise<ClubImportReport> {
+    return await this.db.transaction(async (tx) => {
+      const plan = planClubImport(archive, await this.clubContents(tx), dryRun);
+      const { report } = plan;
+      if (dryRun || report.errors.length > 0) {
+        return report;
+      }
+      const { idMap } = report;
+
+      if (plan.updateSettings) {
+        const current = await this.clubSettingsOf(tx);
+        await tx
+          .update(clubSettings)
+          .set({ ...archive.settings, updatedBy: importedBy, updatedAt: new Date() })
+          .where(eq(clubSettings.id, current.id));
+      }
+
+      for (const { id, ...player } of plan.players) {
+        const [created] = await tx.insert(players).values(player).returning({ id: players.id });
+        idMap.players[id] = created.id;
+      }
+
+      for (const { id, ...session } of plan.sessions) {
+        const [created] = await tx
+          .insert(sessions)
+          .values({ ...session, organizerId: remapId(idMap.players, session.organizerId) })
+          .returning({ id: sessions.id });
+        idMap.sessions[id] = created.id;
+      }
+
+      if (plan.sessionAttendees.length > 0) {
+        await tx.insert(sessionAttendees).values(plan.sessionAttendees.map(attendee => ({
+          ...attendee,
+          sessionId: remapId(idMap.sessions, attendee.sessionId)!,
+          playerId: remapId(idMap.players, attendee.playerId)!,
+          checkedInBy: remapId(idMap.players, attendee.checkedInBy),
+        })));
+      }
+
+      for (const match of plan.matches) {
+        const [created] = await tx
+          .insert(matches)
+          .values({
+            format: match.format,
+            sessionId: remapId(idMap.sessions, match.sessionId),
+            playedAt: match.playedAt,
+            ...archivedMatchResult(match),
+          })
+          .returning({ id: matches.id });
+        idMap.matches[match.id] = created.id;
+        await this.saveParticipants(
+          tx,
+          created.id,
+          match.teamA.map(playerId => remapId(idMap.players, playerId)!),
+          match.teamB.map(playerId => remapId(idMap.players, playerId)!),
+        );
+        if (match.games.length > 0) {
+          await this.saveGames(tx, created.id, match.games);
+        }
+      }
+
+      if (plan.skillLevelChanges.length > 0) {
+        await tx.insert(skillLevelChanges).values(plan.skillLevelChanges.map(change => ({
+          ...change,
+          playerId: remapId(idMap.players, change.playerId)!,
+          matchId: remapId(idMap.matches, change.matchId),
+          changedBy: remapId(idMap.players, change.changedBy),
+        })));
+      }
+
+      if (plan.skillProposals.length > 0) {
+        await tx.insert(skillProposals).values(plan.skillProposals.map(proposal => ({
+          ...proposal,
+          playerId: remapId(idMap.players, proposal.playerId)!,
+          matchId: remapId(idMap.matches, proposal.matchId)!,
+          decidedBy: remapId(idMap.players, proposal.decidedBy),
+        })));
+      }
+
+      for (const { id, ...tournament } of plan.tournaments) {
+        const [created] = await tx
+          .insert(tournaments)
+          .values({ ...tournament, createdBy: remapId(idMap.players, tournament.createdBy) })
+          .returning({ id: tournaments.id });
+        idMap.tournaments[id] = created.id;
+      }
+
+      const teamIds: Record<number, number> = {};
+      for (const { id, ...team } of plan.tournamentTeams) {
+        const [created] = await tx
+          .insert(tournamentTeams)
+          .values({
+            ...team,
+            tournamentId: remapId(idMap.tournaments, team.tournamentId)!,
+            player1Id: remapId(idMap.players, team.player1Id)!,
+            player2Id: remapId(idMap.players, team.player2Id),
+          })
+          .returning({ id: tournamentTeams.id });
+        teamIds[id] = created.id;
+      }
+
+      // The draw links to itself, so the links are filled in once every match of it exists
+      const drawIds: Record<number, number> = {};
+      for (const { id, winnerNextMatchId, loserNextMatchId, ...match } of plan.tournamentMatches) {
+        const [created] = await tx
+          .insert(tournamentMatches)
+          .values({
+            ...match,
+            tournamentId: remapId(idMap.tournaments, match.tournamentId)!,
+            teamAId: remapId(teamIds, match.teamAId),
+            teamBId: remapId(teamIds, match.teamBId),
+            winnerTeamId: remapId(teamIds, match.winnerTeamId),
+            matchId: remapId(idMap.matches, match.matchId),
+          })
+          .returning({ id: tournamentMatches.id });
+        drawIds[id] = created.id;
+      }
+      for (const match of plan.tournamentMatches) {
+        if (match.winnerNextMatchId === null && match.loserNextMatchId === null) continue;
+        await tx
+          .update(tournamentMatches)
+          .set({ winnerNextMatchId: remapId(drawIds, match.winnerNextMatchId), loserNextMatchId: remapId(drawIds, match.loserNextMatchId) })
+          .where(eq(tournamentMatches.id, drawIds[match.id]));
+      }
+
+      for (const { id, ...ladder } of plan.ladders) {
+        const [created] = await tx.insert(ladders).values(ladder).returning({ id: ladders.id });
+        idMap.ladders[id] = created.id;
+      }
+
+      const entryIds: Record<number, number> = {};
+      for (const { id, ...entry } of plan.ladderEntries) {
+        const [created] = await tx
+          .insert(ladderEntries)
+          .values({
+            ...entry,
+            ladderId: remapId(idMap.ladders, entry.ladderId)!,
+            player1Id: remapId(idMap.players, entry.player1Id)!,
+            player2Id: remapId(idMap.players, entry.player2Id),
+          })
+          .returning({ id: ladderEntries.id });
+        entryIds[id] = created.id;
+      }
+
+      if (plan.challenges.length > 0) {
+        await tx.insert(challenges).values(plan.challenges.map(challenge => ({
+          ...challenge,
+          ladderId: remapId(idMap.ladders, challenge.ladderId)!,
+          challengerEntryId: remapId(entryIds, challenge.challengerEntryId)!,
+          defenderEntryId: remapId(entryIds, challenge.defenderEntryId)!,
+          issuedBy: remapId(idMap.players, challenge.issuedBy),
+          winnerEntryId: remapId(entryIds, challenge.winnerEntryId),
+          matchId: remapId(idMap.matches, challenge.matchId),
+        })));
+      }
+
+      await this.replaySkills(tx, null, { cause: "recalculation", changedBy: importedBy });
+      return { ...report, imported: true };
+    });
+  }
+
+
+  async sendOTP(playerId: number): Promise<OtpSendResult> {
+    try {
+      const issued = await this.db.transaction(async (tx): Promise<OtpSendResult | { mobileNumber: string; code: string }> => {
+        // Lock the player's row, so requests at the same moment take turns at the cooldown check
+        const [player] = await tx.select().from(players).where(eq(players.id, playerId)).for("update");
+        if (!player || !player.isActive) {
+          return { status: "failed" };
+        }
+
+        // Enforce the resend cooldown against the most recent code for this player
+        const [latest] = await tx
+          .select()
+          .from(otpCodes)
+          .where(eq(otpCodes.playerId, playerId))
+          .orderBy(desc(otpCodes.createdAt))
+          .limit(1);
+        if (latest) {
+          const resendAt = latest.createdAt.getTime() + OTP_RESEND_COOLDOWN_MS;
+          if (resendAt > Date.now()) {
+            return { status: "cooldown", retryAfterSeconds: Math.ceil((resendAt - Date.now()) / 1000) };
+          }
+        }
+
+        // A new code replaces any outstanding ones, so resending never widens the guess space
+        await tx
+          .update(otpCodes)
+          .set({ isUsed: true })
+          .where(and(eq(otpCodes.playerId, playerId), eq(otpCodes.isUsed, false)));
+
+        const code = generateOTP();
+        await tx.insert(otpCodes).values({
+          playerId,
+          code,
+          expiresAt: new Date(Date.now() + OTP_TTL_MS),
+          isUsed: false,
+        });
+        return { mobileNumber: player.mobileNumber, code };
+      });
+      if ("status" in issued) {
+        return issued;
+      }
+
+      // Send SMS once the code is saved
+      const sent = await this.smsProvider.send(issued.mobileNumber, formatOTPMessage(issued.code));
+      if (!sent) {
+        return { status: "failed" };
+      }
+
+      return {
+        status: "sent",
+        expiresInSeconds: OTP_TTL_MS / 1000,
+        resendInSeconds: OTP_RESEND_COOLDOWN_MS / 1000,
+      };
+    } catch (error) {
+      console.error('Failed to send OTP:', error);
+      return { status: "failed" };
+    }
+  }
+
+  async verifyOTP(playerId: number, code: string): Promise<OtpVerifyResult> {
+    try {
+      // Only the latest outstanding code can be used
+      const [otpRecord] = await this.db
+        .select()
+        .from(otpCodes)
+        .where(
+          and(
+            eq(otpCodes.playerId, playerId),
+            eq(otpCodes.isUsed, false),
+            gt(otpCodes.expiresAt, new Date())
+          )
+        )
+        .orderBy(desc(otpCodes.createdAt))
+        .limit(1);
+
+      if (!otpRecord) {
+        return { status: "expired" };
+      }
+
+      // Both writes re-check the row, so guesses at the same moment are counted one at a time
+      // and none gets past a code that another one has just burned
+      const stillOpen = and(eq(otpCodes.id, otpRecord.id), eq(otpCodes.isUsed, false), lt(otpCodes.attempts, OTP_MAX_ATTEMPTS));
+
+      if (!codesMatch(otpRecord.code, code)) {
+        // Burn the code once the attempt limit is reached
+        const [counted] = await this.db
+          .update(otpCodes)
+          .set({ attempts: sql`${otpCodes.attempts} + 1`, isUsed: sql`${otpCodes.attempts} + 1 >= ${OTP_MAX_ATTEMPTS}` })
+          .where(stillOpen)
+          .returning({ attempts: otpCodes.attempts });
+        if (!counted) {
+          return { status: "expired" };
+        }
+
+        const attemptsRemaining = Math.max(0, OTP_MAX_ATTEMPTS - counted.attempts);
+        return attemptsRemaining === 0 ? { status: "expired" } : { status: "invalid", attemptsRemaining };
+      }
+
+      // Mark OTP as used
+      const [used] = await this.db
+        .update(otpCodes)
+        .set({ isUsed: true })
+        .where(stillOpen)
+        .returning({ id: otpCodes.id });
+
+      return used ? { status: "verified" } : { status: "expired" };
+    } catch (error) {
+      console.error('Failed to verify OTP:', error);
+      return { status: "expired" };
+    }
+  }
+
+  async purgeStaleOTPs(): Promise<number> {
+    const cutoff = new Date(Date.now() - OTP_RETENTION_MS);
+    const deleted = await this.db
+      .delete(otpCodes)
+      .where(lt(otpCodes.expiresAt, cutoff))
+      .returning({ id: otpCodes.id });
+    return deleted.length;
+  }
+}
+
+// In-memory Storage Implementation
+//
+// Every table kept in memory with the same semantics as the database, for running without Postgres
+// (development, demos, tests). Nothing survives a restart.
+
+type MemTables = {
+  players: Player[];
+  matches: Match[];
+  matchGames: MatchGame[];
+  matchParticipants: MatchParticipant[];
+  sessions: Session[];
+  sessionAttendees: SessionAttendee[];
+  otpCodes: (typeof otpCodes.$inferSelect)[];
+  playerRatings: PlayerRating[];
+  matchSkillSnapshots: MatchSkillSnapshot[];
+  skillLevelChanges: SkillLevelChange[];
+  clubSettings: ClubSettings[];
+  skillProposals: SkillProposal[];
+  tournaments: Tournament[];
+  tournamentTeams: TournamentTeam[];
+  tournamentMatches: TournamentMatch[];
+  ladders: Ladder[];
+  ladderEntries: LadderEntry[];
+  challenges: Challenge[];
+};
+
+type MemRow<K extends keyof MemTables> = MemTables[K][number];
+
+function emptyTables(): MemTables {
+  return {
+    players: [],
+    matches: [],
+    matchGames: [],
+    matchParticipants: [],
+    sessions: [],
+    sessionAttendees: [],
+    otpCodes: [],
+    playerRatings: [],
+    matchSkillSnapshots: [],
+    skillLevelChanges: [],
+    clubSettings: [],
+    skillProposals: [],
+    tournaments: [],
+    tournamentTeams: [],
+    tournamentMatches: [],
+    ladders: [],
+    ladderEntries: [],
+    challenges: [],
+  };
+}
+
+const byTime = (a: Date, b: Date) => a.getTime() - b.getTime();
+
+export class MemStorage implements IStorage {
+  private tables = emptyTables();
+  // Like Postgres sequences, IDs are never handed out twice, even after a rollback or reset
+  private lastIds: Partial<Record<keyof MemTables, number>> = {};
+
+  constructor(private smsProvider: SmsProvider) {}
+
+  // Rows are replaced rather than changed in place, so a row once returned never changes under the caller
+  private insert<K extends keyof MemTables>(table: K, values: Omit<MemRow<K>, "id">): MemRow<K> {
+    const id = (this.lastIds[table] ?? 0) + 1;
+    this.lastIds[table] = id;
+    const row = { ...values, id } as MemRow<K>;
+    (this.tables[table] as MemRow<K>[]).push(row);
+    return row;
+  }
+
+  // Undefined values are skipped, as drizzle does
+  private update<K extends keyof MemTables>(table: K, where: (row: MemRow<K>) => boolean, changes: Partial<MemRow<K>>): MemRow<K>[] {
+    const set = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const updated: MemRow<K>[] = [];
+    this.tables[table] = (this.tables[table] as MemRow<K>[]).map(row => {
+      if (!where(row)) return row;
+      const next = { ...row, ...set } as MemRow<K>;
+      updated.push(next);
+      return next;
+    }) as MemTables[K];
+    return updated;
+  }
+
+  private remove<K extends keyof MemTables>(table: K, where: (row: MemRow<K>) => boolean): MemRow<K>[] {
+    const rows = this.tables[table] as MemRow<K>[];
+    this.tables[table] = rows.filter(row => !where(row)) as MemTables[K];
+    return rows.filter(where);
+  }
+
+  // All or nothing, like a database transaction: if `work` throws, every table is put back as it was
+  private async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const saved = { ...this.tables };
+    try {
+      return await work();
+    } catch (error) {
+      this.tables = saved;
+      throw error;
+    }
+  }
+
+  async isInitialized(): Promise<boolean> {
+    return this.tables.players.some(player => player.role === "manager");
+  }
+
+  async setupInitialManager(setup: SetupRequest): Promise<AuthUser> {
+    const manager = this.insert("players", {
+      name: setup.managerName,
+      skillLevel: setup.managerSkillLevel,
+      originalSkillLevel: null,
+      previousSkillLevel: null,
+      role: "manager",
+      mobileNumber: setup.managerMobile,
+      isActive: true,
+      lastSkillUpdate: new Date(),
+    });
+
+    return {
+      id: manager.id,
+      name: manager.name,
+      role: manager.role as "manager" | "player",
+      skillLevel: manager.skillLevel,
+    };
+  }
+
+  async getPlayer(id: number): Promise<Player | undefined> {
+    return this.tables.players.find(player => player.id === id);
+  }
+
+  async getAllPlayers(): Promise<Player[]> {
+    return this.tables.players.filter(player => player.isActive);
+  }
+
+  async createPlayer(player: InsertPlayer): Promise<Player> {
+    return this.insert("players", {
+      name: player.name,
+      skillLevel: player.skillLevel,
+      originalSkillLevel: player.skillLevel,
+      previousSkillLevel: null,
+      role: player.role || "player",
+      mobileNumber: player.mobileNumber,
+      isActive: true,
+      lastSkillUpdate: new Date(),
+    });
+  }
+
+  async updatePlayer(id: number, updates: Partial<InsertPlayer>, changedBy?: number): Promise<Player> {
+    const existing = await this.getPlayer(id);
+    const [updatedPlayer] = this.update("players", player => player.id === id, updates);
+
+    if (existing && updatedPlayer && updatedPlayer.skillLevel !== existing.skillLevel) {
+      this.recordSkillLevelChange(id, existing.skillLevel, updatedPlayer.skillLevel, { cause: "manual", changedBy });
+
+      // The doubles rating moves into the new level's band, as the replay will do from now on
+      const doubles = this.tables.playerRatings.find(rating => rating.playerId === id && rating.discipline === "doubles");
+      if (doubles) {
+        this.update("playerRatings", rating => rating.id === doubles.id, { ...ratingForSkillLevel(doubles, updatedPlayer.skillLevel), updatedAt: new Date() });
+      }
+    }
+    return updatedPlayer;
+  }
+
+  async deletePlayer(id: number): Promise<boolean> {
+    return this.update("players", player => player.id === id, { isActive: false }).length > 0;
+  }
+
+  async getMatch(id: number): Promise<MatchDetails | undefined> {
+    const [details] = this.attachDetails(this.tables.matches.filter(match => match.id === id));
+    return details;
+  }
+
+  async getAllMatches(): Promise<MatchDetails[]> {
+    return this.attachDetails(this.tables.matches);
+  }
+
+  async createMatch(match: InsertMatch, changedBy?: number): Promise<MatchDetails> {
+    const { games, teamA, teamB, ...values } = match;
+    return await this.transaction(async () => {
+      const newMatch = this.insert("matches", {
+        format: values.format,
+        sessionId: values.sessionId ?? null,
+        teamAPlayer1Id: null,
+        teamAPlayer2Id: null,
+        teamBPlayer1Id: null,
+        teamBPlayer2Id: null,
+        playedAt: new Date(),
+        ...matchResult(games),
+      });
+      this.saveParticipants(newMatch.id, teamA, teamB);
+      this.saveGames(newMatch.id, games);
+      const [details] = this.attachDetails([newMatch]);
+
+      this.replaySkills(details, { cause: "auto", changedBy });
+      this.recordTournamentResult(details);
+      this.recordLadderResult(details);
+
+      if (details.sessionId) {
+        this.addSessionAttendees(details.sessionId, participantIds(details), changedBy);
+      }
+
+      return details;
+    });
+  }
+
+  async importMatches(history: HistoricalMatch[], changedBy?: number): Promise<MatchDetails[]> {
+    if (history.length === 0) return [];
+    return await this.transaction(async () => {
+      const imported = history.map(({ games, teamA, teamB, ...values }) => {
+        const newMatch = this.insert("matches", {
+          format: values.format,
+          sessionId: values.sessionId ?? null,
+          teamAPlayer1Id: null,
+          teamAPlayer2Id: null,
+          teamBPlayer1Id: null,
+          teamBPlayer2Id: null,
+          playedAt: values.playedAt,
+          ...matchResult(games),
+        });
+        this.saveParticipants(newMatch.id, teamA, teamB);
+        this.saveGames(newMatch.id, games);
+        const [details] = this.attachDetails([newMatch]);
+
+        if (details.sessionId) {
+          this.addSessionAttendees(details.sessionId, participantIds(details), changedBy);
+        }
+        return details;
+      });
+
+      const [earliest] = imported.slice().sort(compareMatchOrder);
+      this.replaySkills(earliest, { cause: "auto", changedBy });
+      return imported;
+    });
+  }
+
+  async updateMatch(id: number, updateData: Partial<InsertMatch>, changedBy?: number): Promise<MatchDetails> {
+    const { games, teamA, teamB, ...values } = updateData;
+    return await this.transaction(async () => {
+      const existingRow = this.tables.matches.find(match => match.id === id);
+      if (!existingRow) {
+        throw new Error("Match not found");
+      }
+      const [existing] = this.attachDetails([existingRow]);
+
+      // New games replace the old ones and re-derive the winner and totals
+      const [updatedRow] = this.update("matches", match => match.id === id, games ? { ...values, ...matchResult(games) } : values);
+      if (games) {
+        this.remove("matchGames", game => game.matchId === id);
+        this.saveGames(id, games);
+      }
+      if (teamA || teamB) {
+        this.remove("matchParticipants", participant => participant.matchId === id);
+        this.saveParticipants(id, teamA ?? existing.teamA, teamB ?? existing.teamB);
+      }
+      const [updatedMatch] = this.attachDetails([updatedRow]);
+
+      // Replay from wherever the match sits earliest - before or after the edit - and
+      // include the original players in case they were swapped out
+      const start = compareMatchOrder(existing, updatedMatch) <= 0 ? existing : updatedMatch;
+      this.replaySkills(start, { cause: "recalculation", changedBy }, participantIds(existing));
+
+      // A new result or line-up may decide a different tournament match or challenge, or none at all
+      if (games || teamA || teamB || values.format) {
+        this.retractTournamentResult(id);
+        this.recordTournamentResult(updatedMatch);
+        this.retractLadderResult(id);
+        this.recordLadderResult(updatedMatch);
+      }
+
+      if (updatedMatch.sessionId) {
+        this.addSessionAttendees(updatedMatch.sessionId, participantIds(updatedMatch), changedBy);
+      }
+
+      return updatedMatch;
+    });
+  }
+
+  async deleteMatch(id: number, changedBy?: number): Promise<boolean> {
+    return await this.transaction(async () => {
+      const [deletedMatch] = this.attachDetails(this.tables.matches.filter(match => match.id === id));
+      if (!deletedMatch) {
+        return false;
+      }
+
+      this.remove("matches", match => match.id === id);
+      this.remove("matchGames", game => game.matchId === id);
+      this.remove("matchParticipants", participant => participant.matchId === id);
+      this.remove("matchSkillSnapshots", snapshot => snapshot.matchId === id);
+      this.remove("skillProposals", proposal => proposal.matchId === id && proposal.status === "pending");
+      this.retractTournamentResult(id);
+      this.retractLadderResult(id);
+      this.replaySkills(deletedMatch, { cause: "recalculation", changedBy }, participantIds(deletedMatch));
+      return true;
+    });
+  }
+
+  private saveGames(matchId: number, games: GameScore[]) {
+    games.forEach((game, index) => {
+      this.insert("matchGames", { matchId, gameNumber: index + 1, teamAScore: game.teamAScore, teamBScore: game.teamBScore });
+    });
+  }
+
+  private saveParticipants(matchId: number, teamA: number[], teamB: number[]) {
+    teamA.forEach((playerId, index) => this.insert("matchParticipants", { matchId, playerId, team: 1, position: index + 1 }));
+    teamB.forEach((playerId, index) => this.insert("matchParticipants", { matchId, playerId, team: 2, position: index + 1 }));
+  }
+
+  // Games and line-ups for a set of matches, with the legacy line-up columns as the fallback
+  private attachDetails(rows: Match[]): MatchDetails[] {
+    const games = [...this.tables.matchGames].sort((a, b) => a.gameNumber - b.gameNumber);
+    const participants = [...this.tables.matchParticipants].sort((a, b) => a.position - b.position);
+
+    return rows.map(({ teamAPlayer1Id, teamAPlayer2Id, teamBPlayer1Id, teamBPlayer2Id, ...match }) => {
+      const lineup = participants.filter(participant => participant.matchId === match.id);
+      const team = (side: number, legacy: (number | null)[]) => lineup.length > 0
+        ? lineup.filter(participant => participant.team === side).map(participant => participant.playerId)
+        : legacy.filter((playerId): playerId is number => playerId !== null);
+      return {
+        ...match,
+        teamA: team(1, [teamAPlayer1Id, teamAPlayer2Id]),
+        teamB: team(2, [teamBPlayer1Id, teamBPlayer2Id]),
+        games: games.filter(game => game.matchId === match.id),
+      };
+    });
+  }
+
+  async getAllSessions(): Promise<SessionSummary[]> {
+    const allSessions = [...this.tables.sessions].sort((a, b) => byTime(b.date, a.date) || b.id - a.id);
+    const attendees = this.tables.sessionAttendees;
+
+    return allSessions.map(session => {
+      const sessionAttendance = attendees.filter(a => a.sessionId === session.id);
+      return {
+        ...session,
+        attendeeIds: sessionAttendance.map(a => a.playerId),
+        presentIds: sessionAttendance.filter(a => !a.checkedOutAt).map(a => a.playerId),
+        matchCount: this.tables.matches.filter(m => m.sessionId === session.id).length,
+      };
+    });
+  }
+
+  async getSession(id: number): Promise<SessionDetails | undefined> {
+    const session = this.tables.sessions.find(s => s.id === id);
+    if (!session) return undefined;
+
+    const attendees = this.tables.sessionAttendees
+      .filter(a => a.sessionId === id)
+      .sort((a, b) => byTime(a.checkedInAt, b.checkedInAt));
+    const sessionMatches = this.attachDetails(this.tables.matches.filter(match => match.sessionId === id)).sort(compareMatchOrder);
+
+    return {
+      ...session,
+      attendeeIds: attendees.map(a => a.playerId),
+      presentIds: attendees.filter(a => !a.checkedOutAt).map(a => a.playerId),
+      matchCount: sessionMatches.length,
+      attendees,
+      matches: sessionMatches,
+      leaderboard: computeStandings(sessionMatches, this.tables.players),
+    };
+  }
+
+  async createSession(session: InsertSession): Promise<SessionSummary> {
+    const { attendeeIds, ...values } = session;
+    const newSession = this.insert("sessions", {
+      date: values.date,
+      venue: values.venue,
+      courtCount: values.courtCount,
+      organizerId: values.organizerId ?? null,
+      notes: values.notes ?? null,
+      createdAt: new Date(),
+    });
+    this.addSessionAttendees(newSession.id, attendeeIds, newSession.organizerId);
+    const uniqueAttendeeIds = Array.from(new Set(attendeeIds));
+    return { ...newSession, attendeeIds: uniqueAttendeeIds, presentIds: uniqueAttendeeIds, matchCount: 0 };
+  }
+
+  async updateSession(id: number, updates: Partial<InsertSession>): Promise<SessionSummary | undefined> {
+    const { attendeeIds, ...values } = updates;
+    const [session] = this.update("sessions", s => s.id === id, values);
+    if (!session) return undefined;
+
+    // The attendee list, when given, replaces the existing one; players already checked in keep their check-in time
+    if (attendeeIds) {
+      this.remove("sessionAttendees", a => a.sessionId === id && !attendeeIds.includes(a.playerId));
+      this.addSessionAttendees(id, attendeeIds, session.organizerId);
+    }
+
+    return (await this.getAllSessions()).find(s => s.id === id);
+  }
+
+  async deleteSession(id: number): Promise<boolean> {
+    if (this.remove("sessions", session => session.id === id).length === 0) return false;
+
+    // Matches stay in the history, they just no longer belong to a night
+    this.remove("sessionAttendees", a => a.sessionId === id);
+    this.update("matches", match => match.sessionId === id, { sessionId: null });
+    return true;
+  }
+
+  private addSessionAttendees(sessionId: number, playerIds: number[], checkedInBy?: number | null) {
+    for (const playerId of Array.from(new Set(playerIds))) {
+      if (this.tables.sessionAttendees.some(a => a.sessionId === sessionId && a.playerId === playerId)) continue;
+      this.insert("sessionAttendees", { sessionId, playerId, checkedInAt: new Date(), checkedInBy: checkedInBy ?? null, checkedOutAt: null });
+    }
+  }
+
+  async checkIn(sessionId: number, playerId: number, checkedInBy: number): Promise<SessionAttendee> {
+    // Checking in again after leaving puts the player back in the pool
+    const values = { checkedInAt: new Date(), checkedInBy, checkedOutAt: null };
+    const [attendee] = this.update("sessionAttendees", a => a.sessionId === sessionId && a.playerId === playerId, values);
+    return attendee ?? this.insert("sessionAttendees", { sessionId, playerId, ...values });
+  }
+
+  async checkOut(sessionId: number, playerId: number): Promise<SessionAttendee | undefined> {
+    const [attendee] = this.update("sessionAttendees", a => a.sessionId === sessionId && a.playerId === playerId, { checkedOutAt: new Date() });
+    return attendee;
+  }
+
+  async getAvailablePlayers(sessionId: number): Promise<Player[]> {
+    const presentIds = new Set(this.tables.sessionAttendees
+      .filter(a => a.sessionId === sessionId && !a.checkedOutAt)
+      .map(a => a.playerId));
+
+    const activePlayers = await this.getAllPlayers();
+    return activePlayers.filter(player => presentIds.has(player.id));
+  }
+
+  async getAttendanceSummaries(): Promise<AttendanceSummary[]> {
+    const allPlayers = await this.getAllPlayers();
+    const allSessions = this.tables.sessions;
+    const attendees = this.tables.sessionAttendees;
+
+    return allPlayers.map(player => {
+      const attended = allSessions.filter(session =>
+        attendees.some(a => a.sessionId === session.id && a.playerId === player.id)
+      );
+      return {
+        playerId: player.id,
+        sessionsAttended: attended.length,
+        totalSessions: allSessions.length,
+        attendanceRate: allSessions.length > 0 ? Math.round((attended.length / allSessions.length) * 100) : 0,
+        lastAttended: attended.reduce<Date | null>((latest, s) => !latest || s.date > latest ? s.date : latest, null),
+      };
+    });
+  }
+
+  async getPlayerAttendance(playerId: number): Promise<PlayerAttendance> {
+    const allSessions = [...this.tables.sessions].sort((a, b) => byTime(b.date, a.date) || b.id - a.id);
+    const attendance = this.tables.sessionAttendees.filter(a => a.playerId === playerId);
+    const sessionMatches = this.attachDetails(this.tables.matches.filter(m => attendance.some(a => a.sessionId === m.sessionId)));
+
+    const history = allSessions.flatMap(session => {
+      const record = attendance.find(a => a.sessionId === session.id);
+      if (!record) return [];
+      return [{
+        sessionId: session.id,
+        date: session.date,
+        venue: session.venue,
+        checkedInAt: record.checkedInAt,
+        checkedOutAt: record.checkedOutAt,
+        matchesPlayed: sessionMatches.filter(m => m.sessionId === session.id && participantIds(m).includes(playerId)).length,
+      }];
+    });
+
+    return {
+      playerId,
+      sessionsAttended: history.length,
+      totalSessions: allSessions.length,
+      attendanceRate: allSessions.length > 0 ? Math.round((history.length / allSessions.length) * 100) : 0,
+      lastAttended: history[0]?.date ?? null,
+      history,
+    };
+  }
+
+  async getAllTournaments(): Promise<TournamentSummary[]> {
+    return [...this.tables.tournaments]
+      .sort((a, b) => byTime(b.createdAt, a.createdAt) || b.id - a.id)
+      .map(tournament => ({
+        ...tournament,
+        teamCount: this.tables.tournamentTeams.filter(team => team.tournamentId === tournament.id).length,
+      }));
+  }
+
+  async getTournament(id: number): Promise<TournamentDetails | undefined> {
+    const tournament = this.tables.tournaments.find(t => t.id === id);
+    if (!tournament) return undefined;
+
+    const teams = this.tables.tournamentTeams.filter(team => team.tournamentId === id).sort((a, b) => a.id - b.id);
+    const draw = this.tables.tournamentMatches
+      .filter(match => match.tournamentId === id)
+      .sort((a, b) => a.round - b.round || a.position - b.position);
+    const recorded = this.attachDetails(this.tables.matches.filter(match => draw.some(tournamentMatch => tournamentMatch.matchId === match.id)));
+    return tournamentDetailsOf(tournament, teams, draw, recorded);
+  }
+
+  async createTournament(tournament: InsertTournament, createdBy?: number): Promise<Tournament> {
+    return this.insert("tournaments", {
+      ...tournament,
+      status: "registration",
+      createdBy: createdBy ?? null,
+      createdAt: new Date(),
+      startedAt: null,
+    });
+  }
+
+  async deleteTournament(id: number): Promise<boolean> {
+    if (this.remove("tournaments", tournament => tournament.id === id).length === 0) return false;
+
+    // The matches themselves stay in the history
+    this.remove("tournamentMatches", match => match.tournamentId === id);
+    this.remove("tournamentTeams", team => team.tournamentId === id);
+    return true;
+  }
+
+  async addTournamentTeam(tournamentId: number, playerIds: number[]): Promise<TournamentTeam> {
+    return this.insert("tournamentTeams", {
+      tournamentId,
+      player1Id: playerIds[0],
+      player2Id: playerIds[1] ?? null,
+      seed: null,
+      groupNumber: null,
+      createdAt: new Date(),
+    });
+  }
+
+  async removeTournamentTeam(tournamentId: number, teamId: number): Promise<boolean> {
+    return this.remove("tournamentTeams", team => team.id === teamId && team.tournamentId === tournamentId).length > 0;
+  }
+
+  // Seed the teams, make the draw and open the tournament for results
+  async startTournament(id: number): Promise<TournamentDetails> {
+    await this.transaction(async () => {
+      const tournament = this.tables.tournaments.find(t => t.id === id);
+      if (!tournament) {
+        throw new Error("Tournament not found");
+      }
+      const teams = this.tables.tournamentTeams.filter(team => team.tournamentId === id).sort((a, b) => a.id - b.id);
+      const ratings = this.tables.playerRatings.filter(rating => rating.discipline === disciplineOf(tournament.matchFormat));
+      const seeded = seedTeams(tournament, teams, this.tables.players, ratings);
+      const draw = generateDraw(tournament.format, seeded.map(team => team.id), tournament.groupCount);
+
+      seeded.forEach((team, index) => {
+        this.update("tournamentTeams", t => t.id === team.id, { seed: index + 1, groupNumber: draw.groups.get(team.id) ?? null });
+      });
+
+      const inserted = draw.matches.map(match => this.insert("tournamentMatches", {
+        tournamentId: id,
+        bracket: match.bracket,
+        round: match.round,
+        position: match.position,
+        groupNumber: match.groupNumber,
+        teamAId: match.teamAId,
+        teamBId: match.teamBId,
+        winnerTeamId: null,
+        matchId: null,
+        winnerNextMatchId: null,
+        winnerNextSlot: null,
+        loserNextMatchId: null,
+        loserNextSlot: null,
+      }));
+
+      // Link each knockout match to the ones its winner and loser go on to
+      const idOf = (key: string) => inserted[draw.matches.findIndex(match => match.key === key)].id;
+      draw.matches.forEach((match, index) => {
+        if (!match.winnerTo && !match.loserTo) return;
+        this.update("tournamentMatches", t => t.id === inserted[index].id, {
+          winnerNextMatchId: match.winnerTo ? idOf(match.winnerTo.key) : null,
+          winnerNextSlot: match.winnerTo?.slot ?? null,
+          loserNextMatchId: match.loserTo ? idOf(match.loserTo.key) : null,
+          loserNextSlot: match.loserTo?.slot ?? null,
+        });
+      });
+
+      this.update("tournaments", t => t.id === id, { status: "in_progress", startedAt: new Date() });
+    });
+
+    return (await this.getTournament(id))!;
+  }
+
+  async isTournamentResultLocked(matchId: number): Promise<boolean> {
+    const decided = this.tables.tournamentMatches.find(match => match.matchId === matchId);
+    if (!decided) return false;
+    return this.followingTournamentMatches(decided).some(match => match.winnerTeamId !== null);
+  }
+
+  private followingTournamentMatches(decided: TournamentMatch): TournamentMatch[] {
+    return this.tables.tournamentMatches.filter(match =>
+      match.id === decided.winnerNextMatchId
+      || match.id === decided.loserNextMatchId
+      || (decided.bracket === "final" && decided.round === 1
+        && match.tournamentId === decided.tournamentId && match.bracket === "final" && match.round === 2));
+  }
+
+  // Tournaments match on format and line-up, whichever way round the teams were entered
+  private recordTournamentResult(match: MatchDetails) {
+    const running = this.tables.tournaments.filter(t => t.status === "in_progress" && t.matchFormat === match.format);
+    const open = this.tables.tournamentMatches
+      .filter(tournamentMatch => tournamentMatch.winnerTeamId === null && running.some(t => t.id === tournamentMatch.tournamentId))
+      .sort((a, b) => a.tournamentId - b.tournamentId || a.round - b.round || a.position - b.position);
+    const lineupOf = (teamId: number | null) => {
+      const team = this.tables.tournamentTeams.find(t => t.id === teamId);
+      return team ? teamPlayerIds(team) : [];
+    };
+
+    for (const tournamentMatch of open) {
+      const side = sideOf(match, lineupOf(tournamentMatch.teamAId), lineupOf(tournamentMatch.teamBId));
+      if (!side) continue;
+
+      const teamAWon = match.winnerId === side;
+      const winnerTeamId = teamAWon ? tournamentMatch.teamAId! : tournamentMatch.teamBId!;
+      const loserTeamId = teamAWon ? tournamentMatch.teamBId! : tournamentMatch.teamAId!;
+      this.update("tournamentMatches", t => t.id === tournamentMatch.id, { winnerTeamId, matchId: match.id });
+      this.fillTournamentSlot(tournamentMatch.winnerNextMatchId, tournamentMatch.winnerNextSlot, winnerTeamId);
+      this.fillTournamentSlot(tournamentMatch.loserNextMatchId, tournamentMatch.loserNextSlot, loserTeamId);
+
+      // Losing the grand final is a team's first defeat if they came through the winners bracket,
+      // so it is played again
+      if (tournamentMatch.bracket === "final" && tournamentMatch.round === 1 && winnerTeamId === tournamentMatch.teamBId) {
+        this.insert("tournamentMatches", {
+          tournamentId: tournamentMatch.tournamentId,
+          bracket: "final",
+          round: 2,
+          position: 1,
+          groupNumber: null,
+          teamAId: tournamentMatch.teamAId,
+          teamBId: tournamentMatch.teamBId,
+          winnerTeamId: null,
+          matchId: null,
+          winnerNextMatchId: null,
+          winnerNextSlot: null,
+          loserNextMatchId: null,
+          loserNextSlot: null,
+        });
+      }
+
+      const undecided = this.tables.tournamentMatches.some(t => t.tournamentId === tournamentMatch.tournamentId && t.winnerTeamId === null);
+      if (!undecided) {
+        this.update("tournaments", t => t.id === tournamentMatch.tournamentId, { status: "completed" });
+      }
+      return;
+    }
+  }
+
+  private fillTournamentSlot(tournamentMatchId: number | null, slot: number | null, teamId: number | null) {
+    if (tournamentMatchId === null) return;
+    this.update("tournamentMatches", t => t.id === tournamentMatchId, slot === 1 ? { teamAId: teamId } : { teamBId: teamId });
+  }
+
+  private retractTournamentResult(matchId: number) {
+    const decided = this.tables.tournamentMatches.find(t => t.matchId === matchId);
+    if (!decided) return;
+
+    this.update("tournamentMatches", t => t.id === decided.id, { winnerTeamId: null, matchId: null });
+    this.fillTournamentSlot(decided.winnerNextMatchId, decided.winnerNextSlot, null);
+    this.fillTournamentSlot(decided.loserNextMatchId, decided.loserNextSlot, null);
+    if (decided.bracket === "final" && decided.round === 1) {
+      this.remove("tournamentMatches", t => t.tournamentId === decided.tournamentId && t.bracket === "final" && t.round === 2);
+    }
+    this.update("tournaments", t => t.id === decided.tournamentId && t.status === "completed", { status: "in_progress" });
+  }
+
+  async getAllLadders(): Promise<LadderSummary[]> {
+    return [...this.tables.ladders]
+      .sort((a, b) => a.id - b.id)
+      .map(ladder => ({
+        ...ladder,
+        entryCount: this.tables.ladderEntries.filter(entry => entry.ladderId === ladder.id).length,
+      }));
+  }
+
+  async getLadder(id: number): Promise<LadderDetails | undefined> {
+    const ladder = this.tables.ladders.find(l => l.id === id);
+    if (!ladder) return undefined;
+
+    const entries = this.tables.ladderEntries.filter(entry => entry.ladderId === id).sort((a, b) => a.position - b.position);
+    const isOpen = (challenge: Challenge) => challenge.status === "pending" || challenge.status === "accepted";
+    const ladderChallenges = this.tables.challenges.filter(challenge => challenge.ladderId === id);
+    const open = ladderChallenges.filter(isOpen).sort((a, b) => byTime(a.deadline, b.deadline));
+    const settled = ladderChallenges
+      .filter(challenge => !isOpen(challenge))
+      .sort((a, b) => byTime(b.issuedAt, a.issuedAt))
+      .slice(0, RECENT_CHALLENGES);
+
+    return { ...ladder, entryCount: entries.length, entries, challenges: [...open, ...settled] };
+  }
+
+  async createLadder(ladder: InsertLadder): Promise<Ladder> {
+    return this.insert("ladders", { ...ladder, createdAt: new Date() });
+  }
+
+  async deleteLadder(id: number): Promise<boolean> {
+    if (this.remove("ladders", ladder => ladder.id === id).length === 0) return false;
+
+    this.remove("challenges", challenge => challenge.ladderId === id);
+    this.remove("ladderEntries", entry => entry.ladderId === id);
+    return true;
+  }
+
+  // New entries start on the bottom rung
+  async addLadderEntry(ladderId: number, playerIds: number[]): Promise<LadderEntry> {
+    const bottom = this.tables.ladderEntries
+      .filter(entry => entry.ladderId === ladderId)
+      .reduce((position, entry) => Math.max(position, entry.position), 0);
+    return this.insert("ladderEntries", {
+      ladderId,
+      position: bottom + 1,
+      player1Id: playerIds[0],
+      player2Id: playerIds[1] ?? null,
+      joinedAt: new Date(),
+    });
+  }
+
+  // Everyone below a leaving entry moves up a rung; their challenges go with them
+  async removeLadderEntry(ladderId: number, entryId: number): Promise<boolean> {
+    const [removed] = this.remove("ladderEntries", entry => entry.id === entryId && entry.ladderId === ladderId);
+    if (!removed) return false;
+
+    for (const entry of this.tables.ladderEntries.filter(e => e.ladderId === ladderId && e.position > removed.position)) {
+      this.update("ladderEntries", e => e.id === entry.id, { position: entry.position - 1 });
+    }
+    this.remove("challenges", challenge => challenge.challengerEntryId === entryId || challenge.defenderEntryId === entryId);
+    return true;
+  }
+
+  async getChallenge(id: number): Promise<Challenge | undefined> {
+    return this.tables.challenges.find(challenge => challenge.id === id);
+  }
+
+  async createChallenge(ladderId: number, challengerEntryId: number, defenderEntryId: number, issuedBy: number): Promise<Challenge> {
+    const ladder = this.tables.ladders.find(l => l.id === ladderId)!;
+    return this.insert("challenges", {
+      ladderId,
+      challengerEntryId,
+      defenderEntryId,
+      status: "pending",
+      issuedBy,
+      issuedAt: new Date(),
+      deadline: new Date(Date.now() + ladder.challengeDays * 24 * 60 * 60 * 1000),
+      respondedAt: null,
+      resolvedAt: null,
+      winnerEntryId: null,
+      matchId: null,
+      challengerPosition: null,
+      defenderPosition: null,
+    });
+  }
+
+  // Declining forfeits: the challenger takes the defender's rung
+  async respondToChallenge(id: number, accept: boolean): Promise<Challenge | undefined> {
+    const pending = this.tables.challenges.find(c => c.id === id && c.status === "pending");
+    if (!pending) return undefined;
+
+    const now = new Date();
+    const [challenge] = this.update(
+      "challenges",
+      c => c.id === pending.id,
+      accept
+        ? { status: "accepted", respondedAt: now }
+        : { status: "declined", winnerEntryId: pending.challengerEntryId, respondedAt: now, resolvedAt: now },
+    );
+    if (!accept) {
+      this.swapLadderPositions(pending.challengerEntryId, pending.defenderEntryId);
+    }
+    return challenge;
+  }
+
+  // An unanswered challenge past its deadline is forfeited to the challenger; an accepted one lapses
+  async resolveOverdueChallenges(): Promise<number> {
+    const now = new Date();
+    const overdue = this.tables.challenges
+      .filter(c => (c.status === "pending" || c.status === "accepted") && c.deadline < now)
+      .sort((a, b) => byTime(a.deadline, b.deadline));
+
+    for (const challenge of overdue) {
+      if (challenge.status === "pending") {
+        this.update("challenges", c => c.id === challenge.id, { status: "forfeited", winnerEntryId: challenge.challengerEntryId, resolvedAt: now });
+        this.swapLadderPositions(challenge.challengerEntryId, challenge.defenderEntryId);
+      } else {
+        this.update("challenges", c => c.id === challenge.id, { status: "expired", resolvedAt: now });
+      }
+    }
+    return overdue.length;
+  }
+
+  async isLadderResultLocked(matchId: number): Promise<boolean> {
+    const settled = this.tables.challenges.find(c => c.matchId === matchId);
+    return !!settled && !this.ladderResultStands(settled);
+  }
+
+  private ladderResultStands(challenge: Challenge): boolean {
+    if (challenge.winnerEntryId !== challenge.challengerEntryId) return true;
+    if (challenge.challengerPosition === null || challenge.defenderPosition === null) return false;
+
+    const positionOf = (entryId: number) => this.tables.ladderEntries.find(e => e.id === entryId)?.position;
+    return positionOf(challenge.challengerEntryId) === challenge.defenderPosition
+      && positionOf(challenge.defenderEntryId) === challenge.challengerPosition;
+  }
+
+  // Playing an open challenge settles it, accepted or not
+  private recordLadderResult(match: MatchDetails) {
+    const open = this.tables.challenges
+      .filter(c => (c.status === "pending" || c.status === "accepted")
+        && this.tables.ladders.some(ladder => ladder.id === c.ladderId && ladder.matchFormat === match.format))
+      .sort((a, b) => byTime(a.issuedAt, b.issuedAt));
+    const lineupOf = (entryId: number) => {
+      const entry = this.tables.ladderEntries.find(e => e.id === entryId);
+      return entry ? teamPlayerIds(entry) : [];
+    };
+    const positionOf = (entryId: number) => this.tables.ladderEntries.find(e => e.id === entryId)?.position ?? null;
+
+    for (const challenge of open) {
+      const side = sideOf(match, lineupOf(challenge.challengerEntryId), lineupOf(challenge.defenderEntryId));
+      if (!side) continue;
+
+      const challengerWon = match.winnerId === side;
+      this.update("challenges", c => c.id === challenge.id, {
+        status: "completed",
+        winnerEntryId: challengerWon ? challenge.challengerEntryId : challenge.defenderEntryId,
+        matchId: match.id,
+        respondedAt: challenge.respondedAt ?? new Date(),
+        resolvedAt: new Date(),
+        challengerPosition: positionOf(challenge.challengerEntryId),
+        defenderPosition: positionOf(challenge.defenderEntryId),
+      });
+      if (challengerWon) {
+        this.swapLadderPositions(challenge.challengerEntryId, challenge.defenderEntryId);
+      }
+      return;
+    }
+  }
+
+  private retractLadderResult(matchId: number) {
+    const settled = this.tables.challenges.find(c => c.matchId === matchId);
+    if (!settled) return;
+    if (!this.ladderResultStands(settled)) {
+      throw new Error("Ladder result is locked");
+    }
+
+    this.update("challenges", c => c.id === settled.id, { status: "accepted", winnerEntryId: null, matchId: null, resolvedAt: null, challengerPosition: null, defenderPosition: null });
+    if (settled.winnerEntryId === settled.challengerEntryId) {
+      this.update("ladderEntries", e => e.id === settled.challengerEntryId, { position: settled.challengerPosition! });
+      this.update("ladderEntries", e => e.id === settled.defenderEntryId, { position: settled.defenderPosition! });
+    }
+  }
+
+  private swapLadderPositions(entryId: number, otherEntryId: number) {
+    const entry = this.tables.ladderEntries.find(e => e.id === entryId);
+    const other = this.tables.ladderEntries.find(e => e.id === otherEntryId);
+    if (!entry || !other) return;
+    this.update("ladderEntries", e => e.id === entry.id, { position: other.position });
+    this.update("ladderEntries", e => e.id === other.id, { position: entry.position });
+  }
+
+  async getPlayerStats(playerId?: number, filter: StatsFilter = {}): Promise<PlayerStats[]> {
+    const allPlayers = await this.getAllPlayers();
+    const allMatches = await this.getAllMatches();
+    const discipline = filter.format ? disciplineOf(filter.format) : "doubles";
+    const ratings = await this.getPlayerRatings(discipline);
+    const doublesRatings = discipline === "doubles" ? ratings : await this.getPlayerRatings("doubles");
+    const { skillPolicy } = await this.getClubSettings();
+    return computePlayerStats(allPlayers, allMatches, ratings, doublesRatings, skillPolicy, filter, playerId);
+  }
+
+  async getPlayerConnections(playerId: number, relation: "partners" | "opponents"): Promise<PlayerConnection[]> {
+    const allPlayers = await this.getAllPlayers();
+    const allMatches = await this.getAllMatches();
+    return computeConnections(playerId, relation, allMatches, allPlayers, this.getRatingDeltas([playerId], allPlayers));
+  }
+
+  async getHeadToHead(teamA: number[], teamB: number[]): Promise<HeadToHead> {
+    const allPlayers = await this.getAllPlayers();
+    const allMatches = await this.getAllMatches();
+    return computeHeadToHead(teamA, teamB, allMatches, this.getRatingDeltas(teamA, allPlayers));
+  }
+
+  async getPlayerProfile(playerId: number): Promise<PlayerProfile | undefined> {
+    const allPlayers = await this.getAllPlayers();
+    const player = allPlayers.find(p => p.id === playerId);
+    if (!player) return undefined;
+
+    const [stats] = await this.getPlayerStats(playerId);
+    const allMatches = await this.getAllMatches();
+    return computePlayerProfile(player, stats, allMatches, await this.getPlayerRatings("doubles"), this.getRatingDeltas([playerId], allPlayers), await this.getClubSettings());
+  }
+
+  private getRatingDeltas(playerIds: number[], allPlayers: Player[]): Map<number, number> {
+    const rows = this.tables.matchSkillSnapshots.flatMap(snapshot => {
+      const match = this.tables.matches.find(m => m.id === snapshot.matchId);
+      return match && playerIds.includes(snapshot.playerId) ? [{ snapshot, format: match.format, playedAt: match.playedAt }] : [];
+    });
+    return computeRatingDeltas(rows, allPlayers);
+  }
+
+  private recordSkillLevelChange(playerId: number, oldLevel: number, newLevel: number, change: SkillChangeContext) {
+    this.insert("skillLevelChanges", {
+      playerId,
+      oldLevel,
+      newLevel,
+      cause: change.cause,
+      matchId: change.matchId ?? null,
+      changedBy: change.changedBy ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  async getSkillLevelHistory(playerId: number): Promise<SkillLevelChange[]> {
+    return this.tables.skillLevelChanges
+      .filter(change => change.playerId === playerId)
+      .sort((a, b) => byTime(a.createdAt, b.createdAt) || a.id - b.id);
+  }
+
+  async getSkillLevelSuggestions(): Promise<SkillLevelSuggestion[]> {
+    const allPlayers = await this.getAllPlayers();
+    const { skillPolicy } = await this.getClubSettings();
+    return computeSkillSuggestions(allPlayers, await this.getPlayerRatings("doubles"), skillPolicy);
+  }
+
+  async getPlayerRatings(discipline: Discipline = "doubles"): Promise<PlayerRating[]> {
+    return this.tables.playerRatings.filter(rating => rating.discipline === discipline);
+  }
+
+  // The same replay as the database, resuming from the stored snapshots
+  private replaySkills(start: ReplayMatch | null, change: SkillChangeContext, extraPlayerIds: number[] = []) {
+    const allPlayers = this.tables.players;
+    const playersById = new Map(allPlayers.map(player => [player.id, player]));
+
+    const resumeFrom = start ? this.resumePointsBefore(start) : null;
+    const replayedRows = this.attachDetails(this.tables.matches.filter(match => !resumeFrom || compareMatchOrder(match, start!) >= 0)).sort(compareMatchOrder);
+    const replay = this.createReplay(playersById, this.clubSettingsRow());
+    const { isFullReplay, replayedMatches, snapshots, events, proposals } = runReplay(replay, replayedRows, resumeFrom);
+
+    // Replace the snapshots of every replayed match
+    const replayedIds = new Set(replayedMatches.map(match => match.id));
+    this.remove("matchSkillSnapshots", snapshot => isFullReplay || replayedIds.has(snapshot.matchId));
+    if (isFullReplay) {
+      for (const player of allPlayers.filter(p => p.originalSkillLevel === null)) {
+        this.update("players", p => p.id === player.id, { originalSkillLevel: player.skillLevel });
+      }
+    }
+    snapshots.forEach(snapshot => this.insert("matchSkillSnapshots", snapshot));
+
+    // Write back the final state of everyone the replay touched
+    const affectedPlayerIds = isFullReplay
+      ? allPlayers.map(player => player.id)
+      : Array.from(new Set([...extraPlayerIds, ...replayedMatches.flatMap(participantIds)]));
+    const now = new Date();
+    for (const playerId of affectedPlayerIds) {
+      const player = playersById.get(playerId);
+      if (!player) continue;
+      const { skillLevel } = replay.stateOf(playerId);
+
+      if (skillLevel !== player.skillLevel) {
+        this.update("players", p => p.id === playerId, { skillLevel, previousSkillLevel: player.skillLevel, lastSkillUpdate: now });
+      }
+
+      for (const discipline of disciplines) {
+        const state = replay.stateOf(playerId, discipline);
+        const isRating = (rating: PlayerRating) => rating.playerId === playerId && rating.discipline === discipline;
+        if (state.matchesPlayed > 0) {
+          const values = {
+            rating: state.rating,
+            ratingDeviation: state.ratingDeviation,
+            volatility: state.volatility,
+            matchesPlayed: state.matchesPlayed,
+            updatedAt: now,
+          };
+          if (this.update("playerRatings", isRating, values).length === 0) {
+            this.insert("playerRatings", { playerId, discipline, ...values });
+          }
+        } else {
+          this.remove("playerRatings", isRating);
+        }
+      }
+    }
+
+    for (const row of skillChangeHistory(change, events, affectedPlayerIds, playersById, replay)) {
+      this.insert("skillLevelChanges", { ...row, createdAt: now });
+    }
+
+    this.syncSkillProposals(isFullReplay ? null : Array.from(replayedIds), proposals);
+  }
+
+  private resumePointsBefore(start: ReplayMatch): ResumePoint[] | null {
+    const earlier = new Map(this.tables.matches.filter(match => compareMatchOrder(match, start) < 0).map(match => [match.id, match]));
+    const snapshotted = new Set(this.tables.matchSkillSnapshots.map(snapshot => snapshot.matchId));
+    if (earlier.size === 0 || Array.from(earlier.keys()).some(matchId => !snapshotted.has(matchId))) return null;
+
+    const latest = new Map<string, ResumePoint>();
+    for (const snapshot of this.tables.matchSkillSnapshots) {
+      const match = earlier.get(snapshot.matchId);
+      if (!match) continue;
+      const key = `${snapshot.playerId}:${disciplineOf(match.format)}`;
+      const current = latest.get(key);
+      if (!current || compareMatchOrder(match, { playedAt: current.playedAt, id: current.snapshot.matchId }) > 0) {
+        latest.set(key, { snapshot, format: match.format, playedAt: match.playedAt });
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  private createReplay(playersById: Map<number, Player>, settings: ClubSettings, policy: SkillPolicy = settings.skillPolicy): SkillReplay {
+    const decided = this.tables.skillProposals.filter(proposal => proposal.status !== "pending");
+    return createSkillReplay(playersById, settings, decided, this.tables.skillLevelChanges, policy);
+  }
+
+  async previewSkillPolicy(policy: SkillPolicy): Promise<SkillPolicyPreview[]> {
+    const allPlayers = this.tables.players;
+    const allMatches = this.attachDetails(this.tables.matches).sort(compareMatchOrder);
+    const replay = this.createReplay(new Map(allPlayers.map(player => [player.id, player])), this.clubSettingsRow(), policy);
+
+    const proposedLevels = new Map<number, number>();
+    for (const match of allMatches) {
+      for (const proposal of replay.apply(match).proposals) {
+        proposedLevels.set(proposal.playerId, proposal.newLevel);
+      }
+    }
+    replay.finish();
+
+    return allPlayers
+      .filter(player => player.isActive)
+      .map(player => ({
+        playerId: player.id,
+        name: player.name,
+        currentLevel: player.skillLevel,
+        projectedLevel: replay.stateOf(player.id).skillLevel,
+        proposedLevel: proposedLevels.get(player.id) ?? null,
+      }))
+      .filter(preview => preview.projectedLevel !== preview.currentLevel || preview.proposedLevel !== null);
+  }
+
+  async updateSkillPolicy(policy: SkillPolicy, updatedBy: number): Promise<ClubSettings> {
+    return await this.transaction(async () => {
+      const current = this.clubSettingsRow();
+      const [updated] = this.update("clubSettings", settings => settings.id === current.id, { skillPolicy: policy, updatedBy, updatedAt: new Date() });
+      this.replaySkills(null, { cause: "recalculation", changedBy: updatedBy });
+      return updated;
+    });
+  }
+
+  private syncSkillProposals(replayedMatchIds: number[] | null, proposals: SkillProposalEvent[]) {
+    this.remove("skillProposals", proposal => proposal.status === "pending" && (replayedMatchIds === null || replayedMatchIds.includes(proposal.matchId)));
+
+    const latest = latestProposals(proposals);
+    const now = new Date();
+    for (const proposal of latest) {
+      this.remove("skillProposals", p => p.status === "pending" && p.playerId === proposal.playerId);
+      this.insert("skillProposals", { ...proposal, status: "pending", createdAt: now, decidedBy: null, decidedAt: null });
+    }
+  }
+
+  async getSkillProposals(status?: SkillProposalStatus): Promise<SkillProposal[]> {
+    return this.tables.skillProposals
+      .filter(proposal => !status || proposal.status === status)
+      .sort((a, b) => byTime(b.createdAt, a.createdAt) || b.id - a.id);
+  }
+
+  async decideSkillProposal(id: number, approve: boolean, decidedBy: number): Promise<SkillProposal | undefined> {
+    return await this.transaction(async () => {
+      const [decided] = this.update(
+        "skillProposals",
+        proposal => proposal.id === id && proposal.status === "pending",
+        { status: approve ? "approved" : "rejected", decidedBy, decidedAt: new Date() },
+      );
+      if (!decided) return undefined;
+
+      if (approve) {
+        const [match] = this.attachDetails(this.tables.matches.filter(m => m.id === decided.matchId));
+        if (match) {
+          this.replaySkills(match, { cause: "approved", matchId: match.id, changedBy: decidedBy }, [decided.playerId]);
+        }
+      }
+      return decided;
+    });
+  }
+
+  async getClubSettings(): Promise<ClubSettings> {
+    return this.clubSettingsRow();
+  }
+
+  async updateClubSettings(data: UpdateClubSettings, updatedBy: number): Promise<ClubSettings> {
+    const current = this.clubSettingsRow();
+    const [updated] = this.update("clubSettings", settings => settings.id === current.id, { ...data, updatedBy, updatedAt: new Date() });
+
+    // Back to automatic adjustment: open proposals no longer wait for anyone
+    if (current.skillAdjustmentMode === "review" && updated.skillAdjustmentMode === "automatic") {
+      this.remove("skillProposals", proposal => proposal.status === "pending");
+    }
+    return updated;
+  }
+
+  // The settings row, created with the defaults the first time it is needed
+  private clubSettingsRow(): ClubSettings {
+    const [settings] = [...this.tables.clubSettings].sort((a, b) => a.id - b.id);
+    return settings ?? this.insert("clubSettings", {
+      skillAdjustmentMode: "automatic",
+      skillPolicy: defaultSkillPolicy,
+      updatedBy: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  async recalculateAllSkillLevels(changedBy?: number): Promise<void> {
+    await this.transaction(async () => {
+      this.replaySkills(null, { cause: "recalculation", changedBy });
+    });
+  }
+
+  async resetAllPlayersToLevel5(changedBy?: number): Promise<void> {
+    await this.transaction(async () => {
+      for (const player of await this.getAllPlayers()) {
+        this.update("players", p => p.id === player.id, {
+          skillLevel: 5,
+          originalSkillLevel: 5, // the new baseline
+          previousSkillLevel: player.skillLevel,
+          lastSkillUpdate: new Date(),
+        });
+        if (player.skillLevel !== 5) {
+          this.recordSkillLevelChange(player.id, player.skillLevel, 5, { cause: "reset", changedBy });
+        }
+      }
+
+      // Skill levels and ratings are rebuilt from level 5 for everyone
+      this.replaySkills(null, { cause: "recalculation", changedBy });
+    });
+  }
+
+  // Nothing is persisted, so there is no schema to bring up to date
+  async migrate(): Promise<void> {}
+
+  // Club settings are kept, as in the database
+  async resetAllData(): Promise<void> {
+    this.tables = { ...emptyTables(), clubSettings: this.tables.clubSettings };
+  }
+
+  private clubContents(): ClubContents {
+    return {
+      settings: this.clubSettingsRow(),
+      players: [...this.tables.players],
+      sessions: [...this.tables.sessions],
+      sessionAttendees: [...this.tables.sessionAttendees],
+      matches: this.attachDetails(this.tables.matches),
+      skillLevelChanges: [...this.tables.skillLevelChanges],
+      skillProposals: [...this.tables.skillProposals],
+      tournaments: [...this.tables.tournaments],
+      tournamentTeams: [...this.tables.tournamentTeams],
+      tournamentMatches: [...this.tables.tournamentMatches],
+      ladders: [...this.tables.ladders],
+      ladderEntries: [...this.tables.ladderEntries],
+      challenges: [...this.tables.challenges],
+    };
+  }
+
+  async exportClub(): Promise<ClubArchive> {
+    return archiveClub(this.clubContents());
+  }
+
+  async importClub(archive: ClubArchive, dryRun: boolean, importedBy: number): Promise<ClubImportReport> {
+    const plan = planClubImport(archive, this.clubContents(), dryRun);
+    const { report } = plan;
+    if (dryRun || report.errors.length > 0) {
+      return report;
+    }
+    const { idMap } = report;
+
+    return await this.transaction(async () => {
+      if (plan.updateSettings) {
+        const current = this.clubSettingsRow();
+        this.update("clubSettings", settings => settings.id === current.id, { ...archive.settings, updatedBy: importedBy, updatedAt: new Date() });
+      }
+
+      for (const { id, ...player } of plan.players) {
+        idMap.players[id] = this.insert("players", player).id;
+      }
+
+      for (const { id, ...session } of plan.sessions) {
+        idMap.sessions[id] = this.insert("sessions", { ...session, organizerId: remapId(idMap.players, session.organizerId) }).id;
+      }
+
+      for (const attendee of plan.sessionAttendees) {
+        this.insert("sessionAttendees", {
+          ...attendee,
+          sessionId: remapId(idMap.sessions, attendee.sessionId)!,
+          playerId: remapId(idMap.players, attendee.playerId)!,
+          checkedInBy: remapId(idMap.players, attendee.checkedInBy),
+        });
+      }
+
+      for (const match of plan.matches) {
+        const created = this.insert("matches", {
+          format: match.format,
+          sessionId: remapId(idMap.sessions, match.sessionId),
+          teamAPlayer1Id: null,
+          teamAPlayer2Id: null,
+          teamBPlayer1Id: null,
+          teamBPlayer2Id: null,
+          playedAt: match.playedAt,
+          ...archivedMatchResult(match),
+        });
+        idMap.matches[match.id] = created.id;
+        this.saveParticipants(
+          created.id,
+          match.teamA.map(playerId => remapId(idMap.players, playerId)!),
+          match.teamB.map(playerId => remapId(idMap.players, playerId)!),
+        );
+        this.saveGames(created.id, match.games);
+      }
+
+      for (const change of plan.skillLevelChanges) {
+        this.insert("skillLevelChanges", {
+          ...change,
+          playerId: remapId(idMap.players, change.playerId)!,
+          matchId: remapId(idMap.matches, change.matchId),
+          changedBy: remapId(idMap.players, change.changedBy),
+        });
+      }
+
+      for (const proposal of plan.skillProposals) {
+        this.insert("skillProposals", {
+          ...proposal,
+          playerId: remapId(idMap.players, proposal.playerId)!,
+          matchId: remapId(idMap.matches, proposal.matchId)!,
+          decidedBy: remapId(idMap.players, proposal.decidedBy),
+        });
+      }
+
+      for (const { id, ...tournament } of plan.tournaments) {
+        idMap.tournaments[id] = this.insert("tournaments", { ...tournament, createdBy: remapId(idMap.players, tournament.createdBy) }).id;
+      }
+
+      const teamIds: Record<number, number> = {};
+      for (const { id, ...team } of plan.tournamentTeams) {
+        teamIds[id] = this.insert("tournamentTeams", {
+          ...team,
+          tournamentId: remapId(idMap.tournaments, team.tournamentId)!,
+          player1Id: remapId(idMap.players, team.player1Id)!,
+          player2Id: remapId(idMap.players, team.player2Id),
+        }).id;
+      }
+
+      // The draw links to itself, so the links are filled in once every match of it exists
+      const drawIds: Record<number, number> = {};
+      for (const { id, ...match } of plan.tournamentMatches) {
+        drawIds[id] = this.insert("tournamentMatches", {
+          ...match,
+          tournamentId: remapId(idMap.tournaments, match.tournamentId)!,
+          teamAId: remapId(teamIds, match.teamAId),
+          teamBId: remapId(teamIds, match.teamBId),
+          winnerTeamId: remapId(teamIds, match.winnerTeamId),
+          matchId: remapId(idMap.matches, match.matchId),
+          winnerNextMatchId: null,
+          loserNextMatchId: null,
+        }).id;
+      }
+      for (const match of plan.tournamentMatches) {
+        this.update("tournamentMatches", row => row.id === drawIds[match.id], {
+          winnerNextMatchId: remapId(drawIds, match.winnerNextMatchId),
+          loserNextMatchId: remapId(drawIds, match.loserNextMatchId),
+        });
+      }
+
+      for (const { id, ...ladder } of plan.ladders) {
+        idMap.ladders[id] = this.insert("ladders", ladder).id;
+      }
+
+      const entryIds: Record<number, number> = {};
+      for (const { id, ...entry } of plan.ladderEntries) {
+        entryIds[id] = this.insert("ladderEntries", {
+          ...entry,
+          ladderId: remapId(idMap.ladders, entry.ladderId)!,
+          player1Id: remapId(idMap.players, entry.player1Id)!,
+          player2Id: remapId(idMap.players, entry.player2Id),
+        }).id;
+      }
+
+      for (const challenge of plan.challenges) {
+        this.insert("challenges", {
+          ...challenge,
+          ladderId: remapId(idMap.ladders, challenge.ladderId)!,
+          challengerEntryId: remapId(entryIds, challenge.challengerEntryId)!,
+          defenderEntryId: remapId(entryIds, challenge.defenderEntryId)!,
+          issuedBy: remapId(idMap.players, challenge.issuedBy),
+          winnerEntryId: remapId(entryIds, challenge.winnerEntryId),
+          matchId: remapId(idMap.matches, challenge.matchId),
+        });
+      }
+
+      this.replaySkills(null, { cause: "recalculation", changedBy: importedBy });
+      return { ...report, imported: true };
+    });
+  }
+
+  async sendOTP(playerId: number): Promise<OtpSendResult> {
+    const player = await this.getPlayer(playerId);
+    if (!player || !player.isActive) {
+      return { status: "failed" };
+    }
+
+    // Enforce the resend cooldown against the most recent code for this player
+    const [latest] = this.tables.otpCodes
+      .filter(otp => otp.playerId === playerId)
+      .sort((a, b) => byTime(b.createdAt, a.createdAt));
+    if (latest) {
+      const resendAt = latest.createdAt.getTime() + OTP_RESEND_COOLDOWN_MS;
+      if (resendAt > Date.now()) {
+        return { status: "cooldown", retryAfterSeconds: Math.ceil((resendAt - Date.now()) / 1000) };
+      }
+    }
+
+    // A new code replaces any outstanding ones, so resending never widens the guess space
+    this.update("otpCodes", otp => otp.playerId === playerId && !otp.isUsed, { isUsed: true });
+
+    const code = generateOTP();
+    this.insert("otpCodes", {
+      playerId,
+      code,
+      expiresAt: new Date(Date.now() + OTP_TTL_MS),
+      isUsed: false,
+      attempts: 0,
+      createdAt: new Date(),
+    });
+
+    const sent = await this.smsProvider.send(player.mobileNumber, formatOTPMessage(code));
+    if (!sent) {
+      return { status: "failed" };
+    }
+
+    return {
+      status: "sent",
+      expiresInSeconds: OTP_TTL_MS / 1000,
+      resendInSeconds: OTP_RESEND_COOLDOWN_MS / 1000,
+    };
+  }
+
+  async verifyOTP(playerId: number, code: string): Promise<OtpVerifyResult> {
+    // Only the latest outstanding code can be used
+    const now = new Date();
+    const [otpRecord] = this.tables.otpCodes
+      .filter(otp => otp.playerId === playerId && !otp.isUsed && otp.expiresAt > now)
+      .sort((a, b) => byTime(b.createdAt, a.createdAt));
+
+    if (!otpRecord) {
+      return { status: "expired" };
+    }
+
+    // Nothing is awaited between reading the code and writing it back, so guesses at the same
+    // moment are counted one at a time
+    if (!codesMatch(otpRecord.code, code)) {
+      const attempts = otpRecord.attempts + 1;
+      const attemptsRemaining = Math.max(0, OTP_MAX_ATTEMPTS - attempts);
+
+      // Burn the code once the attempt limit is reached
+      this.update("otpCodes", otp => otp.id === otpRecord.id, { attempts, isUsed: attemptsRemaining === 0 });
+
+      return attemptsRemaining === 0 ? { status: "expired" } : { status: "invalid", attemptsRemaining };
+    }
+
+    this.update("otpCodes", otp => otp.id === otpRecord.id, { isUsed: true });
+    return { status: "verified" };
+  }
+
+  async purgeStaleOTPs(): Promise<number> {
+    const cutoff = new Date(Date.now() - OTP_RETENTION_MS);
+    return this.remove("otpCodes", otp => otp.expiresAt < cutoff).length;
+  }
+}
+
+// Select the backend from STORAGE (database | memory). The database, the default, connects with DB_DRIVER.
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const backend = env.STORAGE || "database";
+
+  switch (backend) {
+    case "database":
+      return new DatabaseStorage(createDatabase(env), createSmsProvider(env));
+    case "memory":
+      return new MemStorage(createSmsProvider(env));
+    default:
+      throw new Error(`Unknown STORAGE "${backend}". Use database or memory.`);
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { bracketOrder, generateDraw, type DrawMatch } from "./tournament";
+
+const byKey = (matches: DrawMatch[]) => new Map(matches.map(match => [match.key, match]));
+const pairKey = (a: number | null, b: number | null) => [a, b].sort().join("-");
+
+describe("bracketOrder", () => {
+  it("keeps the top seeds apart until the late rounds", () => {
+    expect(bracketOrder(2)).toEqual([1, 2]);
+    expect(bracketOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe("generateDraw", () => {
+  it("has everyone in a round robin group play each other once", () => {
+    const { groups, matches } = generateDraw("round_robin", [11, 12, 13, 14]);
+    expect(Array.from(groups.values())).toEqual([1, 1, 1, 1]);
+    expect(matches).toHaveLength(6);
+    expect(new Set(matches.map(match => pairKey(match.teamAId, match.teamBId))).size).toBe(6);
+
+    // Two games a round, and nobody plays twice in one
+    for (const round of [1, 2, 3]) {
+      const teams = matches.filter(match => match.round === round).flatMap(match => [match.teamAId, match.teamBId]);
+      expect(teams.sort()).toEqual([11, 12, 13, 14]);
+    }
+    expect(matches.every(match => match.bracket === "group" && match.winnerTo === null)).toBe(true);
+  });
+
+  it("snakes seeds across groups and rests one team a round in an odd group", () => {
+    const { groups, matches } = generateDraw("round_robin", [1, 2, 3, 4, 5, 6], 2);
+    expect(Object.fromEntries(groups)).toEqual({ 1: 1, 2: 2, 3: 2, 4: 1, 5: 1, 6: 2 });
+    expect(matches.filter(match => match.groupNumber === 1).map(match => pairKey(match.teamAId, match.teamBId)).sort()).toEqual(["1-4", "1-5", "4-5"]);
+    expect(matches.map(match => [match.round, match.position])).toEqual([[1, 1], [2, 1], [3, 1], [1, 2], [2, 2], [3, 2]]);
+  });
+
+  it("gives byes to the top seeds and sends them straight into the next round", () => {
+    const matches = byKey(generateDraw("single_elimination", [1, 2, 3, 4, 5]).matches);
+    expect(Array.from(matches.keys())).toEqual(["W-R1-2", "W-R2-1", "W-R2-2", "W-R3-1"]);
+
+    expect(matches.get("W-R1-2")).toMatchObject({ teamAId: 4, teamBId: 5, winnerTo: { key: "W-R2-1", slot: 2 }, loserTo: null });
+    expect(matches.get("W-R2-1")).toMatchObject({ teamAId: 1, teamBId: null, winnerTo: { key: "W-R3-1", slot: 1 } });
+    expect(matches.get("W-R2-2")).toMatchObject({ teamAId: 2, teamBId: 3, winnerTo: { key: "W-R3-1", slot: 2 } });
+    expect(matches.get("W-R3-1")).toMatchObject({ teamAId: null, teamBId: null, winnerTo: null });
+  });
+
+  it("drops winners bracket losers into the losers bracket and meets its winner in the grand final", () => {
+    const matches = byKey(generateDraw("double_elimination", [1, 2, 3, 4]).matches);
+    expect(Array.from(matches.keys())).toEqual(["W-R1-1", "W-R1-2", "W-R2-1", "L-R1-1", "L-R2-1", "F-R1-1"]);
+
+    expect(matches.get("W-R1-1")).toMatchObject({ teamAId: 1, teamBId: 4, loserTo: { key: "L-R1-1", slot: 1 } });
+    expect(matches.get("W-R1-2")).toMatchObject({ teamAId: 2, teamBId: 3, loserTo: { key: "L-R1-1", slot: 2 } });
+    expect(matches.get("W-R2-1")).toMatchObject({ winnerTo: { key: "F-R1-1", slot: 1 }, loserTo: { key: "L-R2-1", slot: 2 } });
+    expect(matches.get("L-R1-1")).toMatchObject({ winnerTo: { key: "L-R2-1", slot: 1 }, loserTo: null });
+    expect(matches.get("L-R2-1")).toMatchObject({ winnerTo: { key: "F-R1-1", slot: 2 } });
+    expect(matches.get("F-R1-1")).toMatchObject({ bracket: "final", winnerTo: null, loserTo: null });
+  });
+
+  it("sends the loser of a two-team double elimination straight to the grand final", () => {
+    const matches = byKey(generateDraw("double_elimination", [1, 2]).matches);
+    expect(Array.from(matches.keys())).toEqual(["W-R1-1", "F-R1-1"]);
+    expect(matches.get("W-R1-1")).toMatchObject({ winnerTo: { key: "F-R1-1", slot: 1 }, loserTo: { key: "F-R1-1", slot: 2 } });
+  });
+
+  it("takes byes out of the losers bracket too", () => {
+    const { matches } = generateDraw("double_elimination", [1, 2, 3]);
+    // Seed 1's bye means only one first-round loser, who goes straight on to meet the semi-final loser
+    expect(matches.map(match => match.key)).toEqual(["W-R1-2", "W-R2-1", "L-R2-1", "F-R1-1"]);
+    expect(byKey(matches).get("W-R1-2")).toMatchObject({ teamAId: 2, teamBId: 3, loserTo: { key: "L-R2-1", slot: 1 } });
+  });
+});
@@ -0,0 +1,258 @@
+import { gameScoresOf, teamPlayerIds, type MatchDetails, type Player, type PlayerRating, type Tournament, type TournamentBracket, type TournamentDetails, type TournamentFormat, type TournamentMatch, type TournamentTeam } from "@shared/schema";
+import { ratingOrInitial } from "./rating";
+import { computeTeamStandings } from "./rankings";
+
+// Draws for club tournaments.
+//
+// Teams come in seed order (strongest first). Round robin splits them into groups and has everyone
+// in a group play each other once. Knockout brackets are padded to a power of two with byes, which go
+// to the top seeds; a match against a bye is never played, its team goes straight through. Double
+// elimination adds a losers bracket and a grand final between the two bracket winners.
+
+type Slot = { teamId: number } | { winnerOf: string } | { loserOf: string } | "bye";
+type SlotNumber = 1 | 2;
+
+interface PlannedMatch {
+  key: string;
+  bracket: TournamentBracket;
+  round: number;
+  position: number;
+  groupNumber: number | null;
+  teamA: Slot;
+  teamB: Slot;
+}
+
+export interface DrawMatch {
+  key: string;
+  bracket: TournamentBracket;
+  round: number;
+  position: number;
+  groupNumber: number | null;
+  teamAId: number | null; // known from the start, otherwise filled in by an earlier match
+  teamBId: number | null;
+  winnerTo: { key: string; slot: SlotNumber } | null;
+  loserTo: { key: string; slot: SlotNumber } | null;
+}
+
+export interface Draw {
+  groups: Map<number, number>; // team ID to group number, round robin only
+  matches: DrawMatch[];
+}
+
+export function generateDraw(format: TournamentFormat, seededTeamIds: number[], groupCount = 1): Draw {
+  if (format === "round_robin") {
+    return roundRobinDraw(seededTeamIds, groupCount);
+  }
+  return { groups: new Map(), matches: resolveByes(knockoutPlan(seededTeamIds, format === "double_elimination")) };
+}
+
+// Snake seeding spreads the top seeds across groups: 1-2-3-3-2-1-1-2-3...
+function roundRobinDraw(seededTeamIds: number[], groupCount: number): Draw {
+  const groups = new Map<number, number>();
+  const members: number[][] = Array.from({ length: groupCount }, () => []);
+  seededTeamIds.forEach((teamId, index) => {
+    const row = Math.floor(index / groupCount);
+    const column = index % groupCount;
+    const group = row % 2 === 0 ? column : groupCount - 1 - column;
+    members[group].push(teamId);
+    groups.set(teamId, group + 1);
+  });
+
+  const matches: DrawMatch[] = [];
+  const positions = new Map<number, number>(); // next position per round, shared by all groups
+  members.forEach((teamIds, group) => {
+    circleRounds(teamIds).forEach((pairs, roundIndex) => {
+      const round = roundIndex + 1;
+      for (const [teamAId, teamBId] of pairs) {
+        const position = (positions.get(round) ?? 0) + 1;
+        positions.set(round, position);
+        matches.push({
+          key: `G${group + 1}-R${round}-${position}`,
+          bracket: "group",
+          round,
+          position,
+          groupNumber: group + 1,
+          teamAId,
+          teamBId,
+          winnerTo: null,
+          loserTo: null,
+        });
+      }
+    });
+  });
+
+  return { groups, matches };
+}
+
+// Circle method: the first team stays put and the rest rotate, so every pair meets exactly once.
+// With an odd number of teams, whoever is drawn against the empty spot sits the round out.
+function circleRounds(teamIds: number[]): [number, number][][] {
+  const circle: (number | null)[] = teamIds.length % 2 === 0 ? [...teamIds] : [...teamIds, null];
+  const rounds: [number, number][][] = [];
+  for (let round = 0; round < circle.length - 1; round++) {
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      const home = circle[i];
+      const away = circle[circle.length - 1 - i];
+      if (home !== null && away !== null) {
+        pairs.push(round % 2 === 0 ? [home, away] : [away, home]);
+      }
+    }
+    rounds.push(pairs);
+    circle.splice(1, 0, circle.pop()!);
+  }
+  return rounds;
+}
+
+// Bracket positions for seeds 1..size, arranged so the top two seeds can only meet in the final:
+// [1, 8, 4, 5, 2, 7, 3, 6] for eight
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap(seed => [seed, length + 1 - seed]);
+  }
+  return order;
+}
+
+function knockoutPlan(seededTeamIds: number[], doubleElimination: boolean): PlannedMatch[] {
+  let size = 2;
+  while (size < seededTeamIds.length) size *= 2;
+  const order = bracketOrder(size);
+  const entrant = (seed: number): Slot => (seed <= seededTeamIds.length ? { teamId: seededTeamIds[seed - 1] } : "bye");
+
+  const plan: PlannedMatch[] = [];
+  const add = (bracket: TournamentBracket, round: number, position: number, teamA: Slot, teamB: Slot) => {
+    const key = `${bracket[0].toUpperCase()}-R${round}-${position}`;
+    plan.push({ key, bracket, round, position, groupNumber: null, teamA, teamB });
+    return key;
+  };
+
+  // Winners bracket
+  const winnersRounds: string[][] = [];
+  let previous: Slot[] = order.map(entrant);
+  for (let round = 1; previous.length > 1; round++) {
+    const keys: string[] = [];
+    for (let i = 0; i < previous.length / 2; i++) {
+      keys.push(add("winners", round, i + 1, previous[2 * i], previous[2 * i + 1]));
+    }
+    winnersRounds.push(keys);
+    previous = keys.map(key => ({ winnerOf: key }));
+  }
+  if (!doubleElimination) return plan;
+
+  // Losers bracket: the first round pairs off the first-round losers, then each later winners round
+  // drops its losers in against the survivors, alternating with rounds among the survivors themselves.
+  // Dropped losers come in reversed every other time so teams don't meet again straight away.
+  let survivors: Slot[] = winnersRounds[0].map(key => ({ loserOf: key }));
+  let losersRound = 0;
+  for (let winnersRound = 1; winnersRound < winnersRounds.length; winnersRound++) {
+    losersRound++;
+    const paired: string[] = [];
+    for (let i = 0; i < survivors.length / 2; i++) {
+      paired.push(add("losers", losersRound, i + 1, survivors[2 * i], survivors[2 * i + 1]));
+    }
+    survivors = paired.map(key => ({ winnerOf: key }));
+
+    const dropped = winnersRounds[winnersRound].map(key => ({ loserOf: key }));
+    if (winnersRound % 2 === 0) dropped.reverse();
+    losersRound++;
+    survivors = survivors.map((survivor, i) => ({ winnerOf: add("losers", losersRound, i + 1, survivor, dropped[i]) }));
+  }
+
+  // With only two teams there is no losers bracket, the first loser goes straight to the grand final
+  const losersChampion = losersRound > 0 ? survivors[0] : { loserOf: winnersRounds[0][0] };
+  const winnersChampion: Slot = { winnerOf: winnersRounds[winnersRounds.length - 1][0] };
+  add("final", 1, 1, winnersChampion, losersChampion);
+  return plan;
+}
+
+// Take the byes out of a plan: a match with a bye isn't played, so its team is wired straight to
+// wherever the winner would have gone. Matches are planned in playing order, so every match a slot
+// refers to has already been resolved.
+function resolveByes(plan: PlannedMatch[]): DrawMatch[] {
+  const skipped = new Map<string, { winner: Slot; loser: Slot }>();
+  const resolve = (slot: Slot): Slot => {
+    if (slot === "bye" || "teamId" in slot) return slot;
+    if ("winnerOf" in slot) return skipped.get(slot.winnerOf)?.winner ?? slot;
+    return skipped.get(slot.loserOf)?.loser ?? slot;
+  };
+
+  const kept: PlannedMatch[] = [];
+  for (const planned of plan) {
+    const teamA = resolve(planned.teamA);
+    const teamB = resolve(planned.teamB);
+    if (teamA === "bye" || teamB === "bye") {
+      skipped.set(planned.key, { winner: teamA === "bye" ? teamB : teamA, loser: "bye" });
+    } else {
+      kept.push({ ...planned, teamA, teamB });
+    }
+  }
+
+  const matches = new Map<string, DrawMatch>(kept.map(planned => [planned.key, {
+    key: planned.key,
+    bracket: planned.bracket,
+    round: planned.round,
+    position: planned.position,
+    groupNumber: null,
+    teamAId: typeof planned.teamA === "object" && "teamId" in planned.teamA ? planned.teamA.teamId : null,
+    teamBId: typeof planned.teamB === "object" && "teamId" in planned.teamB ? planned.teamB.teamId : null,
+    winnerTo: null,
+    loserTo: null,
+  }]));
+
+  for (const planned of kept) {
+    ([[planned.teamA, 1], [planned.teamB, 2]] as const).forEach(([slot, slotNumber]) => {
+      if (slot === "bye" || "teamId" in slot) return;
+      const target = { key: planned.key, slot: slotNumber };
+      if ("winnerOf" in slot) matches.get(slot.winnerOf)!.winnerTo = target;
+      else matches.get(slot.loserOf)!.loserTo = target;
+    });
+  }
+
+  return Array.from(matches.values());
+}
+
+// Strongest first; teams that are level keep their registration order
+export function seedTeams(tournament: Tournament, teams: TournamentTeam[], players: Player[], ratings: PlayerRating[]): TournamentTeam[] {
+  const strengthOf = (team: TournamentTeam) => teamPlayerIds(team).reduce((sum, playerId) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return sum;
+    return sum + (tournament.seeding === "skill"
+      ? player.skillLevel
+      : ratingOrInitial(player, ratings.find(r => r.playerId === playerId)).rating);
+  }, 0);
+  return [...teams].sort((a, b) => strengthOf(b) - strengthOf(a));
+}
+
+// A tournament with its draw (in round and position order), the scores of the recorded matches that
+// decided it, and its standings
+export function tournamentDetailsOf(tournament: Tournament, teams: TournamentTeam[], draw: TournamentMatch[], recorded: MatchDetails[]): TournamentDetails {
+  // Recorded matches can have the teams either way round
+  const matchDetails = draw.map(tournamentMatch => {
+    const result = recorded.find(match => match.id === tournamentMatch.matchId);
+    const teamA = teams.find(team => team.id === tournamentMatch.teamAId);
+    if (!result || !teamA) {
+      return { ...tournamentMatch, teamAScore: null, teamBScore: null, games: [] };
+    }
+    const sameWay = result.teamA.includes(teamA.player1Id);
+    return {
+      ...tournamentMatch,
+      teamAScore: sameWay ? result.teamAScore : result.teamBScore,
+      teamBScore: sameWay ? result.teamBScore : result.teamAScore,
+      games: gameScoresOf(result).map(game => sameWay ? game : { teamAScore: game.teamBScore, teamBScore: game.teamAScore }),
+    };
+  });
+
+  const standings = tournament.format === "round_robin" && tournament.status !== "registration"
+    ? Array.from({ length: tournament.groupCount }, (_, index) => ({
+        groupNumber: index + 1,
+        rows: computeTeamStandings(
+          teams.filter(team => team.groupNumber === index + 1),
+          matchDetails.filter(match => match.groupNumber === index + 1),
+        ),
+      }))
+    : [{ groupNumber: null, rows: computeTeamStandings(teams, matchDetails) }];
+
+  return { ...tournament, teamCount: teams.length, teams, matches: matchDetails, standings };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { isValidGameScore, matchGamesSchema } from "./schema";
+
+describe("isValidGameScore", () => {
+  it("ends a game at 21 with a lead of two or more", () => {
+    expect(isValidGameScore(21, 0)).toBe(true);
+    expect(isValidGameScore(19, 21)).toBe(true);
+    expect(isValidGameScore(21, 20)).toBe(false);
+    expect(isValidGameScore(20, 18)).toBe(false);
+  });
+
+  it("plays on past 20-all until one side leads by two", () => {
+    expect(isValidGameScore(22, 20)).toBe(true);
+    expect(isValidGameScore(27, 29)).toBe(true);
+    expect(isValidGameScore(22, 19)).toBe(false);
+    expect(isValidGameScore(23, 22)).toBe(false);
+    expect(isValidGameScore(25, 21)).toBe(false);
+  });
+
+  it("caps a game at 30, where a one-point lead wins", () => {
+    expect(isValidGameScore(30, 29)).toBe(true);
+    expect(isValidGameScore(28, 30)).toBe(true);
+    expect(isValidGameScore(30, 27)).toBe(false);
+    expect(isValidGameScore(31, 29)).toBe(false);
+    expect(isValidGameScore(30, 30)).toBe(false);
+  });
+});
+
+describe("matchGamesSchema", () => {
+  const win = { teamAScore: 21, teamBScore: 15 };
+  const loss = { teamAScore: 12, teamBScore: 21 };
+
+  it("accepts a single game and best-of-three matches that stop once decided", () => {
+    expect(matchGamesSchema.safeParse([win]).success).toBe(true);
+    expect(matchGamesSchema.safeParse([win, win]).success).toBe(true);
+    expect(matchGamesSchema.safeParse([win, loss, loss]).success).toBe(true);
+  });
+
+  it("rejects matches nobody has won, games after the decider and invalid scores", () => {
+    expect(matchGamesSchema.safeParse([]).success).toBe(false);
+    expect(matchGamesSchema.safeParse([win, loss]).error?.issues[0].message).toBe("A best-of-three match needs a team to win two games");
+
+    const extra = matchGamesSchema.safeParse([win, win, loss]);
+    expect(extra.error?.issues).toEqual([expect.objectContaining({ path: [2], message: "The match was already decided before this game" })]);
+
+    const deuce = matchGamesSchema.safeParse([{ teamAScore: 21, teamBScore: 20 }]);
+    expect(deuce.error?.issues).toEqual([expect.objectContaining({ path: [0], message: "Games are played to 21, won by 2 and capped at 30" })]);
+    expect(matchGamesSchema.safeParse([{ teamAScore: 31, teamBScore: 29 }]).success).toBe(false);
+  });
+});
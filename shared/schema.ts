@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, doublePrecision, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
@@ -15,27 +15,257 @@ export const players = pgTable("players", {
   lastSkillUpdate: timestamp("last_skill_update").defaultNow(),
 });
 
+// "doubles" is open doubles, and what every match recorded before formats existed counts as
+export const matchFormats = ["doubles", "mens_doubles", "womens_doubles", "mixed_doubles", "singles"] as const;
+
 export const matches = pgTable("matches", {
   id: serial("id").primaryKey(),
-  teamAPlayer1Id: integer("team_a_player_1_id").notNull(),
-  teamAPlayer2Id: integer("team_a_player_2_id").notNull(),
-  teamBPlayer1Id: integer("team_b_player_1_id").notNull(),
-  teamBPlayer2Id: integer("team_b_player_2_id").notNull(),
-  teamAScore: integer("team_a_score").notNull(),
+  format: text("format", { enum: matchFormats }).notNull().default("doubles"),
+  // Doubles line-up from before match_participants existed; only read for matches without participant rows
+  teamAPlayer1Id: integer("team_a_player_1_id"),
+  teamAPlayer2Id: integer("team_a_player_2_id"),
+  teamBPlayer1Id: integer("team_b_player_1_id"),
+  teamBPlayer2Id: integer("team_b_player_2_id"),
+  teamAScore: integer("team_a_score").notNull(), // total points across all games
   teamBScore: integer("team_b_score").notNull(),
   winnerId: integer("winner_id").notNull(), // 1 for Team A, 2 for Team B
   playedAt: timestamp("played_at").defaultNow().notNull(),
+  sessionId: integer("session_id"), // club night the match was played at, if any
 });
 
+// Individual games of a match; matches recorded before games were tracked have none
+export const matchGames = pgTable("match_games", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull(),
+  gameNumber: integer("game_number").notNull(), // 1-3
+  teamAScore: integer("team_a_score").notNull(),
+  teamBScore: integer("team_b_score").notNull(),
+}, (table) => [
+  unique().on(table.matchId, table.gameNumber),
+]);
+
+// Who played on each side of a match: one player per side in singles, two in doubles
+export const matchParticipants = pgTable("match_participants", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull(),
+  playerId: integer("player_id").notNull(),
+  team: integer("team").notNull(), // 1 for Team A, 2 for Team B
+  position: integer("position").notNull(), // order within the team, from 1
+}, (table) => [
+  unique().on(table.matchId, table.playerId),
+]);
+
+// A club night: matches played on one date at one venue
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  date: timestamp("date").notNull(),
+  venue: text("venue").notNull(),
+  courtCount: integer("court_count").notNull().default(1),
+  organizerId: integer("organizer_id"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const sessionAttendees = pgTable("session_attendees", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  playerId: integer("player_id").notNull(),
+  checkedInAt: timestamp("checked_in_at").defaultNow().notNull(),
+  checkedInBy: integer("checked_in_by"), // the player themselves, or the manager who checked them in
+  checkedOutAt: timestamp("checked_out_at"), // set when a player leaves early
+}, (table) => [
+  unique().on(table.sessionId, table.playerId),
+]);
+
 export const otpCodes = pgTable("otp_codes", {
   id: serial("id").primaryKey(),
   playerId: integer("player_id").notNull(),
   code: text("code").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   isUsed: boolean("is_used").notNull().default(false),
+  attempts: integer("attempts").notNull().default(0), // failed verification attempts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Singles and doubles are rated separately, so one can't skew the other
+export const disciplines = ["doubles", "singles"] as const;
+
+// Glicko-2 rating per player and discipline, rebuilt by replaying matches in playedAt order
+export const playerRatings = pgTable("player_ratings", {
+  id: serial("id").primaryKey(),
+  playerId: integer("player_id").notNull(),
+  discipline: text("discipline", { enum: disciplines }).notNull().default("doubles"),
+  rating: doublePrecision("rating").notNull(),
+  ratingDeviation: doublePrecision("rating_deviation").notNull(),
+  volatility: doublePrecision("volatility").notNull(),
+  matchesPlayed: integer("matches_played").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.playerId, table.discipline),
+]);
+
+// Each participant's skill level and rating straight after a match, so a replay can resume from any point.
+// The rating is in the discipline of the match.
+export const matchSkillSnapshots = pgTable("match_skill_snapshots", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull(),
+  playerId: integer("player_id").notNull(),
+  skillLevel: integer("skill_level").notNull(),
+  rating: doublePrecision("rating").notNull(),
+  ratingDeviation: doublePrecision("rating_deviation").notNull(),
+  volatility: doublePrecision("volatility").notNull(),
+  matchesPlayed: integer("matches_played").notNull(),
+});
+
+// Audit trail of every skill level change
+export const skillLevelChanges = pgTable("skill_level_changes", {
+  id: serial("id").primaryKey(),
+  playerId: integer("player_id").notNull(),
+  oldLevel: integer("old_level").notNull(),
+  newLevel: integer("new_level").notNull(),
+  cause: text("cause", { enum: ["auto", "approved", "manual", "reset", "recalculation"] }).notNull(),
+  matchId: integer("match_id"), // the match that triggered an automatic change
+  changedBy: integer("changed_by"), // the user who performed the action
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const skillAdjustmentModes = ["automatic", "review"] as const;
+
+// How the doubles rating turns into skill level changes
+export const skillPolicySchema = z.object({
+  suggestionMatches: z.number().int().min(1).max(20), // rated doubles matches before a change is suggested
+  autoUpdateMatches: z.number().int().min(1).max(20), // ... and before a change applies
+  bandMargin: z.number().min(0).max(50), // rating points past a level's band the rating must go before the level follows
+}).refine(policy => policy.autoUpdateMatches >= policy.suggestionMatches, {
+  message: "Changes cannot apply before they are suggested",
+  path: ["autoUpdateMatches"],
+});
+
+export type SkillPolicy = z.infer<typeof skillPolicySchema>;
+
+export const defaultSkillPolicy: SkillPolicy = {
+  suggestionMatches: 3,
+  autoUpdateMatches: 5,
+  bandMargin: 20,
+};
+
+// Club-wide settings, a single row
+export const clubSettings = pgTable("club_settings", {
+  id: serial("id").primaryKey(),
+  skillAdjustmentMode: text("skill_adjustment_mode", { enum: skillAdjustmentModes }).notNull().default("automatic"),
+  skillPolicy: jsonb("skill_policy").$type<SkillPolicy>().notNull().default(defaultSkillPolicy),
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const skillProposalStatuses = ["pending", "approved", "rejected"] as const;
+
+// In review mode a skill level change the results call for waits here for a manager.
+// A decision belongs to the match after which the change was proposed.
+export const skillProposals = pgTable("skill_proposals", {
+  id: serial("id").primaryKey(),
+  playerId: integer("player_id").notNull(),
+  matchId: integer("match_id").notNull(),
+  oldLevel: integer("old_level").notNull(),
+  newLevel: integer("new_level").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status", { enum: skillProposalStatuses }).notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  decidedBy: integer("decided_by"),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [
+  unique().on(table.matchId, table.playerId),
+]);
+
+export const tournamentFormats = ["round_robin", "single_elimination", "double_elimination"] as const;
+export const tournamentBrackets = ["group", "winners", "losers", "final"] as const;
+export const tournamentSeedings = ["skill", "rating"] as const;
+export const tournamentStatuses = ["registration", "in_progress", "completed"] as const;
+
+export const tournaments = pgTable("tournaments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  format: text("format", { enum: tournamentFormats }).notNull(),
+  matchFormat: text("match_format", { enum: matchFormats }).notNull().default("doubles"),
+  seeding: text("seeding", { enum: tournamentSeedings }).notNull().default("rating"),
+  groupCount: integer("group_count").notNull().default(1), // round robin only
+  status: text("status", { enum: tournamentStatuses }).notNull().default("registration"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+});
+
+export const tournamentTeams = pgTable("tournament_teams", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull(),
+  player1Id: integer("player_1_id").notNull(),
+  player2Id: integer("player_2_id"), // empty in singles
+  seed: integer("seed"), // assigned when the tournament starts
+  groupNumber: integer("group_number"), // round robin only, from 1
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// The draw. Knockout matches are created up front with empty slots that are filled in as
+// earlier matches are decided; winnerNext/loserNext say where each team goes afterwards.
+export const tournamentMatches = pgTable("tournament_matches", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull(),
+  bracket: text("bracket", { enum: tournamentBrackets }).notNull(),
+  round: integer("round").notNull(),
+  position: integer("position").notNull(),
+  groupNumber: integer("group_number"),
+  teamAId: integer("team_a_id"),
+  teamBId: integer("team_b_id"),
+  winnerTeamId: integer("winner_team_id"),
+  matchId: integer("match_id"), // the recorded match that decided it
+  winnerNextMatchId: integer("winner_next_match_id"),
+  winnerNextSlot: integer("winner_next_slot"), // 1 for Team A, 2 for Team B
+  loserNextMatchId: integer("loser_next_match_id"),
+  loserNextSlot: integer("loser_next_slot"),
+}, (table) => [
+  unique().on(table.tournamentId, table.bracket, table.round, table.position),
+]);
+
+// A standing ladder: players or pairs hold a rung each and move up by beating someone above them
+export const ladders = pgTable("ladders", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  matchFormat: text("match_format", { enum: matchFormats }).notNull().default("doubles"),
+  challengeRange: integer("challenge_range").notNull().default(3), // how many rungs up a challenge can reach
+  challengeDays: integer("challenge_days").notNull().default(7), // days a challenge has to be answered and played
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const ladderEntries = pgTable("ladder_entries", {
+  id: serial("id").primaryKey(),
+  ladderId: integer("ladder_id").notNull(),
+  position: integer("position").notNull(), // 1 is the top rung
+  player1Id: integer("player_1_id").notNull(),
+  player2Id: integer("player_2_id"), // empty in singles
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+});
+
+export const challengeStatuses = ["pending", "accepted", "declined", "completed", "forfeited", "expired"] as const;
+
+export const challenges = pgTable("challenges", {
+  id: serial("id").primaryKey(),
+  ladderId: integer("ladder_id").notNull(),
+  challengerEntryId: integer("challenger_entry_id").notNull(),
+  defenderEntryId: integer("defender_entry_id").notNull(),
+  status: text("status", { enum: challengeStatuses }).notNull().default("pending"),
+  issuedBy: integer("issued_by"),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  deadline: timestamp("deadline").notNull(),
+  respondedAt: timestamp("responded_at"),
+  resolvedAt: timestamp("resolved_at"), // when it was completed, declined, forfeited or expired
+  winnerEntryId: integer("winner_entry_id"), // a declined or unanswered challenge goes to the challenger
+  matchId: integer("match_id"), // the recorded match that settled it
+  // Rungs held when a match settled it. A win swaps them, and is only taken back while the two
+  // entries still hold each other's rung.
+  challengerPosition: integer("challenger_position"),
+  defenderPosition: integer("defender_position"),
+});
+
 export const insertPlayerSchema = createInsertSchema(players).pick({
   name: true,
   skillLevel: true,
@@ -47,24 +277,457 @@ export const insertPlayerSchema = createInsertSchema(players).pick({
   mobileNumber: z.string().min(10).max(15).regex(/^\+?[1-9]\d{1,14}$/, "Invalid mobile number format"),
 });
 
+// BWF rally scoring: a game goes to 21, must be won by 2, and is capped at 30 (30-29 wins)
+export function isValidGameScore(teamAScore: number, teamBScore: number): boolean {
+  const winning = Math.max(teamAScore, teamBScore);
+  const losing = Math.min(teamAScore, teamBScore);
+  if (winning === 21) return losing <= 19;
+  if (winning > 21 && winning < 30) return winning - losing === 2;
+  if (winning === 30) return losing === 28 || losing === 29;
+  return false;
+}
+
+export const gameScoreSchema = z.object({
+  teamAScore: z.number().int().min(0).max(30),
+  teamBScore: z.number().int().min(0).max(30),
+}).refine(game => isValidGameScore(game.teamAScore, game.teamBScore), {
+  message: "Games are played to 21, won by 2 and capped at 30",
+});
+
+// A match is a single game or best of three, and stops as soon as a team has won two games
+export const matchGamesSchema = z.array(gameScoreSchema).min(1).max(3).superRefine((games, ctx) => {
+  if (games.length === 1) return;
+  let teamAGames = 0;
+  let teamBGames = 0;
+  games.forEach((game, index) => {
+    if (teamAGames === 2 || teamBGames === 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: "The match was already decided before this game" });
+    }
+    if (game.teamAScore > game.teamBScore) teamAGames++;
+    else teamBGames++;
+  });
+  if (teamAGames < 2 && teamBGames < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A best-of-three match needs a team to win two games" });
+  }
+});
+
+export type MatchFormat = typeof matchFormats[number];
+export type Discipline = typeof disciplines[number];
+
+export const matchFormatLabels: Record<MatchFormat, string> = {
+  doubles: "Doubles",
+  mens_doubles: "Men's Doubles",
+  womens_doubles: "Women's Doubles",
+  mixed_doubles: "Mixed Doubles",
+  singles: "Singles",
+};
+
+export function disciplineOf(format: MatchFormat): Discipline {
+  return format === "singles" ? "singles" : "doubles";
+}
+
+export function teamSizeOf(format: MatchFormat): number {
+  return format === "singles" ? 1 : 2;
+}
+
+// Why a line-up can't be played in a format, or null if it can
+export function lineupError(format: MatchFormat, teamA: number[], teamB: number[]): string | null {
+  const teamSize = teamSizeOf(format);
+  if (teamA.length !== teamSize || teamB.length !== teamSize) {
+    return teamSize === 1
+      ? "A singles match needs one player on each side"
+      : `A ${matchFormatLabels[format].toLowerCase()} match needs two players on each side`;
+  }
+  if (new Set([...teamA, ...teamB]).size !== teamA.length + teamB.length) {
+    return "All players must be different";
+  }
+  return null;
+}
+
 export const insertMatchSchema = createInsertSchema(matches).pick({
-  teamAPlayer1Id: true,
-  teamAPlayer2Id: true,
-  teamBPlayer1Id: true,
-  teamBPlayer2Id: true,
-  teamAScore: true,
-  teamBScore: true,
-  winnerId: true,
+  format: true,
+  sessionId: true,
+}).extend({
+  format: z.enum(matchFormats).default("doubles"),
+  sessionId: z.number().nullable().optional(),
+  // Player IDs on each side, in position order
+  teamA: z.array(z.number()).min(1).max(2),
+  teamB: z.array(z.number()).min(1).max(2),
+  games: matchGamesSchema, // the winner and point totals are derived from these
+});
+
+// A match recorded after the fact (seeded or imported), played at a given time
+export const historicalMatchSchema = insertMatchSchema.extend({
+  playedAt: z.coerce.date(),
+});
+
+// Past results pasted from a spreadsheet. Names are matched to players, and `playerMap` settles the
+// ones that needed review (keyed by the name as written). Numeric dates are read day first unless
+// `dateOrder` is "mdy".
+export const matchImportRequestSchema = z.object({
+  csv: z.string().min(1, "The CSV is empty"),
+  dateOrder: z.enum(["dmy", "mdy"]).default("dmy"),
+  playerMap: z.record(z.string(), z.number().int().positive()).default({}),
+  skipInvalid: z.boolean().default(false), // import the valid rows and leave the rest out
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).pick({
+  date: true,
+  venue: true,
+  courtCount: true,
+  organizerId: true,
+  notes: true,
+}).extend({
+  date: z.coerce.date(),
+  venue: z.string().trim().min(1, "Venue is required"),
+  courtCount: z.number().int().min(1).max(20),
+  organizerId: z.number().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  attendeeIds: z.array(z.number()).default([]),
+});
+
+export const insertTournamentSchema = createInsertSchema(tournaments).pick({
+  name: true,
+  format: true,
+  matchFormat: true,
+  seeding: true,
+  groupCount: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  format: z.enum(tournamentFormats),
+  matchFormat: z.enum(matchFormats).default("doubles"),
+  seeding: z.enum(tournamentSeedings).default("rating"),
+  groupCount: z.number().int().min(1).max(8).default(1),
+});
+
+export const tournamentTeamSchema = z.object({
+  playerIds: z.array(z.number()).min(1).max(2),
+});
+
+export const insertLadderSchema = createInsertSchema(ladders).pick({
+  name: true,
+  matchFormat: true,
+  challengeRange: true,
+  challengeDays: true,
 }).extend({
-  teamAScore: z.number().min(0),
-  teamBScore: z.number().min(0),
-  winnerId: z.number().min(1).max(2),
+  name: z.string().trim().min(1, "Name is required"),
+  matchFormat: z.enum(matchFormats).default("doubles"),
+  challengeRange: z.number().int().min(1).max(10).default(3),
+  challengeDays: z.number().int().min(1).max(60).default(7),
+});
+
+export const ladderEntrySchema = z.object({
+  playerIds: z.array(z.number()).min(1).max(2),
+});
+
+export const issueChallengeSchema = z.object({
+  challengerEntryId: z.number(),
+  defenderEntryId: z.number(),
+});
+
+export const updateClubSettingsSchema = z.object({
+  skillAdjustmentMode: z.enum(skillAdjustmentModes),
+});
+
+// Version of the JSON backup written by GET /api/export; bump it when the layout changes
+export const CLUB_ARCHIVE_VERSION = 2;
+
+const archivedIdSchema = z.number().int().positive();
+
+// A club backup keyed by the IDs of the club it came from. Ratings and per-match snapshots are
+// left out: they are derived, and rebuilt by a replay when the archive is imported. Version 1
+// archives had no tournaments or ladders and still import.
+export const clubArchiveSchema = z.object({
+  version: z.union([z.literal(1), z.literal(CLUB_ARCHIVE_VERSION)]),
+  exportedAt: z.coerce.date(),
+  settings: z.object({
+    skillAdjustmentMode: z.enum(skillAdjustmentModes),
+    skillPolicy: skillPolicySchema,
+  }),
+  players: z.array(z.object({
+    id: archivedIdSchema,
+    name: z.string().trim().min(1),
+    skillLevel: z.number().int().min(1).max(10),
+    originalSkillLevel: z.number().int().min(1).max(10).nullable(),
+    previousSkillLevel: z.number().int().min(1).max(10).nullable(),
+    role: z.enum(["manager", "player"]),
+    mobileNumber: z.string().min(1),
+    isActive: z.boolean(),
+    lastSkillUpdate: z.coerce.date().nullable(),
+  })),
+  sessions: z.array(z.object({
+    id: archivedIdSchema,
+    date: z.coerce.date(),
+    venue: z.string().trim().min(1),
+    courtCount: z.number().int().min(1).max(20),
+    organizerId: archivedIdSchema.nullable(),
+    notes: z.string().nullable(),
+    createdAt: z.coerce.date(),
+  })),
+  sessionAttendees: z.array(z.object({
+    sessionId: archivedIdSchema,
+    playerId: archivedIdSchema,
+    checkedInAt: z.coerce.date(),
+    checkedInBy: archivedIdSchema.nullable(),
+    checkedOutAt: z.coerce.date().nullable(),
+  })),
+  matches: z.array(z.object({
+    id: archivedIdSchema,
+    format: z.enum(matchFormats),
+    sessionId: archivedIdSchema.nullable(),
+    playedAt: z.coerce.date(),
+    teamA: z.array(archivedIdSchema),
+    teamB: z.array(archivedIdSchema),
+    // Matches recorded before games were tracked only have these totals
+    teamAScore: z.number().int().min(0),
+    teamBScore: z.number().int().min(0),
+    games: z.array(z.object({ teamAScore: z.number().int(), teamBScore: z.number().int() })),
+  })),
+  skillLevelChanges: z.array(z.object({
+    playerId: archivedIdSchema,
+    oldLevel: z.number().int().min(1).max(10),
+    newLevel: z.number().int().min(1).max(10),
+    cause: z.enum(["auto", "approved", "manual", "reset", "recalculation"]),
+    matchId: archivedIdSchema.nullable(),
+    changedBy: archivedIdSchema.nullable(),
+    createdAt: z.coerce.date(),
+  })),
+  skillProposals: z.array(z.object({
+    playerId: archivedIdSchema,
+    matchId: archivedIdSchema,
+    oldLevel: z.number().int().min(1).max(10),
+    newLevel: z.number().int().min(1).max(10),
+    reason: z.string(),
+    status: z.enum(skillProposalStatuses),
+    createdAt: z.coerce.date(),
+    decidedBy: archivedIdSchema.nullable(),
+    decidedAt: z.coerce.date().nullable(),
+  })),
+  tournaments: z.array(z.object({
+    id: archivedIdSchema,
+    name: z.string().trim().min(1),
+    format: z.enum(tournamentFormats),
+    matchFormat: z.enum(matchFormats),
+    seeding: z.enum(tournamentSeedings),
+    groupCount: z.number().int().min(1),
+    status: z.enum(tournamentStatuses),
+    createdBy: archivedIdSchema.nullable(),
+    createdAt: z.coerce.date(),
+    startedAt: z.coerce.date().nullable(),
+  })).default([]),
+  tournamentTeams: z.array(z.object({
+    id: archivedIdSchema,
+    tournamentId: archivedIdSchema,
+    player1Id: archivedIdSchema,
+    player2Id: archivedIdSchema.nullable(),
+    seed: z.number().int().min(1).nullable(),
+    groupNumber: z.number().int().min(1).nullable(),
+    createdAt: z.coerce.date(),
+  })).default([]),
+  tournamentMatches: z.array(z.object({
+    id: archivedIdSchema,
+    tournamentId: archivedIdSchema,
+    bracket: z.enum(tournamentBrackets),
+    round: z.number().int().min(1),
+    position: z.number().int().min(1),
+    groupNumber: z.number().int().min(1).nullable(),
+    teamAId: archivedIdSchema.nullable(),
+    teamBId: archivedIdSchema.nullable(),
+    winnerTeamId: archivedIdSchema.nullable(),
+    matchId: archivedIdSchema.nullable(),
+    winnerNextMatchId: archivedIdSchema.nullable(),
+    winnerNextSlot: z.number().int().min(1).max(2).nullable(),
+    loserNextMatchId: archivedIdSchema.nullable(),
+    loserNextSlot: z.number().int().min(1).max(2).nullable(),
+  })).default([]),
+  ladders: z.array(z.object({
+    id: archivedIdSchema,
+    name: z.string().trim().min(1),
+    matchFormat: z.enum(matchFormats),
+    challengeRange: z.number().int().min(1),
+    challengeDays: z.number().int().min(1),
+    createdAt: z.coerce.date(),
+  })).default([]),
+  ladderEntries: z.array(z.object({
+    id: archivedIdSchema,
+    ladderId: archivedIdSchema,
+    position: z.number().int().min(1),
+    player1Id: archivedIdSchema,
+    player2Id: archivedIdSchema.nullable(),
+    joinedAt: z.coerce.date(),
+  })).default([]),
+  challenges: z.array(z.object({
+    ladderId: archivedIdSchema,
+    challengerEntryId: archivedIdSchema,
+    defenderEntryId: archivedIdSchema,
+    status: z.enum(challengeStatuses),
+    issuedBy: archivedIdSchema.nullable(),
+    issuedAt: z.coerce.date(),
+    deadline: z.coerce.date(),
+    respondedAt: z.coerce.date().nullable(),
+    resolvedAt: z.coerce.date().nullable(),
+    winnerEntryId: archivedIdSchema.nullable(),
+    matchId: archivedIdSchema.nullable(),
+    challengerPosition: z.number().int().min(1).nullable(),
+    defenderPosition: z.number().int().min(1).nullable(),
+  })).default([]),
 });
 
 export type Player = typeof players.$inferSelect;
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
 export type Match = typeof matches.$inferSelect;
 export type InsertMatch = z.infer<typeof insertMatchSchema>;
+export type HistoricalMatch = z.infer<typeof historicalMatchSchema>;
+export type MatchImportRequest = z.infer<typeof matchImportRequestSchema>;
+export type MatchGame = typeof matchGames.$inferSelect;
+export type GameScore = z.infer<typeof gameScoreSchema>;
+
+export type MatchParticipant = typeof matchParticipants.$inferSelect;
+
+// The legacy line-up columns are folded into teamA/teamB when a match is loaded
+type LegacyLineup = "teamAPlayer1Id" | "teamAPlayer2Id" | "teamBPlayer1Id" | "teamBPlayer2Id";
+
+export interface MatchDetails extends Omit<Match, LegacyLineup> {
+  teamA: number[]; // player IDs in position order
+  teamB: number[];
+  games: MatchGame[];
+}
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type SessionAttendee = typeof sessionAttendees.$inferSelect;
+export type Tournament = typeof tournaments.$inferSelect;
+export type InsertTournament = z.infer<typeof insertTournamentSchema>;
+export type TournamentFormat = typeof tournamentFormats[number];
+export type TournamentBracket = typeof tournamentBrackets[number];
+export type TournamentTeam = typeof tournamentTeams.$inferSelect;
+export type TournamentMatch = typeof tournamentMatches.$inferSelect;
+export type Ladder = typeof ladders.$inferSelect;
+export type InsertLadder = z.infer<typeof insertLadderSchema>;
+export type LadderEntry = typeof ladderEntries.$inferSelect;
+export type Challenge = typeof challenges.$inferSelect;
+export type ChallengeStatus = typeof challengeStatuses[number];
+export type PlayerRating = typeof playerRatings.$inferSelect;
+export type MatchSkillSnapshot = typeof matchSkillSnapshots.$inferSelect;
+export type SkillLevelChange = typeof skillLevelChanges.$inferSelect;
+export type SkillChangeCause = SkillLevelChange["cause"];
+export type ClubSettings = typeof clubSettings.$inferSelect;
+export type SkillAdjustmentMode = typeof skillAdjustmentModes[number];
+export type SkillProposal = typeof skillProposals.$inferSelect;
+export type SkillProposalStatus = typeof skillProposalStatuses[number];
+export type UpdateClubSettings = z.infer<typeof updateClubSettingsSchema>;
+export type ClubArchive = z.infer<typeof clubArchiveSchema>;
+
+// An archived record that already exists here: players by mobile number, sessions by date and venue,
+// matches by time and line-up, tournaments and ladders by name and creation time. It is merged into
+// the existing one rather than created again.
+export interface ClubImportConflict {
+  kind: "player" | "session" | "match" | "tournament" | "ladder" | "settings";
+  archiveId: number | null;
+  existingId: number | null;
+  message: string;
+}
+
+export interface ClubImportReport {
+  dryRun: boolean;
+  imported: boolean;
+  errors: string[]; // problems with the archive itself; any error stops the import
+  conflicts: ClubImportConflict[];
+  created: {
+    players: number;
+    sessions: number;
+    attendees: number;
+    matches: number;
+    skillLevelChanges: number;
+    skillProposals: number;
+    tournaments: number;
+    tournamentTeams: number;
+    tournamentMatches: number;
+    ladders: number;
+    ladderEntries: number;
+    challenges: number;
+  };
+  // Archive ID to ID in this club; records only the import creates are known after a dry run as null
+  idMap: {
+    players: Record<number, number | null>;
+    sessions: Record<number, number | null>;
+    matches: Record<number, number | null>;
+    tournaments: Record<number, number | null>;
+    ladders: Record<number, number | null>;
+  };
+}
+
+export interface PlayerNameSuggestion {
+  playerId: number;
+  name: string;
+  score: number; // similarity from 0 to 1
+}
+
+// A name in the CSV that isn't exactly one player's, with the likeliest players for review
+export interface UnmatchedPlayerName {
+  name: string;
+  rows: number;
+  suggestions: PlayerNameSuggestion[];
+}
+
+export interface MatchImportRow {
+  line: number; // line of the CSV the row starts on, the header being line 1
+  playedAt: Date | null;
+  format: MatchFormat | null;
+  teamA: string[]; // names as written
+  teamB: string[];
+  games: GameScore[];
+  status: "valid" | "invalid" | "duplicate"; // duplicates are already recorded and left out
+  errors: string[];
+}
+
+export interface MatchImportPreview {
+  errors: string[]; // problems with the file as a whole, such as a missing column
+  rows: MatchImportRow[];
+  unmatchedNames: UnmatchedPlayerName[];
+  valid: number;
+  invalid: number;
+  duplicates: number;
+}
+
+export interface MatchImportResult extends MatchImportPreview {
+  imported: number;
+}
+
+// A player whose level would differ if the whole history were replayed under a proposed policy
+export interface SkillPolicyPreview {
+  playerId: number;
+  name: string;
+  currentLevel: number;
+  projectedLevel: number;
+  proposedLevel: number | null; // in review mode, the change that would wait for a manager
+}
+
+export interface GamesSummary {
+  teamAGames: number;
+  teamBGames: number;
+  teamAPoints: number;
+  teamBPoints: number;
+  winnerId: 1 | 2;
+}
+
+export function summarizeGames(games: GameScore[]): GamesSummary {
+  const teamAGames = games.filter(game => game.teamAScore > game.teamBScore).length;
+  const teamBGames = games.length - teamAGames;
+  return {
+    teamAGames,
+    teamBGames,
+    teamAPoints: games.reduce((sum, game) => sum + game.teamAScore, 0),
+    teamBPoints: games.reduce((sum, game) => sum + game.teamBScore, 0),
+    winnerId: teamAGames > teamBGames ? 1 : 2,
+  };
+}
+
+// The games of a match; older matches only have a total score, which counts as one game
+export function gameScoresOf(match: Pick<Match, "teamAScore" | "teamBScore"> & { games?: GameScore[] }): GameScore[] {
+  return match.games && match.games.length > 0
+    ? match.games
+    : [{ teamAScore: match.teamAScore, teamBScore: match.teamBScore }];
+}
 
 export interface PlayerStats {
   playerId: number;
@@ -80,10 +743,16 @@ export interface PlayerStats {
   pointsFor: number;
   pointsAgainst: number;
   pointDifference: number;
+  gamesWon: number;
+  gamesLost: number;
+  pointsPerGame: number;
   suggestedSkillLevel?: number;
   suggestion?: "increase" | "decrease" | "maintain";
   suggestionReason?: string;
   recentPerformance?: "improving" | "declining" | "stable";
+  rating: number;
+  ratingDeviation: number;
+  ratingLevel: number; // 1-10 band derived from the rating
 }
 
 export interface AuthUser {
@@ -108,6 +777,16 @@ export interface OtpVerify {
   code: string;
 }
 
+export type OtpSendResult =
+  | { status: "sent"; expiresInSeconds: number; resendInSeconds: number }
+  | { status: "cooldown"; retryAfterSeconds: number }
+  | { status: "failed" };
+
+export type OtpVerifyResult =
+  | { status: "verified" }
+  | { status: "invalid"; attemptsRemaining: number }
+  | { status: "expired" };
+
 export const otpRequestSchema = z.object({
   playerId: z.number(),
 });
@@ -128,14 +807,276 @@ export interface TeamStats {
   pointsFor: number;
   pointsAgainst: number;
   pointDifference: number;
+  gamesWon: number;
+  gamesLost: number;
+  pointsPerGame: number;
 }
 
 export interface StatsResponse {
-  playerStats: PlayerStats[];
+  playerStats: PlayerStats[]; // only those with at least minMatches in the window
   teamStats: TeamStats[];
   totalMatches: number;
   activePlayers: number;
   weeklyMatches: number;
+  minMatches: number;
+  unrankedPlayers: number; // played in the window but too few matches to be ranked
+  unrankedTeams: number;
+}
+
+// Narrows the stats to one format, a date window (from inclusive, to exclusive) or one club night
+export const statsFilterSchema = z.object({
+  format: z.enum(matchFormats).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sessionId: z.coerce.number().int().positive().optional(),
+});
+
+export type StatsFilter = z.infer<typeof statsFilterSchema>;
+
+export function inStatsWindow(match: Pick<Match, "format" | "playedAt" | "sessionId">, filter: StatsFilter): boolean {
+  const playedAt = new Date(match.playedAt);
+  if (filter.format && match.format !== filter.format) return false;
+  if (filter.from && playedAt < filter.from) return false;
+  if (filter.to && playedAt >= filter.to) return false;
+  if (filter.sessionId !== undefined && match.sessionId !== filter.sessionId) return false;
+  return true;
+}
+
+// One row of a leaderboard built from a set of matches
+export interface Standing {
+  playerId: number;
+  name: string;
+  matches: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  pointDifference: number;
+}
+
+// A player's record alongside (partners) or against (opponents) one other player
+export interface PlayerConnection {
+  playerId: number;
+  name: string;
+  matches: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  pointDifference: number;
+  ratingDelta: number; // rating the player gained or lost over these matches
+}
+
+// "a" and "b" are comma-separated player ids: one player each, or a whole team
+const playerIdList = z.string()
+  .transform(value => value.split(",").map(id => parseInt(id.trim())))
+  .pipe(z.array(z.number().int().positive()).min(1).max(2));
+
+export const headToHeadQuerySchema = z.object({
+  a: playerIdList,
+  b: playerIdList,
+}).refine(({ a, b }) => !a.some(id => b.includes(id)), { message: "A player cannot be on both sides" });
+
+export interface HeadToHead {
+  teamA: number[];
+  teamB: number[];
+  matches: number;
+  teamAWins: number;
+  teamBWins: number;
+  pointDifference: number; // from team A's side
+  ratingDelta: number; // rating team A's players gained on average over these matches
+  history: MatchDetails[]; // most recent first
+}
+
+// One match from a player's point of view
+export interface PlayerMatchResult {
+  match: MatchDetails;
+  won: boolean;
+  pointsFor: number;
+  pointsAgainst: number;
+  ratingDelta: number | null; // null until the match has been rated
+}
+
+export interface Streak {
+  result: "win" | "loss";
+  length: number;
+}
+
+// Where a player stands with automatic skill level adjustment, which only follows doubles results
+export interface AutoAdjustStatus {
+  doublesMatches: number; // rated doubles matches
+  matchesNeeded: number; // doubles matches still to play before the level moves by itself
+  mode: "collecting" | "suggesting" | "automatic";
+  review: boolean; // changes wait for a manager's approval instead of applying by themselves
+  suggestedLevel: number | null; // the band the doubles rating is in, once there are enough rated matches
+}
+
+export interface PlayerProfile {
+  stats: PlayerStats;
+  history: PlayerMatchResult[]; // most recent first
+  currentStreak: Streak | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  autoAdjust: AutoAdjustStatus;
+}
+
+export interface SessionSummary extends Session {
+  attendeeIds: number[]; // everyone who checked in at some point
+  presentIds: number[]; // checked in and not yet checked out
+  matchCount: number;
+}
+
+export interface SessionDetails extends SessionSummary {
+  attendees: SessionAttendee[];
+  matches: MatchDetails[];
+  leaderboard: Standing[];
+}
+
+export const tournamentFormatLabels: Record<TournamentFormat, string> = {
+  round_robin: "Round Robin",
+  single_elimination: "Single Elimination",
+  double_elimination: "Double Elimination",
+};
+
+export const tournamentStatusLabels: Record<Tournament["status"], string> = {
+  registration: "Registration",
+  in_progress: "In progress",
+  completed: "Completed",
+};
+
+// Players of a tournament team or ladder entry
+export function teamPlayerIds(team: { player1Id: number; player2Id: number | null }): number[] {
+  return team.player2Id !== null ? [team.player1Id, team.player2Id] : [team.player1Id];
+}
+
+export interface TournamentSummary extends Tournament {
+  teamCount: number;
+}
+
+// Scores are from the point of view of the tournament match's Team A and Team B
+export interface TournamentMatchDetails extends TournamentMatch {
+  teamAScore: number | null;
+  teamBScore: number | null;
+  games: GameScore[];
+}
+
+export interface TeamStanding {
+  teamId: number;
+  seed: number | null;
+  matches: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifference: number;
+}
+
+export interface TournamentDetails extends TournamentSummary {
+  teams: TournamentTeam[];
+  matches: TournamentMatchDetails[];
+  standings: { groupNumber: number | null; rows: TeamStanding[] }[]; // one table per group, or one overall
+}
+
+export interface LadderSummary extends Ladder {
+  entryCount: number;
+}
+
+export interface LadderDetails extends LadderSummary {
+  entries: LadderEntry[]; // top rung first
+  challenges: Challenge[]; // open ones, then the most recently settled
+}
+
+export const checkInSchema = z.object({
+  playerId: z.number().optional(), // defaults to the logged-in player
+});
+
+export interface AttendanceSummary {
+  playerId: number;
+  sessionsAttended: number;
+  totalSessions: number;
+  attendanceRate: number; // percentage of all sessions
+  lastAttended: Date | null;
+}
+
+export interface AttendanceRecord {
+  sessionId: number;
+  date: Date;
+  venue: string;
+  checkedInAt: Date;
+  checkedOutAt: Date | null;
+  matchesPlayed: number;
+}
+
+export interface PlayerAttendance extends AttendanceSummary {
+  history: AttendanceRecord[];
+}
+
+export const startLiveMatchSchema = z.object({
+  // Live scoring follows the doubles rules: service courts and rotation need a pair on each side
+  format: z.literal("doubles", { errorMap: () => ({ message: "Live scoring is for doubles matches only" }) }).default("doubles"),
+  // Each team's players are listed right court first, as they stand for the first serve
+  teamAPlayer1Id: z.number(),
+  teamAPlayer2Id: z.number(),
+  teamBPlayer1Id: z.number(),
+  teamBPlayer2Id: z.number(),
+  sessionId: z.number().nullable().optional(),
+  bestOf: z.union([z.literal(1), z.literal(3)]).default(3),
+  servingTeam: z.union([z.literal(1), z.literal(2)]).default(1),
+});
+
+export const rallySchema = z.object({
+  winner: z.union([z.literal(1), z.literal(2)]),
+});
+
+export type StartLiveMatch = z.infer<typeof startLiveMatchSchema>;
+
+export interface LiveMatchState {
+  id: number;
+  format: "doubles";
+  teamA: [number, number];
+  teamB: [number, number];
+  sessionId: number | null;
+  bestOf: 1 | 3;
+  games: GameScore[]; // completed games
+  currentGame: GameScore;
+  servingTeam: 1 | 2;
+  serverId: number;
+  receiverId: number;
+  serviceCourt: "right" | "left";
+  rallyCount: number;
+  status: "in_progress" | "finished";
+  winnerId: 1 | 2 | null;
+  matchId: number | null; // set once the result has been saved as a match
+  createdAt: Date;
+}
+
+export const scheduleRequestSchema = z.object({
+  sessionId: z.number(),
+  rounds: z.number().int().min(1).max(30).default(6),
+  courts: z.number().int().min(1).max(20).optional(), // defaults to the session's court count
+  seed: z.number().int().optional(),
+});
+
+export type ScheduleRequest = z.infer<typeof scheduleRequestSchema>;
+
+export interface ScheduledGame {
+  court: number;
+  teamA: [number, number];
+  teamB: [number, number];
+  teamASkill: number; // Sum of both players' skill levels
+  teamBSkill: number;
+}
+
+export interface ScheduledRound {
+  round: number;
+  games: ScheduledGame[];
+  sittingOut: number[];
+}
+
+export interface CourtSchedule {
+  sessionId: number;
+  courts: number;
+  playerIds: number[]; // the pool the schedule was generated from
+  rounds: ScheduledRound[];
 }
 
 export interface DoublesTeam {
@@ -143,35 +1084,38 @@ export interface DoublesTeam {
   player2: Player;
   balanceLevel: "Balanced" | "Unbalanced";
   skillScore: number; // Sum of both players' skill levels
+  ratingScore: number; // Sum of both players' ratings
+}
+
+export interface ProposedMatchup {
+  teamA: DoublesTeam;
+  teamB: DoublesTeam;
+  skillDifference: number; // Gap between the two teams' skill scores
+  ratingDifference: number; // Gap between the two teams' rating scores, which the pairing balances
+  teamAWinProbability: number; // 0-1, from the players' ratings
+}
+
+export interface MatchupsResponse {
+  matchups: ProposedMatchup[];
+  unmatched: Player[]; // Left over when the players don't divide into games of four
 }
 
 // Database relations
 export const playersRelations = relations(players, ({ many }) => ({
-  teamAPlayer1Matches: many(matches, { relationName: "teamAPlayer1" }),
-  teamAPlayer2Matches: many(matches, { relationName: "teamAPlayer2" }),
-  teamBPlayer1Matches: many(matches, { relationName: "teamBPlayer1" }),
-  teamBPlayer2Matches: many(matches, { relationName: "teamBPlayer2" }),
+  matchParticipations: many(matchParticipants),
 }));
 
-export const matchesRelations = relations(matches, ({ one }) => ({
-  teamAPlayer1: one(players, {
-    fields: [matches.teamAPlayer1Id],
-    references: [players.id],
-    relationName: "teamAPlayer1",
-  }),
-  teamAPlayer2: one(players, {
-    fields: [matches.teamAPlayer2Id],
-    references: [players.id],
-    relationName: "teamAPlayer2",
-  }),
-  teamBPlayer1: one(players, {
-    fields: [matches.teamBPlayer1Id],
-    references: [players.id],
-    relationName: "teamBPlayer1",
+export const matchesRelations = relations(matches, ({ many }) => ({
+  participants: many(matchParticipants),
+}));
+
+export const matchParticipantsRelations = relations(matchParticipants, ({ one }) => ({
+  match: one(matches, {
+    fields: [matchParticipants.matchId],
+    references: [matches.id],
   }),
-  teamBPlayer2: one(players, {
-    fields: [matches.teamBPlayer2Id],
+  player: one(players, {
+    fields: [matchParticipants.playerId],
     references: [players.id],
-    relationName: "teamBPlayer2",
   }),
 }));
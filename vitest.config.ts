@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import os from "os";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Route tests run against the in-memory backend and log in with codes read back from an SMS outbox file
+    env: {
+      STORAGE: "memory",
+      SMS_PROVIDER: "file",
+      SMS_OUTBOX_FILE: path.join(os.tmpdir(), `kbc-test-sms-${process.pid}.log`),
+    },
+    testTimeout: 30000,
+  },
+});